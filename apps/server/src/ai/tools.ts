@@ -8,29 +8,73 @@ import { z } from 'zod';
 import { eq, and, gte, lte, sql } from 'drizzle-orm';
 import type { DrizzleD1Database } from '@ai-chart/database';
 import { records, metrics, schema } from '@ai-chart/database';
-import { MetricItemSchema } from '@ai-chart/shared';
-import { saveRecordData, saveMultipleRecords, updateRecordData, deleteRecordData } from '../services/record-data';
+import { MetricItemSchema, listDomainIds, listDomains } from '@ai-chart/shared';
+import {
+  saveRecordData,
+  saveMultipleRecords,
+  updateRecordData,
+  deleteRecordData,
+  describeDuplicate,
+  DUPLICATE_ACTIONS,
+} from '../services/record-data';
+import { getMetricTrend } from '../services/metric-trend';
+import { ANALYTICS_GROUP_BY, getMetricAnalytics } from '../services/analytics';
+import { getSpendingBreakdown } from '../services/spending';
+import { getBudgetReport } from '../services/budgets';
+import { getReminderItems } from '../services/reminders';
+
+/**
+ * How save tools handle a possible duplicate (shared by save_record and save_records)
+ */
+const onDuplicateSchema = z
+  .enum(DUPLICATE_ACTIONS)
+  .default('report')
+  .describe(
+    'What to do if the data looks like an existing record: "report" (default) saves nothing and returns the match; ' +
+      'after asking the user, retry with "skip" (keep existing), "merge" (update existing record\'s metrics) or "force" (save a new record anyway)',
+  );
+
+/**
+ * Hooks the caller can attach to tool side effects
+ */
+export interface ToolOptions {
+  /** Called with the IDs of records created or merged by save_record / save_records */
+  onRecordsSaved?: (recordIds: string[]) => Promise<void>;
+  /** Keeps alert delivery running after the response (the request's executionCtx.waitUntil) */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
 
 /**
  * Get AI tools for database interaction
  * @param db - Drizzle database instance
+ * @param userId - Authenticated user; every tool reads and writes only this user's records
+ * @param options - Optional hooks (e.g., attaching the chat image to saved records)
  * @returns Object containing AI tools
  */
-export function getTools(db: DrizzleD1Database<typeof schema>) {
+export function getTools(
+  db: DrizzleD1Database<typeof schema>,
+  userId: string,
+  options: ToolOptions = {},
+) {
+  // Record types come from the domain registry, so new domains are available to every tool
+  const recordTypeSchema = z.enum(listDomainIds());
+  const domainGuide = listDomains()
+    .map((d) => `"${d.id}" (${d.description}; statuses: ${d.statuses.map((s) => s.value).join(', ')})`)
+    .join('; ');
+
   return {
     /**
-     * Query health or finance records within a date range
+     * Query records of a domain within a date range
      */
     query_records: tool({
       description:
-        'Query health or finance records within a date range. Returns records with their associated metrics. Use this to get detailed health data for analysis.',
+        'Query records of one type (health, finance, ...) within a date range. Returns records with their associated metrics. Use this to get detailed data for analysis.',
       inputSchema: z.object({
         startDate: z.string().describe('Start date in ISO format (YYYY-MM-DD)'),
         endDate: z.string().describe('End date in ISO format (YYYY-MM-DD)'),
-        type: z.enum(['health', 'finance']).describe('Type of records to query'),
-        userId: z.string().optional().describe('User ID to filter by (optional)'),
+        type: recordTypeSchema.describe('Type of records to query'),
       }),
-      execute: async ({ startDate, endDate, type, userId }) => {
+      execute: async ({ startDate, endDate, type }) => {
         try {
           // Convert dates to timestamps
           const startTimestamp = new Date(startDate);
@@ -38,15 +82,12 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
 
           // Build query conditions
           const conditions = [
+            eq(records.userId, userId),
             eq(records.type, type),
             gte(records.date, startTimestamp),
             lte(records.date, endTimestamp),
           ];
 
-          if (userId) {
-            conditions.push(eq(records.userId, userId));
-          }
-
           // Query records
           const results = await db
             .select()
@@ -84,108 +125,259 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
     }),
 
     /**
-     * Get trend data for a specific health metric over time
+     * Get trend data for a specific metric over time
      */
     get_metric_trend: tool({
       description:
-        'Get trend data for a specific health metric (like WBC, Cholesterol, etc.) over time. Returns time series data showing how the metric changed.',
+        'Get trend data for a specific metric (like WBC, Cholesterol, distance, electricity_usage, etc.) over time. Returns time series data showing how the metric changed. ' +
+        'All values are returned in one unit (the metric\'s standard unit unless another is requested).',
       inputSchema: z.object({
         metricKey: z
           .string()
           .describe('The metric name to track (e.g., "WBC", "Cholesterol", "ALT")'),
         startDate: z.string().describe('Start date in ISO format (YYYY-MM-DD)'),
         endDate: z.string().describe('End date in ISO format (YYYY-MM-DD)'),
-        userId: z.string().optional().describe('User ID to filter by (optional)'),
+        unit: z
+          .string()
+          .optional()
+          .describe('Unit to return values in (e.g., "mg/dL"); defaults to the metric\'s standard unit'),
       }),
-      execute: async ({ metricKey, startDate, endDate, userId }) => {
+      execute: async ({ metricKey, startDate, endDate, unit }) => {
         try {
-          const startTimestamp = new Date(startDate);
-          const endTimestamp = new Date(endDate);
-
-          // Query metrics with record dates
-          const query = db
-            .select({
-              date: records.date,
-              value: metrics.value,
-              unit: metrics.unit,
-              status: metrics.status,
-              category: records.category,
-            })
-            .from(metrics)
-            .innerJoin(records, eq(metrics.recordId, records.id))
-            .where(
-              and(
-                eq(metrics.key, metricKey),
-                gte(records.date, startTimestamp),
-                lte(records.date, endTimestamp),
-                userId ? eq(records.userId, userId) : sql`1=1`,
-              ),
-            )
-            .orderBy(records.date);
-
-          const results = await query;
+          const result = await getMetricTrend(db, userId, {
+            metricKey,
+            startDate: new Date(startDate),
+            endDate: new Date(endDate),
+            unit,
+          });
 
-          if (results.length === 0) {
+          if (result.count === 0) {
             return {
               success: true,
-              metricKey,
+              metricKey: result.metricKey,
               count: 0,
-              message: `No data found for metric "${metricKey}" in the specified date range`,
+              message: `No data found for metric "${result.metricKey}" in the specified date range`,
               trend: [],
             };
           }
 
-          // Calculate trend statistics
-          const values = results.map((r) => r.value);
-          const average = values.reduce((sum, val) => sum + val, 0) / values.length;
-          const min = Math.min(...values);
-          const max = Math.max(...values);
+          return { success: true, ...result };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get metric trend',
+          };
+        }
+      },
+    }),
+
+    /**
+     * Aggregate a metric or category by period over the whole history (SQL)
+     */
+    get_metric_analytics: tool({
+      description:
+        'Get statistics of a metric or a metric category grouped by day, week, month or year: count, sum, average, min, max, median and 90th percentile per period, ' +
+        'moving averages and year-over-year changes, plus overall statistics. Computed over the whole history (or the given range), not a sample. ' +
+        'Use for questions like "average monthly spending on food", "how has my resting heart rate changed year over year", "median cholesterol by year".',
+      inputSchema: z.object({
+        metricKey: z
+          .string()
+          .optional()
+          .describe('The metric to aggregate (e.g., "WBC", "Cholesterol", "electricity_usage")'),
+        categoryTag: z
+          .string()
+          .optional()
+          .describe('Aggregate every metric of this category instead (e.g., finance "food_drink", "transport")'),
+        groupBy: z.enum(ANALYTICS_GROUP_BY).default('month').describe('Period to group values by'),
+        type: recordTypeSchema.optional().describe('Only records of this type'),
+        status: z
+          .string()
+          .optional()
+          .describe('Only metrics with this status (e.g., "expense" or "income" for finance)'),
+        startDate: z.string().optional().describe('Start date in ISO format (YYYY-MM-DD); omit for the whole history'),
+        endDate: z.string().optional().describe('End date in ISO format (YYYY-MM-DD); omit for today'),
+        unit: z.string().optional().describe('Only values in this unit (defaults to the most common unit)'),
+        window: z.number().int().min(1).max(24).default(3).describe('Periods per moving average'),
+      }),
+      execute: async ({ metricKey, categoryTag, startDate, endDate, ...options }) => {
+        if (!metricKey === !categoryTag) {
+          return { success: false, error: 'Provide exactly one of metricKey and categoryTag' };
+        }
+
+        try {
+          const result = await getMetricAnalytics(db, userId, {
+            ...options,
+            metricKey,
+            categoryTag,
+            startDate: startDate ? new Date(startDate) : undefined,
+            endDate: endDate ? new Date(endDate) : undefined,
+          });
+
+          if (!result.overall) {
+            return {
+              success: true,
+              ...result,
+              message: `No data found for ${metricKey ? `metric "${result.metricKey}"` : `category "${categoryTag}"`} in the specified date range`,
+            };
+          }
+
+          return { success: true, ...result };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get metric analytics',
+          };
+        }
+      },
+    }),
+
+    /**
+     * Break down finance income and spending by period, category and merchant
+     */
+    get_spending_breakdown: tool({
+      description:
+        'Get a breakdown of finance records: income vs expense totals per period, spending per category (line items are never counted twice), ' +
+        'top merchants, and the change of the latest month against the month before. ' +
+        'Use for questions like "where did my money go last month", "how much did I spend on transport this year", "which shops do I spend most at".',
+      inputSchema: z.object({
+        groupBy: z.enum(ANALYTICS_GROUP_BY).default('month').describe('Period to group income and expense by'),
+        startDate: z.string().optional().describe('Start date in ISO format (YYYY-MM-DD); omit for the whole history'),
+        endDate: z.string().optional().describe('End date in ISO format (YYYY-MM-DD); omit for today'),
+        currency: z.string().optional().describe('Only amounts in this currency (defaults to the most common one)'),
+        merchantLimit: z.number().min(1).max(50).default(10).describe('Number of top merchants to return'),
+      }),
+      execute: async ({ startDate, endDate, ...options }) => {
+        try {
+          const result = await getSpendingBreakdown(db, userId, {
+            ...options,
+            startDate: startDate ? new Date(startDate) : undefined,
+            endDate: endDate ? new Date(endDate) : undefined,
+          });
+
+          if (result.periods.length === 0) {
+            return {
+              success: true,
+              ...result,
+              message: 'No income or expenses found in the specified date range',
+            };
+          }
+
+          return { success: true, ...result };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get spending breakdown',
+          };
+        }
+      },
+    }),
+
+    /**
+     * Spending of a month against the user's category budgets
+     */
+    get_budget_status: tool({
+      description:
+        'Get the user\'s monthly budgets per finance category with the month\'s spending against each: spent, remaining, percent used, ' +
+        'level ("ok", "warning" or "critical" at the budget\'s thresholds) and, for the current month, the projected spending by month end. ' +
+        'Use for questions like "how am I doing on groceries this month" or "am I over budget".',
+      inputSchema: z.object({
+        categoryTag: z
+          .string()
+          .optional()
+          .describe(
+            'Only the budget of this category (e.g., "food_drink" for groceries); omit to get every budget, e.g. when unsure which category the user means',
+          ),
+        month: z
+          .string()
+          .regex(/^\d{4}-(0[1-9]|1[0-2])$/)
+          .optional()
+          .describe('Month in YYYY-MM format; omit for the current month'),
+      }),
+      execute: async ({ categoryTag, month }) => {
+        try {
+          const result = await getBudgetReport(db, userId, { categoryTag, month });
+
+          if (result.budgets.length === 0) {
+            return {
+              success: true,
+              ...result,
+              message: categoryTag
+                ? `No budget is set for category "${categoryTag}"`
+                : 'No budgets are set. The user can add them on the Spending page.',
+            };
+          }
+
+          return { success: true, ...result };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get budget status',
+          };
+        }
+      },
+    }),
+
+    /**
+     * Get due and overdue periodic records (checkups, recurring bills)
+     */
+    get_reminders: tool({
+      description:
+        'Get when the next record of each periodic category is expected (e.g., annual physical, quarterly HbA1c, monthly utility bill), ' +
+        'with the cadence (set by the user or inferred from the record history), the last record date, the due date and a status: ' +
+        '"ok", "upcoming", "due" or "overdue". Use for questions like "what checkups are due" or "which bills are coming up".',
+      inputSchema: z.object({
+        type: recordTypeSchema.optional().describe('Only categories of this record type'),
+        includeOk: z
+          .boolean()
+          .default(false)
+          .describe('Also return categories that are not due soon (default: only upcoming, due and overdue)'),
+      }),
+      execute: async ({ type, includeOk }) => {
+        try {
+          const items = await getReminderItems(db, userId, { recordType: type });
+          const selected = includeOk ? items : items.filter((item) => item.status !== 'ok');
+
+          if (selected.length === 0) {
+            return {
+              success: true,
+              items: [],
+              message:
+                items.length === 0
+                  ? 'No periodic categories yet: a cadence is inferred once a category has 3 regularly spaced records, or the user can set one on the dashboard.'
+                  : `Nothing is due soon (${items.length} periodic categories tracked)`,
+            };
+          }
 
           return {
             success: true,
-            metricKey,
-            count: results.length,
-            statistics: {
-              average,
-              min,
-              max,
-              unit: results[0]?.unit || null,
-            },
-            trend: results.map((r) => ({
-              date: r.date,
-              value: r.value,
-              unit: r.unit,
-              status: r.status,
-              category: r.category,
+            items: selected.map((item) => ({
+              ...item,
+              lastDate: item.lastDate?.toISOString().split('T')[0] ?? null,
+              dueDate: item.dueDate.toISOString().split('T')[0],
             })),
           };
         } catch (error) {
           return {
             success: false,
-            error: error instanceof Error ? error.message : 'Failed to get metric trend',
+            error: error instanceof Error ? error.message : 'Failed to get reminders',
           };
         }
       },
     }),
 
     /**
-     * Get latest health records summary
+     * Get latest records summary
      */
     get_latest_records: tool({
       description:
-        'Get the most recent health or finance records. Returns a summary of the latest data.',
+        'Get the most recent records of one type (health, finance, ...). Returns a summary of the latest data.',
       inputSchema: z.object({
-        type: z.enum(['health', 'finance']).describe('Type of records to query'),
+        type: recordTypeSchema.describe('Type of records to query'),
         limit: z.number().min(1).max(10).default(5).describe('Number of records to return (1-10)'),
-        userId: z.string().optional().describe('User ID to filter by (optional)'),
       }),
-      execute: async ({ type, limit, userId }) => {
+      execute: async ({ type, limit }) => {
         try {
-          const conditions = [eq(records.type, type)];
-
-          if (userId) {
-            conditions.push(eq(records.userId, userId));
-          }
+          const conditions = [eq(records.userId, userId), eq(records.type, type)];
 
           const results = await db
             .select()
@@ -233,7 +425,7 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
             'The props for the component. \n' +
               '- MetricCard: { label, value, unit?, trend?, description? }\n' +
               '- TrendChart: { title, type: "line"|"bar", data: { name, value }[] }\n' +
-              '- RecordForm: { initialData: { id, title, date, metrics: { key, name, value, unit? }[] } }',
+              '- RecordForm: { initialData: { id, title, date, metrics: { key, name, value, unit?, confidence?, sourceText? }[] } }',
           ),
       }),
       execute: async ({ component, props, contentType }) => {
@@ -247,13 +439,13 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
     }),
 
     /**
-     * Save a new health or finance record to the database
+     * Save a new record to the database
      */
     save_record: tool({
       description:
-        'Save a new health or finance record with its metrics to the database. Use this after extracting data from an image or when the user provides data to save. Returns the new record ID.',
+        'Save a new record (health, finance, fitness, ...) with its metrics to the database. Metric statuses must be allowed by the record type. Use this after extracting data from an image or when the user provides data to save. Returns the new record ID.',
       inputSchema: z.object({
-        type: z.enum(['health', 'finance']).describe('Type of record'),
+        type: recordTypeSchema.describe(`Type of record: ${domainGuide}`),
         title: z
           .string()
           .optional()
@@ -262,20 +454,44 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
         date: z.string().describe('Record date in ISO format (YYYY-MM-DD)'),
         summary: z.number().optional().describe('Key summary value for quick charting'),
         items: z.array(MetricItemSchema).describe('List of metric items to save'),
+        onDuplicate: onDuplicateSchema,
       }),
-      execute: async ({ type, title, category, date, summary, items }) => {
+      execute: async ({ type, title, category, date, summary, items, onDuplicate }) => {
         try {
-          const { recordId, itemsCount } = await saveRecordData(
+          const { recordId, itemsCount, status, duplicateOf, statusCorrections } = await saveRecordData(
             db,
             { type, title, category, date, summary, items },
-            'default-user',
+            userId,
             'chat',
+            { onDuplicate, waitUntil: options.waitUntil },
           );
+
+          if (status === 'duplicate' && duplicateOf) {
+            return {
+              success: false,
+              duplicate: true,
+              duplicateOf,
+              message: `${describeDuplicate(duplicateOf)}. Nothing was saved. Ask the user whether to skip, merge or force-save, then call save_record again with onDuplicate.`,
+            };
+          }
+
+          if (recordId && status !== 'skipped') {
+            await options.onRecordsSaved?.([recordId]);
+          }
+
+          const messages = {
+            created: `Record saved successfully with ${itemsCount} metrics`,
+            merged: `Merged ${itemsCount} metrics into existing record ${recordId}`,
+            skipped: `Skipped: the data is already saved as record ${recordId}`,
+          };
           return {
             success: true,
             recordId,
             itemsCount,
-            message: `Record saved successfully with ${itemsCount} metrics`,
+            status,
+            // Statuses recomputed from reference ranges — mention these to the user
+            ...(statusCorrections ? { statusCorrections } : {}),
+            message: messages[status as keyof typeof messages],
           };
         } catch (error) {
           return {
@@ -297,7 +513,7 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
       inputSchema: z.object({
         records: z.array(
           z.object({
-            type: z.enum(['health', 'finance']).describe('Type of record'),
+            type: recordTypeSchema.describe('Type of record'),
             title: z.string().optional().describe('Human-readable title (e.g., "Blood Test - 2024 Annual")'),
             category: z.string().describe('Category (e.g., "blood_test", "urine_test", "liver_function")'),
             date: z.string().describe('Record date in ISO format (YYYY-MM-DD)'),
@@ -305,22 +521,45 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
             items: z.array(MetricItemSchema).describe('List of metric items for this record'),
           }),
         ).min(1).describe('Array of records to save, each with its own category and metrics'),
+        onDuplicate: onDuplicateSchema,
       }),
-      execute: async ({ records: recordsData }) => {
+      execute: async ({ records: recordsData, onDuplicate }) => {
         try {
           const results = await saveMultipleRecords(
             db,
             recordsData,
-            'default-user',
+            userId,
             'chat',
+            { onDuplicate, waitUntil: options.waitUntil },
+          );
+
+          const duplicates = results.flatMap((r) =>
+            r.status === 'duplicate' && r.duplicateOf ? [`${r.category}: ${describeDuplicate(r.duplicateOf)}`] : [],
           );
-          const totalMetrics = results.reduce((sum, r) => sum + r.itemsCount, 0);
+          if (duplicates.length > 0) {
+            return {
+              success: false,
+              duplicate: true,
+              records: results,
+              message:
+                duplicates.join('; ') +
+                '. Nothing was saved. Ask the user whether to skip, merge or force-save, then call save_records again with onDuplicate.',
+            };
+          }
+
+          const saved = results.filter((r) => r.status !== 'skipped');
+          await options.onRecordsSaved?.(saved.flatMap((r) => (r.recordId ? [r.recordId] : [])));
+          const totalMetrics = saved.reduce((sum, r) => sum + r.itemsCount, 0);
+          const skippedCount = results.length - saved.length;
           return {
             success: true,
-            savedCount: results.length,
+            savedCount: saved.length,
+            skippedCount,
             totalMetrics,
             records: results,
-            message: `Saved ${results.length} records with ${totalMetrics} total metrics`,
+            message:
+              `Saved ${saved.length} records with ${totalMetrics} total metrics` +
+              (skippedCount > 0 ? ` (${skippedCount} skipped as duplicates)` : ''),
           };
         } catch (error) {
           return {
@@ -354,7 +593,7 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
           const existing = await db
             .select({ id: records.id })
             .from(records)
-            .where(eq(records.id, recordId))
+            .where(and(eq(records.id, recordId), eq(records.userId, userId)))
             .limit(1);
           if (existing.length === 0) {
             return { success: false, error: `Record with ID "${recordId}" not found` };
@@ -389,7 +628,7 @@ export function getTools(db: DrizzleD1Database<typeof schema>) {
           const existing = await db
             .select({ id: records.id, title: records.title, category: records.category })
             .from(records)
-            .where(eq(records.id, recordId))
+            .where(and(eq(records.id, recordId), eq(records.userId, userId)))
             .limit(1);
           if (existing.length === 0) {
             return { success: false, error: `Record with ID "${recordId}" not found` };
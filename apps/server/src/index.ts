@@ -4,15 +4,32 @@ import { sharedVersion } from '@ai-chart/shared';
 import { aiCoreVersion } from '@ai-chart/ai-core';
 import { createDb } from '@ai-chart/database';
 
-// Chat route
+// Auth
+import authRoute from './routes/auth';
+import { requireAuth } from './middleware/auth';
+
+// Chat routes
 import chatRoute from './routes/chat';
+import chatsRoute from './routes/chats';
 
-// Domain-specific routes
-import healthUploadRoute from './routes/health/upload';
-import healthRecordsRoute from './routes/health/records';
-import financeUploadRoute from './routes/finance/upload';
-import financeRecordsRoute from './routes/finance/records';
+// Domain routes (one set of routes serves every registered domain)
+import domainsRoute from './routes/domains';
+import domainUploadRoute from './routes/domain/upload';
+import domainRecordsRoute from './routes/domain/records';
+import domainExtractTextRoute from './routes/domain/extract-text';
 import recordsRoute from './routes/records';
+import metricsRoute from './routes/metrics';
+import analyticsRoute from './routes/analytics';
+import budgetsRoute from './routes/budgets';
+import notificationsRoute from './routes/notifications';
+import remindersRoute from './routes/reminders';
+import calendarRoute from './routes/calendar';
+import attachmentsRoute from './routes/attachments';
+import draftsRoute from './routes/drafts';
+import promptsRoute from './routes/prompts';
+import settingsRoute from './routes/settings';
+import usageRoute from './routes/usage';
+import adminRoute from './routes/admin';
 
 /**
  * Environment bindings for Cloudflare Workers
@@ -20,6 +37,7 @@ import recordsRoute from './routes/records';
 interface Env {
   DB: D1Database;
   DEFAULT_PROVIDER?: string;
+  FALLBACK_PROVIDERS?: string;
   GOOGLE_GENERATIVE_AI_API_KEY?: string;
   OPENAI_API_KEY?: string;
   ANTHROPIC_API_KEY?: string;
@@ -28,21 +46,49 @@ interface Env {
   CLOUDFLARE_ACCOUNT_ID?: string;
   CLOUDFLARE_API_KEY?: string;
   AI?: unknown; // Cloudflare Workers AI binding (optional)
+  ATTACHMENTS?: R2Bucket; // Original document storage (optional, in-memory fallback)
+  ADMIN_EMAILS?: string; // Comma-separated administrator emails
+  RATE_LIMITER?: DurableObjectNamespace; // Rate limit counters (optional, preferred)
+  RATE_LIMIT_KV?: KVNamespace; // Rate limit counters (optional, approximate)
 }
 
 const app = new Hono<{ Bindings: Env }>();
 
 app.use('/*', cors());
 
-// Domain-specific API routes
-app.route('/api/health/upload', healthUploadRoute);
-app.route('/api/health/records', healthRecordsRoute);
-app.route('/api/finance/upload', financeUploadRoute);
-app.route('/api/finance/records', financeRecordsRoute);
+// Public auth endpoints (register, login); /me and /logout check the session themselves
+app.route('/api/auth', authRoute);
+
+// Public calendar feeds; the secret token in the URL identifies the user
+app.route('/api/calendar', calendarRoute);
+
+// Every other API route is scoped to the authenticated user
+app.use('/api/*', requireAuth);
+
+app.route('/api/domains', domainsRoute);
 app.route('/api/records', recordsRoute);
+app.route('/api/metrics', metricsRoute);
+app.route('/api/analytics', analyticsRoute);
+app.route('/api/budgets', budgetsRoute);
+app.route('/api/notifications', notificationsRoute);
+app.route('/api/reminders', remindersRoute);
+app.route('/api/attachments', attachmentsRoute);
+app.route('/api/drafts', draftsRoute);
+app.route('/api/prompts', promptsRoute);
+app.route('/api/settings', settingsRoute);
+app.route('/api/usage', usageRoute);
 
-// Chat route
+// Admin routes (administrators only)
+app.route('/api/admin', adminRoute);
+
+// Chat routes
 app.route('/api/chat', chatRoute);
+app.route('/api/chats', chatsRoute);
+
+// Domain-scoped routes (/api/health/upload, /api/finance/records, ...); unknown domains get 404
+app.route('/api/:domain/upload', domainUploadRoute);
+app.route('/api/:domain/records', domainRecordsRoute);
+app.route('/api/:domain/extract-text', domainExtractTextRoute);
 
 // Root endpoint
 app.get('/', (c) => {
@@ -50,15 +96,73 @@ app.get('/', (c) => {
     message: 'AI-Chart API Server',
     version: '0.1.0',
     endpoints: {
-      health: {
-        upload: '/api/health/upload',
-        records: '/api/health/records',
+      auth: {
+        register: '/api/auth/register',
+        login: '/api/auth/login',
+        logout: '/api/auth/logout',
+        me: '/api/auth/me',
+      },
+      domains: {
+        list: '/api/domains',
+        upload: '/api/:domain/upload',
+        records: '/api/:domain/records',
+        extractText: '/api/:domain/extract-text',
+      },
+      records: '/api/records',
+      metricTrend: '/api/metrics/:key/trend',
+      analytics: {
+        summary: '/api/analytics/summary',
+        metric: '/api/analytics/metrics/:key',
+        category: '/api/analytics/categories/:tag',
+        spending: '/api/analytics/spending',
       },
-      finance: {
-        upload: '/api/finance/upload',
-        records: '/api/finance/records',
+      budgets: {
+        list: '/api/budgets',
+        detail: '/api/budgets/:id',
+      },
+      notifications: {
+        list: '/api/notifications',
+        read: '/api/notifications/:id/read',
+        readAll: '/api/notifications/read-all',
+        rules: '/api/notifications/rules',
+        rule: '/api/notifications/rules/:id',
+        settings: '/api/notifications/settings',
+      },
+      reminders: {
+        list: '/api/reminders',
+        detail: '/api/reminders/:id',
+        feed: '/api/reminders/feed',
+        calendar: '/api/calendar/:token.ics',
       },
       chat: '/api/chat',
+      chats: '/api/chats',
+      attachments: '/api/attachments/:id',
+      drafts: {
+        list: '/api/drafts',
+        detail: '/api/drafts/:id',
+        file: '/api/drafts/:id/file',
+        approve: '/api/drafts/:id/approve',
+        approveBatch: '/api/drafts/approve',
+        reject: '/api/drafts/:id/reject',
+      },
+      prompts: {
+        list: '/api/prompts',
+        update: '/api/prompts/:domain',
+        preview: '/api/prompts/:domain/preview',
+      },
+      settings: {
+        providers: '/api/settings/providers',
+        models: '/api/settings/models',
+      },
+      usage: {
+        daily: '/api/usage',
+        budget: '/api/usage/budget',
+      },
+      admin: {
+        metricKeys: '/api/admin/metric-keys',
+        mergeMetricKeys: '/api/admin/metric-keys/merge',
+        normalizeMetricKeys: '/api/admin/metric-keys/normalize',
+      },
       system: {
         health: '/health',
         dbTest: '/db-test',
@@ -98,3 +202,6 @@ app.get('/db-test', (c) => {
 });
 
 export default app;
+
+// Durable Object classes (bound in wrangler.toml)
+export { RateLimiter } from './services/rate-limit-store';
@@ -0,0 +1,78 @@
+/**
+ * Auth Middleware
+ * Resolves the session token on each request and exposes the authenticated user
+ */
+
+import { createMiddleware } from 'hono/factory';
+import { createDb } from '@ai-chart/database';
+import { getSessionUser, type AuthUser } from '../services/auth';
+
+/**
+ * Context variables set by requireAuth
+ */
+export interface AuthVariables {
+  user: AuthUser;
+}
+
+/**
+ * Read the session token from the Authorization header ("Bearer <token>")
+ */
+export function getBearerToken(authorization: string | undefined): string | null {
+  if (!authorization?.startsWith('Bearer ')) {
+    return null;
+  }
+  return authorization.slice('Bearer '.length).trim() || null;
+}
+
+/**
+ * Reject requests without a valid session; sets `user` on the context otherwise
+ */
+export const requireAuth = createMiddleware<{
+  Bindings: { DB: D1Database };
+  Variables: AuthVariables;
+}>(async (c, next) => {
+  const token = getBearerToken(c.req.header('Authorization'));
+
+  if (!token) {
+    return c.json(
+      { success: false, error: 'Unauthorized', message: 'Authentication required' },
+      401,
+    );
+  }
+
+  const db = createDb(c.env.DB);
+  const user = await getSessionUser(db, token);
+
+  if (!user) {
+    return c.json(
+      { success: false, error: 'Unauthorized', message: 'Session is invalid or has expired' },
+      401,
+    );
+  }
+
+  c.set('user', user);
+  await next();
+});
+
+/**
+ * Allow only administrators (emails listed in the comma-separated ADMIN_EMAILS variable)
+ * Must run after requireAuth.
+ */
+export const requireAdmin = createMiddleware<{
+  Bindings: { ADMIN_EMAILS?: string };
+  Variables: AuthVariables;
+}>(async (c, next) => {
+  const adminEmails = (c.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!adminEmails.includes(c.get('user').email.toLowerCase())) {
+    return c.json(
+      { success: false, error: 'Forbidden', message: 'Administrator access required' },
+      403,
+    );
+  }
+
+  await next();
+});
@@ -0,0 +1,26 @@
+/**
+ * Body Limit Middleware
+ * Rejects oversized requests before their body is read, with the API's 413 error format
+ */
+
+import type { Context } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
+import { formatBytes } from '../utils/file';
+
+/**
+ * 413 response in the API's error format
+ */
+export function payloadTooLarge(c: Context, message: string) {
+  return c.json({ success: false, error: 'Payload too large', message }, 413);
+}
+
+/**
+ * Reject request bodies larger than `maxBytes` (413)
+ * Checks Content-Length up front and counts streamed bytes when it is missing.
+ */
+export function limitBodySize(maxBytes: number) {
+  return bodyLimit({
+    maxSize: maxBytes,
+    onError: (c) => payloadTooLarge(c, `Request body must be at most ${formatBytes(maxBytes)}`),
+  });
+}
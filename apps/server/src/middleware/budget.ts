@@ -0,0 +1,35 @@
+/**
+ * Budget Middleware
+ * Blocks AI calls once the user's estimated spending of the month reaches their budget
+ */
+
+import { createMiddleware } from 'hono/factory';
+import { createDb } from '@ai-chart/database';
+import { getBudgetStatus } from '../services/usage';
+import type { AuthVariables } from './auth';
+
+/**
+ * Reject requests that would call a model when the monthly budget is exhausted (402)
+ * Must run after requireAuth; users without a budget are never blocked.
+ */
+export const requireBudget = createMiddleware<{
+  Bindings: { DB: D1Database };
+  Variables: AuthVariables;
+}>(async (c, next) => {
+  const db = createDb(c.env.DB);
+  const budget = await getBudgetStatus(db, c.get('user').id);
+
+  if (budget.exceeded) {
+    return c.json(
+      {
+        success: false,
+        error: 'Budget exceeded',
+        message: `The monthly AI budget of $${budget.monthlyLimitUsd?.toFixed(2)} has been reached ($${budget.spentUsd.toFixed(2)} spent since ${budget.periodStart}). Raise the budget in Settings to continue.`,
+        budget,
+      },
+      402,
+    );
+  }
+
+  await next();
+});
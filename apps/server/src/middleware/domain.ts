@@ -0,0 +1,39 @@
+/**
+ * Domain Middleware
+ * Resolves the :domain path parameter of domain-scoped routes against the domain registry
+ */
+
+import { createMiddleware } from 'hono/factory';
+import { getDomainConfig, listDomainConfigs, type DomainConfig } from '@ai-chart/ai-core';
+
+/**
+ * Context variables set by requireDomain
+ */
+export interface DomainVariables {
+  domain: DomainConfig;
+}
+
+/**
+ * Reject unknown domains (404); sets `domain` on the context otherwise
+ * Only domains with extraction prompts are served, as every domain route may extract data.
+ */
+export const requireDomain = createMiddleware<{ Variables: DomainVariables }>(async (c, next) => {
+  const id = c.req.param('domain');
+  const domains = listDomainConfigs();
+
+  if (!id || !domains.some((domain) => domain.id === id)) {
+    return c.json(
+      {
+        success: false,
+        error: 'Unknown domain',
+        message: `Domain "${id}" is not registered. Available domains: ${domains
+          .map((domain) => domain.id)
+          .join(', ')}`,
+      },
+      404,
+    );
+  }
+
+  c.set('domain', getDomainConfig(id));
+  await next();
+});
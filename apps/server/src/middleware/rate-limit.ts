@@ -0,0 +1,114 @@
+/**
+ * Rate Limit Middleware
+ * Fixed-window request limits per user and per client IP, counted in the configured store
+ * (see services/rate-limit-store)
+ */
+
+import { createMiddleware } from 'hono/factory';
+import { getRateLimitStore, type RateLimitStoreEnv } from '../services/rate-limit-store';
+import type { AuthVariables } from './auth';
+
+/**
+ * A request limit over a time window
+ */
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Limits of a group of routes (requests of every route of the group share the counters)
+ */
+export interface RateLimitRule {
+  /** Counter namespace (e.g., "chat") */
+  name: string;
+  /** Limit per authenticated user */
+  perUser?: RateLimit;
+  /** Limit per client IP (shared by every account behind the address) */
+  perIp?: RateLimit;
+}
+
+/**
+ * Limits of the routes that call a model, and of the password routes (per IP only, since
+ * nobody is signed in yet; each attempt runs PBKDF2)
+ */
+export const RATE_LIMITS = {
+  chat: {
+    name: 'chat',
+    perUser: { limit: 20, windowMs: 60_000 },
+    perIp: { limit: 60, windowMs: 60_000 },
+  },
+  extraction: {
+    name: 'extraction',
+    perUser: { limit: 10, windowMs: 60_000 },
+    perIp: { limit: 30, windowMs: 60_000 },
+  },
+  auth: {
+    name: 'auth',
+    perIp: { limit: 10, windowMs: 60_000 },
+  },
+} satisfies Record<string, RateLimitRule>;
+
+/**
+ * Client IP of a request (Cloudflare sets CF-Connecting-IP; X-Forwarded-For covers local proxies)
+ */
+export function getClientIp(headers: { header(name: string): string | undefined }): string {
+  return (
+    headers.header('CF-Connecting-IP') ??
+    headers.header('X-Forwarded-For')?.split(',')[0]?.trim() ??
+    'unknown'
+  );
+}
+
+/**
+ * Reject requests over the rule's limits (429 with Retry-After); sets X-RateLimit-* headers
+ * of the most constrained limit otherwise. Rules with a per-user limit must run after requireAuth.
+ */
+export function rateLimit(rule: RateLimitRule) {
+  return createMiddleware<{ Bindings: RateLimitStoreEnv; Variables: AuthVariables }>(
+    async (c, next) => {
+      const store = getRateLimitStore(c.env);
+      const checks = [
+        rule.perUser && { scope: 'user', id: c.get('user').id, ...rule.perUser },
+        rule.perIp && { scope: 'ip', id: getClientIp(c.req), ...rule.perIp },
+      ].filter((check) => !!check);
+
+      let tightest: { limit: number; remaining: number; resetAt: number } | null = null;
+      for (const check of checks) {
+        const { count, resetAt } = await store.hit(
+          `${rule.name}:${check.scope}:${check.id}`,
+          check.windowMs,
+        );
+
+        if (count > check.limit) {
+          const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+          c.header('Retry-After', String(retryAfter));
+          return c.json(
+            {
+              success: false,
+              error: 'Too many requests',
+              message: `Rate limit of ${check.limit} requests per ${check.windowMs / 1000} seconds ${
+                check.scope === 'user' ? 'per user' : 'per IP address'
+              } exceeded. Try again in ${retryAfter} seconds.`,
+              retryAfter,
+            },
+            429,
+          );
+        }
+
+        const remaining = check.limit - count;
+        if (!tightest || remaining < tightest.remaining) {
+          tightest = { limit: check.limit, remaining, resetAt };
+        }
+      }
+
+      if (tightest) {
+        c.header('X-RateLimit-Limit', String(tightest.limit));
+        c.header('X-RateLimit-Remaining', String(tightest.remaining));
+        c.header('X-RateLimit-Reset', String(Math.ceil(tightest.resetAt / 1000)));
+      }
+
+      await next();
+    },
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Admin API Route
+ * Maintenance operations across all users' data (restricted to ADMIN_EMAILS)
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createDb } from '@ai-chart/database';
+import { isRegisteredDomain } from '@ai-chart/shared';
+import { listMetricKeys, mergeMetricKeys, normalizeMetricKeys } from '../services/metric-keys';
+import { requireAdmin, type AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+  ADMIN_EMAILS?: string;
+}
+
+const MergeKeysSchema = z.object({
+  type: z.string().refine(isRegisteredDomain, 'Unknown record type'),
+  from: z.array(z.string().min(1)).min(1),
+  to: z.string().min(1),
+  name: z.string().min(1).optional(),
+});
+
+export const adminRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+adminRoute.use('*', requireAdmin);
+
+/**
+ * GET /api/admin/metric-keys — Stored metric keys with usage counts and canonical keys
+ * Query params: type (only count metrics of that record type)
+ */
+adminRoute.get('/metric-keys', async (c) => {
+  try {
+    const type = c.req.query('type');
+    if (type && !isRegisteredDomain(type)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `Unknown record type "${type}"`,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const keys = await listMetricKeys(db, type);
+
+    return c.json({ success: true, data: keys });
+  } catch (error) {
+    console.error('List metric keys error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to list metric keys',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/admin/metric-keys/merge — Merge one or more keys of a record type into a target key
+ * Body: { type: string, from: string[], to: string, name?: string }
+ */
+adminRoute.post('/metric-keys/merge', async (c) => {
+  try {
+    const parsed = MergeKeysSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message:
+            '"type" (record type), "from" (non-empty array of keys) and "to" (target key) are required',
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const { type, from, to, name } = parsed.data;
+    const metricsUpdated = await mergeMetricKeys(db, type, from, to, name);
+
+    return c.json({
+      success: true,
+      metricsUpdated,
+      message: `Merged ${metricsUpdated} metrics into "${to}"`,
+    });
+  } catch (error) {
+    console.error('Merge metric keys error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to merge metric keys',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/admin/metric-keys/normalize — Merge every stored key of a record type into its
+ * canonical key
+ * Query params: type (required), dryRun=true to only list the planned merges
+ */
+adminRoute.post('/metric-keys/normalize', async (c) => {
+  try {
+    const type = c.req.query('type');
+    if (!type || !isRegisteredDomain(type)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: type ? `Unknown record type "${type}"` : '"type" (record type) is required',
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const dryRun = c.req.query('dryRun') === 'true';
+    const merges = await normalizeMetricKeys(db, type, dryRun);
+
+    return c.json({ success: true, type, dryRun, merges });
+  } catch (error) {
+    console.error('Normalize metric keys error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to normalize metric keys',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default adminRoute;
@@ -0,0 +1,172 @@
+/**
+ * Analytics API Route
+ * SQL aggregations over the current user's whole history: record totals, per-period
+ * statistics of a metric or a metric category (see services/analytics) and the finance
+ * spending breakdown (see services/spending)
+ */
+
+import { Hono, type Context } from 'hono';
+import { z } from 'zod';
+import { createDb } from '@ai-chart/database';
+import { isRegisteredDomain } from '@ai-chart/shared';
+import {
+  ANALYTICS_GROUP_BY,
+  getMetricAnalytics,
+  getRecordsSummary,
+  type AnalyticsQuery,
+} from '../services/analytics';
+import { getSpendingBreakdown } from '../services/spending';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+}
+
+type AnalyticsContext = Context<{ Bindings: Env; Variables: AuthVariables }>;
+
+const AnalyticsParamsSchema = z.object({
+  groupBy: z.enum(ANALYTICS_GROUP_BY).default('month'),
+  type: z.string().refine(isRegisteredDomain, 'Unknown record type').optional(),
+  status: z.string().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  unit: z.string().optional(),
+  window: z.coerce.number().int().min(1).max(24).default(3),
+});
+
+const SpendingParamsSchema = z.object({
+  groupBy: z.enum(ANALYTICS_GROUP_BY).default('month'),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  currency: z.string().optional(),
+  merchants: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const analyticsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/analytics/summary — Record totals over the whole history
+ * Query params: type
+ */
+analyticsRoute.get('/summary', async (c) => {
+  try {
+    const type = c.req.query('type');
+    if (type && !isRegisteredDomain(type)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `Unknown record type "${type}"`,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const data = await getRecordsSummary(db, c.get('user').id, type);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Get records summary error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get records summary',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * GET /api/analytics/metrics/:key — Per-period statistics of a metric
+ * Query params: groupBy (day|week|month|year), type, status, startDate, endDate, unit, window
+ */
+analyticsRoute.get('/metrics/:key', (c) => runAnalytics(c, { metricKey: c.req.param('key') }));
+
+/**
+ * GET /api/analytics/categories/:tag — Per-period statistics of a metric category
+ * (e.g., finance "food_drink"); same query params as /metrics/:key
+ */
+analyticsRoute.get('/categories/:tag', (c) => runAnalytics(c, { categoryTag: c.req.param('tag') }));
+
+/**
+ * GET /api/analytics/spending — Finance income vs expense per period, by category and merchant
+ * Query params: groupBy (day|week|month|year), startDate, endDate, currency, merchants (1-50)
+ */
+analyticsRoute.get('/spending', async (c) => {
+  try {
+    const parsed = SpendingParamsSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `groupBy must be one of ${ANALYTICS_GROUP_BY.join(', ')}, merchants 1-50 and dates ISO 8601`,
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const { merchants, ...query } = parsed.data;
+    const db = createDb(c.env.DB);
+    const data = await getSpendingBreakdown(db, c.get('user').id, {
+      ...query,
+      merchantLimit: merchants,
+    });
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Get spending breakdown error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get spending breakdown',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * Validate the query params and run the aggregation
+ */
+async function runAnalytics(
+  c: AnalyticsContext,
+  target: Pick<AnalyticsQuery, 'metricKey' | 'categoryTag'>,
+) {
+  try {
+    const parsed = AnalyticsParamsSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `groupBy must be one of ${ANALYTICS_GROUP_BY.join(', ')}, window 1-24, dates ISO 8601 and type a registered domain`,
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const data = await getMetricAnalytics(db, c.get('user').id, { ...parsed.data, ...target });
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Get analytics error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get analytics',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+}
+
+export default analyticsRoute;
@@ -0,0 +1,54 @@
+/**
+ * Attachments API Route
+ * Serves the original documents records were extracted from
+ */
+
+import { Hono } from 'hono';
+import { createDb } from '@ai-chart/database';
+import { getAttachment, getFileResponseHeaders } from '../services/attachments';
+import { getBlobStorage } from '../services/blob-storage';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+  ATTACHMENTS?: R2Bucket;
+}
+
+export const attachmentsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/attachments/:id — Original file content (inline for images and PDFs)
+ */
+attachmentsRoute.get('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const attachment = await getAttachment(db, c.get('user').id, c.req.param('id'));
+
+    if (!attachment) {
+      return c.json({ success: false, error: 'Attachment not found' }, 404);
+    }
+
+    const blob = await getBlobStorage(c.env).get(attachment.storageKey);
+    if (!blob) {
+      return c.json({ success: false, error: 'Attachment file is no longer available' }, 404);
+    }
+
+    return c.body(
+      blob.body,
+      200,
+      getFileResponseHeaders(attachment.fileName, blob.contentType, blob.size),
+    );
+  } catch (error) {
+    console.error('Get attachment error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get attachment',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default attachmentsRoute;
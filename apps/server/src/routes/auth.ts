@@ -0,0 +1,143 @@
+/**
+ * Auth API Route
+ * Registration, login, logout and current-user lookup
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createDb } from '@ai-chart/database';
+import { registerUser, authenticateUser, createSession, deleteSession } from '../services/auth';
+import { requireAuth, getBearerToken, type AuthVariables } from '../middleware/auth';
+import { rateLimit, RATE_LIMITS } from '../middleware/rate-limit';
+
+interface Env {
+  DB: D1Database;
+}
+
+const RegisterSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1).max(100),
+  password: z.string().min(8).max(200),
+});
+
+const LoginSchema = z.object({
+  email: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const authRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+// Registration and login are unauthenticated: limit attempts per IP
+authRoute.use('/register', rateLimit(RATE_LIMITS.auth));
+authRoute.use('/login', rateLimit(RATE_LIMITS.auth));
+
+/**
+ * POST /api/auth/register — Create an account and start a session
+ */
+authRoute.post('/register', async (c) => {
+  try {
+    const parsed = RegisterSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'A valid email, a name and a password of at least 8 characters are required',
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const user = await registerUser(db, parsed.data);
+    const { token, expiresAt } = await createSession(db, user.id);
+
+    return c.json({ success: true, token, expiresAt, user });
+  } catch (error) {
+    console.error('Register error:', error);
+
+    if (error instanceof Error && error.message.includes('already registered')) {
+      return c.json({ success: false, error: 'Conflict', message: error.message }, 409);
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to register',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/auth/login — Exchange credentials for a session token
+ */
+authRoute.post('/login', async (c) => {
+  try {
+    const parsed = LoginSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: 'Validation error', message: 'Email and password are required' },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const user = await authenticateUser(db, parsed.data.email, parsed.data.password);
+
+    if (!user) {
+      return c.json(
+        { success: false, error: 'Unauthorized', message: 'Invalid email or password' },
+        401,
+      );
+    }
+
+    const { token, expiresAt } = await createSession(db, user.id);
+
+    return c.json({ success: true, token, expiresAt, user });
+  } catch (error) {
+    console.error('Login error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to log in',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/auth/logout — Invalidate the current session
+ */
+authRoute.post('/logout', requireAuth, async (c) => {
+  try {
+    const token = getBearerToken(c.req.header('Authorization'));
+    if (token) {
+      await deleteSession(createDb(c.env.DB), token);
+    }
+    return c.json({ success: true, message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to log out',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * GET /api/auth/me — Current user
+ */
+authRoute.get('/me', requireAuth, (c) => {
+  return c.json({ success: true, user: c.get('user') });
+});
+
+export default authRoute;
@@ -0,0 +1,211 @@
+/**
+ * Budgets API Route
+ * Monthly limits per finance category of the current user, and their progress
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createDb } from '@ai-chart/database';
+import {
+  createBudget,
+  deleteBudget,
+  findBudget,
+  getBudget,
+  getBudgetReport,
+  updateBudget,
+} from '../services/budgets';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const BudgetFieldsSchema = z.object({
+  categoryTag: z.string().trim().min(1).max(64),
+  monthlyLimit: z.number().positive().max(1_000_000_000),
+  currency: z.string().trim().min(1).max(10),
+  warningPercent: z.number().int().min(1).max(1000),
+  criticalPercent: z.number().int().min(1).max(1000),
+});
+
+const CreateBudgetSchema = BudgetFieldsSchema.extend({
+  currency: BudgetFieldsSchema.shape.currency.default('USD'),
+  warningPercent: BudgetFieldsSchema.shape.warningPercent.default(80),
+  criticalPercent: BudgetFieldsSchema.shape.criticalPercent.default(100),
+});
+
+const UpdateBudgetSchema = BudgetFieldsSchema.partial();
+
+const VALIDATION_MESSAGE =
+  'categoryTag is required, monthlyLimit must be a positive amount and warningPercent (1-1000) must be below criticalPercent (1-1000)';
+
+export const budgetsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/budgets — Budgets with their progress in a month
+ * Query params: month (YYYY-MM, default: the current month)
+ */
+budgetsRoute.get('/', async (c) => {
+  try {
+    const month = c.req.query('month');
+    if (month && !MONTH_PATTERN.test(month)) {
+      return c.json(
+        { success: false, error: 'Validation error', message: 'month must be YYYY-MM' },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const data = await getBudgetReport(db, c.get('user').id, { month });
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Get budgets error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get budgets',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/budgets — Create a budget
+ * Body: { categoryTag, monthlyLimit, currency?, warningPercent?, criticalPercent? }
+ */
+budgetsRoute.post('/', async (c) => {
+  try {
+    const parsed = CreateBudgetSchema.safeParse(await c.req.json());
+    if (!parsed.success || parsed.data.warningPercent >= parsed.data.criticalPercent) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: VALIDATION_MESSAGE,
+          details: parsed.error?.message,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const { categoryTag, currency } = parsed.data;
+    if (await findBudget(db, userId, categoryTag, currency)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Budget already exists',
+          message: `There is already a ${currency} budget for "${categoryTag}"`,
+        },
+        409,
+      );
+    }
+
+    const data = await createBudget(db, userId, parsed.data);
+
+    return c.json({ success: true, data }, 201);
+  } catch (error) {
+    console.error('Create budget error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to create budget',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PUT /api/budgets/:id — Update a budget
+ * Body: any of { categoryTag, monthlyLimit, currency, warningPercent, criticalPercent }
+ */
+budgetsRoute.put('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const budget = await getBudget(db, userId, c.req.param('id'));
+
+    if (!budget) {
+      return c.json({ success: false, error: 'Budget not found' }, 404);
+    }
+
+    const parsed = UpdateBudgetSchema.safeParse(await c.req.json());
+    const updated = parsed.success ? { ...budget, ...parsed.data } : budget;
+    if (!parsed.success || updated.warningPercent >= updated.criticalPercent) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: VALIDATION_MESSAGE,
+          details: parsed.error?.message,
+        },
+        400,
+      );
+    }
+
+    const existing = await findBudget(db, userId, updated.categoryTag, updated.currency);
+    if (existing && existing.id !== budget.id) {
+      return c.json(
+        {
+          success: false,
+          error: 'Budget already exists',
+          message: `There is already a ${updated.currency} budget for "${updated.categoryTag}"`,
+        },
+        409,
+      );
+    }
+
+    await updateBudget(db, budget.id, parsed.data);
+    const data = await getBudget(db, userId, budget.id);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Update budget error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update budget',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * DELETE /api/budgets/:id — Delete a budget
+ */
+budgetsRoute.delete('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const budget = await getBudget(db, c.get('user').id, c.req.param('id'));
+
+    if (!budget) {
+      return c.json({ success: false, error: 'Budget not found' }, 404);
+    }
+
+    await deleteBudget(db, budget.id);
+
+    return c.json({ success: true, message: 'Budget deleted successfully' });
+  } catch (error) {
+    console.error('Delete budget error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to delete budget',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default budgetsRoute;
@@ -0,0 +1,52 @@
+/**
+ * Calendar Feed Route
+ * Public iCalendar feed of a user's reminders; the secret token in the URL identifies the user
+ */
+
+import { Hono } from 'hono';
+import { createDb } from '@ai-chart/database';
+import { getCalendarFeedUserId, buildRemindersCalendar } from '../services/calendar-feed';
+import { getReminderItems } from '../services/reminders';
+
+interface Env {
+  DB: D1Database;
+}
+
+export const calendarRoute = new Hono<{ Bindings: Env }>();
+
+/**
+ * GET /api/calendar/:token.ics — Reminders as iCalendar
+ */
+calendarRoute.get('/:file', async (c) => {
+  try {
+    const file = c.req.param('file');
+    const db = createDb(c.env.DB);
+    const userId = file.endsWith('.ics')
+      ? await getCalendarFeedUserId(db, file.slice(0, -'.ics'.length))
+      : null;
+
+    if (!userId) {
+      return c.json({ success: false, error: 'Calendar feed not found' }, 404);
+    }
+
+    const items = await getReminderItems(db, userId);
+
+    return c.body(await buildRemindersCalendar(userId, items), 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="reminders.ics"',
+      'Cache-Control': 'private, max-age=900',
+    });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get calendar feed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default calendarRoute;
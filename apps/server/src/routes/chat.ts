@@ -5,9 +5,19 @@
 
 import { Hono } from 'hono';
 import { streamText, convertToModelMessages, stepCountIs, type UIMessage } from 'ai';
-import { getReasoningModel } from '@ai-chart/ai-core';
+import { getAIConfig, getDefaultModels, getReasoningModel, toModelUsage } from '@ai-chart/ai-core';
 import { createDb } from '@ai-chart/database';
+import { listDomains } from '@ai-chart/shared';
 import { getTools } from '../ai/tools';
+import { ensureChat, saveChatMessages } from '../services/chat-history';
+import { storeAttachment, getLatestMessageFiles } from '../services/attachments';
+import { getBlobStorage } from '../services/blob-storage';
+import { getModelSelection } from '../services/model-preferences';
+import { recordUsage } from '../services/usage';
+import type { AuthVariables } from '../middleware/auth';
+import { requireBudget } from '../middleware/budget';
+import { rateLimit, RATE_LIMITS } from '../middleware/rate-limit';
+import { limitBodySize } from '../middleware/body-limit';
 
 /**
  * Environment bindings
@@ -24,6 +34,7 @@ interface Env {
   CLOUDFLARE_API_KEY?: string;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   AI?: any; // Cloudflare Workers AI binding — no SDK type available
+  ATTACHMENTS?: R2Bucket;
 }
 
 /**
@@ -31,19 +42,24 @@ interface Env {
  * Uses UIMessage from AI SDK — same type the client's DefaultChatTransport sends
  */
 interface ChatRequest {
+  id?: string; // Chat id — when present the conversation is persisted
   messages: UIMessage[];
-  userId?: string;
 }
 
+/**
+ * Maximum request body size (bytes; the conversation, including images sent as data URLs)
+ */
+const MAX_CHAT_BODY_BYTES = 20 * 1024 * 1024;
+
 /**
  * System prompt for the AI assistant
  */
-const SYSTEM_PROMPT = `You are a helpful AI assistant for AI-Chart, a personal health data intelligence dashboard.
+const SYSTEM_PROMPT = `You are a helpful AI assistant for AI-Chart, a personal data intelligence dashboard (health, finance and other tracked domains).
 
 Your capabilities:
-- Access, save, modify, and delete health records in the database
-- Extract structured data from uploaded images (lab reports, medical documents)
-- Track trends in health metrics over time
+- Access, save, modify, and delete records of every supported domain in the database
+- Extract structured data from uploaded images (lab reports, receipts, workout summaries, bills, ...)
+- Track trends in metrics over time
 - Provide insights based on historical data
 - Render dynamic UI components (charts, forms, metric cards) on the Canvas
 
@@ -60,6 +76,10 @@ AVAILABLE TOOLS:
 Read tools:
 - query_records: Query records within a date range, with their metrics
 - get_metric_trend: Track how a specific metric changes over time (returns statistics and time series)
+- get_metric_analytics: Statistics of a metric or category per day/week/month/year over the whole history (sum, average, median, p90, moving averages, year-over-year change)
+- get_spending_breakdown: Finance income vs expense per period, spending by category, top merchants and month-over-month change
+- get_budget_status: Monthly budgets per finance category with the month's spending, remaining amount and warning level
+- get_reminders: Due and overdue periodic records (checkups, recurring bills) with their cadence and due date
 - get_latest_records: Get the most recent records summary
 
 Write tools:
@@ -78,14 +98,17 @@ Image upload flow (user sends image with or without text):
 2. Determine what the image contains:
    - Medical/health report → extract data, proceed to step 3
    - Financial document → extract data, proceed to step 3
+   - Document of another supported domain (see SUPPORTED DOMAINS) → extract data, proceed to step 3
    - Unrelated/unclear content → describe what you see, ask the user what they'd like to do
 3. If the user provided specific instructions (e.g., "save this", "extract the blood test data"), follow those instructions.
    If no text or vague text → infer intent from the image. For medical reports, assume the user wants to extract and review data before saving.
 4. Identify ALL distinct test categories in the image (e.g., blood routine, liver function, urine test, lipid panel — these are SEPARATE records)
-5. Extract metrics for each category: name, value, unit, status, reference range
+5. Extract metrics for each category: name, value, unit, status, reference range, plus confidence (0-1: how legible/certain the value is) and sourceText (the exact line it was read from)
 6. Call render_ui with RecordForm to show the extracted data for user review
 7. When the user confirms, use save_records (batch) if there are multiple categories, or save_record for a single one
 8. If the user wants changes before saving, update the form data and re-render
+9. If a save tool reports a possible duplicate, tell the user which existing record it matches and ask whether to skip, merge into it, or save anyway; then call the tool again with the matching onDuplicate value
+10. If a save result contains statusCorrections, tell the user that the status of those metrics was recomputed from the reference range (e.g., "marked high: 11.2 is above 3.5-9.5")
 
 CRITICAL: One image often contains multiple test sections. Do NOT lump all metrics into one record. Split them by category:
 - Blood routine (blood_routine): WBC, RBC, PLT, HGB...
@@ -101,6 +124,9 @@ Data query flow:
 1. Use query_records or get_latest_records to find relevant data
 2. Present results clearly in text, and use render_ui for charts or detailed views
 3. For trends, use get_metric_trend first, then render_ui with TrendChart
+4. For totals or averages per week/month/year (e.g., "average weight per month"), use get_metric_analytics
+5. For spending questions ("where does my money go"), use get_spending_breakdown; for budget questions ("how am I doing on groceries this month"), use get_budget_status
+6. For what is due ("is my physical overdue", "which bills are coming up"), use get_reminders
 
 Data modification flow:
 1. First query to find the record (use query_records or get_latest_records)
@@ -119,10 +145,26 @@ GENERATIVE UI GUIDELINES:
 - Use RecordForm for reviewing/editing extracted or existing data
 - The Right Canvas is your primary way to present complex information. Use it!`;
 
+/**
+ * Supported domains section of the system prompt (from the domain registry)
+ */
+function describeDomains(): string {
+  const lines = listDomains().map(
+    (domain) =>
+      `- ${domain.id}: ${domain.description}. Categories: ${domain.categories.join(', ')}. ` +
+      `Statuses: ${domain.statuses.map((s) => `${s.value} (${s.description})`).join(', ')}`,
+  );
+  return `SUPPORTED DOMAINS (record types; use only the statuses listed for a type):\n${lines.join('\n')}`;
+}
+
 /**
  * Create chat route
  */
-export const chatRoute = new Hono<{ Bindings: Env }>();
+export const chatRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+chatRoute.use('/', rateLimit(RATE_LIMITS.chat));
+chatRoute.use('/', limitBodySize(MAX_CHAT_BODY_BYTES));
+chatRoute.use('/', requireBudget);
 
 chatRoute.post('/', async (c) => {
   try {
@@ -151,27 +193,80 @@ chatRoute.post('/', async (c) => {
 
     // Initialize database
     const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+
+    // Persist the incoming conversation (including the new user message) before streaming
+    const chatId = body.id;
+    if (chatId) {
+      const owned = await ensureChat(db, userId, chatId, body.messages);
+      if (!owned) {
+        return c.json({ error: 'Chat not found', message: `Chat "${chatId}" not found` }, 404);
+      }
+      // A failed save must not cost the user the answer
+      await saveChatMessages(db, getBlobStorage(c.env), userId, chatId, body.messages).catch(
+        (error) => console.error('Failed to save chat messages:', error),
+      );
+    }
 
-    // Get AI tools with database access
-    const tools = getTools(db);
+    // Get AI tools with database access, scoped to the authenticated user.
+    // Records saved from the chat keep the most recently sent image(s) as their original document.
+    const tools = getTools(db, userId, {
+      waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+      onRecordsSaved: async (recordIds) => {
+        const storage = getBlobStorage(c.env);
+        for (const file of getLatestMessageFiles(body.messages)) {
+          await storeAttachment(db, storage, { userId, recordIds, file, source: 'chat' }).catch(
+            (error) => console.error('Failed to store chat attachment:', error),
+          );
+        }
+      },
+    });
 
-    // Get AI model
-    const model = getReasoningModel(c.env);
+    // Get AI model (the user's preferred reasoning model, else the configured default)
+    const selection = await getModelSelection(db, userId, 'reasoning', c.env);
+    const provider = selection.provider ?? getAIConfig(c.env).defaultProvider;
+    const modelId = selection.modelId ?? getDefaultModels(provider).reasoning;
+    const model = getReasoningModel(c.env, modelId, provider, { binding: c.env.AI });
 
     // Convert UIMessage[] → ModelMessage[] using SDK utility
     const modelMessages = await convertToModelMessages(body.messages, { tools });
 
     // Stream chat response with tools
+    const startedAt = Date.now();
     const result = streamText({
       model,
-      system: SYSTEM_PROMPT,
+      system: `${SYSTEM_PROMPT}\n\n${describeDomains()}`,
       messages: modelMessages,
       tools,
       stopWhen: stepCountIs(5),
+      // Token usage of every step of the turn, with its estimated cost
+      onFinish: async ({ totalUsage }) => {
+        await recordUsage(
+          db,
+          userId,
+          'chat',
+          toModelUsage({ provider, modelId }, totalUsage, Date.now() - startedAt),
+        ).catch((error) => console.error('Failed to record chat usage:', error));
+      },
     });
 
+    // Keep generating (and persisting) even if the client disconnects mid-stream
+    if (chatId) {
+      result.consumeStream();
+    }
+
     // Return UI message stream (compatible with DefaultChatTransport on the client)
-    return result.toUIMessageStreamResponse();
+    return result.toUIMessageStreamResponse({
+      originalMessages: body.messages,
+      generateMessageId: () => crypto.randomUUID(),
+      onFinish: async ({ messages }) => {
+        if (chatId) {
+          await saveChatMessages(db, getBlobStorage(c.env), userId, chatId, messages).catch(
+            (error) => console.error('Failed to save chat messages:', error),
+          );
+        }
+      },
+    });
   } catch (error) {
     console.error('Chat error:', error);
 
@@ -0,0 +1,186 @@
+/**
+ * Chats API Route
+ * CRUD operations for persisted chat sessions
+ */
+
+import { Hono } from 'hono';
+import { createDb } from '@ai-chart/database';
+import {
+  getChat,
+  listChats,
+  createChat,
+  getChatMessages,
+  updateChat,
+  deleteChat,
+  type CanvasState,
+} from '../services/chat-history';
+import { getBlobStorage } from '../services/blob-storage';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+  ATTACHMENTS?: R2Bucket;
+}
+
+export const chatsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/chats — List the current user's chats
+ * Query params: q (title search), limit
+ */
+chatsRoute.get('/', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const search = c.req.query('q')?.trim() || undefined;
+    const limit = Math.min(parseInt(c.req.query('limit') || '50', 10), 100);
+
+    const items = await listChats(db, c.get('user').id, { search, limit });
+
+    return c.json({ success: true, data: items });
+  } catch (error) {
+    console.error('List chats error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to list chats',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * GET /api/chats/:id — Single chat with its messages and Canvas state
+ */
+chatsRoute.get('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const chat = await getChat(db, c.get('user').id, c.req.param('id'));
+
+    if (!chat) {
+      return c.json({ success: false, error: 'Chat not found' }, 404);
+    }
+
+    const messages = await getChatMessages(db, getBlobStorage(c.env), chat.id);
+
+    return c.json({
+      success: true,
+      data: {
+        id: chat.id,
+        title: chat.title,
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt,
+        canvasState: chat.canvasState ? (JSON.parse(chat.canvasState) as CanvasState) : null,
+        messages,
+      },
+    });
+  } catch (error) {
+    console.error('Get chat error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get chat',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/chats — Create an empty chat
+ */
+chatsRoute.post('/', async (c) => {
+  try {
+    const body: { id?: string; title?: string } = await c.req.json().catch(() => ({}));
+    const db = createDb(c.env.DB);
+    const chatId = body.id || crypto.randomUUID();
+
+    await createChat(db, c.get('user').id, chatId, body.title?.trim() || 'New Chat');
+
+    // The id may already be taken by another user's chat
+    if (!(await getChat(db, c.get('user').id, chatId))) {
+      return c.json({ success: false, error: 'Chat id already in use' }, 409);
+    }
+
+    return c.json({ success: true, chatId, message: 'Chat created successfully' });
+  } catch (error) {
+    console.error('Create chat error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to create chat',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PATCH /api/chats/:id — Rename a chat or replace its Canvas state
+ */
+chatsRoute.patch('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const chat = await getChat(db, c.get('user').id, c.req.param('id'));
+
+    if (!chat) {
+      return c.json({ success: false, error: 'Chat not found' }, 404);
+    }
+
+    const body = await c.req.json<{ title?: string; canvasState?: CanvasState | null }>();
+
+    if (body.title !== undefined && !body.title.trim()) {
+      return c.json({ success: false, error: 'Title cannot be empty' }, 400);
+    }
+
+    await updateChat(db, chat.id, {
+      title: body.title?.trim(),
+      canvasState: body.canvasState,
+    });
+
+    return c.json({ success: true, message: 'Chat updated successfully' });
+  } catch (error) {
+    console.error('Update chat error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update chat',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * DELETE /api/chats/:id — Delete a chat and its messages
+ */
+chatsRoute.delete('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const chat = await getChat(db, c.get('user').id, c.req.param('id'));
+
+    if (!chat) {
+      return c.json({ success: false, error: 'Chat not found' }, 404);
+    }
+
+    await deleteChat(db, chat.id);
+
+    return c.json({ success: true, message: 'Chat deleted successfully' });
+  } catch (error) {
+    console.error('Delete chat error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to delete chat',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default chatsRoute;
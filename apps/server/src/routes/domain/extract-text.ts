@@ -0,0 +1,185 @@
+/**
+ * Domain Text Extraction API Route
+ * Handles pasted text (lab results, bank SMS messages, meter readings, ...) and data extraction
+ * for any registered domain (mounted at /api/:domain/extract-text)
+ */
+
+import { Hono } from 'hono';
+import { extractDataFromText, ModelFallbackError } from '@ai-chart/ai-core';
+import { createDb } from '@ai-chart/database';
+import { saveRecordData } from '../../services/record-data';
+import { getPromptOverrides } from '../../services/prompt-overrides';
+import { getModelSelection } from '../../services/model-preferences';
+import { createUsageRecorder } from '../../services/usage';
+import type { AuthVariables } from '../../middleware/auth';
+import { requireDomain, type DomainVariables } from '../../middleware/domain';
+import { requireBudget } from '../../middleware/budget';
+import { rateLimit, RATE_LIMITS } from '../../middleware/rate-limit';
+import { limitBodySize, payloadTooLarge } from '../../middleware/body-limit';
+
+/**
+ * Environment bindings
+ */
+interface Env {
+  DB: D1Database;
+  GOOGLE_GENERATIVE_AI_API_KEY: string;
+}
+
+/**
+ * Maximum accepted text length (characters)
+ */
+const MAX_TEXT_LENGTH = 20000;
+
+/**
+ * Maximum request body size (bytes; room for the text in any encoding plus the JSON envelope)
+ */
+const MAX_BODY_BYTES = 128 * 1024;
+
+/**
+ * Create domain text extraction route
+ */
+export const domainExtractTextRoute = new Hono<{
+  Bindings: Env;
+  Variables: AuthVariables & DomainVariables;
+}>();
+
+domainExtractTextRoute.use('*', requireDomain);
+domainExtractTextRoute.use('*', rateLimit(RATE_LIMITS.extraction));
+domainExtractTextRoute.use('*', limitBodySize(MAX_BODY_BYTES));
+domainExtractTextRoute.use('*', requireBudget);
+
+/**
+ * POST /api/:domain/extract-text - Extract a record of the domain from free text and save it
+ */
+domainExtractTextRoute.post('/', async (c) => {
+  const domain = c.get('domain');
+  try {
+    const body = await c.req.json<{ text?: string }>();
+    const text = body.text?.trim();
+
+    if (!text) {
+      return c.json(
+        {
+          success: false,
+          error: 'No text provided',
+          message: 'Please provide the content to extract in the "text" field',
+        },
+        400,
+      );
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      return payloadTooLarge(c, `Text must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+
+    console.log(`Extracting ${domain.id} data from text (${text.length} chars)`);
+
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const prompts = await getPromptOverrides(db, userId, domain.id);
+    const { modelId, provider } = await getModelSelection(db, userId, 'reasoning', c.env);
+    const extraction = await extractDataFromText(c.env, text, domain.id, modelId, provider, {
+      prompts,
+      onUsage: createUsageRecorder(db, userId, 'extract-text'),
+    });
+    const recordData = extraction.data;
+
+    console.log(`${domain.label} text extraction result:`, {
+      provider: extraction.provider,
+      model: extraction.modelId,
+      type: recordData.type,
+      category: recordData.category,
+      date: recordData.date,
+      itemsCount: recordData.items.length,
+    });
+
+    const { recordId, itemsCount } = await saveRecordData(
+      db,
+      recordData,
+      c.get('user').id,
+      'upload',
+      { waitUntil: (promise) => c.executionCtx.waitUntil(promise) },
+    );
+
+    return c.json({
+      success: true,
+      recordId,
+      data: {
+        type: recordData.type,
+        category: recordData.category,
+        date: recordData.date,
+        summary: recordData.summary,
+        itemsCount,
+        items: recordData.items,
+      },
+      provider: extraction.provider,
+      model: extraction.modelId,
+      attempts: extraction.attempts,
+    });
+  } catch (error) {
+    console.error(`${domain.label} text extraction error:`, error);
+
+    // Every provider of the fallback chain failed: unreadable input (422) or providers down (503)
+    if (error instanceof ModelFallbackError) {
+      return error.invalidOutput
+        ? c.json(
+            {
+              success: false,
+              error: 'Extraction failed',
+              message: `Failed to extract ${domain.id} data. Please ensure the text contains ${domain.label.toLowerCase()} information.`,
+              details: error.message,
+              attempts: error.attempts,
+            },
+            422,
+          )
+        : c.json(
+            {
+              success: false,
+              error: 'AI providers unavailable',
+              message: 'No AI provider could process the request. Please try again later.',
+              details: error.message,
+              attempts: error.attempts,
+            },
+            503,
+          );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('extract')) {
+        return c.json(
+          {
+            success: false,
+            error: 'Extraction failed',
+            message: `Failed to extract ${domain.id} data. Please ensure the text contains ${domain.label.toLowerCase()} information.`,
+            details: error.message,
+          },
+          422,
+        );
+      }
+
+      if (error.message.includes('database') || error.message.includes('D1')) {
+        return c.json(
+          {
+            success: false,
+            error: 'Database error',
+            message: 'Failed to save the extracted data. Please try again later.',
+            details: error.message,
+          },
+          500,
+        );
+      }
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while processing your request',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default domainExtractTextRoute;
@@ -0,0 +1,120 @@
+/**
+ * Domain Records API Route
+ * Handles manual data input for any registered domain (mounted at /api/:domain/records)
+ */
+
+import { Hono } from 'hono';
+import { DomainRecordDataSchema, type RecordData } from '@ai-chart/shared';
+import { createDb } from '@ai-chart/database';
+import { saveRecordData } from '../../services/record-data';
+import type { AuthVariables } from '../../middleware/auth';
+import { requireDomain, type DomainVariables } from '../../middleware/domain';
+
+/**
+ * Environment bindings
+ */
+interface Env {
+  DB: D1Database;
+}
+
+/**
+ * Create domain records route
+ */
+export const domainRecordsRoute = new Hono<{
+  Bindings: Env;
+  Variables: AuthVariables & DomainVariables;
+}>();
+
+domainRecordsRoute.use('*', requireDomain);
+
+/**
+ * POST /api/:domain/records - Manually create a record of the domain
+ */
+domainRecordsRoute.post('/', async (c) => {
+  const domain = c.get('domain');
+  try {
+    const body = await c.req.json();
+    const userId = c.get('user').id;
+
+    // Validate against RecordDataSchema and the statuses of its domain
+    const recordData: RecordData = DomainRecordDataSchema.parse(body.data);
+
+    // Ensure the record belongs to this domain
+    if (recordData.type !== domain.id) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid type',
+          message: `This endpoint only accepts ${domain.id} data. Use /api/${recordData.type}/records for ${recordData.type} data.`,
+        },
+        400,
+      );
+    }
+
+    console.log(`Manual ${domain.id} record creation:`, {
+      type: recordData.type,
+      category: recordData.category,
+      date: recordData.date,
+      itemsCount: recordData.items.length,
+    });
+
+    const db = createDb(c.env.DB);
+    const { recordId, itemsCount } = await saveRecordData(db, recordData, userId, 'manual', {
+      waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+    });
+
+    return c.json({
+      success: true,
+      recordId,
+      data: {
+        type: recordData.type,
+        category: recordData.category,
+        date: recordData.date,
+        summary: recordData.summary,
+        itemsCount,
+        items: recordData.items,
+      },
+    });
+  } catch (error) {
+    console.error(`Manual ${domain.id} record creation error:`, error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'The provided data does not match the required schema',
+          details: error.message,
+        },
+        400,
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes('database') || error.message.includes('D1'))
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: 'Database error',
+          message: `Failed to save the ${domain.id} data. Please try again later.`,
+          details: error.message,
+        },
+        500,
+      );
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while saving your data',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default domainRecordsRoute;
@@ -0,0 +1,257 @@
+/**
+ * Domain Upload API Route
+ * Handles document upload (images, PDFs) and data extraction for any registered domain
+ * (mounted at /api/:domain/upload)
+ * Extracted records are queued as drafts for review (see /api/drafts).
+ */
+
+import { Hono } from 'hono';
+import {
+  extractRecordsFromImage,
+  extractDataFromPdf,
+  ModelFallbackError,
+  type FallbackResult,
+} from '@ai-chart/ai-core';
+import type { RecordData } from '@ai-chart/shared';
+import { createDb } from '@ai-chart/database';
+import { hashContent, findDuplicateRecords } from '../../services/record-data';
+import { putAttachmentFile } from '../../services/attachments';
+import { createDrafts, findPendingDraftsByHash, type Draft } from '../../services/drafts';
+import { getBlobStorage } from '../../services/blob-storage';
+import { getPromptOverrides } from '../../services/prompt-overrides';
+import { getModelSelection } from '../../services/model-preferences';
+import { createUsageRecorder } from '../../services/usage';
+import {
+  checkDocumentLimits,
+  detectFileType,
+  MAX_FORM_OVERHEAD_BYTES,
+  MAX_UPLOAD_BYTES,
+} from '../../utils/file';
+import type { AuthVariables } from '../../middleware/auth';
+import { requireDomain, type DomainVariables } from '../../middleware/domain';
+import { requireBudget } from '../../middleware/budget';
+import { rateLimit, RATE_LIMITS } from '../../middleware/rate-limit';
+import { limitBodySize, payloadTooLarge } from '../../middleware/body-limit';
+
+/**
+ * Environment bindings
+ */
+interface Env {
+  DB: D1Database;
+  GOOGLE_GENERATIVE_AI_API_KEY: string;
+  ATTACHMENTS?: R2Bucket;
+}
+
+/**
+ * Create domain upload route
+ */
+export const domainUploadRoute = new Hono<{
+  Bindings: Env;
+  Variables: AuthVariables & DomainVariables;
+}>();
+
+domainUploadRoute.use('*', requireDomain);
+domainUploadRoute.use('*', rateLimit(RATE_LIMITS.extraction));
+domainUploadRoute.use('*', limitBodySize(MAX_UPLOAD_BYTES + MAX_FORM_OVERHEAD_BYTES));
+domainUploadRoute.use('*', requireBudget);
+
+/**
+ * POST /api/:domain/upload - Extract records of the domain from a document into pending drafts
+ */
+domainUploadRoute.post('/', async (c) => {
+  const domain = c.get('domain');
+  try {
+    const formData = await c.req.formData();
+    const file = formData.get('file');
+    const userId = c.get('user').id;
+
+    if (!file || typeof file === 'string') {
+      return c.json(
+        {
+          success: false,
+          error: 'No file uploaded',
+          message: 'Please provide a file in the "file" field',
+        },
+        400,
+      );
+    }
+
+    const fileObj = file as File;
+    const fileType = detectFileType(fileObj);
+
+    if (fileType === 'unknown') {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid file type',
+          message: 'Only image files (PNG, JPG, WebP) and PDF documents are supported',
+          receivedType: fileObj.type,
+        },
+        400,
+      );
+    }
+
+    const arrayBuffer = await fileObj.arrayBuffer();
+    const limitError = checkDocumentLimits(fileType, arrayBuffer);
+    if (limitError) {
+      return payloadTooLarge(c, limitError);
+    }
+
+    const contentHash = await hashContent(arrayBuffer);
+    const db = createDb(c.env.DB);
+
+    // The same file uploaded again before review → return the drafts already waiting
+    const queued = await findPendingDraftsByHash(db, userId, contentHash, domain.id);
+    if (queued.length > 0) {
+      return c.json({
+        success: true,
+        message: 'This document is already waiting for review',
+        drafts: await describeDrafts(db, userId, queued, contentHash),
+      });
+    }
+
+    // The user's prompt customizations for this domain and preferred vision model, if any
+    const prompts = await getPromptOverrides(db, userId, domain.id);
+    const { modelId, provider } = await getModelSelection(db, userId, 'vision', c.env);
+    const onUsage = createUsageRecorder(db, userId, 'upload');
+
+    // A document may contain several panels/statements (across pages) → one draft each
+    let extraction: FallbackResult<RecordData[]>;
+    if (fileType === 'pdf') {
+      console.log(`Extracting ${domain.id} data from PDF file: ${fileObj.name}`);
+      extraction = await extractDataFromPdf(c.env, arrayBuffer, domain.id, modelId, provider, {
+        prompts,
+        onUsage,
+      });
+    } else {
+      console.log(`Extracting ${domain.id} data from image file: ${fileObj.name}`);
+      extraction = await extractRecordsFromImage(c.env, arrayBuffer, domain.id, modelId, provider, {
+        prompts,
+        onUsage,
+      });
+    }
+    const records = extraction.data;
+
+    console.log(`${domain.label} extraction result:`, {
+      provider: extraction.provider,
+      model: extraction.modelId,
+      recordsCount: records.length,
+      categories: records.map((r) => r.category),
+    });
+
+    // Keep the original file for the review screen (and the records approved from it)
+    const mimeType = fileType === 'pdf' ? 'application/pdf' : fileObj.type || 'image/jpeg';
+    const storedFile = await putAttachmentFile(
+      getBlobStorage(c.env),
+      userId,
+      { data: arrayBuffer, mimeType, fileName: fileObj.name },
+      contentHash,
+    ).catch((error) => {
+      console.error('Failed to store original file:', error);
+      return null;
+    });
+
+    const created = await createDrafts(db, userId, records, storedFile);
+
+    return c.json({
+      success: true,
+      message: `Extracted ${created.length} record(s) for review`,
+      drafts: await describeDrafts(db, userId, created, contentHash),
+      provider: extraction.provider,
+      model: extraction.modelId,
+      attempts: extraction.attempts,
+    });
+  } catch (error) {
+    console.error(`${domain.label} upload error:`, error);
+
+    // Every provider of the fallback chain failed: unreadable input (422) or providers down (503)
+    if (error instanceof ModelFallbackError) {
+      return error.invalidOutput
+        ? c.json(
+            {
+              success: false,
+              error: 'Extraction failed',
+              message: `Failed to extract ${domain.id} data. Please ensure the document is clear and contains ${domain.label.toLowerCase()} information.`,
+              details: error.message,
+              attempts: error.attempts,
+            },
+            422,
+          )
+        : c.json(
+            {
+              success: false,
+              error: 'AI providers unavailable',
+              message: 'No AI provider could process the request. Please try again later.',
+              details: error.message,
+              attempts: error.attempts,
+            },
+            503,
+          );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('extract')) {
+        return c.json(
+          {
+            success: false,
+            error: 'Extraction failed',
+            message: `Failed to extract ${domain.id} data. Please ensure the document is clear and contains ${domain.label.toLowerCase()} information.`,
+            details: error.message,
+          },
+          422,
+        );
+      }
+
+      if (error.message.includes('database') || error.message.includes('D1')) {
+        return c.json(
+          {
+            success: false,
+            error: 'Database error',
+            message: 'Failed to save the extracted data. Please try again later.',
+            details: error.message,
+          },
+          500,
+        );
+      }
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while processing your request',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * Summarize drafts for the upload response, flagging likely duplicates of saved records
+ */
+async function describeDrafts(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  drafts: Draft[],
+  contentHash: string,
+) {
+  const duplicates = await findDuplicateRecords(
+    db,
+    userId,
+    drafts.map((d) => d.data),
+    contentHash,
+  );
+  return drafts.map((draft, index) => ({
+    draftId: draft.id,
+    type: draft.data.type,
+    category: draft.data.category,
+    date: draft.data.date,
+    summary: draft.data.summary,
+    itemsCount: draft.data.items.length,
+    items: draft.data.items,
+    possibleDuplicateOf: duplicates[index] ?? undefined,
+  }));
+}
+
+export default domainUploadRoute;
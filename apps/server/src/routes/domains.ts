@@ -0,0 +1,31 @@
+/**
+ * Domains API Route
+ * The registered data domains (labels, categories, statuses, dashboard charts) for the UI
+ */
+
+import { Hono } from 'hono';
+import { listDomainConfigs } from '@ai-chart/ai-core';
+import type { AuthVariables } from '../middleware/auth';
+
+export const domainsRoute = new Hono<{ Variables: AuthVariables }>();
+
+/**
+ * GET /api/domains — Domains that records can be uploaded and saved for
+ */
+domainsRoute.get('/', (c) => {
+  const data = listDomainConfigs().map(
+    ({ id, label, description, categories, statuses, charts, color }) => ({
+      id,
+      label,
+      description,
+      categories,
+      statuses,
+      charts,
+      color,
+    }),
+  );
+
+  return c.json({ success: true, data });
+});
+
+export default domainsRoute;
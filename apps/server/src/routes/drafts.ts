@@ -0,0 +1,423 @@
+/**
+ * Drafts API Route
+ * Review queue for uploaded extractions: list, edit, approve (→ record) or reject
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { DomainRecordDataSchema } from '@ai-chart/shared';
+import { createDb } from '@ai-chart/database';
+import {
+  listDrafts,
+  getDraftRow,
+  getDraftRows,
+  updateDraftData,
+  approveDrafts,
+  rejectDrafts,
+  isDraftStatus,
+  toDraft,
+  DRAFT_STATUSES,
+} from '../services/drafts';
+import { describeDuplicate, DUPLICATE_ACTIONS } from '../services/record-data';
+import { getFileResponseHeaders } from '../services/attachments';
+import { getBlobStorage } from '../services/blob-storage';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+  ATTACHMENTS?: R2Bucket;
+}
+
+const UpdateDraftSchema = z.object({
+  data: DomainRecordDataSchema,
+});
+
+const ApproveDraftSchema = z.object({
+  onDuplicate: z.enum(DUPLICATE_ACTIONS).default('report'),
+});
+
+const ApproveDraftsSchema = ApproveDraftSchema.extend({
+  ids: z.array(z.string().min(1)).min(1),
+});
+
+export const draftsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/drafts — Drafts of the current user (?status=pending|approved|rejected, default pending)
+ */
+draftsRoute.get('/', async (c) => {
+  try {
+    const status = c.req.query('status') ?? 'pending';
+    if (!isDraftStatus(status)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid status',
+          message: `status must be one of: ${DRAFT_STATUSES.join(', ')}`,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const data = await listDrafts(db, c.get('user').id, status);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('List drafts error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to list drafts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * GET /api/drafts/:id — A single draft
+ */
+draftsRoute.get('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const draft = await getDraftRow(db, c.get('user').id, c.req.param('id'));
+
+    if (!draft) {
+      return c.json({ success: false, error: 'Draft not found' }, 404);
+    }
+
+    return c.json({ success: true, data: toDraft(draft) });
+  } catch (error) {
+    console.error('Get draft error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get draft',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * GET /api/drafts/:id/file — Original file the draft was extracted from
+ * (inline for images and PDFs)
+ */
+draftsRoute.get('/:id/file', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const draft = await getDraftRow(db, c.get('user').id, c.req.param('id'));
+
+    if (!draft?.storageKey) {
+      return c.json({ success: false, error: 'Draft file not found' }, 404);
+    }
+
+    const blob = await getBlobStorage(c.env).get(draft.storageKey);
+    if (!blob) {
+      return c.json({ success: false, error: 'Draft file is no longer available' }, 404);
+    }
+
+    return c.body(
+      blob.body,
+      200,
+      getFileResponseHeaders(draft.fileName, blob.contentType, blob.size),
+    );
+  } catch (error) {
+    console.error('Get draft file error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get draft file',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PATCH /api/drafts/:id — Replace the extracted data of a pending draft
+ * Body: { data: RecordData }
+ */
+draftsRoute.patch('/:id', async (c) => {
+  try {
+    const parsed = UpdateDraftSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'The provided data does not match the required schema',
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const draft = await getDraftRow(db, c.get('user').id, c.req.param('id'));
+
+    if (!draft) {
+      return c.json({ success: false, error: 'Draft not found' }, 404);
+    }
+    if (draft.status !== 'pending') {
+      return c.json(
+        { success: false, error: 'Draft already reviewed', message: `Draft is ${draft.status}` },
+        409,
+      );
+    }
+
+    const data = await updateDraftData(db, draft.id, parsed.data.data);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Update draft error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update draft',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/drafts/approve — Save several pending drafts of one upload as records in one batch
+ * Body: { ids: string[], onDuplicate?: 'report' | 'skip' | 'merge' | 'force' } (default 'report')
+ * Either all drafts are saved or none is; responds 409 listing the drafts that look like
+ * existing records.
+ */
+draftsRoute.post('/approve', async (c) => {
+  try {
+    const parsed = ApproveDraftsSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `"ids" (non-empty array of draft IDs) is required; onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}`,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const ids = [...new Set(parsed.data.ids)];
+    const draftRows = await getDraftRows(db, c.get('user').id, ids);
+
+    if (draftRows.length !== ids.length) {
+      return c.json({ success: false, error: 'Draft not found' }, 404);
+    }
+    const reviewed = draftRows.find((draft) => draft.status !== 'pending');
+    if (reviewed) {
+      return c.json(
+        {
+          success: false,
+          error: 'Draft already reviewed',
+          message: `Draft ${reviewed.id} is ${reviewed.status}`,
+        },
+        409,
+      );
+    }
+    if (new Set(draftRows.map((draft) => draft.contentHash)).size > 1) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'Drafts approved together must come from the same upload',
+        },
+        400,
+      );
+    }
+
+    const results = await approveDrafts(db, draftRows, parsed.data.onDuplicate, (promise) =>
+      c.executionCtx.waitUntil(promise),
+    );
+    if (!results) {
+      return c.json(
+        {
+          success: false,
+          error: 'Draft already reviewed',
+          message: 'The drafts were reviewed by another request',
+        },
+        409,
+      );
+    }
+
+    const duplicates = results.flatMap((r, index) =>
+      r.status === 'duplicate' && r.duplicateOf
+        ? [{ draftId: draftRows[index].id, duplicateOf: r.duplicateOf }]
+        : [],
+    );
+    if (duplicates.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: 'Possible duplicate',
+          message: duplicates.map((d) => describeDuplicate(d.duplicateOf)).join('; '),
+          duplicates,
+        },
+        409,
+      );
+    }
+
+    return c.json({
+      success: true,
+      records: results.map((r, index) => ({
+        draftId: draftRows[index].id,
+        recordId: r.recordId,
+        status: r.status,
+        duplicateOf: r.duplicateOf,
+        statusCorrections: r.statusCorrections,
+      })),
+    });
+  } catch (error) {
+    console.error('Approve drafts error:', error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'Some draft data does not match the required schema; edit it before approving',
+          details: error.message,
+        },
+        400,
+      );
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to approve drafts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/drafts/:id/approve — Save a pending draft as a record
+ * Body: { onDuplicate?: 'report' | 'skip' | 'merge' | 'force' } (default 'report')
+ * Responds 409 with the matching record when the draft looks like an existing record.
+ */
+draftsRoute.post('/:id/approve', async (c) => {
+  try {
+    const parsed = ApproveDraftSchema.safeParse(await c.req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}`,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const draft = await getDraftRow(db, c.get('user').id, c.req.param('id'));
+
+    if (!draft) {
+      return c.json({ success: false, error: 'Draft not found' }, 404);
+    }
+    if (draft.status !== 'pending') {
+      return c.json(
+        { success: false, error: 'Draft already reviewed', message: `Draft is ${draft.status}` },
+        409,
+      );
+    }
+
+    const results = await approveDrafts(db, [draft], parsed.data.onDuplicate, (promise) =>
+      c.executionCtx.waitUntil(promise),
+    );
+    if (!results) {
+      return c.json(
+        {
+          success: false,
+          error: 'Draft already reviewed',
+          message: 'The draft was reviewed by another request',
+        },
+        409,
+      );
+    }
+    const [result] = results;
+
+    if (result.status === 'duplicate' && result.duplicateOf) {
+      return c.json(
+        {
+          success: false,
+          error: 'Possible duplicate',
+          message: describeDuplicate(result.duplicateOf),
+          duplicateOf: result.duplicateOf,
+        },
+        409,
+      );
+    }
+
+    return c.json({
+      success: true,
+      recordId: result.recordId,
+      status: result.status,
+      duplicateOf: result.duplicateOf,
+      statusCorrections: result.statusCorrections,
+    });
+  } catch (error) {
+    console.error('Approve draft error:', error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'The draft data does not match the required schema; edit it before approving',
+          details: error.message,
+        },
+        400,
+      );
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to approve draft',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/drafts/:id/reject — Discard a pending draft
+ */
+draftsRoute.post('/:id/reject', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const rejected = await rejectDrafts(db, c.get('user').id, [c.req.param('id')]);
+
+    if (rejected === 0) {
+      return c.json({ success: false, error: 'Pending draft not found' }, 404);
+    }
+
+    return c.json({ success: true, message: 'Draft rejected' });
+  } catch (error) {
+    console.error('Reject draft error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to reject draft',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default draftsRoute;
@@ -0,0 +1,62 @@
+/**
+ * Metrics API Route
+ * Time series of a metric across the current user's records (dashboard charts)
+ */
+
+import { Hono } from 'hono';
+import { createDb } from '@ai-chart/database';
+import { isRegisteredDomain } from '@ai-chart/shared';
+import { getMetricTrend } from '../services/metric-trend';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+}
+
+export const metricsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/metrics/:key/trend — Values of a metric over time, in one unit
+ * Query params: type, startDate, endDate, unit
+ */
+metricsRoute.get('/:key/trend', async (c) => {
+  try {
+    const type = c.req.query('type');
+    const startDate = c.req.query('startDate');
+    const endDate = c.req.query('endDate');
+
+    if (type && !isRegisteredDomain(type)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `Unknown record type "${type}"`,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const data = await getMetricTrend(db, c.get('user').id, {
+      metricKey: c.req.param('key'),
+      type,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+      unit: c.req.query('unit'),
+    });
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Get metric trend error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get metric trend',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default metricsRoute;
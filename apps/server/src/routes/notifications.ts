@@ -0,0 +1,405 @@
+/**
+ * Notifications API Route
+ * In-app notifications of the current user, the alert rules raising them and the
+ * settings of their delivery outside the app (webhook)
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createDb } from '@ai-chart/database';
+import { findMetricDefinition, getDomain, toMetricKey } from '@ai-chart/shared';
+import {
+  ALERT_DIRECTIONS,
+  ALERT_RULE_KINDS,
+  DEFAULT_ALERT_RULES,
+  createAlertRule,
+  deleteAlertRule,
+  getAlertRule,
+  listAlertRules,
+  updateAlertRule,
+  validateAlertRule,
+  type AlertRuleInput,
+} from '../services/alerts';
+import {
+  NOTIFICATION_SEVERITIES,
+  countUnreadNotifications,
+  listNotifications,
+  markNotificationsRead,
+} from '../services/notifications';
+import {
+  getNotificationSettings,
+  saveNotificationSettings,
+} from '../services/notification-channels';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+}
+
+const AlertRuleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(ALERT_RULE_KINDS),
+  recordType: z.string().trim().min(1).max(32).nullable(),
+  metricKey: z.string().trim().min(1).max(100).nullable(),
+  direction: z.enum(ALERT_DIRECTIONS).nullable(),
+  threshold: z.number().finite().nullable(),
+  unit: z.string().trim().min(1).max(20).nullable(),
+  count: z.number().int().nullable(),
+  severity: z.enum(NOTIFICATION_SEVERITIES),
+  enabled: z.boolean(),
+});
+
+const CreateAlertRuleSchema = AlertRuleFieldsSchema.extend({
+  recordType: AlertRuleFieldsSchema.shape.recordType.default(null),
+  metricKey: AlertRuleFieldsSchema.shape.metricKey.default(null),
+  direction: AlertRuleFieldsSchema.shape.direction.default(null),
+  threshold: AlertRuleFieldsSchema.shape.threshold.default(null),
+  unit: AlertRuleFieldsSchema.shape.unit.default(null),
+  count: AlertRuleFieldsSchema.shape.count.default(null),
+  severity: AlertRuleFieldsSchema.shape.severity.default('warning'),
+  enabled: AlertRuleFieldsSchema.shape.enabled.default(true),
+});
+
+const UpdateAlertRuleSchema = AlertRuleFieldsSchema.partial();
+
+const NotificationSettingsSchema = z.object({
+  webhookUrl: z
+    .string()
+    .trim()
+    .url()
+    .max(500)
+    .refine((url) => url.startsWith('https://'), 'webhookUrl must use https')
+    .nullable(),
+  webhookSecret: z.string().min(8).max(200).nullable().optional(),
+});
+
+/**
+ * Check a rule's domain and use the canonical key of its metric
+ * @returns The rule to save, or the validation message
+ */
+function normalizeRule(rule: AlertRuleInput): AlertRuleInput | string {
+  if (rule.recordType !== null && !getDomain(rule.recordType)) {
+    return `Unknown record type "${rule.recordType}"`;
+  }
+  const metricKey =
+    rule.metricKey === null
+      ? null
+      : (findMetricDefinition(rule.metricKey)?.key ?? toMetricKey(rule.metricKey));
+  const normalized = { ...rule, metricKey };
+  return validateAlertRule(normalized) ?? normalized;
+}
+
+export const notificationsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/notifications — Latest notifications and the unread count
+ * Query params: unread (true = unread only), limit (1-100, default: 20)
+ */
+notificationsRoute.get('/', async (c) => {
+  try {
+    const limit = Number(c.req.query('limit') ?? 20);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'limit must be an integer between 1 and 100',
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const [notifications, unreadCount] = await Promise.all([
+      listNotifications(db, userId, { unreadOnly: c.req.query('unread') === 'true', limit }),
+      countUnreadNotifications(db, userId),
+    ]);
+
+    return c.json({ success: true, data: { notifications, unreadCount } });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get notifications',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/notifications/read-all — Mark every notification as read
+ */
+notificationsRoute.post('/read-all', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    await markNotificationsRead(db, c.get('user').id);
+
+    return c.json({ success: true, message: 'Notifications marked as read' });
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to mark notifications as read',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/notifications/:id/read — Mark a notification as read
+ */
+notificationsRoute.post('/:id/read', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    await markNotificationsRead(db, c.get('user').id, [c.req.param('id')]);
+
+    return c.json({ success: true, message: 'Notification marked as read' });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to mark notification as read',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * GET /api/notifications/rules — Alert rules of the user
+ * Without rules of their own, the defaults apply (returned as defaults).
+ */
+notificationsRoute.get('/rules', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const rules = await listAlertRules(db, c.get('user').id);
+
+    return c.json({ success: true, data: { rules, defaults: DEFAULT_ALERT_RULES } });
+  } catch (error) {
+    console.error('Get alert rules error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get alert rules',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/notifications/rules — Create an alert rule
+ * Body: { name, kind, recordType?, metricKey?, direction?, threshold?, unit?, count?, severity?, enabled? }
+ */
+notificationsRoute.post('/rules', async (c) => {
+  try {
+    const parsed = CreateAlertRuleSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'name and kind are required',
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const rule = normalizeRule(parsed.data);
+    if (typeof rule === 'string') {
+      return c.json({ success: false, error: 'Validation error', message: rule }, 400);
+    }
+
+    const db = createDb(c.env.DB);
+    const data = await createAlertRule(db, c.get('user').id, rule);
+
+    return c.json({ success: true, data }, 201);
+  } catch (error) {
+    console.error('Create alert rule error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to create alert rule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PUT /api/notifications/rules/:id — Update an alert rule
+ * Body: any of the rule fields
+ */
+notificationsRoute.put('/rules/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const existing = await getAlertRule(db, userId, c.req.param('id'));
+
+    if (!existing) {
+      return c.json({ success: false, error: 'Alert rule not found' }, 404);
+    }
+
+    const parsed = UpdateAlertRuleSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'Invalid alert rule fields',
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const rule = normalizeRule({ ...existing, ...parsed.data });
+    if (typeof rule === 'string') {
+      return c.json({ success: false, error: 'Validation error', message: rule }, 400);
+    }
+
+    const { name, kind, recordType, metricKey, direction, threshold, unit, count } = rule;
+    const { severity, enabled } = rule;
+    await updateAlertRule(db, existing.id, {
+      name,
+      kind,
+      recordType,
+      metricKey,
+      direction,
+      threshold,
+      unit,
+      count,
+      severity,
+      enabled,
+    });
+    const data = await getAlertRule(db, userId, existing.id);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Update alert rule error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update alert rule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * DELETE /api/notifications/rules/:id — Delete an alert rule
+ */
+notificationsRoute.delete('/rules/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const rule = await getAlertRule(db, c.get('user').id, c.req.param('id'));
+
+    if (!rule) {
+      return c.json({ success: false, error: 'Alert rule not found' }, 404);
+    }
+
+    await deleteAlertRule(db, rule.id);
+
+    return c.json({ success: true, message: 'Alert rule deleted successfully' });
+  } catch (error) {
+    console.error('Delete alert rule error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to delete alert rule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * GET /api/notifications/settings — Delivery settings (the webhook secret is not returned)
+ */
+notificationsRoute.get('/settings', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const { webhookUrl, webhookSecret } = await getNotificationSettings(db, c.get('user').id);
+
+    return c.json({
+      success: true,
+      data: { webhookUrl, hasWebhookSecret: webhookSecret !== null },
+    });
+  } catch (error) {
+    console.error('Get notification settings error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get notification settings',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PUT /api/notifications/settings — Save delivery settings
+ * Body: { webhookUrl: string | null, webhookSecret?: string | null }
+ * An omitted webhookSecret keeps the saved one; removing the webhook also removes its secret.
+ */
+notificationsRoute.put('/settings', async (c) => {
+  try {
+    const parsed = NotificationSettingsSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message:
+            'webhookUrl must be an https URL or null and webhookSecret at least 8 characters',
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const { webhookUrl } = parsed.data;
+    const webhookSecret =
+      webhookUrl === null
+        ? null
+        : parsed.data.webhookSecret === undefined
+          ? (await getNotificationSettings(db, userId)).webhookSecret
+          : parsed.data.webhookSecret;
+    await saveNotificationSettings(db, userId, { webhookUrl, webhookSecret });
+
+    return c.json({
+      success: true,
+      data: { webhookUrl, hasWebhookSecret: webhookSecret !== null },
+    });
+  } catch (error) {
+    console.error('Save notification settings error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to save notification settings',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default notificationsRoute;
@@ -0,0 +1,285 @@
+/**
+ * Prompts API Route
+ * Per-user extraction prompt overrides and addenda per domain, plus a preview that runs a draft
+ * prompt on a sample document (with the user's preferred models) without saving anything
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import {
+  extractDataFromPdf,
+  extractDataFromText,
+  extractRecordsFromImage,
+  getDomainConfig,
+  listDomainConfigs,
+  ModelFallbackError,
+  type FallbackResult,
+  type PromptOverrides,
+} from '@ai-chart/ai-core';
+import type { RecordData } from '@ai-chart/shared';
+import { createDb } from '@ai-chart/database';
+import {
+  deletePromptOverrides,
+  listPromptOverrides,
+  savePromptOverrides,
+} from '../services/prompt-overrides';
+import { getModelSelection } from '../services/model-preferences';
+import { createUsageRecorder } from '../services/usage';
+import {
+  checkDocumentLimits,
+  detectFileType,
+  MAX_FORM_OVERHEAD_BYTES,
+  MAX_UPLOAD_BYTES,
+} from '../utils/file';
+import type { AuthVariables } from '../middleware/auth';
+import { requireDomain, type DomainVariables } from '../middleware/domain';
+import { requireBudget } from '../middleware/budget';
+import { rateLimit, RATE_LIMITS } from '../middleware/rate-limit';
+import { limitBodySize, payloadTooLarge } from '../middleware/body-limit';
+
+interface Env {
+  DB: D1Database;
+  GOOGLE_GENERATIVE_AI_API_KEY: string;
+}
+
+/**
+ * Maximum length of a prompt or addendum (characters)
+ */
+const MAX_PROMPT_LENGTH = 20000;
+
+/**
+ * Maximum length of a text sample for the preview (characters)
+ */
+const MAX_SAMPLE_LENGTH = 20000;
+
+const PromptOverridesSchema = z.object({
+  imagePrompt: z.string().max(MAX_PROMPT_LENGTH).nullish(),
+  textPrompt: z.string().max(MAX_PROMPT_LENGTH).nullish(),
+  addendum: z.string().max(MAX_PROMPT_LENGTH).nullish(),
+});
+
+const TextPreviewSchema = PromptOverridesSchema.extend({
+  text: z.string().trim().min(1).max(MAX_SAMPLE_LENGTH),
+});
+
+export const promptsRoute = new Hono<{
+  Bindings: Env;
+  Variables: AuthVariables & DomainVariables;
+}>();
+
+promptsRoute.use('/:domain', requireDomain);
+promptsRoute.use('/:domain/*', requireDomain);
+promptsRoute.use('/:domain/preview', rateLimit(RATE_LIMITS.extraction));
+promptsRoute.use('/:domain/preview', limitBodySize(MAX_UPLOAD_BYTES + MAX_FORM_OVERHEAD_BYTES));
+promptsRoute.use('/:domain/preview', requireBudget);
+
+/**
+ * GET /api/prompts — Built-in prompts of every domain with the user's overrides
+ */
+promptsRoute.get('/', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const overrides = await listPromptOverrides(db, c.get('user').id);
+
+    const data = listDomainConfigs().map((domain) => ({
+      domain: domain.id,
+      label: domain.label,
+      defaults: { imagePrompt: domain.imagePrompt, textPrompt: domain.textPrompt },
+      overrides: overrides.find((o) => o.domain === domain.id) ?? null,
+    }));
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('List prompts error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to list prompts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PUT /api/prompts/:domain — Save the user's overrides of a domain
+ * Body: { imagePrompt?, textPrompt?, addendum? } (blank fields use the built-in prompt)
+ */
+promptsRoute.put('/:domain', async (c) => {
+  try {
+    const parsed = PromptOverridesSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'Prompts must be strings of at most 20000 characters',
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const data = await savePromptOverrides(db, c.get('user').id, c.get('domain').id, parsed.data);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Save prompt overrides error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to save prompts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * DELETE /api/prompts/:domain — Reset a domain to the built-in prompts
+ */
+promptsRoute.delete('/:domain', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    await deletePromptOverrides(db, c.get('user').id, c.get('domain').id);
+
+    return c.json({ success: true, message: 'Prompts reset to the built-in defaults' });
+  } catch (error) {
+    console.error('Reset prompt overrides error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to reset prompts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/prompts/:domain/preview — Run extraction on a sample with draft prompts (nothing is saved)
+ * JSON body: { text, imagePrompt?, textPrompt?, addendum? }
+ * or multipart form: file (image or PDF) plus the same prompt fields
+ */
+promptsRoute.post('/:domain/preview', async (c) => {
+  const domain = c.get('domain');
+  try {
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const onUsage = createUsageRecorder(db, userId, 'prompt-preview');
+    const isForm = (c.req.header('Content-Type') ?? '').includes('multipart/form-data');
+    let prompts: PromptOverrides;
+    let extraction: FallbackResult<RecordData[]>;
+    let kind: 'text' | 'image' | 'pdf';
+
+    if (isForm) {
+      const formData = await c.req.formData();
+      const entry = formData.get('file');
+      const file = entry && typeof entry !== 'string' ? (entry as File) : null;
+      const parsed = PromptOverridesSchema.safeParse({
+        imagePrompt: formData.get('imagePrompt'),
+        textPrompt: formData.get('textPrompt'),
+        addendum: formData.get('addendum'),
+      });
+      const fileType = file ? detectFileType(file) : 'unknown';
+
+      if (!parsed.success || !file || fileType === 'unknown') {
+        return c.json(
+          {
+            success: false,
+            error: 'Validation error',
+            message:
+              'Provide an image or PDF in the "file" field and prompts of at most 20000 characters',
+          },
+          400,
+        );
+      }
+
+      prompts = parsed.data;
+      kind = fileType;
+      const arrayBuffer = await file.arrayBuffer();
+      const limitError = checkDocumentLimits(fileType, arrayBuffer);
+      if (limitError) {
+        return payloadTooLarge(c, limitError);
+      }
+      const { modelId, provider } = await getModelSelection(db, userId, 'vision', c.env);
+      extraction =
+        fileType === 'pdf'
+          ? await extractDataFromPdf(c.env, arrayBuffer, domain.id, modelId, provider, {
+              prompts,
+              onUsage,
+            })
+          : await extractRecordsFromImage(c.env, arrayBuffer, domain.id, modelId, provider, {
+              prompts,
+              onUsage,
+            });
+    } else {
+      const parsed = TextPreviewSchema.safeParse(await c.req.json());
+      if (!parsed.success) {
+        return c.json(
+          {
+            success: false,
+            error: 'Validation error',
+            message: 'Provide a sample in the "text" field (at most 20000 characters)',
+            details: parsed.error.message,
+          },
+          400,
+        );
+      }
+
+      const { text, ...overrides } = parsed.data;
+      prompts = overrides;
+      kind = 'text';
+      const { modelId, provider } = await getModelSelection(db, userId, 'reasoning', c.env);
+      const result = await extractDataFromText(c.env, text, domain.id, modelId, provider, {
+        prompts,
+        onUsage,
+      });
+      extraction = { ...result, data: [result.data] };
+    }
+
+    // The prompt the model received (built-in or replacement, plus the addendum)
+    const config = getDomainConfig(domain.id, prompts);
+
+    return c.json({
+      success: true,
+      prompt: kind === 'text' ? config.textPrompt : config.imagePrompt,
+      data: extraction.data,
+      provider: extraction.provider,
+      model: extraction.modelId,
+      attempts: extraction.attempts,
+    });
+  } catch (error) {
+    console.error(`${domain.label} prompt preview error:`, error);
+
+    if (error instanceof ModelFallbackError) {
+      return c.json(
+        {
+          success: false,
+          error: error.invalidOutput ? 'Extraction failed' : 'AI providers unavailable',
+          message: error.invalidOutput
+            ? 'The model could not extract data from the sample with this prompt.'
+            : 'No AI provider could process the request. Please try again later.',
+          details: error.message,
+          attempts: error.attempts,
+        },
+        error.invalidOutput ? 422 : 503,
+      );
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to preview prompt',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default promptsRoute;
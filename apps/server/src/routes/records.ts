@@ -1,36 +1,49 @@
 /**
  * Records API Route
- * Full CRUD operations for health and finance records
+ * Full CRUD operations for records of every domain
  */
 
 import { Hono } from 'hono';
 import { eq, and, gte, lte, sql, desc } from 'drizzle-orm';
 import { createDb, records, metrics } from '@ai-chart/database';
 import { saveRecordData, updateRecordData, deleteRecordData } from '../services/record-data';
-import { type RecordData } from '@ai-chart/shared';
+import { listRecordAttachments } from '../services/attachments';
+import { isRegisteredDomain, type RecordData } from '@ai-chart/shared';
+import type { AuthVariables } from '../middleware/auth';
 
 interface Env {
   DB: D1Database;
 }
 
-export const recordsRoute = new Hono<{ Bindings: Env }>();
+export const recordsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
 
 /**
- * GET /api/records — List records with filters
+ * GET /api/records — List the current user's records with filters
  * Query params: type, startDate, endDate, category, limit, offset
  */
 recordsRoute.get('/', async (c) => {
   try {
     const db = createDb(c.env.DB);
 
-    const type = c.req.query('type') as 'health' | 'finance' | undefined;
+    const type = c.req.query('type');
     const startDate = c.req.query('startDate');
     const endDate = c.req.query('endDate');
     const category = c.req.query('category');
     const limit = Math.min(parseInt(c.req.query('limit') || '50', 10), 100);
     const offset = parseInt(c.req.query('offset') || '0', 10);
 
-    const conditions = [];
+    if (type && !isRegisteredDomain(type)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `Unknown record type "${type}"`,
+        },
+        400,
+      );
+    }
+
+    const conditions = [eq(records.userId, c.get('user').id)];
     if (type) {
       conditions.push(eq(records.type, type));
     }
@@ -44,7 +57,7 @@ recordsRoute.get('/', async (c) => {
       conditions.push(lte(records.date, new Date(endDate)));
     }
 
-    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const where = and(...conditions);
 
     const [items, countResult] = await Promise.all([
       db
@@ -92,14 +105,18 @@ recordsRoute.get('/', async (c) => {
 });
 
 /**
- * GET /api/records/:id — Single record with its metrics
+ * GET /api/records/:id — Single record with its metrics and original documents
  */
 recordsRoute.get('/:id', async (c) => {
   try {
     const db = createDb(c.env.DB);
     const id = c.req.param('id');
 
-    const record = await db.select().from(records).where(eq(records.id, id)).limit(1);
+    const record = await db
+      .select()
+      .from(records)
+      .where(and(eq(records.id, id), eq(records.userId, c.get('user').id)))
+      .limit(1);
 
     if (record.length === 0) {
       return c.json({ success: false, error: 'Record not found' }, 404);
@@ -111,11 +128,14 @@ recordsRoute.get('/:id', async (c) => {
       .where(eq(metrics.recordId, id))
       .orderBy(metrics.displayOrder);
 
+    const recordAttachments = await listRecordAttachments(db, id);
+
     return c.json({
       success: true,
       data: {
         ...record[0],
         metrics: recordMetrics,
+        attachments: recordAttachments,
       },
     });
   } catch (error) {
@@ -136,19 +156,16 @@ recordsRoute.get('/:id', async (c) => {
  */
 recordsRoute.post('/', async (c) => {
   try {
-    const { data, userId } = await c.req.json<{ data: RecordData; userId?: string }>();
+    const { data } = await c.req.json<{ data: RecordData }>();
 
     if (!data) {
       return c.json({ success: false, error: 'Missing record data' }, 400);
     }
 
     const db = createDb(c.env.DB);
-    const { recordId, itemsCount } = await saveRecordData(
-      db,
-      data,
-      userId || 'default-user',
-      'manual',
-    );
+    const { recordId, itemsCount } = await saveRecordData(db, data, c.get('user').id, 'manual', {
+      waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+    });
 
     return c.json({
       success: true,
@@ -177,11 +194,11 @@ recordsRoute.put('/:id', async (c) => {
     const db = createDb(c.env.DB);
     const id = c.req.param('id');
 
-    // Check record exists
+    // Check record exists and belongs to the current user
     const existing = await db
       .select({ id: records.id })
       .from(records)
-      .where(eq(records.id, id))
+      .where(and(eq(records.id, id), eq(records.userId, c.get('user').id)))
       .limit(1);
     if (existing.length === 0) {
       return c.json({ success: false, error: 'Record not found' }, 404);
@@ -200,6 +217,19 @@ recordsRoute.put('/:id', async (c) => {
     return c.json({ success: true, message: 'Record updated successfully' });
   } catch (error) {
     console.error('Update record error:', error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'The updated record does not match the required schema',
+          details: error.message,
+        },
+        400,
+      );
+    }
+
     return c.json(
       {
         success: false,
@@ -219,11 +249,11 @@ recordsRoute.delete('/:id', async (c) => {
     const db = createDb(c.env.DB);
     const id = c.req.param('id');
 
-    // Check record exists
+    // Check record exists and belongs to the current user
     const existing = await db
       .select({ id: records.id })
       .from(records)
-      .where(eq(records.id, id))
+      .where(and(eq(records.id, id), eq(records.userId, c.get('user').id)))
       .limit(1);
     if (existing.length === 0) {
       return c.json({ success: false, error: 'Record not found' }, 404);
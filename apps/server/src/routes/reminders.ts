@@ -0,0 +1,278 @@
+/**
+ * Reminders API Route
+ * When the next record of each periodic category is expected, the explicit cadences of the
+ * current user and the secret URL of their iCalendar feed
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createDb } from '@ai-chart/database';
+import { getDomain } from '@ai-chart/shared';
+import {
+  createReminder,
+  deleteReminder,
+  findReminder,
+  getReminder,
+  getReminderItems,
+  listReminders,
+  updateReminder,
+} from '../services/reminders';
+import {
+  createCalendarFeed,
+  deleteCalendarFeed,
+  getCalendarFeedCreatedAt,
+} from '../services/calendar-feed';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+}
+
+const ReminderFieldsSchema = z.object({
+  recordType: z.string().trim().min(1).max(32),
+  category: z.string().trim().min(1).max(100),
+  intervalDays: z.number().int().min(1).max(3660),
+  enabled: z.boolean(),
+});
+
+const CreateReminderSchema = ReminderFieldsSchema.extend({
+  enabled: ReminderFieldsSchema.shape.enabled.default(true),
+});
+
+const UpdateReminderSchema = ReminderFieldsSchema.partial();
+
+const VALIDATION_MESSAGE =
+  'recordType and category are required and intervalDays must be a whole number of days (1-3660)';
+
+export const remindersRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/reminders — Due dates of the periodic categories (soonest first) and the
+ * explicit reminders, including the muted ones
+ * Query params: type (record type, default: all)
+ */
+remindersRoute.get('/', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const [items, reminders] = await Promise.all([
+      getReminderItems(db, userId, { recordType: c.req.query('type') }),
+      listReminders(db, userId),
+    ]);
+
+    return c.json({ success: true, data: { items, reminders } });
+  } catch (error) {
+    console.error('Get reminders error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get reminders',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/reminders — Set the cadence of a category explicitly
+ * Body: { recordType, category, intervalDays, enabled? } (enabled: false mutes the category)
+ */
+remindersRoute.post('/', async (c) => {
+  try {
+    const parsed = CreateReminderSchema.safeParse(await c.req.json());
+    if (!parsed.success || !getDomain(parsed.data.recordType)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: VALIDATION_MESSAGE,
+          details: parsed.error?.message,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const { recordType, category } = parsed.data;
+    if (await findReminder(db, userId, recordType, category)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Reminder already exists',
+          message: `There is already a reminder for ${recordType} "${category}"`,
+        },
+        409,
+      );
+    }
+
+    const data = await createReminder(db, userId, parsed.data);
+
+    return c.json({ success: true, data }, 201);
+  } catch (error) {
+    console.error('Create reminder error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to create reminder',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * GET /api/reminders/feed — Whether the calendar feed exists (its URL is only shown once)
+ */
+remindersRoute.get('/feed', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const createdAt = await getCalendarFeedCreatedAt(db, c.get('user').id);
+
+    return c.json({ success: true, data: { enabled: createdAt !== null, createdAt } });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get calendar feed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * POST /api/reminders/feed — Create the calendar feed URL (revoking any previous one)
+ */
+remindersRoute.post('/feed', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const token = await createCalendarFeed(db, c.get('user').id);
+    const url = `${new URL(c.req.url).origin}/api/calendar/${token}.ics`;
+
+    return c.json({ success: true, data: { url } }, 201);
+  } catch (error) {
+    console.error('Create calendar feed error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to create calendar feed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * DELETE /api/reminders/feed — Revoke the calendar feed URL
+ */
+remindersRoute.delete('/feed', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    await deleteCalendarFeed(db, c.get('user').id);
+
+    return c.json({ success: true, message: 'Calendar feed revoked' });
+  } catch (error) {
+    console.error('Delete calendar feed error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to revoke calendar feed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PUT /api/reminders/:id — Update a reminder
+ * Body: any of { recordType, category, intervalDays, enabled }
+ */
+remindersRoute.put('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const reminder = await getReminder(db, userId, c.req.param('id'));
+
+    if (!reminder) {
+      return c.json({ success: false, error: 'Reminder not found' }, 404);
+    }
+
+    const parsed = UpdateReminderSchema.safeParse(await c.req.json());
+    const updated = parsed.success ? { ...reminder, ...parsed.data } : reminder;
+    if (!parsed.success || !getDomain(updated.recordType)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: VALIDATION_MESSAGE,
+          details: parsed.error?.message,
+        },
+        400,
+      );
+    }
+
+    const existing = await findReminder(db, userId, updated.recordType, updated.category);
+    if (existing && existing.id !== reminder.id) {
+      return c.json(
+        {
+          success: false,
+          error: 'Reminder already exists',
+          message: `There is already a reminder for ${updated.recordType} "${updated.category}"`,
+        },
+        409,
+      );
+    }
+
+    await updateReminder(db, reminder.id, parsed.data);
+    const data = await getReminder(db, userId, reminder.id);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Update reminder error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to update reminder',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * DELETE /api/reminders/:id — Delete a reminder (the category's cadence is inferred again)
+ */
+remindersRoute.delete('/:id', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const reminder = await getReminder(db, c.get('user').id, c.req.param('id'));
+
+    if (!reminder) {
+      return c.json({ success: false, error: 'Reminder not found' }, 404);
+    }
+
+    await deleteReminder(db, reminder.id);
+
+    return c.json({ success: true, message: 'Reminder deleted successfully' });
+  } catch (error) {
+    console.error('Delete reminder error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to delete reminder',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default remindersRoute;
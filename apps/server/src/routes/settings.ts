@@ -0,0 +1,157 @@
+/**
+ * Settings API Route
+ * Configured AI providers and the user's model preferences (provider/model per model task)
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import {
+  getAIConfig,
+  getDefaultModels,
+  isProviderConfigured,
+  MODEL_PROVIDERS,
+} from '@ai-chart/ai-core';
+import { createDb } from '@ai-chart/database';
+import { getModelPreferences, saveModelPreferences } from '../services/model-preferences';
+import type { AuthVariables } from '../middleware/auth';
+
+/**
+ * Environment bindings
+ */
+interface Env {
+  DB: D1Database;
+  DEFAULT_PROVIDER?: string;
+  FALLBACK_PROVIDERS?: string;
+  GOOGLE_GENERATIVE_AI_API_KEY?: string;
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  DEEPSEEK_API_KEY?: string;
+  OPENROUTER_API_KEY?: string;
+  CLOUDFLARE_ACCOUNT_ID?: string;
+  CLOUDFLARE_API_KEY?: string;
+}
+
+const ModelPreferenceSchema = z
+  .object({
+    provider: z.enum(MODEL_PROVIDERS),
+    modelId: z.string().trim().max(200).nullish(),
+  })
+  .nullable();
+
+const ModelPreferencesSchema = z.object({
+  vision: ModelPreferenceSchema.optional(),
+  reasoning: ModelPreferenceSchema.optional(),
+  advanced: ModelPreferenceSchema.optional(),
+});
+
+export const settingsRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/settings/providers — Supported providers, whether each one is configured
+ * and its default model per task
+ */
+settingsRoute.get('/providers', (c) => {
+  const config = getAIConfig(c.env);
+
+  const data = {
+    defaultProvider: config.defaultProvider,
+    fallbackProviders: config.fallbackProviders,
+    providers: MODEL_PROVIDERS.map((provider) => ({
+      id: provider,
+      configured: isProviderConfigured(provider, c.env),
+      defaultModels: getDefaultModels(provider),
+    })),
+  };
+
+  return c.json({ success: true, data });
+});
+
+/**
+ * GET /api/settings/models — The user's model preferences (null = configured default)
+ */
+settingsRoute.get('/models', async (c) => {
+  try {
+    const db = createDb(c.env.DB);
+    const data = await getModelPreferences(db, c.get('user').id);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Get model preferences error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get model preferences',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PUT /api/settings/models — Update the user's model preferences
+ * Body: { vision?, reasoning?, advanced? }, each { provider, modelId? } or null to use the default
+ * (omitted tasks are left unchanged)
+ */
+settingsRoute.put('/models', async (c) => {
+  try {
+    const parsed = ModelPreferencesSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `Each task takes { provider, modelId? } or null; providers: ${MODEL_PROVIDERS.join(', ')}`,
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const unconfigured = Object.values(parsed.data).filter(
+      (preference) => preference && !isProviderConfigured(preference.provider, c.env),
+    );
+    if (unconfigured.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: 'Provider not configured',
+          message: `No API key is configured for: ${[
+            ...new Set(unconfigured.map((preference) => preference?.provider)),
+          ].join(', ')}`,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const data = await saveModelPreferences(db, c.get('user').id, {
+      vision: toPreference(parsed.data.vision),
+      reasoning: toPreference(parsed.data.reasoning),
+      advanced: toPreference(parsed.data.advanced),
+    });
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Save model preferences error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to save model preferences',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * Normalize a parsed preference (missing model ID = the provider's default)
+ */
+function toPreference(preference: z.infer<typeof ModelPreferenceSchema> | undefined) {
+  return preference
+    ? { provider: preference.provider, modelId: preference.modelId || null }
+    : preference;
+}
+
+export default settingsRoute;
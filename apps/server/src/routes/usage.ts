@@ -0,0 +1,136 @@
+/**
+ * Usage API Route
+ * Token usage and estimated cost of the current user's AI calls, and their monthly budget
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createDb } from '@ai-chart/database';
+import {
+  getBudgetStatus,
+  getDailyUsage,
+  getUsageByModel,
+  setMonthlyBudget,
+} from '../services/usage';
+import type { AuthVariables } from '../middleware/auth';
+
+interface Env {
+  DB: D1Database;
+}
+
+/**
+ * Longest period a usage report can cover (days)
+ */
+const MAX_USAGE_DAYS = 366;
+
+const BudgetSchema = z.object({
+  monthlyLimitUsd: z.number().positive().max(100000).nullable(),
+});
+
+export const usageRoute = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * GET /api/usage — Daily aggregates, per-model totals and the budget status
+ * Query params: days (default 30, counting today)
+ */
+usageRoute.get('/', async (c) => {
+  try {
+    const days = Number(c.req.query('days') ?? 30);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: `days must be an integer between 1 and ${MAX_USAGE_DAYS}`,
+        },
+        400,
+      );
+    }
+
+    const now = new Date();
+    const endDate = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+    );
+    const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    const [daily, byModel, budget] = await Promise.all([
+      getDailyUsage(db, userId, startDate, endDate),
+      getUsageByModel(db, userId, startDate, endDate),
+      getBudgetStatus(db, userId, now),
+    ]);
+
+    const totals = daily.reduce(
+      (sum, day) => ({
+        calls: sum.calls + day.calls,
+        inputTokens: sum.inputTokens + day.inputTokens,
+        outputTokens: sum.outputTokens + day.outputTokens,
+        costUsd: sum.costUsd + day.costUsd,
+      }),
+      { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 },
+    );
+
+    return c.json({
+      success: true,
+      data: {
+        startDate: startDate.toISOString().split('T')[0],
+        endDate: now.toISOString().split('T')[0],
+        daily,
+        byModel,
+        totals,
+        budget,
+      },
+    });
+  } catch (error) {
+    console.error('Get usage error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to get usage',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+/**
+ * PUT /api/usage/budget — Set the monthly budget
+ * Body: { monthlyLimitUsd } (USD, null removes the budget)
+ */
+usageRoute.put('/budget', async (c) => {
+  try {
+    const parsed = BudgetSchema.safeParse(await c.req.json());
+    if (!parsed.success) {
+      return c.json(
+        {
+          success: false,
+          error: 'Validation error',
+          message: 'monthlyLimitUsd must be a positive amount in USD, or null to remove the budget',
+          details: parsed.error.message,
+        },
+        400,
+      );
+    }
+
+    const db = createDb(c.env.DB);
+    const userId = c.get('user').id;
+    await setMonthlyBudget(db, userId, parsed.data.monthlyLimitUsd);
+    const data = await getBudgetStatus(db, userId);
+
+    return c.json({ success: true, data });
+  } catch (error) {
+    console.error('Set budget error:', error);
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to set budget',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
+
+export default usageRoute;
@@ -0,0 +1,414 @@
+/**
+ * Alerts Service
+ * User-defined alert rules and their evaluation on newly saved records: every saved metric
+ * is checked against the enabled rules, matches become notifications (see
+ * services/notifications) and are sent through the user's delivery channels.
+ * Users without rules of their own get DEFAULT_ALERT_RULES.
+ */
+
+import { eq, and, ne, lte, asc, desc, inArray, isNull } from 'drizzle-orm';
+import { createDb, alertRules, records, metrics } from '@ai-chart/database';
+import { convertMetricValue, getDomain, normalizeUnit } from '@ai-chart/shared';
+import {
+  createNotifications,
+  type NewNotification,
+  type NotificationSeverity,
+} from './notifications';
+import { deliverNotifications, type NotificationPayload } from './notification-channels';
+
+export const ALERT_RULE_KINDS = ['status', 'threshold', 'trend', 'change'] as const;
+export type AlertRuleKind = (typeof ALERT_RULE_KINDS)[number];
+
+export const ALERT_DIRECTIONS = ['above', 'below', 'rising', 'falling', 'any'] as const;
+export type AlertDirection = (typeof ALERT_DIRECTIONS)[number];
+
+/**
+ * Rule settings (see the alert_rules table for what each kind uses)
+ */
+export interface AlertRuleInput {
+  name: string;
+  kind: AlertRuleKind;
+  /** Only metrics of this domain (null = any) */
+  recordType: string | null;
+  /** Only this canonical metric key (null = any) */
+  metricKey: string | null;
+  direction: AlertDirection | null;
+  /** Value crossed (threshold) or percent changed (change) */
+  threshold: number | null;
+  /** Unit of the threshold value, converted to the metric's unit (null = the metric's own) */
+  unit: string | null;
+  /** Consecutive rises or falls (trend) */
+  count: number | null;
+  severity: NotificationSeverity;
+  enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Rules applied while a user has none of their own
+ */
+export const DEFAULT_ALERT_RULES: Array<AlertRuleInput & { id: string }> = [
+  {
+    id: 'default:abnormal-health',
+    name: 'Abnormal health result',
+    kind: 'status',
+    recordType: 'health',
+    metricKey: null,
+    direction: null,
+    threshold: null,
+    unit: null,
+    count: null,
+    severity: 'warning',
+    enabled: true,
+  },
+];
+
+/**
+ * Longest run a trend rule may ask for
+ */
+export const MAX_TREND_COUNT = 20;
+
+const ruleColumns = {
+  id: alertRules.id,
+  name: alertRules.name,
+  kind: alertRules.kind,
+  recordType: alertRules.recordType,
+  metricKey: alertRules.metricKey,
+  direction: alertRules.direction,
+  threshold: alertRules.threshold,
+  unit: alertRules.unit,
+  count: alertRules.count,
+  severity: alertRules.severity,
+  enabled: alertRules.enabled,
+  createdAt: alertRules.createdAt,
+  updatedAt: alertRules.updatedAt,
+};
+
+/**
+ * A saved metric with its record
+ */
+type SavedMetric = {
+  recordId: string;
+  type: string;
+  date: Date;
+  key: string;
+  name: string;
+  value: number;
+  unit: string | null;
+  status: string;
+  reference: string | null;
+};
+
+/**
+ * Check that a rule has the settings its kind needs
+ * @returns What is wrong, or null when the rule is valid
+ */
+export function validateAlertRule(rule: AlertRuleInput): string | null {
+  switch (rule.kind) {
+    case 'status':
+      return null;
+    case 'threshold':
+      if (rule.threshold === null) {
+        return 'A threshold rule needs a threshold value';
+      }
+      return rule.direction === 'above' || rule.direction === 'below'
+        ? null
+        : 'A threshold rule needs direction "above" or "below"';
+    case 'trend':
+      if (rule.count === null || rule.count < 2 || rule.count > MAX_TREND_COUNT) {
+        return `A trend rule needs a count between 2 and ${MAX_TREND_COUNT}`;
+      }
+      return rule.direction === 'rising' || rule.direction === 'falling'
+        ? null
+        : 'A trend rule needs direction "rising" or "falling"';
+    case 'change':
+      if (rule.threshold === null || rule.threshold <= 0) {
+        return 'A change rule needs a positive percent threshold';
+      }
+      return rule.direction === 'rising' || rule.direction === 'falling' || rule.direction === 'any'
+        ? null
+        : 'A change rule needs direction "rising", "falling" or "any"';
+  }
+}
+
+/**
+ * List a user's rules
+ */
+export async function listAlertRules(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<AlertRule[]> {
+  return db
+    .select(ruleColumns)
+    .from(alertRules)
+    .where(eq(alertRules.userId, userId))
+    .orderBy(asc(alertRules.createdAt));
+}
+
+/**
+ * Get a rule owned by a user
+ */
+export async function getAlertRule(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  id: string,
+): Promise<AlertRule | null> {
+  const [rule] = await db
+    .select(ruleColumns)
+    .from(alertRules)
+    .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+    .limit(1);
+  return rule ?? null;
+}
+
+/**
+ * Create a rule
+ */
+export async function createAlertRule(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  input: AlertRuleInput,
+): Promise<AlertRule> {
+  const now = new Date();
+  const rule: AlertRule = { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+  await db.insert(alertRules).values({ ...rule, userId });
+  return rule;
+}
+
+/**
+ * Update a rule
+ */
+export async function updateAlertRule(
+  db: ReturnType<typeof createDb>,
+  id: string,
+  input: Partial<AlertRuleInput>,
+): Promise<void> {
+  await db
+    .update(alertRules)
+    .set({ ...input, updatedAt: new Date() })
+    .where(eq(alertRules.id, id));
+}
+
+/**
+ * Delete a rule (its notifications are kept)
+ */
+export async function deleteAlertRule(db: ReturnType<typeof createDb>, id: string): Promise<void> {
+  await db.delete(alertRules).where(eq(alertRules.id, id));
+}
+
+function formatValue(value: number, unit: string | null) {
+  const rounded = Number.isInteger(value) ? String(value) : value.toFixed(2);
+  return unit ? `${rounded} ${unit}` : rounded;
+}
+
+function formatDate(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Earlier readings of a metric (same key and unit), oldest first
+ */
+async function getPreviousValues(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  metric: SavedMetric,
+  limit: number,
+): Promise<number[]> {
+  const rows = await db
+    .select({ value: metrics.value })
+    .from(metrics)
+    .innerJoin(records, eq(metrics.recordId, records.id))
+    .where(
+      and(
+        eq(records.userId, userId),
+        eq(metrics.key, metric.key),
+        metric.unit === null ? isNull(metrics.unit) : eq(metrics.unit, metric.unit),
+        lte(records.date, metric.date),
+        ne(records.id, metric.recordId),
+      ),
+    )
+    .orderBy(desc(records.date), desc(metrics.id))
+    .limit(limit);
+  return rows.map((row) => row.value).reverse();
+}
+
+/**
+ * Threshold of a rule in the unit of a metric (null when the units don't convert)
+ */
+function thresholdInUnit(rule: AlertRuleInput, metric: SavedMetric): number | null {
+  const threshold = rule.threshold ?? 0;
+  if (!rule.unit || (metric.unit && normalizeUnit(rule.unit) === normalizeUnit(metric.unit))) {
+    return threshold;
+  }
+  return metric.unit
+    ? (convertMetricValue(metric.key, threshold, rule.unit, metric.unit)?.value ?? null)
+    : null;
+}
+
+/**
+ * Check one rule against a saved metric
+ * @returns Title and message of the notification, or null when the rule doesn't match
+ */
+function matchRule(
+  rule: AlertRuleInput,
+  metric: SavedMetric,
+  previous: number[],
+): { title: string; message: string } | null {
+  const value = formatValue(metric.value, metric.unit);
+  const when = `on ${formatDate(metric.date)}`;
+  const last = previous.at(-1);
+
+  switch (rule.kind) {
+    case 'status': {
+      const tone = getDomain(metric.type)?.statuses.find((s) => s.value === metric.status)?.tone;
+      if (tone !== 'bad' && tone !== 'warning') {
+        return null;
+      }
+      return {
+        title: `${metric.name} is ${metric.status}`,
+        message: `${metric.name} was ${value} ${when}${metric.reference ? ` (reference ${metric.reference})` : ''}.`,
+      };
+    }
+    case 'threshold': {
+      const limit = thresholdInUnit(rule, metric);
+      if (limit === null) {
+        return null;
+      }
+      const beyond = (v: number) => (rule.direction === 'above' ? v > limit : v < limit);
+      // Only the reading that crosses the line alerts, not every reading past it
+      if (!beyond(metric.value) || (last !== undefined && beyond(last))) {
+        return null;
+      }
+      return {
+        title: `${metric.name} ${rule.direction} ${formatValue(rule.threshold ?? 0, rule.unit ?? metric.unit)}`,
+        message: `${metric.name} was ${value} ${when}${last !== undefined ? `, previously ${formatValue(last, metric.unit)}` : ''}.`,
+      };
+    }
+    case 'trend': {
+      const count = rule.count ?? 0;
+      const series = [...previous.slice(-count), metric.value];
+      if (series.length < count + 1) {
+        return null;
+      }
+      const moving = series
+        .slice(1)
+        .every((v, i) => (rule.direction === 'rising' ? v > series[i] : v < series[i]));
+      if (!moving) {
+        return null;
+      }
+      return {
+        title: `${metric.name} ${rule.direction} ${count} times in a row`,
+        message: `${metric.name} readings: ${series.map((v) => formatValue(v, null)).join(' → ')}${metric.unit ? ` ${metric.unit}` : ''} (latest ${when}).`,
+      };
+    }
+    case 'change': {
+      if (last === undefined || last === 0) {
+        return null;
+      }
+      const percent = ((metric.value - last) * 100) / Math.abs(last);
+      const limit = rule.threshold ?? 0;
+      const matches =
+        rule.direction === 'rising'
+          ? percent > limit
+          : rule.direction === 'falling'
+            ? percent < -limit
+            : Math.abs(percent) > limit;
+      if (!matches) {
+        return null;
+      }
+      return {
+        title: `${metric.name} ${percent > 0 ? 'up' : 'down'} ${Math.abs(percent).toFixed(0)}%`,
+        message: `${metric.name} was ${value} ${when}, versus ${formatValue(last, metric.unit)} at the previous reading.`,
+      };
+    }
+  }
+}
+
+/**
+ * Evaluate the user's alert rules on saved records and notify about matches
+ * @param options - waitUntil keeps webhook delivery running after the response
+ * (without it, delivery is awaited)
+ * @returns The notifications created (matches already notified are not repeated)
+ */
+export async function evaluateAlertRules(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  recordIds: string[],
+  options: { waitUntil?: (promise: Promise<unknown>) => void } = {},
+): Promise<NotificationPayload[]> {
+  if (recordIds.length === 0) {
+    return [];
+  }
+
+  const own = await listAlertRules(db, userId);
+  const rules = (own.length > 0 ? own : DEFAULT_ALERT_RULES).filter((rule) => rule.enabled);
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const saved: SavedMetric[] = await db
+    .select({
+      recordId: records.id,
+      type: records.type,
+      date: records.date,
+      key: metrics.key,
+      name: metrics.name,
+      value: metrics.value,
+      unit: metrics.unit,
+      status: metrics.status,
+      reference: metrics.reference,
+    })
+    .from(metrics)
+    .innerJoin(records, eq(metrics.recordId, records.id))
+    .where(and(eq(records.userId, userId), inArray(records.id, recordIds)));
+
+  const entries: NewNotification[] = [];
+  for (const metric of saved) {
+    const applicable = rules.filter(
+      (rule) =>
+        (rule.recordType === null || rule.recordType === metric.type) &&
+        (rule.metricKey === null || rule.metricKey === metric.key),
+    );
+    if (applicable.length === 0) {
+      continue;
+    }
+
+    // History rules need earlier readings: the longest trend, or the last reading
+    const needed = Math.max(
+      0,
+      ...applicable.map((rule) =>
+        rule.kind === 'trend' ? (rule.count ?? 0) : rule.kind === 'status' ? 0 : 1,
+      ),
+    );
+    const previous = needed > 0 ? await getPreviousValues(db, userId, metric, needed) : [];
+
+    for (const rule of applicable) {
+      const match = matchRule(rule, metric, previous);
+      if (match) {
+        const ruleId = rule.id.startsWith('default:') ? null : rule.id;
+        entries.push({
+          ruleId,
+          recordId: metric.recordId,
+          metricKey: metric.key,
+          severity: rule.severity,
+          ...match,
+          dedupeKey: `${rule.id}:${metric.recordId}:${metric.key}`,
+        });
+      }
+    }
+  }
+
+  const created = await createNotifications(db, userId, entries);
+  const delivery = deliverNotifications(db, userId, created);
+  if (options.waitUntil) {
+    options.waitUntil(delivery);
+  } else {
+    await delivery;
+  }
+  return created;
+}
@@ -0,0 +1,386 @@
+/**
+ * Analytics Service
+ * SQL aggregation of a metric (or a finance categoryTag) over a user's whole history:
+ * per-period count/sum/avg/min/max/median/p90, moving averages and year-over-year deltas
+ * (used by /api/analytics, the dashboard charts and the get_metric_analytics chat tool)
+ */
+
+import { eq, and, gte, lte, isNull, sql, type SQL } from 'drizzle-orm';
+import { createDb, records, metrics } from '@ai-chart/database';
+import { findMetricDefinition, toMetricKey } from '@ai-chart/shared';
+
+/**
+ * Period the values are grouped by
+ */
+export const ANALYTICS_GROUP_BY = ['day', 'week', 'month', 'year'] as const;
+export type AnalyticsGroupBy = (typeof ANALYTICS_GROUP_BY)[number];
+
+/**
+ * Analytics query (exactly one of metricKey and categoryTag)
+ */
+export interface AnalyticsQuery {
+  /** Metric key or name in any alias ("WBC", "白细胞"); resolved to the canonical key */
+  metricKey?: string;
+  /** Category/group of metrics (e.g., finance "food_drink") */
+  categoryTag?: string;
+  /** Only records of this domain (default: all) */
+  type?: string;
+  /** Only metrics with this status (e.g., finance "expense") */
+  status?: string;
+  groupBy: AnalyticsGroupBy;
+  startDate?: Date;
+  endDate?: Date;
+  /** Only values in this unit (default: the most common unit of the matching values) */
+  unit?: string;
+  /** Periods per moving average (default 3; 1 disables smoothing) */
+  window?: number;
+}
+
+/**
+ * Distribution statistics of a set of values
+ */
+export interface AnalyticsStatistics {
+  count: number;
+  sum: number;
+  avg: number;
+  min: number;
+  max: number;
+  median: number;
+  /** 90th percentile (nearest rank) */
+  p90: number;
+}
+
+/**
+ * Statistics of one period
+ */
+export interface AnalyticsPeriod extends AnalyticsStatistics {
+  /** Period label: "2024-03-15" (day), "2024-W11" (week, Monday-based), "2024-03" (month), "2024" (year) */
+  period: string;
+  /** First date of the period (YYYY-MM-DD) */
+  periodStart: string;
+  /** Mean of avg / sum over the last `window` periods with data (null until a full window) */
+  movingAvg: number | null;
+  movingSum: number | null;
+  /** Same period one year earlier (null when it has no data) */
+  previousYear: { avg: number; sum: number } | null;
+  /** Change against the same period one year earlier, in percent */
+  yoyChange: { avg: number | null; sum: number | null } | null;
+}
+
+/**
+ * Aggregated history of a metric or category
+ */
+export interface MetricAnalytics {
+  metricKey?: string;
+  categoryTag?: string;
+  groupBy: AnalyticsGroupBy;
+  window: number;
+  /** Unit of every value (null = unitless) */
+  unit: string | null;
+  /** Matching values left out because they are in another unit */
+  excludedOtherUnits: number;
+  /** Statistics over the whole range (null when there is no data) */
+  overall: AnalyticsStatistics | null;
+  periods: AnalyticsPeriod[];
+}
+
+/**
+ * strftime format of the period labels (sortable as strings; years always come first)
+ */
+const PERIOD_FORMATS: Record<AnalyticsGroupBy, string> = {
+  day: '%Y-%m-%d',
+  week: '%Y-W%W',
+  month: '%Y-%m',
+  year: '%Y',
+};
+
+/**
+ * date() modifiers giving the first day of a period
+ */
+const PERIOD_START_MODIFIERS: Record<AnalyticsGroupBy, string> = {
+  day: '',
+  week: ", '-6 days', 'weekday 1'",
+  month: ", 'start of month'",
+  year: ", 'start of year'",
+};
+
+/**
+ * Longest period length (days), to fetch enough history for moving averages
+ */
+const PERIOD_DAYS: Record<AnalyticsGroupBy, number> = { day: 1, week: 7, month: 31, year: 366 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SQL expressions of the period label and first day of the period containing a record's date
+ * (for services that group records by period themselves)
+ */
+export function recordPeriodColumns(groupBy: AnalyticsGroupBy): { period: SQL; periodStart: SQL } {
+  return {
+    period: sql`strftime(${sql.raw(`'${PERIOD_FORMATS[groupBy]}'`)}, ${records.date}, 'unixepoch')`,
+    periodStart: sql`date(${records.date}, 'unixepoch'${sql.raw(PERIOD_START_MODIFIERS[groupBy])})`,
+  };
+}
+
+/**
+ * Distribution statistics of the ranked values of a partition
+ * Expects `value`, `rn` (rank by value within the partition) and `cnt` (partition size);
+ * median averages the two middle values, p90 takes rank ceil(0.9 * cnt).
+ */
+const STATISTICS_COLUMNS = sql`
+  count(*) AS count,
+  sum(value) AS sum,
+  avg(value) AS avg,
+  min(value) AS min,
+  max(value) AS max,
+  avg(CASE WHEN rn IN ((cnt + 1) / 2, (cnt + 2) / 2) THEN value END) AS median,
+  min(CASE WHEN rn >= (9 * cnt + 9) / 10 THEN value END) AS p90`;
+
+/**
+ * Aggregate a metric or category of a user by period
+ */
+export async function getMetricAnalytics(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  query: AnalyticsQuery,
+): Promise<MetricAnalytics> {
+  const window = query.window ?? 3;
+  // Metrics are stored under canonical keys ("WBC", "白细胞" → "wbc")
+  const metricKey = query.metricKey
+    ? (findMetricDefinition(query.metricKey)?.key ?? toMetricKey(query.metricKey))
+    : undefined;
+  const target = metricKey ? { metricKey } : { categoryTag: query.categoryTag };
+
+  const conditions: SQL[] = [eq(records.userId, userId)];
+  if (metricKey) {
+    conditions.push(eq(metrics.key, metricKey));
+  } else if (query.categoryTag) {
+    conditions.push(eq(metrics.categoryTag, query.categoryTag));
+  }
+  if (query.type) {
+    conditions.push(eq(records.type, query.type));
+  }
+  if (query.status) {
+    conditions.push(eq(metrics.status, query.status));
+  }
+  if (query.endDate) {
+    conditions.push(lte(records.date, query.endDate));
+  }
+
+  // Values in different units can't be aggregated together: use one unit
+  const unitCounts = await db
+    .select({ unit: metrics.unit, count: sql<number>`count(*)` })
+    .from(metrics)
+    .innerJoin(records, eq(metrics.recordId, records.id))
+    .where(and(...conditions, ...(query.startDate ? [gte(records.date, query.startDate)] : [])))
+    .groupBy(metrics.unit)
+    .orderBy(sql`count(*) DESC`);
+
+  const total = unitCounts.reduce((sum, row) => sum + row.count, 0);
+  const unit = query.unit ?? unitCounts[0]?.unit ?? null;
+  const inUnit = unitCounts.find((row) => row.unit === unit)?.count ?? 0;
+  const base = {
+    ...target,
+    groupBy: query.groupBy,
+    window,
+    unit,
+    excludedOtherUnits: total - inUnit,
+  };
+
+  if (inUnit === 0) {
+    return { ...base, overall: null, periods: [] };
+  }
+
+  conditions.push(unit === null ? isNull(metrics.unit) : eq(metrics.unit, unit));
+
+  const [overall, periods] = await Promise.all([
+    getOverallStatistics(db, [
+      ...conditions,
+      ...(query.startDate ? [gte(records.date, query.startDate)] : []),
+    ]),
+    getPeriodStatistics(db, conditions, query.groupBy, window, query.startDate),
+  ]);
+
+  return { ...base, overall, periods };
+}
+
+/**
+ * Statistics over every matching value
+ */
+async function getOverallStatistics(
+  db: ReturnType<typeof createDb>,
+  conditions: SQL[],
+): Promise<AnalyticsStatistics | null> {
+  const [row] = await db.all<AnalyticsStatistics>(sql`
+    WITH ranked AS (
+      SELECT
+        ${metrics.value} AS value,
+        row_number() OVER (ORDER BY ${metrics.value}) AS rn,
+        count(*) OVER () AS cnt
+      FROM ${metrics}
+      INNER JOIN ${records} ON ${metrics.recordId} = ${records.id}
+      WHERE ${and(...conditions)}
+    )
+    SELECT ${STATISTICS_COLUMNS}
+    FROM ranked`);
+
+  return row && row.count > 0 ? row : null;
+}
+
+/**
+ * Statistics per period, with moving averages and the same period one year earlier
+ * History before startDate is read (one year plus a window) so that the first periods of the
+ * range get their moving average and year-over-year comparison too.
+ */
+async function getPeriodStatistics(
+  db: ReturnType<typeof createDb>,
+  conditions: SQL[],
+  groupBy: AnalyticsGroupBy,
+  window: number,
+  startDate?: Date,
+): Promise<AnalyticsPeriod[]> {
+  const format = sql.raw(`'${PERIOD_FORMATS[groupBy]}'`);
+  const startModifiers = sql.raw(PERIOD_START_MODIFIERS[groupBy]);
+  const preceding = sql.raw(String(window - 1));
+
+  const historyConditions = [...conditions];
+  let firstPeriod: SQL = sql`''`;
+  if (startDate) {
+    const historyStart = new Date(
+      startDate.getTime() - (366 + window * PERIOD_DAYS[groupBy]) * DAY_MS,
+    );
+    historyConditions.push(gte(records.date, historyStart));
+    firstPeriod = sql`strftime(${format}, ${Math.floor(startDate.getTime() / 1000)}, 'unixepoch')`;
+  }
+
+  const rows = await db.all<{
+    period: string;
+    period_start: string;
+    count: number;
+    sum: number;
+    avg: number;
+    min: number;
+    max: number;
+    median: number;
+    p90: number;
+    moving_avg: number | null;
+    moving_sum: number | null;
+    moving_count: number;
+    prev_avg: number | null;
+    prev_sum: number | null;
+    yoy_avg: number | null;
+    yoy_sum: number | null;
+  }>(sql`
+    WITH points AS (
+      SELECT
+        strftime(${format}, ${records.date}, 'unixepoch') AS period,
+        date(${records.date}, 'unixepoch'${startModifiers}) AS period_start,
+        ${metrics.value} AS value
+      FROM ${metrics}
+      INNER JOIN ${records} ON ${metrics.recordId} = ${records.id}
+      WHERE ${and(...historyConditions)}
+    ),
+    ranked AS (
+      SELECT
+        period,
+        period_start,
+        value,
+        row_number() OVER (PARTITION BY period ORDER BY value) AS rn,
+        count(*) OVER (PARTITION BY period) AS cnt
+      FROM points
+    ),
+    periods AS (
+      SELECT period, min(period_start) AS period_start, ${STATISTICS_COLUMNS}
+      FROM ranked
+      GROUP BY period
+    ),
+    windowed AS (
+      SELECT
+        p.*,
+        avg(p.avg) OVER trailing AS moving_avg,
+        avg(p.sum) OVER trailing AS moving_sum,
+        count(*) OVER trailing AS moving_count,
+        prev.avg AS prev_avg,
+        prev.sum AS prev_sum,
+        CASE WHEN prev.avg IS NULL OR prev.avg = 0 THEN NULL
+          ELSE (p.avg - prev.avg) * 100.0 / abs(prev.avg) END AS yoy_avg,
+        CASE WHEN prev.sum IS NULL OR prev.sum = 0 THEN NULL
+          ELSE (p.sum - prev.sum) * 100.0 / abs(prev.sum) END AS yoy_sum
+      FROM periods p
+      LEFT JOIN periods prev
+        ON prev.period = (CAST(substr(p.period, 1, 4) AS INTEGER) - 1) || substr(p.period, 5)
+      WINDOW trailing AS (ORDER BY p.period ROWS BETWEEN ${preceding} PRECEDING AND CURRENT ROW)
+    )
+    SELECT * FROM windowed
+    WHERE period >= ${firstPeriod}
+    ORDER BY period`);
+
+  return rows.map((row) => ({
+    period: row.period,
+    periodStart: row.period_start,
+    count: row.count,
+    sum: row.sum,
+    avg: row.avg,
+    min: row.min,
+    max: row.max,
+    median: row.median,
+    p90: row.p90,
+    movingAvg: row.moving_count >= window ? row.moving_avg : null,
+    movingSum: row.moving_count >= window ? row.moving_sum : null,
+    previousYear:
+      row.prev_avg !== null && row.prev_sum !== null
+        ? { avg: row.prev_avg, sum: row.prev_sum }
+        : null,
+    yoyChange: row.prev_avg !== null ? { avg: row.yoy_avg, sum: row.yoy_sum } : null,
+  }));
+}
+
+/**
+ * Totals over a user's whole history (dashboard summary)
+ */
+export interface RecordsSummary {
+  totalRecords: number;
+  latestDate: Date | null;
+  /** Records per domain */
+  types: Array<{ type: string; count: number }>;
+  /** Most used categories first */
+  categories: Array<{ category: string; count: number }>;
+}
+
+/**
+ * Summarize all of a user's records (optionally of one domain)
+ */
+export async function getRecordsSummary(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  type?: string,
+): Promise<RecordsSummary> {
+  const where = and(eq(records.userId, userId), type ? eq(records.type, type) : undefined);
+
+  const [totals, types, categories] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(*)`, latest: sql<number | null>`max(${records.date})` })
+      .from(records)
+      .where(where),
+    db
+      .select({ type: records.type, count: sql<number>`count(*)` })
+      .from(records)
+      .where(where)
+      .groupBy(records.type)
+      .orderBy(sql`count(*) DESC`),
+    db
+      .select({ category: records.category, count: sql<number>`count(*)` })
+      .from(records)
+      .where(where)
+      .groupBy(records.category)
+      .orderBy(sql`count(*) DESC`),
+  ]);
+
+  const latest = totals[0]?.latest;
+  return {
+    totalRecords: totals[0]?.count ?? 0,
+    latestDate: latest ? new Date(latest * 1000) : null,
+    types,
+    categories,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Attachments Service
+ * Stores original documents and links them to the records extracted from them
+ */
+
+import type { UIMessage } from 'ai';
+import { createDb, attachments } from '@ai-chart/database';
+import { eq, and } from 'drizzle-orm';
+import { base64ToArrayBuffer } from '@ai-chart/ai-core';
+import type { BlobStorage } from './blob-storage';
+import { hashContent } from './record-data';
+
+/**
+ * An original file to attach
+ */
+export interface AttachmentFile {
+  data: ArrayBuffer;
+  mimeType: string;
+  fileName?: string;
+}
+
+/**
+ * A file already written to blob storage
+ */
+export interface StoredFile {
+  storageKey: string;
+  contentHash: string;
+  mimeType: string;
+  fileName: string | null;
+  size: number;
+}
+
+/**
+ * Stored file types shown inline; anything else (e.g., HTML or SVG, which could run script
+ * on the API origin) is served as a download
+ */
+const INLINE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'application/pdf'];
+
+/**
+ * Response headers for serving a stored file
+ */
+export function getFileResponseHeaders(
+  fileName: string | null,
+  contentType: string,
+  size: number,
+): Record<string, string> {
+  const name = (fileName || 'document').replace(/["\r\n]/g, '');
+  const inline = INLINE_MIME_TYPES.includes(contentType.toLowerCase());
+  return {
+    'Content-Type': inline ? contentType : 'application/octet-stream',
+    'Content-Length': String(size),
+    'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${name}"`,
+    'X-Content-Type-Options': 'nosniff',
+    'Cache-Control': 'private, max-age=3600',
+  };
+}
+
+/**
+ * Write a file to blob storage (once per user and content)
+ */
+export async function putAttachmentFile(
+  storage: BlobStorage,
+  userId: string,
+  file: AttachmentFile,
+  contentHash?: string,
+): Promise<StoredFile> {
+  const hash = contentHash ?? (await hashContent(file.data));
+  const storageKey = `${userId}/${hash}`;
+
+  if (!(await storage.has(storageKey))) {
+    await storage.put(storageKey, file.data, file.mimeType);
+  }
+
+  return {
+    storageKey,
+    contentHash: hash,
+    mimeType: file.mimeType,
+    fileName: file.fileName || null,
+    size: file.data.byteLength,
+  };
+}
+
+/**
+ * Link a stored file to records
+ * Linking the same file to the same record again is a no-op.
+ * @returns IDs of the newly created attachment links
+ */
+export async function linkAttachment(
+  db: ReturnType<typeof createDb>,
+  params: {
+    userId: string;
+    recordIds: string[];
+    file: StoredFile;
+    source: 'chat' | 'upload';
+  },
+): Promise<string[]> {
+  const { userId, recordIds, file, source } = params;
+  if (recordIds.length === 0) {
+    return [];
+  }
+
+  // One insert per link: a multi-row insert would exceed D1's bound parameter limit
+  const createdAt = new Date();
+  const [first, ...rest] = recordIds.map((recordId) =>
+    db
+      .insert(attachments)
+      .values({
+        id: crypto.randomUUID(),
+        recordId,
+        userId,
+        storageKey: file.storageKey,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        size: file.size,
+        contentHash: file.contentHash,
+        source,
+        createdAt,
+      })
+      .onConflictDoNothing()
+      .returning({ id: attachments.id }),
+  );
+  const inserted = await db.batch([first, ...rest]);
+
+  return inserted.flat().map((row) => row.id);
+}
+
+/**
+ * Store a file and link it to records
+ * @returns IDs of the newly created attachment links
+ */
+export async function storeAttachment(
+  db: ReturnType<typeof createDb>,
+  storage: BlobStorage,
+  params: {
+    userId: string;
+    recordIds: string[];
+    file: AttachmentFile;
+    source: 'chat' | 'upload';
+    contentHash?: string;
+  },
+): Promise<string[]> {
+  const { userId, recordIds, file, source, contentHash } = params;
+  if (recordIds.length === 0) {
+    return [];
+  }
+
+  const stored = await putAttachmentFile(storage, userId, file, contentHash);
+  return linkAttachment(db, { userId, recordIds, file: stored, source });
+}
+
+/**
+ * List the attachments of a record (metadata only)
+ */
+export async function listRecordAttachments(db: ReturnType<typeof createDb>, recordId: string) {
+  return db
+    .select({
+      id: attachments.id,
+      fileName: attachments.fileName,
+      mimeType: attachments.mimeType,
+      size: attachments.size,
+      source: attachments.source,
+      createdAt: attachments.createdAt,
+    })
+    .from(attachments)
+    .where(eq(attachments.recordId, recordId))
+    .orderBy(attachments.createdAt);
+}
+
+/**
+ * Get an attachment owned by a user
+ */
+export async function getAttachment(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  attachmentId: string,
+) {
+  const result = await db
+    .select()
+    .from(attachments)
+    .where(and(eq(attachments.id, attachmentId), eq(attachments.userId, userId)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Collect the files of the most recent user message that has any (chat image uploads)
+ * File parts arrive from the client as data URLs.
+ */
+export function getLatestMessageFiles(messages: UIMessage[]): AttachmentFile[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== 'user') {
+      continue;
+    }
+    const files = messages[i].parts.flatMap((part) => {
+      if (part.type !== 'file') {
+        return [];
+      }
+      const data = decodeDataUrl(part.url);
+      return data ? [{ data, mimeType: part.mediaType, fileName: part.filename }] : [];
+    });
+    if (files.length > 0) {
+      return files;
+    }
+  }
+  return [];
+}
+
+/**
+ * Decode a base64 data URL (returns null for remote URLs)
+ */
+export function decodeDataUrl(url: string): ArrayBuffer | null {
+  const match = /^data:[^;,]*;base64,(.*)$/.exec(url);
+  return match ? base64ToArrayBuffer(match[1]) : null;
+}
@@ -0,0 +1,208 @@
+/**
+ * Auth Service
+ * Password hashing and session management (Web Crypto, Cloudflare Workers compatible)
+ */
+
+import { createDb, users, sessions, records } from '@ai-chart/database';
+import { eq, and, gt, sql } from 'drizzle-orm';
+
+/**
+ * Authenticated user as exposed to routes and tools
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+/**
+ * Session lifetime (30 days)
+ */
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * PBKDF2 iteration count (Workers caps PBKDF2 at 100k iterations)
+ */
+const PBKDF2_ITERATIONS = 100000;
+
+/**
+ * Owner id used by records created before accounts existed
+ */
+const LEGACY_USER_ID = 'default-user';
+
+/**
+ * Hash a password with PBKDF2-SHA256 and a random salt
+ * @returns Encoded hash: "iterations:salt:hash" (hex)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return `${PBKDF2_ITERATIONS}:${toHex(salt)}:${toHex(hash)}`;
+}
+
+/**
+ * Verify a password against an encoded hash produced by hashPassword
+ */
+export async function verifyPassword(password: string, encoded: string): Promise<boolean> {
+  const [iterations, saltHex, hashHex] = encoded.split(':');
+  if (!iterations || !saltHex || !hashHex) {
+    return false;
+  }
+  const hash = await pbkdf2(password, fromHex(saltHex), parseInt(iterations, 10));
+  return timingSafeEqual(toHex(hash), hashHex);
+}
+
+/**
+ * Create a new session for a user
+ * @returns Raw session token (only its hash is stored) and expiry
+ */
+export async function createSession(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await db.insert(sessions).values({
+    id: await hashToken(token),
+    userId,
+    expiresAt,
+    createdAt: new Date(),
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Resolve the user owning a session token
+ * @returns The user, or null if the token is unknown or expired
+ */
+export async function getSessionUser(
+  db: ReturnType<typeof createDb>,
+  token: string,
+): Promise<AuthUser | null> {
+  const result = await db
+    .select({ id: users.id, email: users.email, name: users.name })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(eq(sessions.id, await hashToken(token)), gt(sessions.expiresAt, new Date())))
+    .limit(1);
+
+  return result[0] ?? null;
+}
+
+/**
+ * Delete a session (logout)
+ */
+export async function deleteSession(db: ReturnType<typeof createDb>, token: string): Promise<void> {
+  await db.delete(sessions).where(eq(sessions.id, await hashToken(token)));
+}
+
+/**
+ * Register a new user
+ * The very first account adopts records saved before authentication existed.
+ * @throws Error if the email is already registered
+ */
+export async function registerUser(
+  db: ReturnType<typeof createDb>,
+  input: { email: string; name: string; password: string },
+): Promise<AuthUser> {
+  const email = input.email.trim().toLowerCase();
+
+  const existing = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+  if (existing.length > 0) {
+    throw new Error('Email already registered');
+  }
+
+  const [{ count }] = await db.select({ count: sql<number>`COUNT(*)` }).from(users);
+
+  const user: AuthUser = { id: crypto.randomUUID(), email, name: input.name.trim() };
+  const now = new Date();
+
+  await db.insert(users).values({
+    ...user,
+    passwordHash: await hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  if (count === 0) {
+    await db.update(records).set({ userId: user.id }).where(eq(records.userId, LEGACY_USER_ID));
+  }
+
+  return user;
+}
+
+/**
+ * Check email + password credentials
+ * @returns The user, or null if the credentials are invalid
+ */
+export async function authenticateUser(
+  db: ReturnType<typeof createDb>,
+  email: string,
+  password: string,
+): Promise<AuthUser | null> {
+  const result = await db
+    .select()
+    .from(users)
+    .where(eq(users.email, email.trim().toLowerCase()))
+    .limit(1);
+
+  const user = result[0];
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * SHA-256 hex of a secret token (sessions and calendar feeds store only this)
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
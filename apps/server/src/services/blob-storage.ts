@@ -0,0 +1,106 @@
+/**
+ * Blob Storage Service
+ * Minimal R2-style object storage used for original documents (attachments)
+ * Production uses the ATTACHMENTS R2 binding (which `wrangler dev` persists to the local
+ * filesystem); without a binding an in-memory store stands in.
+ */
+
+/**
+ * A stored object
+ */
+export interface StoredBlob {
+  body: ReadableStream | ArrayBuffer;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Storage backend interface — implemented by R2 and the in-memory stand-in
+ */
+export interface BlobStorage {
+  put(key: string, data: ArrayBuffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Environment bindings that may provide blob storage
+ */
+export interface BlobStorageEnv {
+  ATTACHMENTS?: R2Bucket;
+}
+
+/**
+ * Blob storage backed by a Cloudflare R2 bucket
+ */
+export function createR2BlobStorage(bucket: R2Bucket): BlobStorage {
+  return {
+    async put(key, data, contentType) {
+      await bucket.put(key, data, { httpMetadata: { contentType } });
+    },
+    async get(key) {
+      const object = await bucket.get(key);
+      if (!object) {
+        return null;
+      }
+      return {
+        body: object.body,
+        contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+        size: object.size,
+      };
+    },
+    async has(key) {
+      return (await bucket.head(key)) !== null;
+    },
+    async delete(key) {
+      await bucket.delete(key);
+    },
+  };
+}
+
+/**
+ * Blob storage kept in memory (local development and tests)
+ * Contents live as long as the isolate/process.
+ */
+export function createMemoryBlobStorage(
+  objects = new Map<string, { data: ArrayBuffer; contentType: string }>(),
+): BlobStorage {
+  return {
+    async put(key, data, contentType) {
+      objects.set(key, { data: data.slice(0), contentType });
+    },
+    async get(key) {
+      const object = objects.get(key);
+      if (!object) {
+        return null;
+      }
+      return { body: object.data, contentType: object.contentType, size: object.data.byteLength };
+    },
+    async has(key) {
+      return objects.has(key);
+    },
+    async delete(key) {
+      objects.delete(key);
+    },
+  };
+}
+
+/**
+ * Shared in-memory store used when no R2 binding is configured
+ */
+let memoryStorage: BlobStorage | null = null;
+
+/**
+ * Get the blob storage for the current environment
+ */
+export function getBlobStorage(env: BlobStorageEnv): BlobStorage {
+  if (env.ATTACHMENTS) {
+    return createR2BlobStorage(env.ATTACHMENTS);
+  }
+  if (!memoryStorage) {
+    console.warn('No ATTACHMENTS binding configured — storing attachments in memory');
+    memoryStorage = createMemoryBlobStorage();
+  }
+  return memoryStorage;
+}
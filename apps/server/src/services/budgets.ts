@@ -0,0 +1,247 @@
+/**
+ * Budgets Service
+ * Monthly limits per finance categoryTag and their progress: the month's spending in the
+ * category (counted like the spending breakdown, see services/spending) against the limit
+ */
+
+import { eq, and, asc } from 'drizzle-orm';
+import { createDb, budgets } from '@ai-chart/database';
+import { getSpendingBreakdown } from './spending';
+
+/**
+ * How close spending is to the limit: below warningPercent, from warningPercent, from criticalPercent
+ */
+export const BUDGET_LEVELS = ['ok', 'warning', 'critical'] as const;
+export type BudgetLevel = (typeof BUDGET_LEVELS)[number];
+
+/**
+ * A budget as returned to clients
+ */
+export interface Budget {
+  id: string;
+  categoryTag: string;
+  monthlyLimit: number;
+  currency: string;
+  /** Percent of the limit at which progress is a warning (e.g., 80) */
+  warningPercent: number;
+  /** Percent of the limit at which progress is critical (e.g., 100) */
+  criticalPercent: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BudgetInput = Pick<
+  Budget,
+  'categoryTag' | 'monthlyLimit' | 'currency' | 'warningPercent' | 'criticalPercent'
+>;
+
+/**
+ * Spending of a month against a budget
+ */
+export interface BudgetProgress extends Budget {
+  spent: number;
+  /** Negative when over the limit */
+  remaining: number;
+  /** Spent as a percent of the limit */
+  percent: number;
+  level: BudgetLevel;
+  /** Spending by the end of the month at the pace so far (current month only) */
+  projected: number | null;
+  projectedLevel: BudgetLevel | null;
+}
+
+/**
+ * Progress of every budget in a month
+ */
+export interface BudgetReport {
+  /** YYYY-MM */
+  month: string;
+  /** Share of the month elapsed (1 for past months, 0 for future ones) */
+  elapsed: number;
+  budgets: BudgetProgress[];
+}
+
+const budgetColumns = {
+  id: budgets.id,
+  categoryTag: budgets.categoryTag,
+  monthlyLimit: budgets.monthlyLimit,
+  currency: budgets.currency,
+  warningPercent: budgets.warningPercent,
+  criticalPercent: budgets.criticalPercent,
+  createdAt: budgets.createdAt,
+  updatedAt: budgets.updatedAt,
+};
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function getLevel(budget: Budget, amount: number): BudgetLevel {
+  const percent = (amount * 100) / budget.monthlyLimit;
+  if (percent >= budget.criticalPercent) {
+    return 'critical';
+  }
+  return percent >= budget.warningPercent ? 'warning' : 'ok';
+}
+
+/**
+ * The current month (YYYY-MM, UTC)
+ */
+export function currentMonth(now = new Date()) {
+  return now.toISOString().slice(0, 7);
+}
+
+/**
+ * List a user's budgets
+ */
+export async function listBudgets(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<Budget[]> {
+  return db
+    .select(budgetColumns)
+    .from(budgets)
+    .where(eq(budgets.userId, userId))
+    .orderBy(asc(budgets.categoryTag), asc(budgets.currency));
+}
+
+/**
+ * Get a budget owned by a user
+ */
+export async function getBudget(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  id: string,
+): Promise<Budget | null> {
+  const result = await db
+    .select(budgetColumns)
+    .from(budgets)
+    .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Find a user's budget of a category and currency
+ */
+export async function findBudget(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  categoryTag: string,
+  currency: string,
+): Promise<Budget | null> {
+  const result = await db
+    .select(budgetColumns)
+    .from(budgets)
+    .where(
+      and(
+        eq(budgets.userId, userId),
+        eq(budgets.categoryTag, categoryTag),
+        eq(budgets.currency, currency),
+      ),
+    )
+    .limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Create a budget
+ */
+export async function createBudget(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  input: BudgetInput,
+): Promise<Budget> {
+  const now = new Date();
+  const budget: Budget = { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+  await db.insert(budgets).values({ ...budget, userId });
+  return budget;
+}
+
+/**
+ * Update a budget
+ */
+export async function updateBudget(
+  db: ReturnType<typeof createDb>,
+  id: string,
+  input: Partial<BudgetInput>,
+): Promise<void> {
+  await db
+    .update(budgets)
+    .set({ ...input, updatedAt: new Date() })
+    .where(eq(budgets.id, id));
+}
+
+/**
+ * Delete a budget
+ */
+export async function deleteBudget(db: ReturnType<typeof createDb>, id: string): Promise<void> {
+  await db.delete(budgets).where(eq(budgets.id, id));
+}
+
+/**
+ * Progress of a user's budgets in a month (optionally only those of one category)
+ * @param options - month (YYYY-MM, default: the current month) and categoryTag to report
+ */
+export async function getBudgetReport(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  options: { month?: string; categoryTag?: string; now?: Date } = {},
+): Promise<BudgetReport> {
+  const now = options.now ?? new Date();
+  const month = options.month ?? currentMonth(now);
+  const [year, mon] = month.split('-').map(Number);
+  const startDate = new Date(Date.UTC(year, mon - 1, 1));
+  const nextMonth = new Date(Date.UTC(year, mon, 1));
+  const elapsed = Math.min(
+    1,
+    Math.max(
+      0,
+      (now.getTime() - startDate.getTime()) / (nextMonth.getTime() - startDate.getTime()),
+    ),
+  );
+
+  const all = await listBudgets(db, userId);
+  const selected = options.categoryTag
+    ? all.filter((budget) => budget.categoryTag === options.categoryTag)
+    : all;
+
+  // One breakdown per currency, since amounts are only added up within a currency
+  const spentByCurrency = new Map<string, Map<string, number>>();
+  for (const currency of new Set(selected.map((budget) => budget.currency))) {
+    const breakdown = await getSpendingBreakdown(db, userId, {
+      groupBy: 'month',
+      startDate,
+      endDate: new Date(nextMonth.getTime() - 1),
+      currency,
+      merchantLimit: 0,
+    });
+    spentByCurrency.set(
+      currency,
+      new Map(breakdown.categories.map((category) => [category.categoryTag, category.amount])),
+    );
+  }
+
+  return {
+    month,
+    elapsed: round(elapsed),
+    budgets: selected.map((budget) => {
+      const spent = spentByCurrency.get(budget.currency)?.get(budget.categoryTag) ?? 0;
+      // Only project the running month, once a day of it has passed
+      const projected =
+        elapsed > 0 && elapsed < 1 && now.getTime() - startDate.getTime() >= 24 * 60 * 60 * 1000
+          ? round(spent / elapsed)
+          : null;
+
+      return {
+        ...budget,
+        spent,
+        remaining: round(budget.monthlyLimit - spent),
+        percent: round((spent * 100) / budget.monthlyLimit),
+        level: getLevel(budget, spent),
+        projected,
+        projectedLevel: projected === null ? null : getLevel(budget, projected),
+      };
+    }),
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Calendar Feed Service
+ * Reminders as an iCalendar (RFC 5545) feed. Calendar apps subscribe without logging in,
+ * so each user gets a secret feed token; like session tokens, only its hash is stored.
+ */
+
+import { eq } from 'drizzle-orm';
+import { createDb, calendarFeeds } from '@ai-chart/database';
+import { hashToken } from './auth';
+import type { ReminderItem } from './reminders';
+
+/** Lines longer than this (in octets) are folded */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Create the user's feed token, replacing (and so revoking) the previous one
+ * @returns The raw token; it can't be read back later
+ */
+export async function createCalendarFeed(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<string> {
+  const token = Array.from(crypto.getRandomValues(new Uint8Array(24)), (b) =>
+    b.toString(16).padStart(2, '0'),
+  ).join('');
+  await db.batch([
+    db.delete(calendarFeeds).where(eq(calendarFeeds.userId, userId)),
+    db.insert(calendarFeeds).values({ id: await hashToken(token), userId, createdAt: new Date() }),
+  ]);
+  return token;
+}
+
+/**
+ * When the user's feed was created (null without a feed)
+ */
+export async function getCalendarFeedCreatedAt(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<Date | null> {
+  const [row] = await db
+    .select({ createdAt: calendarFeeds.createdAt })
+    .from(calendarFeeds)
+    .where(eq(calendarFeeds.userId, userId))
+    .limit(1);
+  return row?.createdAt ?? null;
+}
+
+/**
+ * Revoke the user's feed
+ */
+export async function deleteCalendarFeed(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<void> {
+  await db.delete(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+}
+
+/**
+ * Resolve the user owning a feed token
+ * @returns The user ID, or null if the token is unknown
+ */
+export async function getCalendarFeedUserId(
+  db: ReturnType<typeof createDb>,
+  token: string,
+): Promise<string | null> {
+  const [row] = await db
+    .select({ userId: calendarFeeds.userId })
+    .from(calendarFeeds)
+    .where(eq(calendarFeeds.id, await hashToken(token)))
+    .limit(1);
+  return row?.userId ?? null;
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+function escapeText(value: string) {
+  return value.replace(/[\\;,]/g, (c) => `\\${c}`).replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (continuation lines start with a space)
+ */
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: Date) {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(date: Date) {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+/**
+ * Reminders as an iCalendar document: one all-day event on each due date, with an alarm
+ * the day before. Event UIDs are stable per user and category, so calendar apps move an
+ * event when a new record pushes its due date back; a hash of the user ID keeps them
+ * globally unique without exposing it.
+ */
+export async function buildRemindersCalendar(
+  userId: string,
+  items: ReminderItem[],
+  now = new Date(),
+): Promise<string> {
+  const owner = (await hashToken(userId)).slice(0, 16);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI-Chart//Reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:AI-Chart reminders',
+  ];
+
+  for (const item of items) {
+    const end = new Date(item.dueDate.getTime() + 24 * 60 * 60 * 1000);
+    const every = item.cadence ?? `every ${item.intervalDays} days`;
+    const last = item.lastDate
+      ? `Last recorded on ${item.lastDate.toISOString().slice(0, 10)}.`
+      : 'Not recorded yet.';
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${owner}-${item.recordType}-${encodeURIComponent(item.categoryKey)}@ai-chart`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      `DTSTART;VALUE=DATE:${formatDate(item.dueDate)}`,
+      `DTEND;VALUE=DATE:${formatDate(end)}`,
+      `SUMMARY:${escapeText(`${item.category} due (${item.recordType})`)}`,
+      `DESCRIPTION:${escapeText(`Expected ${every}. ${last}`)}`,
+      'TRANSP:TRANSPARENT',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`${item.category} is due tomorrow`)}`,
+      'TRIGGER:-P1D',
+      'END:VALARM',
+      'END:VEVENT',
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,298 @@
+/**
+ * Chat History Service
+ * Persists chat sessions and their UIMessages
+ */
+
+import type { UIMessage } from 'ai';
+import { createDb, chats, chatMessages } from '@ai-chart/database';
+import { eq, and, gte, like, desc } from 'drizzle-orm';
+import { arrayBufferToDataUrl } from '@ai-chart/ai-core';
+import type { BlobStorage } from './blob-storage';
+import { decodeDataUrl, putAttachmentFile } from './attachments';
+
+/**
+ * Canvas content restored when a chat is reopened
+ * (same shape the client passes to openCanvas)
+ */
+export interface CanvasState {
+  contentType: 'chart' | 'form' | 'pdf';
+  data: Array<{ component: string; props: Record<string, unknown> }>;
+}
+
+/**
+ * Maximum length of an auto-generated chat title
+ */
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * URL scheme of file parts whose content was moved to blob storage
+ * (stored messages reference the blob instead of embedding a data URL)
+ */
+const STORED_FILE_SCHEME = 'stored:';
+
+/**
+ * Derive a chat title from the first user message
+ */
+export function deriveChatTitle(messages: UIMessage[]): string {
+  const firstUser = messages.find((m) => m.role === 'user');
+  const text = firstUser?.parts
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!text || text.startsWith('[User attached image')) {
+    return 'New Chat';
+  }
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Find the most recent render_ui output in a conversation
+ */
+export function deriveCanvasState(messages: UIMessage[]): CanvasState | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const parts = messages[i].parts;
+    for (let j = parts.length - 1; j >= 0; j--) {
+      const part = parts[j] as Record<string, unknown>;
+      const isRenderUI =
+        part.type === 'tool-render_ui' ||
+        (part.type === 'dynamic-tool' && part.toolName === 'render_ui');
+      if (isRenderUI && part.state === 'output-available') {
+        const output = part.output as {
+          component: string;
+          props: Record<string, unknown>;
+          contentType: CanvasState['contentType'];
+        };
+        return {
+          contentType: output.contentType,
+          data: [{ component: output.component, props: output.props }],
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Get a chat owned by a user
+ */
+export async function getChat(db: ReturnType<typeof createDb>, userId: string, chatId: string) {
+  const result = await db
+    .select()
+    .from(chats)
+    .where(and(eq(chats.id, chatId), eq(chats.userId, userId)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * List a user's chats, most recently active first
+ * @param search - Optional case-insensitive title filter
+ */
+export async function listChats(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  options: { search?: string; limit?: number } = {},
+) {
+  const conditions = [eq(chats.userId, userId)];
+  if (options.search) {
+    conditions.push(like(chats.title, `%${options.search}%`));
+  }
+
+  return db
+    .select({
+      id: chats.id,
+      title: chats.title,
+      createdAt: chats.createdAt,
+      updatedAt: chats.updatedAt,
+    })
+    .from(chats)
+    .where(and(...conditions))
+    .orderBy(desc(chats.updatedAt))
+    .limit(options.limit ?? 50);
+}
+
+/**
+ * Create a chat (no-op if it already exists)
+ */
+export async function createChat(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  chatId: string,
+  title: string,
+) {
+  const now = new Date();
+  await db
+    .insert(chats)
+    .values({ id: chatId, userId, title, createdAt: now, updatedAt: now })
+    .onConflictDoNothing();
+}
+
+/**
+ * Make sure a chat exists for the user before persisting messages into it
+ * New chats (and chats still named "New Chat") get a title from the first user message.
+ * @returns false if the chat id belongs to another user
+ */
+export async function ensureChat(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  chatId: string,
+  messages: UIMessage[],
+): Promise<boolean> {
+  const title = deriveChatTitle(messages);
+  const existing = await getChat(db, userId, chatId);
+
+  if (existing) {
+    if (existing.title === 'New Chat' && title !== 'New Chat') {
+      await updateChat(db, chatId, { title });
+    }
+    return true;
+  }
+
+  await createChat(db, userId, chatId, title);
+  return (await getChat(db, userId, chatId)) !== null;
+}
+
+/**
+ * Move the data-URL file parts of messages to blob storage, keeping a reference
+ * (a couple of inline photos exceed D1's row size limit)
+ */
+async function storeMessageFiles(
+  storage: BlobStorage,
+  userId: string,
+  messages: UIMessage[],
+): Promise<UIMessage[]> {
+  return Promise.all(
+    messages.map(async (message) => ({
+      ...message,
+      parts: await Promise.all(
+        message.parts.map(async (part) => {
+          const data = part.type === 'file' ? decodeDataUrl(part.url) : null;
+          if (part.type !== 'file' || !data) {
+            return part;
+          }
+          const stored = await putAttachmentFile(storage, userId, {
+            data,
+            mimeType: part.mediaType,
+            fileName: part.filename,
+          });
+          return { ...part, url: `${STORED_FILE_SCHEME}${stored.storageKey}` };
+        }),
+      ),
+    })),
+  );
+}
+
+/**
+ * Turn stored file references back into data URLs
+ * Files missing from blob storage are dropped from the message.
+ */
+async function loadMessageFiles(storage: BlobStorage, message: UIMessage): Promise<UIMessage> {
+  const parts = await Promise.all(
+    message.parts.map(async (part) => {
+      if (part.type !== 'file' || !part.url.startsWith(STORED_FILE_SCHEME)) {
+        return part;
+      }
+      const blob = await storage.get(part.url.slice(STORED_FILE_SCHEME.length));
+      if (!blob) {
+        return null;
+      }
+      const data = await new Response(blob.body).arrayBuffer();
+      return { ...part, url: arrayBufferToDataUrl(data, part.mediaType) };
+    }),
+  );
+  return { ...message, parts: parts.filter((part) => part !== null) };
+}
+
+/**
+ * Load the stored UIMessages of a chat in conversation order
+ */
+export async function getChatMessages(
+  db: ReturnType<typeof createDb>,
+  storage: BlobStorage,
+  chatId: string,
+): Promise<UIMessage[]> {
+  const rows = await db
+    .select({ content: chatMessages.content })
+    .from(chatMessages)
+    .where(eq(chatMessages.chatId, chatId))
+    .orderBy(chatMessages.position);
+
+  return Promise.all(
+    rows.map((row) => loadMessageFiles(storage, JSON.parse(row.content) as UIMessage)),
+  );
+}
+
+/**
+ * Replace the stored conversation with the given messages
+ * Messages beyond the new length (e.g., a regenerated answer) are dropped; file parts are
+ * kept in blob storage. A message id already used in another chat is left untouched.
+ */
+export async function saveChatMessages(
+  db: ReturnType<typeof createDb>,
+  storage: BlobStorage,
+  userId: string,
+  chatId: string,
+  messages: UIMessage[],
+) {
+  const now = new Date();
+  const canvasState = deriveCanvasState(messages);
+  const stored = await storeMessageFiles(storage, userId, messages);
+
+  await db.batch([
+    db
+      .delete(chatMessages)
+      .where(and(eq(chatMessages.chatId, chatId), gte(chatMessages.position, messages.length))),
+    ...stored.map((message, position) =>
+      db
+        .insert(chatMessages)
+        .values({
+          id: message.id,
+          chatId,
+          role: message.role,
+          content: JSON.stringify(message),
+          position,
+          createdAt: now,
+        })
+        .onConflictDoUpdate({
+          target: chatMessages.id,
+          set: { content: JSON.stringify(message), position },
+          setWhere: eq(chatMessages.chatId, chatId),
+        }),
+    ),
+    db
+      .update(chats)
+      .set({
+        updatedAt: now,
+        ...(canvasState ? { canvasState: JSON.stringify(canvasState) } : {}),
+      })
+      .where(eq(chats.id, chatId)),
+  ]);
+}
+
+/**
+ * Update chat fields (title, canvas state)
+ */
+export async function updateChat(
+  db: ReturnType<typeof createDb>,
+  chatId: string,
+  updates: { title?: string; canvasState?: CanvasState | null },
+) {
+  const chatUpdates: Record<string, unknown> = { updatedAt: new Date() };
+  if (updates.title !== undefined) {
+    chatUpdates.title = updates.title;
+  }
+  if (updates.canvasState !== undefined) {
+    chatUpdates.canvasState = updates.canvasState ? JSON.stringify(updates.canvasState) : null;
+  }
+
+  await db.update(chats).set(chatUpdates).where(eq(chats.id, chatId));
+}
+
+/**
+ * Delete a chat (messages cascade automatically)
+ */
+export async function deleteChat(db: ReturnType<typeof createDb>, chatId: string) {
+  await db.delete(chats).where(eq(chats.id, chatId));
+}
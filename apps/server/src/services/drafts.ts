@@ -0,0 +1,321 @@
+/**
+ * Drafts Service
+ * Extraction results wait here for review before they become records
+ * Uploads create one draft per extracted record (e.g., one per lab panel); approving drafts
+ * saves them as records (with the usual duplicate handling) and links the original file.
+ */
+
+import { DomainRecordDataSchema, type RecordData } from '@ai-chart/shared';
+import { createDb, drafts } from '@ai-chart/database';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import {
+  saveMultipleRecords,
+  type DuplicateAction,
+  type SaveOptions,
+  type SaveResult,
+} from './record-data';
+import { linkAttachment, type StoredFile } from './attachments';
+
+export const DRAFT_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type DraftStatus = (typeof DRAFT_STATUSES)[number];
+
+/**
+ * A draft as returned by the API (data parsed, storage key hidden)
+ */
+export interface Draft {
+  id: string;
+  type: RecordData['type'];
+  status: DraftStatus;
+  data: RecordData;
+  fileName: string | null;
+  mimeType: string | null;
+  size: number | null;
+  hasFile: boolean;
+  /** SHA-256 of the original file; drafts from the same upload share it */
+  contentHash: string | null;
+  recordId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type DraftRow = typeof drafts.$inferSelect;
+
+/**
+ * Create one pending draft per extracted record
+ * @param file - The stored original file, shared by all drafts (null if it could not be stored)
+ */
+export async function createDrafts(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  recordsData: RecordData[],
+  file: StoredFile | null,
+): Promise<Draft[]> {
+  if (recordsData.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  const rows = recordsData.map((recordData) => ({
+    id: crypto.randomUUID(),
+    userId,
+    type: recordData.type,
+    status: 'pending' as const,
+    data: JSON.stringify(recordData),
+    storageKey: file?.storageKey ?? null,
+    fileName: file?.fileName ?? null,
+    mimeType: file?.mimeType ?? null,
+    size: file?.size ?? null,
+    contentHash: file?.contentHash ?? null,
+    recordId: null,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  // One insert per draft: a multi-row insert would exceed D1's bound parameter limit
+  const [first, ...rest] = rows.map((row) => db.insert(drafts).values(row).returning());
+  const inserted = await db.batch([first, ...rest]);
+  return inserted.flat().map(toDraft);
+}
+
+/**
+ * List a user's drafts, newest first
+ */
+export async function listDrafts(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  status: DraftStatus = 'pending',
+): Promise<Draft[]> {
+  const rows = await db
+    .select()
+    .from(drafts)
+    .where(and(eq(drafts.userId, userId), eq(drafts.status, status)))
+    .orderBy(desc(drafts.createdAt));
+  return rows.map(toDraft);
+}
+
+/**
+ * Get a draft owned by a user (raw row, including the storage key)
+ */
+export async function getDraftRow(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  draftId: string,
+): Promise<DraftRow | null> {
+  const result = await db
+    .select()
+    .from(drafts)
+    .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Get several drafts owned by a user, in the order requested (missing IDs are skipped)
+ */
+export async function getDraftRows(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  draftIds: string[],
+): Promise<DraftRow[]> {
+  if (draftIds.length === 0) {
+    return [];
+  }
+  const rows = await db
+    .select()
+    .from(drafts)
+    .where(and(eq(drafts.userId, userId), inArray(drafts.id, draftIds)));
+  return draftIds.flatMap((id) => rows.filter((row) => row.id === id));
+}
+
+/**
+ * Pending drafts extracted from the same file (an upload repeated before review)
+ */
+export async function findPendingDraftsByHash(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  contentHash: string,
+  type: RecordData['type'],
+): Promise<Draft[]> {
+  const rows = await db
+    .select()
+    .from(drafts)
+    .where(
+      and(
+        eq(drafts.userId, userId),
+        eq(drafts.contentHash, contentHash),
+        eq(drafts.type, type),
+        eq(drafts.status, 'pending'),
+      ),
+    )
+    .orderBy(drafts.createdAt);
+  return rows.map(toDraft);
+}
+
+/**
+ * Replace the data of a pending draft (review edits)
+ * @throws ZodError if the data fails validation (including the statuses of its domain)
+ */
+export async function updateDraftData(
+  db: ReturnType<typeof createDb>,
+  draftId: string,
+  recordData: RecordData,
+): Promise<Draft> {
+  const data = DomainRecordDataSchema.parse(recordData);
+  const [row] = await db
+    .update(drafts)
+    .set({ type: data.type, data: JSON.stringify(data), updatedAt: new Date() })
+    .where(eq(drafts.id, draftId))
+    .returning();
+  return toDraft(row);
+}
+
+/**
+ * Save pending drafts of one upload as records in a single batch and link the original file
+ * All drafts must come from the same file (they share its content hash for duplicate checks).
+ * A reported duplicate saves nothing and leaves the drafts pending so the reviewer can choose
+ * skip/merge/force; a skipped draft is resolved as rejected, since its data was not saved.
+ * The drafts are claimed first (pending → approved, in one conditional update), so a
+ * concurrent approval of any of them saves nothing; a failed or blocked save releases them.
+ * They are then resolved in the same batch as their records.
+ * @returns One save result per draft, in order, or null if the drafts were already reviewed
+ */
+export async function approveDrafts(
+  db: ReturnType<typeof createDb>,
+  draftRows: DraftRow[],
+  onDuplicate: DuplicateAction = 'report',
+  waitUntil?: SaveOptions['waitUntil'],
+): Promise<SaveResult[] | null> {
+  if (draftRows.length === 0) {
+    return [];
+  }
+
+  const [first] = draftRows;
+  const ids = draftRows.map((draft) => draft.id);
+  const now = new Date();
+
+  const claimed = await db
+    .update(drafts)
+    .set({ status: 'approved', updatedAt: now })
+    .where(and(inArray(drafts.id, ids), eq(drafts.status, 'pending')))
+    .returning({ id: drafts.id });
+  const release = () =>
+    db
+      .update(drafts)
+      .set({ status: 'pending', updatedAt: now })
+      .where(
+        inArray(
+          drafts.id,
+          claimed.map((draft) => draft.id),
+        ),
+      );
+  if (claimed.length !== ids.length) {
+    if (claimed.length > 0) {
+      await release();
+    }
+    return null;
+  }
+
+  let results: SaveResult[];
+  try {
+    results = await saveMultipleRecords(db, draftRows.map(parseDraftData), first.userId, 'upload', {
+      contentHash: first.contentHash ?? undefined,
+      onDuplicate,
+      waitUntil,
+      extraStatements: (saved) =>
+        draftRows.map((draft, index) =>
+          db
+            .update(drafts)
+            .set({
+              status: saved[index].status === 'skipped' ? 'rejected' : 'approved',
+              recordId: saved[index].recordId,
+              updatedAt: now,
+            })
+            .where(eq(drafts.id, draft.id)),
+        ),
+    });
+  } catch (error) {
+    await release();
+    throw error;
+  }
+
+  if (results.some((r) => r.status === 'duplicate' || r.status === 'pending')) {
+    await release();
+    return results;
+  }
+
+  const recordIds = results.flatMap((r) =>
+    r.status !== 'skipped' && r.recordId ? [r.recordId] : [],
+  );
+  if (first.storageKey && first.contentHash) {
+    await linkAttachment(db, {
+      userId: first.userId,
+      recordIds,
+      file: {
+        storageKey: first.storageKey,
+        contentHash: first.contentHash,
+        mimeType: first.mimeType || 'application/octet-stream',
+        fileName: first.fileName,
+        size: first.size ?? 0,
+      },
+      source: 'upload',
+    }).catch((error) => console.error('Failed to link original file:', error));
+  }
+
+  return results;
+}
+
+/**
+ * Discard pending drafts (the original file stays in storage; it may back other records)
+ * @returns Number of drafts rejected
+ */
+export async function rejectDrafts(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  draftIds: string[],
+): Promise<number> {
+  if (draftIds.length === 0) {
+    return 0;
+  }
+  const rejected = await db
+    .update(drafts)
+    .set({ status: 'rejected', updatedAt: new Date() })
+    .where(
+      and(eq(drafts.userId, userId), eq(drafts.status, 'pending'), inArray(drafts.id, draftIds)),
+    )
+    .returning({ id: drafts.id });
+  return rejected.length;
+}
+
+/**
+ * Type guard for a draft status received from a request
+ */
+export function isDraftStatus(value: unknown): value is DraftStatus {
+  return DRAFT_STATUSES.includes(value as DraftStatus);
+}
+
+/**
+ * Parse the stored JSON data of a draft
+ */
+export function parseDraftData(row: DraftRow): RecordData {
+  return JSON.parse(row.data) as RecordData;
+}
+
+/**
+ * Map a database row to the API shape
+ */
+export function toDraft(row: DraftRow): Draft {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    data: parseDraftData(row),
+    fileName: row.fileName,
+    mimeType: row.mimeType,
+    size: row.size,
+    hasFile: row.storageKey !== null,
+    contentHash: row.contentHash,
+    recordId: row.recordId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Metric Keys Service
+ * Maintenance of stored metric keys (listing, merging, applying the canonical dictionary)
+ * Keys are rewritten across all users, but only within one record type: the same key can
+ * mean different things in different domains.
+ */
+
+import { createDb, metrics, records } from '@ai-chart/database';
+import { canonicalizeMetric, findMetricDefinition } from '@ai-chart/shared';
+import { and, count, desc, eq, inArray, min } from 'drizzle-orm';
+
+/**
+ * A stored metric key with usage count and its canonical key
+ */
+export interface MetricKeyUsage {
+  key: string;
+  name: string;
+  count: number;
+  canonicalKey: string;
+}
+
+/**
+ * A planned or applied key merge
+ */
+export interface MetricKeyMerge {
+  from: string[];
+  to: string;
+  name: string | null;
+  count: number;
+}
+
+/**
+ * Metrics belonging to records of a type
+ */
+function inRecordType(db: ReturnType<typeof createDb>, type: string) {
+  return inArray(
+    metrics.recordId,
+    db.select({ id: records.id }).from(records).where(eq(records.type, type)),
+  );
+}
+
+/**
+ * List every metric key in the database, most used first
+ * @param type - Only count metrics of records of this type
+ */
+export async function listMetricKeys(
+  db: ReturnType<typeof createDb>,
+  type?: string,
+): Promise<MetricKeyUsage[]> {
+  const rows = await db
+    .select({ key: metrics.key, name: min(metrics.name), count: count() })
+    .from(metrics)
+    .where(type ? inRecordType(db, type) : undefined)
+    .groupBy(metrics.key)
+    .orderBy(desc(count()));
+
+  return rows.map((row) => {
+    const name = row.name ?? row.key;
+    return {
+      key: row.key,
+      name,
+      count: row.count,
+      canonicalKey: canonicalizeMetric({ key: row.key, name }).key,
+    };
+  });
+}
+
+/**
+ * Rename metric keys (and parentKey references) to a single target key
+ * @param type - Record type whose metrics are renamed
+ * @param name - Display name to set; defaults to the dictionary name of the target key, if any
+ * @returns Number of metrics moved to the target key
+ */
+export async function mergeMetricKeys(
+  db: ReturnType<typeof createDb>,
+  type: string,
+  fromKeys: string[],
+  toKey: string,
+  name?: string,
+): Promise<number> {
+  const sources = fromKeys.filter((key) => key !== toKey);
+  if (sources.length === 0) {
+    return 0;
+  }
+
+  const targetName = name ?? findMetricDefinition(toKey)?.name;
+
+  const [moved] = await db.batch([
+    db
+      .update(metrics)
+      .set({ key: toKey, ...(targetName ? { name: targetName } : {}) })
+      .where(and(inRecordType(db, type), inArray(metrics.key, sources)))
+      .returning({ id: metrics.id }),
+    db
+      .update(metrics)
+      .set({ parentKey: toKey })
+      .where(and(inRecordType(db, type), inArray(metrics.parentKey, sources))),
+  ]);
+
+  console.log(
+    `Merged ${type} metric keys [${sources.join(', ')}] into "${toKey}" (${moved.length} metrics)`,
+  );
+
+  return moved.length;
+}
+
+/**
+ * Apply the canonical metric dictionary to keys already stored in the database
+ * @param type - Record type whose metrics are normalized
+ * @param dryRun - Only report the merges that would be made
+ */
+export async function normalizeMetricKeys(
+  db: ReturnType<typeof createDb>,
+  type: string,
+  dryRun = false,
+): Promise<MetricKeyMerge[]> {
+  const usages = await listMetricKeys(db, type);
+
+  const merges = new Map<string, MetricKeyMerge>();
+  for (const usage of usages) {
+    if (usage.canonicalKey === usage.key) {
+      continue;
+    }
+    const merge = merges.get(usage.canonicalKey) ?? {
+      from: [],
+      to: usage.canonicalKey,
+      name: findMetricDefinition(usage.canonicalKey)?.name ?? null,
+      count: 0,
+    };
+    merge.from.push(usage.key);
+    merge.count += usage.count;
+    merges.set(usage.canonicalKey, merge);
+  }
+
+  if (!dryRun) {
+    for (const merge of merges.values()) {
+      await mergeMetricKeys(db, type, merge.from, merge.to, merge.name ?? undefined);
+    }
+  }
+
+  return [...merges.values()];
+}
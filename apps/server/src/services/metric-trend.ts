@@ -0,0 +1,129 @@
+/**
+ * Metric Trend Service
+ * Time series of one metric across a user's records, in a single unit
+ * (used by the get_metric_trend chat tool and the dashboard charts)
+ */
+
+import { eq, and, gte, lte } from 'drizzle-orm';
+import { createDb, records, metrics } from '@ai-chart/database';
+import {
+  findMetricDefinition,
+  toMetricKey,
+  getCanonicalUnit,
+  convertMetricValue,
+} from '@ai-chart/shared';
+
+/**
+ * Trend query
+ */
+export interface MetricTrendQuery {
+  /** Metric key or name in any alias ("WBC", "白细胞"); resolved to the canonical key */
+  metricKey: string;
+  /** Only records of this domain (default: all) */
+  type?: string;
+  startDate?: Date;
+  endDate?: Date;
+  /** Unit to return values in (default: the metric's canonical unit) */
+  unit?: string;
+}
+
+/**
+ * One point of a trend
+ */
+export interface MetricTrendPoint {
+  date: Date;
+  value: number;
+  unit: string | null;
+  status: string;
+  category: string;
+}
+
+/**
+ * Metric trend with statistics over the points in the target unit
+ */
+export interface MetricTrend {
+  metricKey: string;
+  count: number;
+  statistics: { average: number; min: number; max: number; unit: string | null } | null;
+  /** Points left out of the statistics because they could not be converted */
+  excludedFromStatistics?: number;
+  trend: MetricTrendPoint[];
+}
+
+/**
+ * Get the trend of a metric for a user, oldest first
+ */
+export async function getMetricTrend(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  query: MetricTrendQuery,
+): Promise<MetricTrend> {
+  // Metrics are stored under canonical keys ("WBC", "白细胞" → "wbc")
+  const metricKey = findMetricDefinition(query.metricKey)?.key ?? toMetricKey(query.metricKey);
+
+  const conditions = [eq(records.userId, userId), eq(metrics.key, metricKey)];
+  if (query.type) {
+    conditions.push(eq(records.type, query.type));
+  }
+  if (query.startDate) {
+    conditions.push(gte(records.date, query.startDate));
+  }
+  if (query.endDate) {
+    conditions.push(lte(records.date, query.endDate));
+  }
+
+  const results = await db
+    .select({
+      date: records.date,
+      value: metrics.value,
+      unit: metrics.unit,
+      status: metrics.status,
+      category: records.category,
+    })
+    .from(metrics)
+    .innerJoin(records, eq(metrics.recordId, records.id))
+    .where(and(...conditions))
+    .orderBy(records.date);
+
+  if (results.length === 0) {
+    return { metricKey, count: 0, statistics: null, trend: [] };
+  }
+
+  // Bring every point to one unit (also covers rows saved before unit normalization)
+  const targetUnit = query.unit ?? getCanonicalUnit(metricKey) ?? results[0].unit;
+  const trend = results.map((r) => {
+    const converted = targetUnit
+      ? convertMetricValue(metricKey, r.value, r.unit, targetUnit)
+      : null;
+    return {
+      date: r.date,
+      value: converted?.value ?? r.value,
+      unit: converted?.unit ?? r.unit,
+      status: r.status,
+      category: r.category,
+    };
+  });
+
+  // Statistics only over points in the target unit; others can't be compared
+  const comparable = trend.filter((t) => t.unit === targetUnit);
+  const values = comparable.map((t) => t.value);
+  const statistics =
+    values.length > 0
+      ? {
+          average: values.reduce((sum, val) => sum + val, 0) / values.length,
+          min: Math.min(...values),
+          max: Math.max(...values),
+          unit: targetUnit || null,
+        }
+      : null;
+
+  return {
+    metricKey,
+    count: results.length,
+    statistics,
+    ...(comparable.length < trend.length
+      ? { excludedFromStatistics: trend.length - comparable.length }
+      : {}),
+    trend,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Model Preferences Service
+ * Per-user provider/model choice for each model task (vision, reasoning, advanced),
+ * used instead of the DEFAULT_PROVIDER configuration when the provider is configured
+ */
+
+import { createDb, modelPreferences } from '@ai-chart/database';
+import {
+  isProviderConfigured,
+  isValidProvider,
+  type AIEnvironment,
+  type ModelProvider,
+  type ModelTask,
+} from '@ai-chart/ai-core';
+import { eq, and } from 'drizzle-orm';
+
+/**
+ * Model tasks a preference can be stored for
+ */
+export const MODEL_TASKS = ['vision', 'reasoning', 'advanced'] as const satisfies ModelTask[];
+
+/**
+ * Preferred provider and model of one task
+ */
+export interface ModelPreference {
+  provider: ModelProvider;
+  /** Provider-specific model ID (null = the provider's default model for the task) */
+  modelId: string | null;
+}
+
+/**
+ * A user's preferences (tasks without a preference use the configured default provider)
+ */
+export type ModelPreferences = Record<ModelTask, ModelPreference | null>;
+
+/**
+ * Model selection for a call: positional modelId/provider arguments of the model getters
+ * and extractors (both undefined when the defaults apply)
+ */
+export interface ModelSelection {
+  modelId?: string;
+  provider?: ModelProvider;
+}
+
+/**
+ * Get a user's preferences of every task
+ */
+export async function getModelPreferences(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<ModelPreferences> {
+  const rows = await db.select().from(modelPreferences).where(eq(modelPreferences.userId, userId));
+
+  const preferences: ModelPreferences = { vision: null, reasoning: null, advanced: null };
+  for (const row of rows) {
+    // Rows of a provider that is no longer supported are ignored
+    if (isValidProvider(row.provider)) {
+      preferences[row.task] = { provider: row.provider, modelId: row.modelId };
+    }
+  }
+  return preferences;
+}
+
+/**
+ * Resolve the model to use for a task
+ * Falls back to the defaults when the user has no preference or the preferred provider is no
+ * longer configured (e.g., its API key was removed).
+ */
+export async function getModelSelection(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  task: ModelTask,
+  env: AIEnvironment,
+): Promise<ModelSelection> {
+  const [row] = await db
+    .select()
+    .from(modelPreferences)
+    .where(and(eq(modelPreferences.userId, userId), eq(modelPreferences.task, task)))
+    .limit(1);
+
+  if (!row || !isValidProvider(row.provider) || !isProviderConfigured(row.provider, env)) {
+    return {};
+  }
+  return { provider: row.provider, modelId: row.modelId ?? undefined };
+}
+
+/**
+ * Update a user's preferences
+ * Tasks missing from `preferences` are left unchanged; null removes the preference of a task.
+ * @returns The preferences of every task after the update
+ */
+export async function saveModelPreferences(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  preferences: Partial<ModelPreferences>,
+): Promise<ModelPreferences> {
+  const now = new Date();
+
+  for (const task of MODEL_TASKS) {
+    const preference = preferences[task];
+    if (preference === undefined) {
+      continue;
+    }
+
+    if (preference === null) {
+      await db
+        .delete(modelPreferences)
+        .where(and(eq(modelPreferences.userId, userId), eq(modelPreferences.task, task)));
+      continue;
+    }
+
+    const values = { provider: preference.provider, modelId: preference.modelId?.trim() || null };
+    await db
+      .insert(modelPreferences)
+      .values({ id: crypto.randomUUID(), userId, task, ...values, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [modelPreferences.userId, modelPreferences.task],
+        set: { ...values, updatedAt: now },
+      });
+  }
+
+  return getModelPreferences(db, userId);
+}
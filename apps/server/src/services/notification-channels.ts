@@ -0,0 +1,173 @@
+/**
+ * Notification Channel Service
+ * Delivery of notifications outside the app. Each channel is built from the user's
+ * notification settings by a registered factory; the built-in webhook channel posts every
+ * notification as JSON to the user's HTTPS endpoint.
+ */
+
+import { eq } from 'drizzle-orm';
+import { createDb, notificationSettings } from '@ai-chart/database';
+
+/**
+ * A notification as sent to channels
+ */
+export interface NotificationPayload {
+  id: string;
+  severity: 'info' | 'warning' | 'critical';
+  title: string;
+  message: string;
+  ruleId: string | null;
+  recordId: string | null;
+  metricKey: string | null;
+  createdAt: string;
+}
+
+/**
+ * Delivery backend interface — implemented by the webhook channel (and any registered one)
+ */
+export interface NotificationChannel {
+  /** Channel name for logs (e.g., "webhook") */
+  name: string;
+  send(notification: NotificationPayload): Promise<void>;
+}
+
+/**
+ * A user's delivery settings
+ */
+export interface NotificationSettings {
+  webhookUrl: string | null;
+  webhookSecret: string | null;
+}
+
+/**
+ * Builds a channel from a user's settings (null when the user hasn't configured it)
+ */
+export type NotificationChannelFactory = (
+  settings: NotificationSettings,
+) => NotificationChannel | null;
+
+/**
+ * How long a webhook endpoint has to respond
+ */
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * Hex HMAC-SHA256 of a payload
+ */
+async function sign(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Channel posting notifications to a webhook
+ * The body is `{ event: "notification.created", notification }`; with a secret, the
+ * X-Signature header carries its hex HMAC-SHA256 so the receiver can verify the sender.
+ */
+export function createWebhookChannel(url: string, secret?: string | null): NotificationChannel {
+  return {
+    name: 'webhook',
+    async send(notification) {
+      const body = JSON.stringify({ event: 'notification.created', notification });
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (secret) {
+        headers['X-Signature'] = await sign(secret, body);
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+const channelFactories: NotificationChannelFactory[] = [
+  (settings) =>
+    settings.webhookUrl ? createWebhookChannel(settings.webhookUrl, settings.webhookSecret) : null,
+];
+
+/**
+ * Add a delivery channel (e.g., email or push) built from the user's settings
+ */
+export function registerNotificationChannel(factory: NotificationChannelFactory): void {
+  channelFactories.push(factory);
+}
+
+/**
+ * Get a user's delivery settings
+ */
+export async function getNotificationSettings(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<NotificationSettings> {
+  const [row] = await db
+    .select({
+      webhookUrl: notificationSettings.webhookUrl,
+      webhookSecret: notificationSettings.webhookSecret,
+    })
+    .from(notificationSettings)
+    .where(eq(notificationSettings.userId, userId))
+    .limit(1);
+  return row ?? { webhookUrl: null, webhookSecret: null };
+}
+
+/**
+ * Save a user's delivery settings
+ */
+export async function saveNotificationSettings(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  settings: NotificationSettings,
+): Promise<void> {
+  const updatedAt = new Date();
+  await db
+    .insert(notificationSettings)
+    .values({ userId, ...settings, updatedAt })
+    .onConflictDoUpdate({
+      target: notificationSettings.userId,
+      set: { ...settings, updatedAt },
+    });
+}
+
+/**
+ * Send notifications through every channel the user configured
+ * Delivery failures are logged, never thrown: notifications stay in the app either way.
+ */
+export async function deliverNotifications(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  payloads: NotificationPayload[],
+): Promise<void> {
+  if (payloads.length === 0) {
+    return;
+  }
+
+  const settings = await getNotificationSettings(db, userId);
+  const channels = channelFactories
+    .map((factory) => factory(settings))
+    .filter((channel): channel is NotificationChannel => channel !== null);
+
+  const deliveries = channels.flatMap((channel) =>
+    payloads.map(async (payload) => {
+      try {
+        await channel.send(payload);
+      } catch (error) {
+        console.error(`Notification delivery via ${channel.name} failed:`, error);
+      }
+    }),
+  );
+  await Promise.all(deliveries);
+}
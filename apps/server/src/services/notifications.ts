@@ -0,0 +1,128 @@
+/**
+ * Notifications Service
+ * In-app notifications of a user (raised by alert rules, see services/alerts)
+ */
+
+import { eq, and, desc, isNull, inArray, sql } from 'drizzle-orm';
+import { createDb, notifications } from '@ai-chart/database';
+import type { NotificationPayload } from './notification-channels';
+
+export const NOTIFICATION_SEVERITIES = ['info', 'warning', 'critical'] as const;
+export type NotificationSeverity = (typeof NOTIFICATION_SEVERITIES)[number];
+
+/**
+ * A notification to store
+ */
+export interface NewNotification {
+  ruleId: string | null;
+  recordId: string | null;
+  metricKey: string | null;
+  severity: NotificationSeverity;
+  title: string;
+  message: string;
+  /** Identifies the match; a notification with the same key is not raised twice */
+  dedupeKey: string;
+}
+
+/**
+ * A stored notification
+ */
+export interface Notification extends Omit<NewNotification, 'dedupeKey'> {
+  id: string;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+const notificationColumns = {
+  id: notifications.id,
+  ruleId: notifications.ruleId,
+  recordId: notifications.recordId,
+  metricKey: notifications.metricKey,
+  severity: notifications.severity,
+  title: notifications.title,
+  message: notifications.message,
+  readAt: notifications.readAt,
+  createdAt: notifications.createdAt,
+};
+
+/**
+ * Store notifications, skipping those already raised (same dedupe key)
+ * @returns The notifications actually created
+ */
+export async function createNotifications(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  entries: NewNotification[],
+): Promise<NotificationPayload[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  // One insert per notification: a multi-row insert would exceed D1's bound parameter limit
+  const createdAt = new Date();
+  const [first, ...rest] = entries.map((entry) =>
+    db
+      .insert(notifications)
+      .values({ ...entry, id: crypto.randomUUID(), userId, createdAt })
+      .onConflictDoNothing()
+      .returning(notificationColumns),
+  );
+  const rows = (await db.batch([first, ...rest])).flat();
+
+  return rows.map((row) => ({ ...row, createdAt: row.createdAt.toISOString() }));
+}
+
+/**
+ * List a user's notifications, newest first
+ */
+export async function listNotifications(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {},
+): Promise<Notification[]> {
+  return db
+    .select(notificationColumns)
+    .from(notifications)
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        options.unreadOnly ? isNull(notifications.readAt) : undefined,
+      ),
+    )
+    .orderBy(desc(notifications.createdAt))
+    .limit(options.limit ?? 20);
+}
+
+/**
+ * Number of unread notifications of a user
+ */
+export async function countUnreadNotifications(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  return row?.count ?? 0;
+}
+
+/**
+ * Mark notifications of a user as read (all unread ones when no IDs are given)
+ */
+export async function markNotificationsRead(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  ids?: string[],
+): Promise<void> {
+  await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ),
+    );
+}
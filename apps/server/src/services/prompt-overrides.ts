@@ -0,0 +1,109 @@
+/**
+ * Prompt Overrides Service
+ * Per-user customizations of the extraction prompts of a domain
+ * (replacement prompts and/or an addendum, merged by getDomainConfig at extraction time)
+ */
+
+import { createDb, promptOverrides } from '@ai-chart/database';
+import type { PromptOverrides } from '@ai-chart/ai-core';
+import { eq, and } from 'drizzle-orm';
+
+/**
+ * Stored overrides of one domain
+ */
+export interface StoredPromptOverrides {
+  domain: string;
+  imagePrompt: string | null;
+  textPrompt: string | null;
+  addendum: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * List a user's overrides (one entry per customized domain)
+ */
+export async function listPromptOverrides(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<StoredPromptOverrides[]> {
+  const rows = await db
+    .select()
+    .from(promptOverrides)
+    .where(eq(promptOverrides.userId, userId))
+    .orderBy(promptOverrides.domain);
+  return rows.map(toStored);
+}
+
+/**
+ * Get a user's overrides of a domain (undefined when the built-in prompts are used)
+ */
+export async function getPromptOverrides(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  domain: string,
+): Promise<PromptOverrides | undefined> {
+  const [row] = await db
+    .select()
+    .from(promptOverrides)
+    .where(and(eq(promptOverrides.userId, userId), eq(promptOverrides.domain, domain)))
+    .limit(1);
+  return row ? toStored(row) : undefined;
+}
+
+/**
+ * Create or replace a user's overrides of a domain
+ * Blank fields are stored as null (built-in prompt, no addendum); when every field is blank the
+ * overrides are removed instead.
+ * @returns The stored overrides, or null when they were removed
+ */
+export async function savePromptOverrides(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  domain: string,
+  overrides: PromptOverrides,
+): Promise<StoredPromptOverrides | null> {
+  const values = {
+    imagePrompt: overrides.imagePrompt?.trim() || null,
+    textPrompt: overrides.textPrompt?.trim() || null,
+    addendum: overrides.addendum?.trim() || null,
+  };
+
+  if (!values.imagePrompt && !values.textPrompt && !values.addendum) {
+    await deletePromptOverrides(db, userId, domain);
+    return null;
+  }
+
+  const now = new Date();
+  const [row] = await db
+    .insert(promptOverrides)
+    .values({ id: crypto.randomUUID(), userId, domain, ...values, createdAt: now, updatedAt: now })
+    .onConflictDoUpdate({
+      target: [promptOverrides.userId, promptOverrides.domain],
+      set: { ...values, updatedAt: now },
+    })
+    .returning();
+  return toStored(row);
+}
+
+/**
+ * Remove a user's overrides of a domain (back to the built-in prompts)
+ */
+export async function deletePromptOverrides(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  domain: string,
+): Promise<void> {
+  await db
+    .delete(promptOverrides)
+    .where(and(eq(promptOverrides.userId, userId), eq(promptOverrides.domain, domain)));
+}
+
+function toStored(row: typeof promptOverrides.$inferSelect): StoredPromptOverrides {
+  return {
+    domain: row.domain,
+    imagePrompt: row.imagePrompt,
+    textPrompt: row.textPrompt,
+    addendum: row.addendum,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Rate Limit Store Service
+ * Fixed-window request counters used by the rate limit middleware
+ * Production uses the RATE_LIMITER Durable Object (atomic counters shared by every isolate) or,
+ * failing that, the RATE_LIMIT_KV namespace (eventually consistent, so limits are approximate);
+ * without either binding an in-memory store stands in.
+ */
+
+/**
+ * Counter state of a window after a request was counted
+ */
+export interface RateLimitHit {
+  /** Requests counted in the current window, including this one */
+  count: number;
+  /** When the current window ends (ms since epoch) */
+  resetAt: number;
+}
+
+/**
+ * Store backend interface — implemented by the Durable Object, KV and the in-memory stand-in
+ */
+export interface RateLimitStore {
+  /** Count a request against `key` in the current window of `windowMs` */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * Environment bindings that may provide a rate limit store
+ */
+export interface RateLimitStoreEnv {
+  RATE_LIMITER?: DurableObjectNamespace;
+  RATE_LIMIT_KV?: KVNamespace;
+}
+
+/**
+ * Start and end of the fixed window containing `now`
+ */
+function getWindow(windowMs: number, now = Date.now()): { start: number; resetAt: number } {
+  const start = Math.floor(now / windowMs) * windowMs;
+  return { start, resetAt: start + windowMs };
+}
+
+/**
+ * Rate limit store kept in memory (local development and tests)
+ * Counters are per isolate/process, so each Workers isolate enforces its own limits.
+ */
+export function createMemoryRateLimitStore(
+  counters = new Map<string, { count: number; resetAt: number }>(),
+): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      const { resetAt } = getWindow(windowMs, now);
+
+      // Drop expired windows so the map does not grow without bound
+      for (const [counterKey, counter] of counters) {
+        if (counter.resetAt <= now) {
+          counters.delete(counterKey);
+        }
+      }
+
+      const counter = counters.get(key);
+      const count = counter && counter.resetAt === resetAt ? counter.count + 1 : 1;
+      counters.set(key, { count, resetAt });
+      return { count, resetAt };
+    },
+  };
+}
+
+/**
+ * Rate limit store backed by a Workers KV namespace
+ * KV has no atomic increment, so concurrent requests may undercount slightly.
+ */
+export function createKVRateLimitStore(kv: KVNamespace): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const { start, resetAt } = getWindow(windowMs);
+      const windowKey = `${key}:${start}`;
+
+      const count = Number((await kv.get(windowKey)) ?? 0) + 1;
+      // KV expirations must be at least 60 seconds in the future
+      await kv.put(windowKey, String(count), {
+        expirationTtl: Math.max(60, Math.ceil(windowMs / 1000)),
+      });
+      return { count, resetAt };
+    },
+  };
+}
+
+/**
+ * Rate limit store backed by the RateLimiter Durable Object (one object per key)
+ */
+export function createDurableObjectRateLimitStore(
+  namespace: DurableObjectNamespace,
+): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const stub = namespace.get(namespace.idFromName(key));
+      const response = await stub.fetch('https://rate-limiter/hit', {
+        method: 'POST',
+        body: JSON.stringify({ windowMs }),
+      });
+      return response.json<RateLimitHit>();
+    },
+  };
+}
+
+/**
+ * Durable Object holding the counter of one rate limit key
+ * Requests to an object are processed one at a time, so increments are atomic.
+ * Exported from the worker entry point and bound as RATE_LIMITER (see wrangler.toml).
+ */
+export class RateLimiter {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { windowMs } = await request.json<{ windowMs: number }>();
+    const { resetAt } = getWindow(windowMs);
+
+    const counter = await this.state.storage.get<RateLimitHit>('counter');
+    const count = counter && counter.resetAt === resetAt ? counter.count + 1 : 1;
+    await this.state.storage.put('counter', { count, resetAt });
+
+    return Response.json({ count, resetAt } satisfies RateLimitHit);
+  }
+}
+
+/**
+ * Shared in-memory store used when no binding is configured
+ */
+let memoryStore: RateLimitStore | null = null;
+
+/**
+ * Get the rate limit store for the current environment
+ */
+export function getRateLimitStore(env: RateLimitStoreEnv): RateLimitStore {
+  if (env.RATE_LIMITER) {
+    return createDurableObjectRateLimitStore(env.RATE_LIMITER);
+  }
+  if (env.RATE_LIMIT_KV) {
+    return createKVRateLimitStore(env.RATE_LIMIT_KV);
+  }
+  if (!memoryStore) {
+    console.warn('No RATE_LIMITER or RATE_LIMIT_KV binding configured — rate limiting in memory');
+    memoryStore = createMemoryRateLimitStore();
+  }
+  return memoryStore;
+}
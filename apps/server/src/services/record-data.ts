@@ -1,78 +1,362 @@
 /**
  * Record Data Service
  * Domain-agnostic service for saving records (health, finance, etc.)
+ * All multi-statement writes go through D1 batches, which run as a single transaction.
  */
 
-import { type RecordData, type MetricItem } from '@ai-chart/shared';
+import { z } from 'zod';
+import {
+  DomainRecordDataSchema,
+  RANGE_STATUSES,
+  canonicalizeMetrics,
+  convertMetricValue,
+  convertReferenceRange,
+  parseReferenceRange,
+  computeRangeStatus,
+  computeQualitativeStatus,
+  isDomainStatus,
+  type RecordData,
+  type MetricItem,
+} from '@ai-chart/shared';
 import { createDb, records, metrics } from '@ai-chart/database';
-import { eq } from 'drizzle-orm';
+import { eq, and, or, gte, lte, inArray } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { evaluateAlertRules } from './alerts';
+
+/**
+ * A single statement that can be run inside a D1 batch
+ */
+export type Statement = BatchItem<'sqlite'>;
+
+/**
+ * What to do when incoming data looks like an existing record
+ * - report: save nothing and return the match so the caller can decide
+ * - skip: keep the existing record, discard the new data
+ * - merge: upsert the new metrics into the existing record
+ * - force: save as a new record anyway
+ */
+export const DUPLICATE_ACTIONS = ['report', 'skip', 'merge', 'force'] as const;
+export type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+
+/**
+ * An existing record that incoming data appears to duplicate
+ */
+export interface DuplicateMatch {
+  recordId: string;
+  title: string | null;
+  category: string;
+  date: Date;
+  /** identical_file: same uploaded file; similar_content: fuzzy match on category/date/metrics */
+  reason: 'identical_file' | 'similar_content';
+  /** Share of metrics with matching key and value (0-1) */
+  similarity: number;
+}
+
+export interface SaveOptions {
+  /** SHA-256 of the uploaded file the data was extracted from */
+  contentHash?: string;
+  /** Defaults to 'force' (no duplicate check) */
+  onDuplicate?: DuplicateAction;
+  /** More writes for the same batch, built from the results (e.g., resolving drafts) */
+  extraStatements?: (results: SaveResult[]) => Statement[];
+  /** Keeps alert delivery running after the response (the request's executionCtx.waitUntil) */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+/**
+ * Outcome of saving one record
+ * recordId is the record now holding the data (null when a duplicate was only reported).
+ * 'pending' marks records of a batch that were not saved because another record in
+ * the same batch needs a duplicate decision.
+ */
+export interface SaveResult {
+  recordId: string | null;
+  category: string;
+  itemsCount: number;
+  status: 'created' | 'merged' | 'skipped' | 'duplicate' | 'pending';
+  duplicateOf?: DuplicateMatch;
+  /** Metrics whose status was corrected because the model's status contradicted the reference */
+  statusCorrections?: StatusCorrection[];
+}
+
+/**
+ * A metric whose model-given status disagreed with its reference range
+ */
+export interface StatusCorrection {
+  key: string;
+  name: string;
+  value: number;
+  unit: string | null;
+  reference: string;
+  modelStatus: MetricItem['status'];
+  status: MetricItem['status'];
+}
+
+/**
+ * A metric ready to be stored: canonical key/unit, parsed reference and computed status
+ */
+type NormalizedMetric = MetricItem & {
+  originalValue: number;
+  originalUnit: string | null;
+  refLower: number | null;
+  refUpper: number | null;
+  refInclusive: boolean | null;
+  refExpected: string | null;
+  modelStatus: MetricItem['status'];
+  statusMismatch: boolean;
+};
+
+/**
+ * Minimum share of matching metrics for two records to count as duplicates
+ */
+const SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Relative tolerance when comparing metric values (absorbs rounding in re-extraction)
+ */
+const VALUE_TOLERANCE = 0.01;
+
+/**
+ * How far apart (in days) two record dates may be and still be considered the same document
+ */
+const DATE_WINDOW_DAYS = 1;
 
 /**
  * Save record data to database (domain-agnostic)
+ * The record and all its metrics are written in one D1 batch (all-or-nothing).
  * @param db - Database instance
  * @param recordData - Extracted or manually input data (health, finance, etc.)
  * @param userId - User identifier
  * @param source - Data provenance: 'chat' | 'upload' | 'manual'
- * @returns Record ID and metadata
+ * @param options - Content hash of the source file and duplicate handling
+ * @returns Record ID, metadata and what happened to the data
+ * @throws ZodError if the record or any metric fails validation (nothing is written)
  */
 export async function saveRecordData(
   db: ReturnType<typeof createDb>,
   recordData: RecordData,
-  userId: string = 'default-user',
+  userId: string,
   source: 'chat' | 'upload' | 'manual' = 'manual',
-): Promise<{
-  recordId: string;
-  itemsCount: number;
-}> {
-  const recordId = crypto.randomUUID();
-  const now = new Date();
+  options: SaveOptions = {},
+): Promise<SaveResult> {
+  const [result] = await saveMultipleRecords(db, [recordData], userId, source, options);
+  return result;
+}
+
+/**
+ * Save multiple records in one batch (e.g., one image with blood test + urine test)
+ * Every record is validated and checked for duplicates first; then all writes run in a
+ * single D1 batch, so either all of them are applied or none is. Alert rules are then
+ * evaluated on the saved records (see services/alerts).
+ */
+export async function saveMultipleRecords(
+  db: ReturnType<typeof createDb>,
+  recordsData: RecordData[],
+  userId: string,
+  source: 'chat' | 'upload' | 'manual' = 'manual',
+  options: SaveOptions = {},
+): Promise<SaveResult[]> {
+  const validated = recordsData.map(validateRecordData);
+  if (validated.length === 0) {
+    return [];
+  }
+
+  const onDuplicate = options.onDuplicate ?? 'force';
+  const duplicates =
+    onDuplicate === 'force'
+      ? validated.map(() => null)
+      : await findDuplicateRecords(db, userId, validated, options.contentHash);
+
+  // Report mode: any possible duplicate blocks the whole batch until the caller decides
+  if (onDuplicate === 'report' && duplicates.some((match) => match !== null)) {
+    return validated.map((recordData, index) => ({
+      recordId: null,
+      category: recordData.category,
+      itemsCount: recordData.items.length,
+      status: duplicates[index] ? 'duplicate' : 'pending',
+      ...(duplicates[index] ? { duplicateOf: duplicates[index] } : {}),
+    }));
+  }
 
-  await db.insert(records).values({
-    id: recordId,
-    userId,
-    type: recordData.type,
-    title: recordData.title || null,
-    category: recordData.category,
-    date: new Date(recordData.date),
-    summaryValue: recordData.summary,
-    source,
-    rawContent: JSON.stringify(recordData),
-    createdAt: now,
-    updatedAt: now,
+  const statements: Statement[] = [];
+  const results = validated.map((recordData, index): SaveResult => {
+    const match = duplicates[index];
+    const base = { category: recordData.category, itemsCount: recordData.items.length };
+
+    if (match && onDuplicate === 'skip') {
+      return { ...base, recordId: match.recordId, status: 'skipped', duplicateOf: match };
+    }
+    const corrections = findStatusCorrections(recordData.type, recordData.items);
+    const withCorrections = corrections.length > 0 ? { statusCorrections: corrections } : {};
+
+    if (match && onDuplicate === 'merge') {
+      statements.push(...buildMergeStatements(db, match.recordId, recordData, options.contentHash));
+      return {
+        ...base,
+        ...withCorrections,
+        recordId: match.recordId,
+        status: 'merged',
+        duplicateOf: match,
+      };
+    }
+
+    const recordId = crypto.randomUUID();
+    statements.push(
+      ...buildRecordStatements(db, recordId, recordData, userId, source, options.contentHash),
+    );
+    return { ...base, ...withCorrections, recordId, status: 'created' };
   });
 
-  console.log(`${recordData.type} record created with ID: ${recordId}`);
+  statements.push(...(options.extraStatements?.(results) ?? []));
+  if (statements.length > 0) {
+    const [first, ...rest] = statements;
+    await db.batch([first, ...rest]);
+  }
+
+  console.log(
+    `Saved ${validated.length} record(s): ` +
+      results.map((r) => `${r.category} ${r.status} (${r.recordId})`).join(', '),
+  );
 
-  if (recordData.items.length > 0) {
-    await insertMetrics(db, recordId, recordData.items);
-    console.log(`Inserted ${recordData.items.length} ${recordData.type} metrics`);
+  // Alerts never fail a save: the data is already written
+  const savedIds = results
+    .filter((r) => r.status === 'created' || r.status === 'merged')
+    .map((r) => r.recordId)
+    .filter((id): id is string => id !== null);
+  try {
+    await evaluateAlertRules(db, userId, savedIds, { waitUntil: options.waitUntil });
+  } catch (error) {
+    console.error('Alert rule evaluation failed:', error);
   }
 
-  return {
-    recordId,
-    itemsCount: recordData.items.length,
-  };
+  return results;
 }
 
 /**
- * Save multiple records in one batch (e.g., one image with blood test + urine test)
+ * Find existing records that the given data likely duplicates
+ * A record matches when it was extracted from the same file (content hash) or when it has
+ * the same type and category, a date within a day, and mostly identical metric values.
+ * @returns One entry per input record: the best match or null
  */
-export async function saveMultipleRecords(
+export async function findDuplicateRecords(
   db: ReturnType<typeof createDb>,
+  userId: string,
   recordsData: RecordData[],
-  userId: string = 'default-user',
-  source: 'chat' | 'upload' | 'manual' = 'manual',
-): Promise<Array<{ recordId: string; category: string; itemsCount: number }>> {
-  const results = [];
-  for (const recordData of recordsData) {
-    const { recordId, itemsCount } = await saveRecordData(db, recordData, userId, source);
-    results.push({ recordId, category: recordData.category, itemsCount });
+  contentHash?: string,
+): Promise<Array<DuplicateMatch | null>> {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const times = recordsData.map((r) => new Date(r.date).getTime());
+  const from = new Date(Math.min(...times) - DATE_WINDOW_DAYS * dayMs);
+  const to = new Date(Math.max(...times) + DATE_WINDOW_DAYS * dayMs);
+
+  const dateCondition = and(gte(records.date, from), lte(records.date, to));
+  const candidates = await db
+    .select({
+      id: records.id,
+      type: records.type,
+      title: records.title,
+      category: records.category,
+      date: records.date,
+      contentHash: records.contentHash,
+    })
+    .from(records)
+    .where(
+      and(
+        eq(records.userId, userId),
+        contentHash ? or(eq(records.contentHash, contentHash), dateCondition) : dateCondition,
+      ),
+    );
+
+  if (candidates.length === 0) {
+    return recordsData.map(() => null);
   }
-  return results;
+
+  const candidateMetrics = await db
+    .select({ recordId: metrics.recordId, key: metrics.key, value: metrics.value })
+    .from(metrics)
+    .where(
+      inArray(
+        metrics.recordId,
+        candidates.map((c) => c.id),
+      ),
+    );
+
+  const metricsByRecord = new Map<string, Map<string, number>>();
+  for (const m of candidateMetrics) {
+    const values = metricsByRecord.get(m.recordId) ?? new Map<string, number>();
+    values.set(m.key, m.value);
+    metricsByRecord.set(m.recordId, values);
+  }
+
+  return recordsData.map((recordData, index) => {
+    let best: DuplicateMatch | null = null;
+
+    for (const candidate of candidates) {
+      if (
+        candidate.type !== recordData.type ||
+        normalizeCategory(candidate.category) !== normalizeCategory(recordData.category)
+      ) {
+        continue;
+      }
+
+      const match = {
+        recordId: candidate.id,
+        title: candidate.title,
+        category: candidate.category,
+        date: candidate.date,
+      };
+
+      // Same file, same section → certainly the same document
+      if (contentHash && candidate.contentHash === contentHash) {
+        return { ...match, reason: 'identical_file' as const, similarity: 1 };
+      }
+
+      if (Math.abs(candidate.date.getTime() - times[index]) > DATE_WINDOW_DAYS * dayMs) {
+        continue;
+      }
+
+      const similarity = metricSimilarity(
+        recordData,
+        metricsByRecord.get(candidate.id) ?? new Map(),
+      );
+      if (similarity >= SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { ...match, reason: 'similar_content', similarity };
+      }
+    }
+
+    return best;
+  });
+}
+
+/**
+ * Human-readable duplicate notice for API responses and tool results
+ */
+export function describeDuplicate(match: DuplicateMatch): string {
+  const date = match.date.toISOString().split('T')[0];
+  const reason = match.reason === 'identical_file' ? 'same file' : 'same metrics';
+  return `Possible duplicate of record ${match.recordId} (${match.category}, ${date}, ${reason})`;
+}
+
+/**
+ * Type guard for a duplicate action received from a request
+ */
+export function isDuplicateAction(value: unknown): value is DuplicateAction {
+  return DUPLICATE_ACTIONS.includes(value as DuplicateAction);
+}
+
+/**
+ * SHA-256 hex digest of an uploaded file
+ */
+export async function hashContent(content: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', content);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
 }
 
 /**
  * Update an existing record and optionally replace its metrics
+ * The updated record is validated like a new one (same schema and date check), so an
+ * invalid date or status is rejected; items, when given, replace all metrics (even if empty).
+ * @throws ZodError if the updated record or any of its metrics is invalid (nothing is written)
  */
 export async function updateRecordData(
   db: ReturnType<typeof createDb>,
@@ -85,31 +369,59 @@ export async function updateRecordData(
     items?: MetricItem[];
   },
 ): Promise<{ success: boolean }> {
-  const now = new Date();
+  const [record] = await db
+    .select({
+      type: records.type,
+      title: records.title,
+      category: records.category,
+      date: records.date,
+      summaryValue: records.summaryValue,
+    })
+    .from(records)
+    .where(eq(records.id, recordId))
+    .limit(1);
+  if (!record) {
+    return { success: false };
+  }
 
-  // Build record field updates
-  const recordUpdates: Record<string, unknown> = { updatedAt: now };
+  // The record as it will be after the update (existing metrics are not re-validated)
+  const validated = validateRecordData({
+    type: record.type,
+    title: updates.title ?? record.title ?? undefined,
+    category: updates.category ?? record.category,
+    date: updates.date ?? record.date.toISOString(),
+    summary: updates.summary ?? record.summaryValue ?? undefined,
+    items: updates.items ?? [],
+  });
+
+  const recordUpdates: Record<string, unknown> = { updatedAt: new Date() };
   if (updates.title !== undefined) {
-    recordUpdates.title = updates.title;
+    recordUpdates.title = validated.title;
   }
   if (updates.category !== undefined) {
-    recordUpdates.category = updates.category;
+    recordUpdates.category = validated.category;
   }
   if (updates.date !== undefined) {
-    recordUpdates.date = new Date(updates.date);
+    recordUpdates.date = new Date(validated.date);
   }
   if (updates.summary !== undefined) {
-    recordUpdates.summaryValue = updates.summary;
+    recordUpdates.summaryValue = validated.summary;
   }
 
-  await db.update(records).set(recordUpdates).where(eq(records.id, recordId));
+  const statements: [Statement, ...Statement[]] = [
+    db.update(records).set(recordUpdates).where(eq(records.id, recordId)),
+  ];
 
-  // If items are provided, replace all metrics for this record
-  if (updates.items && updates.items.length > 0) {
-    await db.delete(metrics).where(eq(metrics.recordId, recordId));
-    await insertMetrics(db, recordId, updates.items);
+  // If items are provided, replace all metrics for this record (in the same batch)
+  if (updates.items !== undefined) {
+    statements.push(
+      db.delete(metrics).where(eq(metrics.recordId, recordId)),
+      ...buildMetricStatements(db, recordId, validated.type, validated.items),
+    );
   }
 
+  await db.batch(statements);
+
   return { success: true };
 }
 
@@ -125,28 +437,217 @@ export async function deleteRecordData(
 }
 
 /**
- * Insert metrics for a record
+ * Validate record data before any write
+ * @throws ZodError if the record or any of its metrics is invalid, or if the domain is unknown
+ *   or does not allow a status
+ */
+function validateRecordData(recordData: RecordData): RecordData {
+  const validated = DomainRecordDataSchema.parse(recordData);
+  if (Number.isNaN(new Date(validated.date).getTime())) {
+    throw new z.ZodError([
+      {
+        code: z.ZodIssueCode.custom,
+        path: ['date'],
+        message: `Invalid date "${validated.date}"`,
+      },
+    ]);
+  }
+  return validated;
+}
+
+/**
+ * Normalize a category for comparison ("Blood Test" ≈ "blood_test" ≈ "blood-test")
+ */
+export function normalizeCategory(category: string): string {
+  return category.toLowerCase().replace(/[^a-z0-9\u0080-\uffff]+/g, '');
+}
+
+/**
+ * Share of metrics (over the larger of both sets) with the same key and value
+ */
+function metricSimilarity(recordData: RecordData, existing: Map<string, number>): number {
+  const total = Math.max(recordData.items.length, existing.size);
+  if (total === 0) {
+    return 1;
+  }
+
+  const matched = normalizeMetrics(recordData.items, recordData.type).filter((item) => {
+    const value = existing.get(item.key);
+    if (value === undefined) {
+      return false;
+    }
+    const scale = Math.max(Math.abs(value), Math.abs(item.value), 1e-9);
+    return Math.abs(value - item.value) / scale <= VALUE_TOLERANCE;
+  }).length;
+
+  return matched / total;
+}
+
+/**
+ * Map the metrics of a record to their canonical keys/names and units
+ */
+function normalizeMetrics(items: MetricItem[], type: string): NormalizedMetric[] {
+  return canonicalizeMetrics(items).map((item) => normalizeMetric(item, type));
+}
+
+/**
+ * Convert a metric (already mapped to its canonical key) to the canonical unit
+ * The reported value and unit are kept as originalValue/originalUnit.
+ * The reference is parsed into bounds (converted along with the value) and, when it has
+ * numeric bounds, the status is computed from them instead of trusting the model (unless the
+ * record's domain does not allow the computed status, e.g. "normal" for utilities).
+ */
+function normalizeMetric(item: MetricItem, type: string): NormalizedMetric {
+  const converted = convertMetricValue(item.key, item.value, item.unit);
+  const value = converted?.value ?? item.value;
+
+  const range = item.reference ? parseReferenceRange(item.reference) : null;
+  const toValueUnit = (bound: number | null) =>
+    bound !== null && converted
+      ? (convertMetricValue(item.key, bound, item.unit)?.value ?? bound)
+      : bound;
+  const refLower = range ? toValueUnit(range.lower) : null;
+  const refUpper = range ? toValueUnit(range.upper) : null;
+
+  // Numeric references recompute normal/high/low; qualitative ones only map "normal" to the
+  // expected positive/negative. Other statuses (income, personal_best, due, ...) are kept.
+  const rangeStatus = !range
+    ? null
+    : range.expected
+      ? computeQualitativeStatus(item.status, range)
+      : RANGE_STATUSES.includes(item.status)
+        ? computeRangeStatus(value, { ...range, lower: refLower, upper: refUpper })
+        : null;
+  const computedStatus = rangeStatus && isDomainStatus(type, rangeStatus) ? rangeStatus : null;
+
+  return {
+    ...item,
+    value,
+    unit: converted?.unit ?? item.unit,
+    reference:
+      converted && item.reference
+        ? convertReferenceRange(item.key, item.reference, item.unit)
+        : item.reference,
+    originalValue: item.value,
+    originalUnit: item.unit || null,
+    refLower,
+    refUpper,
+    refInclusive: range && (refLower !== null || refUpper !== null) ? range.inclusive : null,
+    refExpected: range?.expected ?? null,
+    status: computedStatus ?? item.status,
+    modelStatus: item.status,
+    statusMismatch: computedStatus !== null && computedStatus !== item.status,
+  };
+}
+
+/**
+ * Metrics whose model status will be replaced by the status computed from their reference
+ */
+function findStatusCorrections(type: string, items: MetricItem[]): StatusCorrection[] {
+  return normalizeMetrics(items, type)
+    .filter((m) => m.statusMismatch)
+    .map((m) => ({
+      key: m.key,
+      name: m.name,
+      value: m.value,
+      unit: m.unit || null,
+      reference: m.reference || '',
+      modelStatus: m.modelStatus,
+      status: m.status,
+    }));
+}
+
+/**
+ * Build the insert statements for a record and its metrics
+ */
+function buildRecordStatements(
+  db: ReturnType<typeof createDb>,
+  recordId: string,
+  recordData: RecordData,
+  userId: string,
+  source: 'chat' | 'upload' | 'manual',
+  contentHash?: string,
+): [Statement, ...Statement[]] {
+  const now = new Date();
+
+  return [
+    db.insert(records).values({
+      id: recordId,
+      userId,
+      type: recordData.type,
+      title: recordData.title || null,
+      category: recordData.category,
+      date: new Date(recordData.date),
+      summaryValue: recordData.summary,
+      source,
+      rawContent: JSON.stringify(recordData),
+      contentHash: contentHash ?? null,
+      createdAt: now,
+      updatedAt: now,
+    }),
+    ...buildMetricStatements(db, recordId, recordData.type, recordData.items),
+  ];
+}
+
+/**
+ * Build the statements that upsert new metrics into an existing record
+ * Metrics with a key the record already has are replaced; new keys are added.
+ */
+function buildMergeStatements(
+  db: ReturnType<typeof createDb>,
+  recordId: string,
+  recordData: RecordData,
+  contentHash?: string,
+): Statement[] {
+  const keys = canonicalizeMetrics(recordData.items).map((item) => item.key);
+
+  return [
+    db
+      .update(records)
+      .set({ updatedAt: new Date(), ...(contentHash ? { contentHash } : {}) })
+      .where(eq(records.id, recordId)),
+    ...(keys.length > 0
+      ? [db.delete(metrics).where(and(eq(metrics.recordId, recordId), inArray(metrics.key, keys)))]
+      : []),
+    ...buildMetricStatements(db, recordId, recordData.type, recordData.items),
+  ];
+}
+
+/**
+ * Build one insert statement per metric
+ * (one row per statement keeps each query well under D1's bound-parameter limit)
+ * Keys and names are mapped to the canonical metric dictionary so that the same analyte
+ * is stored under one key and in one unit regardless of model, lab or report language.
  */
-async function insertMetrics(
+function buildMetricStatements(
   db: ReturnType<typeof createDb>,
   recordId: string,
+  type: string,
   items: MetricItem[],
-) {
-  await Promise.all(
-    items.map((item) =>
-      db.insert(metrics).values({
-        recordId,
-        key: item.key,
-        name: item.name,
-        value: item.value,
-        unit: item.unit || null,
-        status: item.status,
-        reference: item.reference || null,
-        notes: item.notes || null,
-        displayOrder: item.displayOrder ?? null,
-        categoryTag: item.categoryTag || null,
-        parentKey: item.parentKey || null,
-      }),
-    ),
+): Statement[] {
+  return normalizeMetrics(items, type).map((item) =>
+    db.insert(metrics).values({
+      recordId,
+      key: item.key,
+      name: item.name,
+      value: item.value,
+      unit: item.unit || null,
+      originalValue: item.originalValue,
+      originalUnit: item.originalUnit,
+      status: item.status,
+      reference: item.reference || null,
+      refLower: item.refLower,
+      refUpper: item.refUpper,
+      refInclusive: item.refInclusive,
+      refExpected: item.refExpected,
+      modelStatus: item.modelStatus,
+      statusMismatch: item.statusMismatch,
+      notes: item.notes || null,
+      displayOrder: item.displayOrder ?? null,
+      categoryTag: item.categoryTag || null,
+      parentKey: item.parentKey || null,
+      confidence: item.confidence ?? null,
+      sourceText: item.sourceText || null,
+    }),
   );
 }
@@ -0,0 +1,335 @@
+/**
+ * Reminders Service
+ * When the next record of each periodic category is expected: an annual physical, a
+ * quarterly HbA1c, a monthly utility bill. The cadence is set explicitly (reminders table)
+ * or inferred from the dates of the category's records; a disabled reminder mutes a category.
+ */
+
+import { eq, and, asc } from 'drizzle-orm';
+import { createDb, records, reminders } from '@ai-chart/database';
+import { normalizeCategory } from './record-data';
+
+/**
+ * How a due date compares to today:
+ * ok (not soon), upcoming (within a quarter of the interval, at most 14 days),
+ * due (up to a tenth of the interval late, at least 3 days), overdue (later than that)
+ */
+export const REMINDER_STATUSES = ['ok', 'upcoming', 'due', 'overdue'] as const;
+export type ReminderStatus = (typeof REMINDER_STATUSES)[number];
+
+/**
+ * Named cadences an inferred interval snaps to (within 20%)
+ */
+export const CADENCES = [
+  { label: 'weekly', days: 7 },
+  { label: 'monthly', days: 30 },
+  { label: 'quarterly', days: 91 },
+  { label: 'semiannual', days: 182 },
+  { label: 'annual', days: 365 },
+] as const;
+
+/** Fewer records than this have no inferred cadence (two intervals at least) */
+const MIN_INFERRED_RECORDS = 3;
+/** Shorter typical intervals are logs (daily weight), not periodic records */
+const MIN_INFERRED_INTERVAL_DAYS = 5;
+/** Share of intervals that must be within 50% of the typical one */
+const MIN_REGULARITY = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An explicit cadence of a category
+ */
+export interface Reminder {
+  id: string;
+  recordType: string;
+  category: string;
+  /** Normalized category, matched against the records' categories */
+  categoryKey: string;
+  intervalDays: number;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ReminderInput = Pick<Reminder, 'recordType' | 'category' | 'intervalDays' | 'enabled'>;
+
+/**
+ * When the next record of a category is expected
+ */
+export interface ReminderItem {
+  /** Explicit reminder (null when the cadence is inferred) */
+  id: string | null;
+  recordType: string;
+  category: string;
+  categoryKey: string;
+  source: 'explicit' | 'inferred';
+  intervalDays: number;
+  /** Name of the cadence (e.g., "quarterly") when the interval is a named one */
+  cadence: string | null;
+  recordCount: number;
+  /** Date of the latest record (null when there is none yet) */
+  lastDate: Date | null;
+  /** The latest record's date plus the interval (the reminder's creation without records) */
+  dueDate: Date;
+  /** Negative once the due date has passed */
+  daysUntilDue: number;
+  status: ReminderStatus;
+}
+
+const reminderColumns = {
+  id: reminders.id,
+  recordType: reminders.recordType,
+  category: reminders.category,
+  categoryKey: reminders.categoryKey,
+  intervalDays: reminders.intervalDays,
+  enabled: reminders.enabled,
+  createdAt: reminders.createdAt,
+  updatedAt: reminders.updatedAt,
+};
+
+/**
+ * Start of a date's day (UTC)
+ */
+function startOfDay(date: Date) {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Name of the cadence of an interval, if it is exactly a named one
+ */
+export function cadenceLabel(intervalDays: number): string | null {
+  return CADENCES.find((cadence) => cadence.days === intervalDays)?.label ?? null;
+}
+
+/**
+ * Typical days between the dates of a category's records
+ * @returns The interval (snapped to a named cadence when close), or null when the
+ * records are too few, too frequent or too irregular
+ */
+export function inferIntervalDays(dates: Date[]): number | null {
+  const days = [...new Set(dates.map(startOfDay))].sort((a, b) => a - b);
+  if (days.length < MIN_INFERRED_RECORDS) {
+    return null;
+  }
+
+  const intervals = days.slice(1).map((day, i) => (day - days[i]) / DAY_MS);
+  const typical = median(intervals);
+  if (typical < MIN_INFERRED_INTERVAL_DAYS) {
+    return null;
+  }
+  const regular = intervals.filter((interval) => Math.abs(interval - typical) <= typical / 2);
+  if (regular.length / intervals.length < MIN_REGULARITY) {
+    return null;
+  }
+
+  const named = CADENCES.find((cadence) => Math.abs(typical - cadence.days) <= cadence.days * 0.2);
+  return named?.days ?? Math.round(typical);
+}
+
+/**
+ * Status of a due date as of today
+ */
+function getStatus(daysUntilDue: number, intervalDays: number): ReminderStatus {
+  const upcomingDays = Math.max(1, Math.min(14, Math.round(intervalDays / 4)));
+  const graceDays = Math.max(3, Math.round(intervalDays / 10));
+  if (daysUntilDue > upcomingDays) {
+    return 'ok';
+  }
+  if (daysUntilDue > 0) {
+    return 'upcoming';
+  }
+  return daysUntilDue >= -graceDays ? 'due' : 'overdue';
+}
+
+/**
+ * List a user's explicit reminders
+ */
+export async function listReminders(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+): Promise<Reminder[]> {
+  return db
+    .select(reminderColumns)
+    .from(reminders)
+    .where(eq(reminders.userId, userId))
+    .orderBy(asc(reminders.recordType), asc(reminders.categoryKey));
+}
+
+/**
+ * Get a reminder owned by a user
+ */
+export async function getReminder(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  id: string,
+): Promise<Reminder | null> {
+  const result = await db
+    .select(reminderColumns)
+    .from(reminders)
+    .where(and(eq(reminders.id, id), eq(reminders.userId, userId)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Find a user's reminder of a category (compared normalized)
+ */
+export async function findReminder(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  recordType: string,
+  category: string,
+): Promise<Reminder | null> {
+  const result = await db
+    .select(reminderColumns)
+    .from(reminders)
+    .where(
+      and(
+        eq(reminders.userId, userId),
+        eq(reminders.recordType, recordType),
+        eq(reminders.categoryKey, normalizeCategory(category)),
+      ),
+    )
+    .limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Create a reminder
+ */
+export async function createReminder(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  input: ReminderInput,
+): Promise<Reminder> {
+  const now = new Date();
+  const reminder: Reminder = {
+    id: crypto.randomUUID(),
+    ...input,
+    categoryKey: normalizeCategory(input.category),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.insert(reminders).values({ ...reminder, userId });
+  return reminder;
+}
+
+/**
+ * Update a reminder
+ */
+export async function updateReminder(
+  db: ReturnType<typeof createDb>,
+  id: string,
+  input: Partial<ReminderInput>,
+): Promise<void> {
+  await db
+    .update(reminders)
+    .set({
+      ...input,
+      ...(input.category !== undefined ? { categoryKey: normalizeCategory(input.category) } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(reminders.id, id));
+}
+
+/**
+ * Delete a reminder (the category's cadence is inferred again)
+ */
+export async function deleteReminder(db: ReturnType<typeof createDb>, id: string): Promise<void> {
+  await db.delete(reminders).where(eq(reminders.id, id));
+}
+
+/**
+ * When the next record of each periodic category of a user is expected, soonest first
+ * @param options - recordType to report on, and now (default: the current time)
+ */
+export async function getReminderItems(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  options: { recordType?: string; now?: Date } = {},
+): Promise<ReminderItem[]> {
+  const today = startOfDay(options.now ?? new Date());
+
+  const [rows, explicit] = await Promise.all([
+    db
+      .select({ type: records.type, category: records.category, date: records.date })
+      .from(records)
+      .where(
+        and(
+          eq(records.userId, userId),
+          options.recordType ? eq(records.type, options.recordType) : undefined,
+        ),
+      )
+      .orderBy(asc(records.date)),
+    listReminders(db, userId),
+  ]);
+
+  // Records per category; the latest spelling of the category is the one shown
+  const groups = new Map<
+    string,
+    { recordType: string; category: string; categoryKey: string; dates: Date[] }
+  >();
+  for (const row of rows) {
+    const categoryKey = normalizeCategory(row.category);
+    const id = `${row.type}:${categoryKey}`;
+    const group = groups.get(id) ?? {
+      recordType: row.type,
+      category: row.category,
+      categoryKey,
+      dates: [],
+    };
+    group.category = row.category;
+    group.dates.push(row.date);
+    groups.set(id, group);
+  }
+  for (const reminder of explicit) {
+    const id = `${reminder.recordType}:${reminder.categoryKey}`;
+    if (!groups.has(id) && (!options.recordType || reminder.recordType === options.recordType)) {
+      groups.set(id, { ...reminder, dates: [] });
+    }
+  }
+
+  const items: ReminderItem[] = [];
+  for (const group of groups.values()) {
+    const reminder = explicit.find(
+      (r) => r.recordType === group.recordType && r.categoryKey === group.categoryKey,
+    );
+    if (reminder && !reminder.enabled) {
+      continue;
+    }
+    const intervalDays = reminder?.intervalDays ?? inferIntervalDays(group.dates);
+    if (intervalDays === null) {
+      continue;
+    }
+
+    const lastDate = group.dates.at(-1) ?? null;
+    const due = lastDate
+      ? startOfDay(lastDate) + intervalDays * DAY_MS
+      : startOfDay(reminder?.createdAt ?? new Date(today));
+    const daysUntilDue = Math.round((due - today) / DAY_MS);
+
+    items.push({
+      id: reminder?.id ?? null,
+      recordType: group.recordType,
+      category: reminder?.category ?? group.category,
+      categoryKey: group.categoryKey,
+      source: reminder ? 'explicit' : 'inferred',
+      intervalDays,
+      cadence: cadenceLabel(intervalDays),
+      recordCount: group.dates.length,
+      lastDate,
+      dueDate: new Date(due),
+      daysUntilDue,
+      status: getStatus(daysUntilDue, intervalDays),
+    });
+  }
+
+  return items.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
@@ -0,0 +1,383 @@
+/**
+ * Spending Service
+ * Income vs expense per period, spending by category and by merchant for finance records
+ * (used by /api/analytics/spending, the spending dashboard and the get_spending_breakdown chat tool)
+ *
+ * Finance records nest line items under totals (Total → Subtotal → items, Tax) via parentKey.
+ * Every amount is counted once: a record's income and expense are its topmost income/expense
+ * metrics, and each of those is split across categories by its line items.
+ */
+
+import { eq, and, gte, lte, asc, sql } from 'drizzle-orm';
+import { createDb, records, metrics } from '@ai-chart/database';
+import { recordPeriodColumns, type AnalyticsGroupBy } from './analytics';
+
+/**
+ * Category of amounts without a categoryTag on the item or any of its parents
+ */
+export const UNCATEGORIZED = 'uncategorized';
+
+/**
+ * Spending query
+ */
+export interface SpendingQuery {
+  groupBy: AnalyticsGroupBy;
+  startDate?: Date;
+  endDate?: Date;
+  /** Only amounts in this currency (default: the most common currency of the range) */
+  currency?: string;
+  /** Number of merchants returned (default 10) */
+  merchantLimit?: number;
+}
+
+/**
+ * Income and expense of one period
+ */
+export interface SpendingPeriod {
+  /** Period label ("2024-03" for months; see services/analytics) */
+  period: string;
+  periodStart: string;
+  income: number;
+  expense: number;
+  net: number;
+  /** Expense per categoryTag */
+  categories: Record<string, number>;
+}
+
+/**
+ * Expense of one category
+ */
+export interface CategorySpending {
+  categoryTag: string;
+  amount: number;
+  /** Share of the total expense, in percent */
+  share: number;
+}
+
+/**
+ * Expense at one merchant
+ */
+export interface MerchantSpending {
+  merchant: string;
+  amount: number;
+  /** Number of transactions */
+  count: number;
+}
+
+/**
+ * Expense of the latest month with spending against the month before it
+ */
+export interface MonthOverMonth {
+  /** YYYY-MM */
+  month: string;
+  previousMonth: string;
+  expense: number;
+  previousExpense: number;
+  /** Percent change (null when the previous month has no spending) */
+  change: number | null;
+  categories: Array<{
+    categoryTag: string;
+    amount: number;
+    previousAmount: number;
+    change: number | null;
+  }>;
+}
+
+/**
+ * Spending breakdown of a date range
+ */
+export interface SpendingBreakdown {
+  groupBy: AnalyticsGroupBy;
+  /** Currency of every amount (null when there is no data) */
+  currency: string | null;
+  /** Income/expense amounts left out because they are in another currency */
+  excludedOtherCurrencies: number;
+  totals: { income: number; expense: number; net: number };
+  periods: SpendingPeriod[];
+  /** Largest first */
+  categories: CategorySpending[];
+  /** Largest first */
+  merchants: MerchantSpending[];
+  monthOverMonth: MonthOverMonth | null;
+}
+
+type MetricRow = {
+  recordId: string;
+  title: string | null;
+  period: string;
+  periodStart: string;
+  month: string;
+  key: string;
+  name: string;
+  value: number;
+  unit: string | null;
+  status: string;
+  categoryTag: string | null;
+  parentKey: string | null;
+};
+
+/**
+ * An income or expense amount counted once, split across categories
+ */
+type Transaction = {
+  row: MetricRow;
+  amount: number;
+  merchant: string;
+  categories: Map<string, number>;
+};
+
+const MONEY_STATUSES = new Set(['income', 'expense']);
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function percentChange(current: number, previous: number) {
+  return previous === 0 ? null : round(((current - previous) * 100) / previous);
+}
+
+function addTo(map: Map<string, number>, key: string, amount: number) {
+  map.set(key, (map.get(key) ?? 0) + amount);
+}
+
+/**
+ * Month before a YYYY-MM month
+ */
+function previousMonthOf(month: string) {
+  const [year, mon] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, mon - 2, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Topmost income/expense metrics of a record, each split across the categories of its items
+ * Untagged items inherit the nearest parent's categoryTag; the part of an amount its items
+ * don't cover (e.g., tax without a tag) goes to the amount's own category, and items adding
+ * up to more than their parent are scaled down so the parent is never exceeded.
+ */
+function toTransactions(rows: MetricRow[]): Transaction[] {
+  const keys = new Set(rows.map((row) => row.key));
+  const children = new Map<string, MetricRow[]>();
+  for (const row of rows) {
+    if (row.parentKey && keys.has(row.parentKey) && row.parentKey !== row.key) {
+      children.set(row.parentKey, [...(children.get(row.parentKey) ?? []), row]);
+    }
+  }
+
+  // Each metric is visited once, which also guards against parentKey cycles
+  const visited = new Set<MetricRow>();
+
+  const allocate = (row: MetricRow, inherited: string | null): Array<[string, number]> => {
+    visited.add(row);
+    const tag = row.categoryTag ?? inherited;
+    const amount = Math.abs(row.value);
+    const kids = (children.get(row.key) ?? []).filter((kid) => !visited.has(kid));
+    if (kids.length === 0) {
+      return [[tag ?? UNCATEGORIZED, amount]];
+    }
+
+    const parts = kids.flatMap((kid) => allocate(kid, tag));
+    const covered = parts.reduce((sum, [, value]) => sum + value, 0);
+    if (covered > amount) {
+      return parts.map(([category, value]) => [category, (value * amount) / covered]);
+    }
+    return covered < amount ? [...parts, [tag ?? UNCATEGORIZED, amount - covered]] : parts;
+  };
+
+  const topmost: MetricRow[] = [];
+  const collect = (row: MetricRow) => {
+    if (MONEY_STATUSES.has(row.status)) {
+      topmost.push(row);
+      return;
+    }
+    visited.add(row);
+    for (const kid of children.get(row.key) ?? []) {
+      if (!visited.has(kid)) {
+        collect(kid);
+      }
+    }
+  };
+  for (const row of rows) {
+    if (!row.parentKey || !keys.has(row.parentKey) || row.parentKey === row.key) {
+      collect(row);
+    }
+  }
+
+  // A receipt is one purchase at the merchant in its title; a statement lists one per line
+  const expenses = topmost.filter((row) => row.status === 'expense').length;
+
+  return topmost.map((row) => {
+    const categories = new Map<string, number>();
+    for (const [category, value] of allocate(row, null)) {
+      addTo(categories, category, value);
+    }
+    return {
+      row,
+      amount: Math.abs(row.value),
+      merchant: (expenses === 1 && row.title?.trim()) || row.name.trim(),
+      categories,
+    };
+  });
+}
+
+/**
+ * Break down a user's finance records of a date range
+ */
+export async function getSpendingBreakdown(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  query: SpendingQuery,
+): Promise<SpendingBreakdown> {
+  const conditions = [eq(records.userId, userId), eq(records.type, 'finance')];
+  if (query.startDate) {
+    conditions.push(gte(records.date, query.startDate));
+  }
+  if (query.endDate) {
+    conditions.push(lte(records.date, query.endDate));
+  }
+
+  const { period, periodStart } = recordPeriodColumns(query.groupBy);
+  const rows = await db
+    .select({
+      recordId: records.id,
+      title: records.title,
+      period: sql<string>`${period}`,
+      periodStart: sql<string>`${periodStart}`,
+      month: sql<string>`strftime('%Y-%m', ${records.date}, 'unixepoch')`,
+      key: metrics.key,
+      name: metrics.name,
+      value: metrics.value,
+      unit: metrics.unit,
+      status: metrics.status,
+      categoryTag: metrics.categoryTag,
+      parentKey: metrics.parentKey,
+    })
+    .from(metrics)
+    .innerJoin(records, eq(metrics.recordId, records.id))
+    .where(and(...conditions))
+    .orderBy(asc(records.date), asc(metrics.displayOrder), asc(metrics.id));
+
+  const byRecord = new Map<string, MetricRow[]>();
+  for (const row of rows) {
+    byRecord.set(row.recordId, [...(byRecord.get(row.recordId) ?? []), row]);
+  }
+  const transactions = [...byRecord.values()].flatMap(toTransactions);
+
+  // Amounts in different currencies can't be added up: use one currency
+  const currencyCounts = new Map<string, number>();
+  for (const transaction of transactions) {
+    addTo(currencyCounts, transaction.row.unit ?? '', 1);
+  }
+  const mostCommon = [...currencyCounts].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const currency = query.currency ?? (mostCommon === undefined ? null : mostCommon || null);
+  const counted = transactions.filter((t) => (t.row.unit ?? null) === currency);
+
+  const periods = new Map<string, SpendingPeriod>();
+  const categories = new Map<string, number>();
+  const merchants = new Map<string, MerchantSpending>();
+  const monthly = new Map<string, Map<string, number>>();
+  const totals = { income: 0, expense: 0, net: 0 };
+
+  for (const { row, amount, merchant, categories: split } of counted) {
+    const entry = periods.get(row.period) ?? {
+      period: row.period,
+      periodStart: row.periodStart,
+      income: 0,
+      expense: 0,
+      net: 0,
+      categories: {},
+    };
+    periods.set(row.period, entry);
+
+    if (row.status === 'income') {
+      entry.income += amount;
+      totals.income += amount;
+      continue;
+    }
+
+    entry.expense += amount;
+    totals.expense += amount;
+    const month = monthly.get(row.month) ?? new Map<string, number>();
+    monthly.set(row.month, month);
+    for (const [category, value] of split) {
+      entry.categories[category] = (entry.categories[category] ?? 0) + value;
+      addTo(categories, category, value);
+      addTo(month, category, value);
+    }
+
+    const merchantKey = merchant.toLowerCase();
+    const spent = merchants.get(merchantKey) ?? { merchant, amount: 0, count: 0 };
+    spent.amount += amount;
+    spent.count += 1;
+    merchants.set(merchantKey, spent);
+  }
+
+  return {
+    groupBy: query.groupBy,
+    currency,
+    excludedOtherCurrencies: transactions.length - counted.length,
+    totals: {
+      income: round(totals.income),
+      expense: round(totals.expense),
+      net: round(totals.income - totals.expense),
+    },
+    periods: [...periods.values()]
+      .sort((a, b) => a.period.localeCompare(b.period))
+      .map((entry) => ({
+        ...entry,
+        income: round(entry.income),
+        expense: round(entry.expense),
+        net: round(entry.income - entry.expense),
+        categories: Object.fromEntries(
+          Object.entries(entry.categories).map(([category, value]) => [category, round(value)]),
+        ),
+      })),
+    categories: [...categories]
+      .sort((a, b) => b[1] - a[1])
+      .map(([categoryTag, amount]) => ({
+        categoryTag,
+        amount: round(amount),
+        share: totals.expense > 0 ? round((amount * 100) / totals.expense) : 0,
+      })),
+    merchants: [...merchants.values()]
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, query.merchantLimit ?? 10)
+      .map((spent) => ({ ...spent, amount: round(spent.amount) })),
+    monthOverMonth: getMonthOverMonth(monthly),
+  };
+}
+
+/**
+ * Compare the latest month with spending to the month before it
+ */
+function getMonthOverMonth(monthly: Map<string, Map<string, number>>): MonthOverMonth | null {
+  const month = [...monthly.keys()].sort().at(-1);
+  if (!month) {
+    return null;
+  }
+
+  const previousMonth = previousMonthOf(month);
+  const current = monthly.get(month) ?? new Map<string, number>();
+  const previous = monthly.get(previousMonth) ?? new Map<string, number>();
+  const total = (map: Map<string, number>) => [...map.values()].reduce((sum, v) => sum + v, 0);
+
+  return {
+    month,
+    previousMonth,
+    expense: round(total(current)),
+    previousExpense: round(total(previous)),
+    change: percentChange(total(current), total(previous)),
+    categories: [...new Set([...current.keys(), ...previous.keys()])]
+      .map((categoryTag) => {
+        const amount = current.get(categoryTag) ?? 0;
+        const previousAmount = previous.get(categoryTag) ?? 0;
+        return {
+          categoryTag,
+          amount: round(amount),
+          previousAmount: round(previousAmount),
+          change: percentChange(amount, previousAmount),
+        };
+      })
+      .sort((a, b) => b.amount - a.amount),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Usage Service
+ * Stores the token usage and estimated cost of every AI call, aggregates it per day and model,
+ * and tracks spending against the user's monthly budget
+ */
+
+import { createDb, aiUsage, usageBudgets } from '@ai-chart/database';
+import type { ModelUsage, UsageRecorder } from '@ai-chart/ai-core';
+import { eq, and, gte, lt, sql } from 'drizzle-orm';
+
+/**
+ * What triggered an AI call
+ */
+export type UsageOperation = 'chat' | 'upload' | 'extract-text' | 'prompt-preview';
+
+/**
+ * Usage aggregated over one day (UTC)
+ */
+export interface DailyUsage {
+  date: string; // YYYY-MM-DD
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+/**
+ * Usage aggregated per provider/model
+ */
+export interface ModelUsageSummary {
+  provider: string;
+  modelId: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Calls without a known price (not included in costUsd) */
+  unpricedCalls: number;
+}
+
+/**
+ * Spending of the current month against the user's budget
+ */
+export interface BudgetStatus {
+  /** Monthly limit in USD (null = no budget) */
+  monthlyLimitUsd: number | null;
+  /** Estimated cost of the calls made since the start of the month (UTC) */
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+  periodStart: string; // YYYY-MM-DD
+}
+
+/**
+ * Store the usage of one AI call
+ */
+export async function recordUsage(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  operation: UsageOperation,
+  usage: ModelUsage,
+): Promise<void> {
+  await db.insert(aiUsage).values({
+    id: crypto.randomUUID(),
+    userId,
+    operation,
+    provider: usage.provider,
+    modelId: usage.modelId,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    latencyMs: usage.latencyMs,
+    costUsd: usage.costUsd,
+    success: usage.success,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Usage callback that stores every call of an operation (pass as `onUsage` to the extractors)
+ */
+export function createUsageRecorder(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  operation: UsageOperation,
+): UsageRecorder {
+  return (usage) => recordUsage(db, userId, operation, usage);
+}
+
+/**
+ * Usage per day in [startDate, endDate), days without calls omitted
+ */
+export async function getDailyUsage(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  startDate: Date,
+  endDate: Date,
+): Promise<DailyUsage[]> {
+  const day = sql<string>`date(${aiUsage.createdAt}, 'unixepoch')`;
+
+  const rows = await db
+    .select({
+      date: day,
+      calls: sql<number>`count(*)`,
+      inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)`,
+      outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)`,
+      costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`,
+      avgLatencyMs: sql<number>`coalesce(avg(${aiUsage.latencyMs}), 0)`,
+    })
+    .from(aiUsage)
+    .where(
+      and(
+        eq(aiUsage.userId, userId),
+        gte(aiUsage.createdAt, startDate),
+        lt(aiUsage.createdAt, endDate),
+      ),
+    )
+    .groupBy(day)
+    .orderBy(day);
+
+  return rows.map((row) => ({ ...row, avgLatencyMs: Math.round(row.avgLatencyMs) }));
+}
+
+/**
+ * Usage per provider/model in [startDate, endDate), most expensive first
+ */
+export async function getUsageByModel(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  startDate: Date,
+  endDate: Date,
+): Promise<ModelUsageSummary[]> {
+  return db
+    .select({
+      provider: aiUsage.provider,
+      modelId: aiUsage.modelId,
+      calls: sql<number>`count(*)`,
+      inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)`,
+      outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)`,
+      costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`,
+      unpricedCalls: sql<number>`sum(case when ${aiUsage.costUsd} is null then 1 else 0 end)`,
+    })
+    .from(aiUsage)
+    .where(
+      and(
+        eq(aiUsage.userId, userId),
+        gte(aiUsage.createdAt, startDate),
+        lt(aiUsage.createdAt, endDate),
+      ),
+    )
+    .groupBy(aiUsage.provider, aiUsage.modelId)
+    .orderBy(sql`coalesce(sum(${aiUsage.costUsd}), 0) DESC`);
+}
+
+/**
+ * Spending of the current month (UTC) against the user's budget
+ */
+export async function getBudgetStatus(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  now = new Date(),
+): Promise<BudgetStatus> {
+  const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const [budget] = await db
+    .select()
+    .from(usageBudgets)
+    .where(eq(usageBudgets.userId, userId))
+    .limit(1);
+
+  const [spent] = await db
+    .select({ costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)` })
+    .from(aiUsage)
+    .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, periodStart)));
+
+  const monthlyLimitUsd = budget?.monthlyLimitUsd ?? null;
+  const spentUsd = spent?.costUsd ?? 0;
+
+  return {
+    monthlyLimitUsd,
+    spentUsd,
+    remainingUsd: monthlyLimitUsd === null ? null : Math.max(0, monthlyLimitUsd - spentUsd),
+    exceeded: monthlyLimitUsd !== null && spentUsd >= monthlyLimitUsd,
+    periodStart: periodStart.toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Set or remove (null) the user's monthly budget
+ */
+export async function setMonthlyBudget(
+  db: ReturnType<typeof createDb>,
+  userId: string,
+  monthlyLimitUsd: number | null,
+): Promise<void> {
+  if (monthlyLimitUsd === null) {
+    await db.delete(usageBudgets).where(eq(usageBudgets.userId, userId));
+    return;
+  }
+
+  const now = new Date();
+  await db
+    .insert(usageBudgets)
+    .values({ userId, monthlyLimitUsd, updatedAt: now })
+    .onConflictDoUpdate({
+      target: usageBudgets.userId,
+      set: { monthlyLimitUsd, updatedAt: now },
+    });
+}
@@ -27,3 +27,59 @@ export function detectFileType(file: File): 'image' | 'pdf' | 'unknown' {
 
   return 'unknown';
 }
+
+/**
+ * Largest document accepted for extraction (bytes)
+ */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Most pages of a PDF accepted for extraction
+ */
+export const MAX_PDF_PAGES = 20;
+
+/**
+ * Room for the multipart envelope and text fields sent along with a document (bytes)
+ */
+export const MAX_FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+/**
+ * Format a byte count for messages (e.g., "10 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${bytes} bytes`;
+}
+
+/**
+ * Count the pages of a PDF from its page objects ("/Type /Page")
+ * Page objects inside compressed object streams are not visible this way.
+ * @returns Page count, or null when no page object could be found
+ */
+export function countPdfPages(data: ArrayBuffer): number | null {
+  const content = new TextDecoder('latin1').decode(data);
+  const pages = content.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  return pages > 0 ? pages : null;
+}
+
+/**
+ * Check a document against the size and page limits
+ * @returns A message describing the exceeded limit, or null when the document is accepted
+ */
+export function checkDocumentLimits(fileType: 'image' | 'pdf', data: ArrayBuffer): string | null {
+  if (data.byteLength > MAX_UPLOAD_BYTES) {
+    return `Files must be at most ${formatBytes(MAX_UPLOAD_BYTES)} (received ${formatBytes(data.byteLength)})`;
+  }
+  if (fileType === 'pdf') {
+    const pages = countPdfPages(data);
+    if (pages !== null && pages > MAX_PDF_PAGES) {
+      return `PDF documents must have at most ${MAX_PDF_PAGES} pages (received ${pages})`;
+    }
+  }
+  return null;
+}
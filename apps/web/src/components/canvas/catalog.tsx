@@ -46,6 +46,8 @@ export const catalog = createCatalog({
               name: z.string(),
               value: z.union([z.string(), z.number()]),
               unit: z.string().optional(),
+              confidence: z.number().optional(),
+              sourceText: z.string().optional(),
             }),
           ),
         }),
@@ -12,7 +12,9 @@ import {
 } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Save, RotateCcw } from 'lucide-react';
+import { Save, RotateCcw, AlertTriangle } from 'lucide-react';
+import { isLowConfidence } from '@ai-chart/shared';
+import { cn } from '@/lib/utils';
 
 // Dynamic schema based on the data type
 const fieldSchema = z.object({
@@ -20,6 +22,8 @@ const fieldSchema = z.object({
   name: z.string(),
   value: z.union([z.string(), z.number()]),
   unit: z.string().optional(),
+  confidence: z.number().optional(),
+  sourceText: z.string().optional(),
 });
 
 const recordSchema = z.object({
@@ -42,15 +46,19 @@ export function RecordForm({ initialData, onSave, onCancel }: RecordFormProps) {
     register,
     handleSubmit,
     reset,
-    formState: { isDirty, isSubmitting },
+    formState: { isDirty, isSubmitting, dirtyFields },
   } = useForm<RecordFormData>({
     resolver: zodResolver(recordSchema),
     defaultValues: initialData,
   });
 
   const onSubmit = async (data: RecordFormData) => {
-    console.log('Saving record data:', data);
-    onSave?.(data);
+    // A value corrected by hand is verified; drop the extraction confidence
+    const metrics = data.metrics.map((metric, index) =>
+      dirtyFields.metrics?.[index]?.value ? { ...metric, confidence: undefined } : metric,
+    );
+    console.log('Saving record data:', { ...data, metrics });
+    onSave?.({ ...data, metrics });
   };
 
   return (
@@ -73,24 +81,46 @@ export function RecordForm({ initialData, onSave, onCancel }: RecordFormProps) {
           <div className="space-y-4">
             <Label className="text-base">Metrics</Label>
             <div className="grid gap-4">
-              {initialData.metrics.map((metric, index) => (
-                <div
-                  key={metric.key}
-                  className="flex items-end gap-3 p-3 border rounded-lg bg-muted/20"
-                >
-                  <div className="flex-1 space-y-1.5">
-                    <Label className="text-xs text-muted-foreground">{metric.name}</Label>
-                    <div className="flex gap-2 items-center">
-                      <Input className="h-9" {...register(`metrics.${index}.value` as const)} />
-                      {metric.unit && (
-                        <span className="text-sm text-muted-foreground min-w-[40px]">
-                          {metric.unit}
-                        </span>
+              {initialData.metrics.map((metric, index) => {
+                // Values the extraction was unsure about are highlighted for manual verification
+                const needsReview = isLowConfidence(metric.confidence);
+                return (
+                  <div
+                    key={metric.key}
+                    className={cn(
+                      'flex items-end gap-3 p-3 border rounded-lg bg-muted/20',
+                      needsReview && 'border-amber-400 bg-amber-50 dark:bg-amber-950/20',
+                    )}
+                  >
+                    <div className="flex-1 space-y-1.5">
+                      <Label className="text-xs text-muted-foreground">{metric.name}</Label>
+                      <div className="flex gap-2 items-center">
+                        <Input
+                          className={cn('h-9', needsReview && 'border-amber-400')}
+                          {...register(`metrics.${index}.value` as const)}
+                        />
+                        {metric.unit && (
+                          <span className="text-sm text-muted-foreground min-w-[40px]">
+                            {metric.unit}
+                          </span>
+                        )}
+                      </div>
+                      {needsReview && (
+                        <p className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400">
+                          <AlertTriangle className="h-3 w-3 shrink-0" />
+                          Low confidence ({Math.round((metric.confidence ?? 0) * 100)}%) — please
+                          verify
+                        </p>
+                      )}
+                      {metric.sourceText && (
+                        <p className="text-[10px] text-muted-foreground font-mono truncate">
+                          Read from: {metric.sourceText}
+                        </p>
                       )}
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         </CardContent>
@@ -31,7 +31,8 @@ export function MessageList({ messages, isStreaming }: MessageListProps) {
             </div>
             <h2 className="text-lg font-semibold text-foreground">How can I help you today?</h2>
             <p className="max-w-xs mt-2 text-sm">
-              Upload a health report or financial bill to get started with intelligent analysis.
+              Upload a health report, a bill, a workout summary or any other tracked document to get
+              started with intelligent analysis.
             </p>
           </div>
         ) : (
@@ -11,6 +11,9 @@ import {
   XCircle,
   Layout,
   PackagePlus,
+  PieChart,
+  Target,
+  CalendarClock,
 } from 'lucide-react';
 
 const TOOL_CONFIG: Record<string, { label: string; activeLabel: string; icon: typeof FileText }> = {
@@ -20,6 +23,26 @@ const TOOL_CONFIG: Record<string, { label: string; activeLabel: string; icon: ty
     activeLabel: 'Fetching trend data...',
     icon: TrendingUp,
   },
+  get_metric_analytics: {
+    label: 'Computed analytics',
+    activeLabel: 'Computing analytics...',
+    icon: BarChart3,
+  },
+  get_spending_breakdown: {
+    label: 'Analyzed spending',
+    activeLabel: 'Analyzing spending...',
+    icon: PieChart,
+  },
+  get_budget_status: {
+    label: 'Checked budgets',
+    activeLabel: 'Checking budgets...',
+    icon: Target,
+  },
+  get_reminders: {
+    label: 'Checked reminders',
+    activeLabel: 'Checking reminders...',
+    icon: CalendarClock,
+  },
   get_latest_records: {
     label: 'Fetched latest records',
     activeLabel: 'Fetching latest records...',
@@ -0,0 +1,134 @@
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AnalyticsPeriod, MetricAnalytics } from '@/hooks/use-analytics';
+
+interface AnalyticsChartProps {
+  title: string;
+  /** Bars plot each period's sum (e.g., spending), lines its average (e.g., a lab value) */
+  type: 'line' | 'bar';
+  data: MetricAnalytics;
+  color?: string;
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function formatChange(change: number | null | undefined) {
+  if (change === null || change === undefined) {
+    return null;
+  }
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
+}
+
+/**
+ * Tooltip with the distribution of a period and its year-over-year change
+ */
+function PeriodTooltip({
+  active,
+  payload,
+  type,
+  unit,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: AnalyticsPeriod }>;
+  type: 'line' | 'bar';
+  unit: string | null;
+}) {
+  const period = active ? payload?.[0]?.payload : undefined;
+  if (!period) {
+    return null;
+  }
+
+  const suffix = unit ? ` ${unit}` : '';
+  const yoy = formatChange(type === 'bar' ? period.yoyChange?.sum : period.yoyChange?.avg);
+  const rows: Array<[string, string]> = [
+    [type === 'bar' ? 'Total' : 'Average', formatNumber(type === 'bar' ? period.sum : period.avg)],
+    ...(type === 'bar' ? [['Average', formatNumber(period.avg)] as [string, string]] : []),
+    ['Median', formatNumber(period.median)],
+    ['P90', formatNumber(period.p90)],
+    ['Min – max', `${formatNumber(period.min)} – ${formatNumber(period.max)}`],
+  ];
+
+  return (
+    <div className="rounded-lg bg-background p-2 text-xs shadow-md">
+      <p className="font-medium mb-1">
+        {period.period} · {period.count} value{period.count !== 1 ? 's' : ''}
+      </p>
+      {rows.map(([label, value]) => (
+        <p key={label} className="flex justify-between gap-4">
+          <span className="text-muted-foreground">{label}</span>
+          <span>
+            {value}
+            {suffix}
+          </span>
+        </p>
+      ))}
+      {yoy && (
+        <p className="flex justify-between gap-4">
+          <span className="text-muted-foreground">vs. last year</span>
+          <span>{yoy}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Per-period statistics of a metric, with the moving average as a dashed line
+ */
+export function AnalyticsChart({ title, type, data, color = '#2563eb' }: AnalyticsChartProps) {
+  const valueKey = type === 'bar' ? 'sum' : 'avg';
+  const movingKey = type === 'bar' ? 'movingSum' : 'movingAvg';
+
+  return (
+    <Card className="w-full h-[300px]">
+      <CardHeader>
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="h-[220px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data.periods}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="period" fontSize={12} tickLine={false} axisLine={false} />
+            <YAxis fontSize={12} tickLine={false} axisLine={false} />
+            <Tooltip content={<PeriodTooltip type={type} unit={data.unit} />} />
+            {type === 'bar' ? (
+              <Bar dataKey={valueKey} fill={color} radius={[4, 4, 0, 0]} />
+            ) : (
+              <Line
+                type="monotone"
+                dataKey={valueKey}
+                stroke={color}
+                strokeWidth={2}
+                dot={{ r: 4 }}
+                activeDot={{ r: 6 }}
+              />
+            )}
+            {data.window > 1 && (
+              <Line
+                type="monotone"
+                dataKey={movingKey}
+                stroke={color}
+                strokeOpacity={0.6}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                connectNulls
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ExternalLink, FileText, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { useAttachmentContent, type RecordAttachment } from '@/hooks/use-dashboard';
+
+interface AttachmentPreviewProps {
+  attachments: Array<Pick<RecordAttachment, 'id' | 'fileName' | 'mimeType'>>;
+  /** API path serving a file's content (defaults to /api/attachments/:id) */
+  getFilePath?: (id: string) => string;
+  className?: string;
+}
+
+/**
+ * Shows the original document(s) a record (or draft) was extracted from
+ */
+export function AttachmentPreview({
+  attachments,
+  getFilePath = (id) => `/api/attachments/${id}`,
+  className,
+}: AttachmentPreviewProps) {
+  const [selectedId, setSelectedId] = useState(attachments[0]?.id ?? null);
+  const selected = attachments.find((a) => a.id === selectedId) ?? attachments[0];
+  const {
+    data: blob,
+    isLoading,
+    error,
+  } = useAttachmentContent(selected ? getFilePath(selected.id) : null);
+
+  const url = useMemo(() => (blob ? URL.createObjectURL(blob) : null), [blob]);
+  useEffect(() => {
+    return () => {
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [url]);
+
+  if (!selected) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex flex-col min-h-0', className)}>
+      <div className="flex items-center justify-between gap-2 mb-2 px-1">
+        <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+          Original Document
+        </p>
+        {url && (
+          <Button variant="ghost" size="sm" asChild className="h-6 gap-1 text-xs">
+            <a href={url} target="_blank" rel="noreferrer">
+              <ExternalLink className="h-3 w-3" />
+              Open
+            </a>
+          </Button>
+        )}
+      </div>
+
+      {attachments.length > 1 && (
+        <div className="flex gap-1 flex-wrap mb-2 px-1">
+          {attachments.map((attachment, index) => (
+            <Button
+              key={attachment.id}
+              variant={attachment.id === selected.id ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => setSelectedId(attachment.id)}
+            >
+              {attachment.fileName || `File ${index + 1}`}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 min-h-[240px] rounded-md border bg-muted/30 overflow-auto flex items-center justify-center">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : error || !url ? (
+          <div className="flex flex-col items-center gap-1 text-muted-foreground">
+            <FileText className="h-6 w-6" />
+            <p className="text-xs">Original document unavailable</p>
+          </div>
+        ) : selected.mimeType === 'application/pdf' ? (
+          <iframe
+            src={url}
+            title={selected.fileName || 'Original document'}
+            className="w-full h-full min-h-[480px]"
+          />
+        ) : (
+          <img
+            src={url}
+            alt={selected.fileName || 'Original document'}
+            className="max-w-full h-auto object-contain"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { Loader2, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BudgetProgressBar } from '@/components/dashboard/budget-progress';
+import {
+  useBudgets,
+  useCreateBudget,
+  useDeleteBudget,
+  useUpdateBudget,
+  type Budget,
+} from '@/hooks/use-budgets';
+
+interface BudgetManagerProps {
+  /** Known categoryTags, suggested when adding a budget */
+  categories: string[];
+  /** Currency suggested for new budgets */
+  defaultCurrency?: string | null;
+}
+
+/**
+ * Form to add a budget or edit one
+ */
+function BudgetEditor({
+  budget,
+  categories,
+  defaultCurrency,
+  onDone,
+}: {
+  budget?: Budget;
+  categories: string[];
+  defaultCurrency: string;
+  onDone: () => void;
+}) {
+  const createBudget = useCreateBudget();
+  const updateBudget = useUpdateBudget();
+  const mutation = budget ? updateBudget : createBudget;
+
+  const [categoryTag, setCategoryTag] = useState(budget?.categoryTag ?? '');
+  const [limit, setLimit] = useState(budget?.monthlyLimit.toString() ?? '');
+  const [currency, setCurrency] = useState(budget?.currency ?? defaultCurrency);
+  const [warningPercent, setWarningPercent] = useState(String(budget?.warningPercent ?? 80));
+  const [criticalPercent, setCriticalPercent] = useState(String(budget?.criticalPercent ?? 100));
+
+  const input = {
+    categoryTag: categoryTag.trim(),
+    monthlyLimit: Number(limit),
+    currency: currency.trim(),
+    warningPercent: Number(warningPercent),
+    criticalPercent: Number(criticalPercent),
+  };
+  const isValid =
+    input.categoryTag !== '' &&
+    input.currency !== '' &&
+    input.monthlyLimit > 0 &&
+    Number.isInteger(input.warningPercent) &&
+    Number.isInteger(input.criticalPercent) &&
+    input.warningPercent > 0 &&
+    input.warningPercent < input.criticalPercent;
+
+  const handleSave = () => {
+    const options = { onSuccess: onDone };
+    if (budget) {
+      updateBudget.mutate({ id: budget.id, ...input }, options);
+    } else {
+      createBudget.mutate(input, options);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-5">
+        <div className="space-y-2 col-span-2 md:col-span-1">
+          <Label htmlFor="budget-category">Category</Label>
+          <Input
+            id="budget-category"
+            list="budget-categories"
+            value={categoryTag}
+            onChange={(e) => setCategoryTag(e.target.value)}
+            placeholder="food_drink"
+          />
+          <datalist id="budget-categories">
+            {categories.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="budget-limit">Monthly limit</Label>
+          <Input
+            id="budget-limit"
+            type="number"
+            min="0"
+            step="0.01"
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="budget-currency">Currency</Label>
+          <Input
+            id="budget-currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="budget-warning">Amber at (%)</Label>
+          <Input
+            id="budget-warning"
+            type="number"
+            min="1"
+            value={warningPercent}
+            onChange={(e) => setWarningPercent(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="budget-critical">Red at (%)</Label>
+          <Input
+            id="budget-critical"
+            type="number"
+            min="1"
+            value={criticalPercent}
+            onChange={(e) => setCriticalPercent(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!isValid || mutation.isPending}
+          className="gap-1"
+        >
+          {mutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4" />
+          )}
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onDone} className="gap-1">
+          <X className="h-4 w-4" />
+          Cancel
+        </Button>
+        {mutation.error && <p className="text-xs text-destructive">{mutation.error.message}</p>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Budgets of the current month with their progress; add, edit and delete them
+ */
+export function BudgetManager({ categories, defaultCurrency }: BudgetManagerProps) {
+  const { data, isLoading, error } = useBudgets();
+  const deleteBudget = useDeleteBudget();
+  // Budget being edited ("new" while adding one)
+  const [editing, setEditing] = useState<string | null>(null);
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4 flex flex-row items-start justify-between gap-2">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Budgets</CardTitle>
+          <CardDescription>
+            Monthly limits per category. Bars turn amber and red at each budget's thresholds.
+          </CardDescription>
+        </div>
+        {editing !== 'new' && (
+          <Button size="sm" variant="outline" onClick={() => setEditing('new')} className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add budget
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editing === 'new' && (
+          <BudgetEditor
+            categories={categories}
+            defaultCurrency={defaultCurrency ?? 'USD'}
+            onDone={() => setEditing(null)}
+          />
+        )}
+
+        {/* Loading state */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {/* Error state */}
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {data && data.budgets.length === 0 && editing !== 'new' && (
+          <p className="text-sm text-muted-foreground">No budgets yet</p>
+        )}
+
+        {data?.budgets.map((budget) =>
+          editing === budget.id ? (
+            <BudgetEditor
+              key={budget.id}
+              budget={budget}
+              categories={categories}
+              defaultCurrency={budget.currency}
+              onDone={() => setEditing(null)}
+            />
+          ) : (
+            <div key={budget.id} className="flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                <BudgetProgressBar budget={budget} />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => setEditing(budget.id)}
+                aria-label="Edit budget"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => deleteBudget.mutate(budget.id)}
+                disabled={deleteBudget.isPending}
+                aria-label="Delete budget"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ),
+        )}
+        {deleteBudget.error && (
+          <p className="text-xs text-destructive">{deleteBudget.error.message}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
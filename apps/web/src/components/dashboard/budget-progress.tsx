@@ -0,0 +1,90 @@
+import { Link } from '@tanstack/react-router';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { formatCategory, formatMoney } from '@/components/dashboard/spending-charts';
+import { useBudgets, type BudgetLevel, type BudgetProgress } from '@/hooks/use-budgets';
+
+const LEVEL_COLORS: Record<BudgetLevel, string> = {
+  ok: 'bg-primary',
+  warning: 'bg-amber-500',
+  critical: 'bg-destructive',
+};
+
+/**
+ * Spending of a budget's category against its limit; amber from the warning threshold,
+ * red from the critical one
+ */
+export function BudgetProgressBar({ budget }: { budget: BudgetProgress }) {
+  const showProjection =
+    budget.projected !== null && budget.projectedLevel !== 'ok' && budget.level !== 'critical';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2 text-sm">
+        <span className="font-medium truncate">{formatCategory(budget.categoryTag)}</span>
+        <span className="text-xs text-muted-foreground shrink-0">
+          {formatMoney(budget.spent, budget.currency)} of{' '}
+          {formatMoney(budget.monthlyLimit, budget.currency)} · {budget.percent.toFixed(0)}%
+        </span>
+      </div>
+      <div className="relative h-2 w-full rounded-full bg-muted overflow-hidden">
+        <div
+          className={cn('h-full rounded-full', LEVEL_COLORS[budget.level])}
+          style={{ width: `${Math.min(100, budget.percent)}%` }}
+        />
+        {budget.warningPercent < 100 && (
+          <div
+            className="absolute inset-y-0 w-px bg-foreground/30"
+            style={{ left: `${budget.warningPercent}%` }}
+          />
+        )}
+      </div>
+      {budget.level === 'critical' && (
+        <p className="text-xs text-destructive">
+          {budget.remaining < 0
+            ? `${formatMoney(-budget.remaining, budget.currency)} over budget`
+            : `${formatMoney(budget.remaining, budget.currency)} left`}
+        </p>
+      )}
+      {showProjection && budget.projected !== null && (
+        <p
+          className={cn(
+            'text-xs',
+            budget.projectedLevel === 'critical'
+              ? 'text-destructive'
+              : 'text-amber-700 dark:text-amber-400',
+          )}
+        >
+          On pace for {formatMoney(budget.projected, budget.currency)} by month end
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Budgets of the current month (dashboard); hidden until a budget is set
+ */
+export function BudgetsWidget() {
+  const { data } = useBudgets();
+
+  if (!data || data.budgets.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-sm font-medium">Budgets · {data.month}</CardTitle>
+        <Link to="/spending" className="text-xs text-muted-foreground hover:text-primary">
+          Manage budgets
+        </Link>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        {data.budgets.map((budget) => (
+          <BudgetProgressBar key={budget.id} budget={budget} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import type { StatusTone } from '@ai-chart/shared';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { useDomain } from '@/hooks/use-domains';
+
+const TONE_STYLES: Record<StatusTone, string> = {
+  good: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  bad: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  warning: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  neutral: 'bg-muted text-muted-foreground',
+};
+
+/**
+ * Record type badge in the domain's accent color
+ */
+export function DomainBadge({ type, className }: { type: string; className?: string }) {
+  const domain = useDomain(type);
+
+  return (
+    <Badge
+      variant={domain ? 'default' : 'secondary'}
+      className={cn('capitalize', className)}
+      style={domain ? { backgroundColor: domain.color } : undefined}
+    >
+      {domain?.label ?? type}
+    </Badge>
+  );
+}
+
+/**
+ * Color strip in the domain's accent color (list rows)
+ */
+export function DomainIndicator({ type, className }: { type: string; className?: string }) {
+  const domain = useDomain(type);
+
+  return (
+    <div
+      className={cn('w-1 h-10 rounded-full shrink-0', !domain && 'bg-secondary', className)}
+      style={domain ? { backgroundColor: domain.color } : undefined}
+    />
+  );
+}
+
+/**
+ * Metric status badge, colored by the tone the record's domain gives the status
+ */
+export function StatusBadge({ type, status }: { type: string; status: string }) {
+  const domain = useDomain(type);
+  const definition = domain?.statuses.find((s) => s.value === status);
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center rounded px-1.5 py-0.5 text-[10px] font-medium min-w-14 justify-center',
+        TONE_STYLES[definition?.tone ?? 'neutral'],
+      )}
+      title={definition?.description}
+    >
+      {status.replace(/_/g, ' ')}
+    </span>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import type { DomainChart, DomainDefinition } from '@ai-chart/shared';
+import { TrendChart } from '@/components/canvas/components/trend-chart';
+import { AnalyticsChart } from '@/components/dashboard/analytics-chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useMetricTrend } from '@/hooks/use-dashboard';
+import { useMetricAnalytics, type AnalyticsGroupBy } from '@/hooks/use-analytics';
+
+interface DomainChartsProps {
+  /** Domains whose default charts are shown */
+  domains: DomainDefinition[];
+}
+
+/** "record" plots every value; the others aggregate by period */
+type ChartPeriod = 'record' | AnalyticsGroupBy;
+
+const PERIOD_OPTIONS: Array<{ value: ChartPeriod; label: string }> = [
+  { value: 'record', label: 'Per record' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+  { value: 'year', label: 'Yearly' },
+];
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function chartTitle(domain: DomainDefinition, chart: DomainChart, unit?: string | null) {
+  return `${domain.label} · ${chart.title}${unit ? ` (${unit})` : ''}`;
+}
+
+/**
+ * One default chart of a domain, value by value; hidden until the metric has data
+ */
+function DomainChartCard({ domain, chart }: { domain: DomainDefinition; chart: DomainChart }) {
+  const { data } = useMetricTrend(chart.metricKey, domain.id);
+
+  if (!data || data.count === 0) {
+    return null;
+  }
+
+  return (
+    <TrendChart
+      title={chartTitle(domain, chart, data.statistics?.unit)}
+      type={chart.type}
+      color={domain.color}
+      data={data.trend.map((point) => ({ name: formatDate(point.date), value: point.value }))}
+    />
+  );
+}
+
+/**
+ * One default chart of a domain, aggregated by period; hidden until the metric has data
+ */
+function DomainAnalyticsCard({
+  domain,
+  chart,
+  groupBy,
+}: {
+  domain: DomainDefinition;
+  chart: DomainChart;
+  groupBy: AnalyticsGroupBy;
+}) {
+  const { data } = useMetricAnalytics(chart.metricKey, { groupBy, type: domain.id });
+
+  if (!data || data.periods.length === 0) {
+    return null;
+  }
+
+  return (
+    <AnalyticsChart
+      title={chartTitle(domain, chart, data.unit)}
+      type={chart.type}
+      color={domain.color}
+      data={data}
+    />
+  );
+}
+
+/**
+ * Default charts of the given domains (as registered in the domain registry)
+ */
+export function DomainCharts({ domains }: DomainChartsProps) {
+  const [period, setPeriod] = useState<ChartPeriod>('record');
+  const charts = domains.flatMap((domain) => domain.charts.map((chart) => ({ domain, chart })));
+
+  if (charts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex justify-end">
+        <Select value={period} onValueChange={(val) => setPeriod(val as ChartPeriod)}>
+          <SelectTrigger size="sm" className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {charts.map(({ domain, chart }) =>
+          period === 'record' ? (
+            <DomainChartCard
+              key={`${domain.id}:${chart.metricKey}`}
+              domain={domain}
+              chart={chart}
+            />
+          ) : (
+            <DomainAnalyticsCard
+              key={`${domain.id}:${chart.metricKey}`}
+              domain={domain}
+              chart={chart}
+              groupBy={period}
+            />
+          ),
+        )}
+      </div>
+    </div>
+  );
+}
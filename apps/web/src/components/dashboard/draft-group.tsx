@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { CheckCheck, Loader2, AlertTriangle, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  useApproveDrafts,
+  DuplicateDraftError,
+  type Draft,
+  type DuplicateAction,
+} from '@/hooks/use-drafts';
+import { DraftReviewCard } from './draft-review-card';
+
+interface DraftGroupProps {
+  /** Drafts extracted from the same upload (e.g., one per lab panel) */
+  drafts: Draft[];
+}
+
+/**
+ * The drafts of one upload, with an action to approve them all in one batch
+ */
+export function DraftGroup({ drafts }: DraftGroupProps) {
+  const approveMutation = useApproveDrafts();
+  const [duplicateError, setDuplicateError] = useState<DuplicateDraftError | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApproveAll = async (onDuplicate: DuplicateAction = 'report') => {
+    setError(null);
+    try {
+      await approveMutation.mutateAsync({ ids: drafts.map((d) => d.id), onDuplicate });
+      setDuplicateError(null);
+    } catch (err) {
+      if (err instanceof DuplicateDraftError) {
+        setDuplicateError(err);
+      } else {
+        setError((err as { message?: string }).message || 'Failed to approve drafts');
+      }
+    }
+  };
+
+  if (drafts.length === 1) {
+    return <DraftReviewCard draft={drafts[0]} />;
+  }
+
+  const draftTitle = (draftId: string) => {
+    const draft = drafts.find((d) => d.id === draftId);
+    return draft ? draft.data.title || draft.data.category.replace(/_/g, ' ') : draftId;
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-dashed p-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap px-1">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <p className="text-sm font-medium truncate">{drafts[0].fileName || 'Upload'}</p>
+          <span className="text-xs text-muted-foreground shrink-0">{drafts.length} records</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground hidden sm:inline">
+            Saves the drafts as last saved
+          </span>
+          <Button
+            size="sm"
+            onClick={() => handleApproveAll()}
+            disabled={approveMutation.isPending}
+            className="gap-1"
+          >
+            {approveMutation.isPending ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <CheckCheck className="h-3 w-3" />
+            )}
+            Approve all
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-destructive px-1">{error}</p>}
+
+      {drafts.map((draft) => (
+        <DraftReviewCard key={draft.id} draft={draft} />
+      ))}
+
+      {/* Duplicate decision for the whole upload */}
+      <Dialog open={!!duplicateError} onOpenChange={(open) => !open && setDuplicateError(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+              Possible Duplicates
+            </DialogTitle>
+            <DialogDescription>
+              Some drafts look like records you already have. What should happen to them?
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-1 text-sm">
+            {duplicateError?.duplicates.map(({ draftId, duplicateOf }) => (
+              <li key={draftId}>
+                <span className="font-medium capitalize">{draftTitle(draftId)}</span>
+                <span className="text-muted-foreground">
+                  {' '}
+                  → {duplicateOf.title || duplicateOf.category.replace(/_/g, ' ')} (
+                  {new Date(duplicateOf.date).toLocaleDateString()})
+                </span>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter className="gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => handleApproveAll('skip')}
+              disabled={approveMutation.isPending}
+            >
+              Keep existing
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleApproveAll('merge')}
+              disabled={approveMutation.isPending}
+            >
+              Merge into existing
+            </Button>
+            <Button onClick={() => handleApproveAll('force')} disabled={approveMutation.isPending}>
+              Save as new
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
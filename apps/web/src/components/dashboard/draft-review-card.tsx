@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { Check, X, Loader2, AlertTriangle } from 'lucide-react';
+import { isLowConfidence, type RecordData } from '@ai-chart/shared';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  useUpdateDraft,
+  useApproveDraft,
+  useRejectDraft,
+  DuplicateDraftError,
+  type Draft,
+  type DuplicateAction,
+  type DuplicateMatch,
+} from '@/hooks/use-drafts';
+import { AttachmentPreview } from './attachment-preview';
+import { DomainBadge, StatusBadge } from './domain-badge';
+
+interface DraftReviewCardProps {
+  draft: Draft;
+}
+
+/**
+ * One extracted record awaiting review: original document next to the editable extraction
+ */
+export function DraftReviewCard({ draft }: DraftReviewCardProps) {
+  const updateMutation = useUpdateDraft();
+  const approveMutation = useApproveDraft();
+  const rejectMutation = useRejectDraft();
+
+  const [data, setData] = useState<RecordData>(draft.data);
+  const [isDirty, setIsDirty] = useState(false);
+  const [duplicateOf, setDuplicateOf] = useState<DuplicateMatch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isBusy = updateMutation.isPending || approveMutation.isPending || rejectMutation.isPending;
+
+  const edit = (changes: Partial<RecordData>) => {
+    setData((prev) => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const editItem = (index: number, changes: Partial<RecordData['items'][number]>) => {
+    edit({ items: data.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const handleApprove = async (onDuplicate: DuplicateAction = 'report') => {
+    setError(null);
+    try {
+      // Persist review edits first so the approved record reflects them
+      if (isDirty) {
+        await updateMutation.mutateAsync({ id: draft.id, data });
+        setIsDirty(false);
+      }
+      await approveMutation.mutateAsync({ id: draft.id, onDuplicate });
+      setDuplicateOf(null);
+    } catch (err) {
+      if (err instanceof DuplicateDraftError) {
+        setDuplicateOf(err.duplicateOf);
+      } else {
+        setError((err as { message?: string }).message || 'Failed to approve draft');
+      }
+    }
+  };
+
+  const handleReject = async () => {
+    setError(null);
+    try {
+      await rejectMutation.mutateAsync(draft.id);
+    } catch (err) {
+      setError((err as { message?: string }).message || 'Failed to reject draft');
+    }
+  };
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <CardTitle className="text-base">
+            {data.title || data.category.replace(/_/g, ' ')}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <DomainBadge type={draft.type} />
+            {draft.fileName && (
+              <Badge variant="outline" className="text-[10px] max-w-[200px] truncate">
+                {draft.fileName}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className={cn('flex flex-col gap-4', draft.hasFile && 'md:grid md:grid-cols-2')}>
+          {draft.hasFile && (
+            <AttachmentPreview
+              attachments={[
+                {
+                  id: draft.id,
+                  fileName: draft.fileName,
+                  mimeType: draft.mimeType || 'application/octet-stream',
+                },
+              ]}
+              getFilePath={(id) => `/api/drafts/${id}/file`}
+              className="max-h-[60vh]"
+            />
+          )}
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="col-span-2 space-y-1">
+                <Label>Title</Label>
+                <Input
+                  value={data.title ?? ''}
+                  onChange={(e) => edit({ title: e.target.value || undefined })}
+                  placeholder={data.category.replace(/_/g, ' ')}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Input value={data.category} onChange={(e) => edit({ category: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Date</Label>
+                <Input
+                  type="date"
+                  value={data.date}
+                  onChange={(e) => edit({ date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2 px-1">
+                Metrics ({data.items.length})
+              </p>
+              <div className="space-y-0.5 max-h-[45vh] overflow-auto">
+                {data.items.map((item, index) => (
+                  <div
+                    key={`${item.key}-${index}`}
+                    className={cn(
+                      'flex items-center justify-between gap-2 py-1.5 px-1 rounded-md hover:bg-muted/50',
+                      isLowConfidence(item.confidence) &&
+                        'bg-amber-50 ring-1 ring-amber-300 dark:bg-amber-950/20',
+                    )}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">{item.name}</p>
+                      {item.reference && (
+                        <p className="text-[10px] text-muted-foreground">Ref: {item.reference}</p>
+                      )}
+                      {isLowConfidence(item.confidence) && (
+                        <p className="text-[10px] text-amber-700 dark:text-amber-400">
+                          Low confidence ({Math.round((item.confidence ?? 0) * 100)}%) — please
+                          verify
+                        </p>
+                      )}
+                      {item.sourceText && (
+                        <p
+                          className="text-[10px] text-muted-foreground font-mono truncate"
+                          title={item.sourceText}
+                        >
+                          Read from: {item.sourceText}
+                        </p>
+                      )}
+                    </div>
+                    <Input
+                      type="number"
+                      value={item.value}
+                      // A value corrected by hand is verified; drop the extraction confidence
+                      onChange={(e) =>
+                        editItem(index, {
+                          value: parseFloat(e.target.value) || 0,
+                          confidence: undefined,
+                        })
+                      }
+                      className="w-24 h-7 text-sm text-right"
+                    />
+                    <Input
+                      value={item.unit ?? ''}
+                      onChange={(e) => editItem(index, { unit: e.target.value || undefined })}
+                      className="w-20 h-7 text-xs"
+                      placeholder="unit"
+                    />
+                    <StatusBadge type={draft.type} status={item.status} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => handleApprove()} disabled={isBusy} className="gap-1">
+            {approveMutation.isPending || updateMutation.isPending ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <Check className="h-3 w-3" />
+            )}
+            Approve
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleReject}
+            disabled={isBusy}
+            className="gap-1"
+          >
+            {rejectMutation.isPending ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <X className="h-3 w-3" />
+            )}
+            Reject
+          </Button>
+          {isDirty && <span className="text-xs text-muted-foreground">Unsaved edits</span>}
+        </div>
+      </CardContent>
+
+      {/* Duplicate decision */}
+      <Dialog open={!!duplicateOf} onOpenChange={(open) => !open && setDuplicateOf(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+              Possible Duplicate
+            </DialogTitle>
+            <DialogDescription>
+              {duplicateOf &&
+                `This looks like "${duplicateOf.title || duplicateOf.category.replace(/_/g, ' ')}" from ${new Date(duplicateOf.date).toLocaleDateString()} (${duplicateOf.reason === 'identical_file' ? 'same file' : `${Math.round(duplicateOf.similarity * 100)}% matching metrics`}). What should happen to this draft?`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="ghost" onClick={() => handleApprove('skip')} disabled={isBusy}>
+              Keep existing
+            </Button>
+            <Button variant="outline" onClick={() => handleApprove('merge')} disabled={isBusy}>
+              Merge into existing
+            </Button>
+            <Button onClick={() => handleApprove('force')} disabled={isBusy}>
+              Save as new
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import type { RecordFilters } from '@/hooks/use-dashboard';
+import { useDomains } from '@/hooks/use-domains';
 
 interface FiltersBarProps {
   filters: RecordFilters;
@@ -17,6 +18,7 @@ interface FiltersBarProps {
 }
 
 export function FiltersBar({ filters, onFiltersChange, categories }: FiltersBarProps) {
+  const { data: domains = [] } = useDomains();
   const hasFilters = !!(filters.type || filters.category || filters.startDate || filters.endDate);
 
   return (
@@ -27,7 +29,7 @@ export function FiltersBar({ filters, onFiltersChange, categories }: FiltersBarP
         onValueChange={(val) =>
           onFiltersChange({
             ...filters,
-            type: val === 'all' ? undefined : (val as 'health' | 'finance'),
+            type: val === 'all' ? undefined : val,
             offset: 0,
           })
         }
@@ -37,8 +39,11 @@ export function FiltersBar({ filters, onFiltersChange, categories }: FiltersBarP
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All types</SelectItem>
-          <SelectItem value="health">Health</SelectItem>
-          <SelectItem value="finance">Finance</SelectItem>
+          {domains.map((domain) => (
+            <SelectItem key={domain.id} value={domain.id}>
+              {domain.label}
+            </SelectItem>
+          ))}
         </SelectContent>
       </Select>
 
@@ -1,5 +1,7 @@
 import { useState } from 'react';
-import { Pencil, Trash2, Save, Loader2 } from 'lucide-react';
+import { Pencil, Trash2, Save, Loader2, AlertTriangle } from 'lucide-react';
+import { isLowConfidence } from '@ai-chart/shared';
+import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -22,6 +24,8 @@ import {
   type RecordMetric,
 } from '@/hooks/use-dashboard';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { AttachmentPreview } from './attachment-preview';
+import { DomainBadge, StatusBadge } from './domain-badge';
 
 // ========================================
 // Detail Content (shared between dialog/sheet)
@@ -42,21 +46,49 @@ function formatDate(dateStr: string) {
 }
 
 function MetricRow({
+  type,
   metric,
   isEditing,
   onChange,
 }: {
+  type: string;
   metric: RecordMetric;
   isEditing: boolean;
   onChange?: (value: number) => void;
 }) {
+  // Values the extraction was unsure about are highlighted for manual verification
+  const needsReview = isLowConfidence(metric.confidence);
+
   return (
-    <div className="flex items-center justify-between py-2 px-3 rounded-md hover:bg-muted/50">
+    <div
+      className={cn(
+        'flex items-center justify-between py-2 px-3 rounded-md hover:bg-muted/50',
+        needsReview && 'bg-amber-50 ring-1 ring-amber-300 dark:bg-amber-950/20',
+      )}
+    >
       <div className="min-w-0 flex-1">
         <p className="text-sm font-medium truncate">{metric.name}</p>
+        {needsReview && (
+          <p className="text-[10px] text-amber-700 dark:text-amber-400">
+            Low confidence ({Math.round((metric.confidence ?? 0) * 100)}%) — please verify
+          </p>
+        )}
+        {metric.sourceText && (
+          <p
+            className="text-[10px] text-muted-foreground font-mono truncate"
+            title={metric.sourceText}
+          >
+            Read from: {metric.sourceText}
+          </p>
+        )}
         {metric.reference && (
           <p className="text-[10px] text-muted-foreground">Ref: {metric.reference}</p>
         )}
+        {metric.originalUnit && metric.originalUnit !== metric.unit && (
+          <p className="text-[10px] text-muted-foreground">
+            Reported: {metric.originalValue} {metric.originalUnit}
+          </p>
+        )}
       </div>
       <div className="flex items-center gap-2 shrink-0">
         {isEditing ? (
@@ -72,30 +104,19 @@ function MetricRow({
         {metric.unit && (
           <span className="text-xs text-muted-foreground w-12 text-left">{metric.unit}</span>
         )}
-        <StatusBadge status={metric.status} />
+        {metric.statusMismatch && (
+          <span
+            title={`Extraction said "${metric.modelStatus}"; corrected from the reference range`}
+          >
+            <AlertTriangle className="h-3 w-3 text-amber-500" />
+          </span>
+        )}
+        <StatusBadge type={type} status={metric.status} />
       </div>
     </div>
   );
 }
 
-function StatusBadge({ status }: { status: string }) {
-  const styles: Record<string, string> = {
-    normal: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
-    high: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
-    low: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
-    positive: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
-    negative: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
-  };
-
-  return (
-    <span
-      className={`inline-flex items-center rounded px-1.5 py-0.5 text-[10px] font-medium w-14 justify-center ${styles[status] || 'bg-muted text-muted-foreground'}`}
-    >
-      {status}
-    </span>
-  );
-}
-
 function RecordDetailContent({ recordId, onClose, onDeleted }: RecordDetailContentProps) {
   const { data: record, isLoading, error } = useRecord(recordId);
   const updateMutation = useUpdateRecord();
@@ -136,6 +157,8 @@ function RecordDetailContent({ recordId, onClose, onDeleted }: RecordDetailConte
         displayOrder: m.displayOrder || undefined,
         categoryTag: m.categoryTag || undefined,
         parentKey: m.parentKey || undefined,
+        confidence: m.confidence ?? undefined,
+        sourceText: m.sourceText || undefined,
       })),
     });
     setIsEditing(false);
@@ -151,7 +174,8 @@ function RecordDetailContent({ recordId, onClose, onDeleted }: RecordDetailConte
   const handleMetricChange = (index: number, value: number) => {
     setEditMetrics((prev) => {
       const next = [...prev];
-      next[index] = { ...next[index], value };
+      // A value corrected by hand is verified; clear the extraction confidence
+      next[index] = { ...next[index], value, confidence: null };
       return next;
     });
   };
@@ -176,6 +200,7 @@ function RecordDetailContent({ recordId, onClose, onDeleted }: RecordDetailConte
   }
 
   const displayMetrics = isEditing ? editMetrics : record.metrics;
+  const hasAttachments = record.attachments.length > 0;
 
   return (
     <div className="flex flex-col h-full">
@@ -191,12 +216,7 @@ function RecordDetailContent({ recordId, onClose, onDeleted }: RecordDetailConte
         ) : (
           <>
             <div className="flex items-center gap-2 flex-wrap">
-              <Badge
-                variant={record.type === 'health' ? 'default' : 'secondary'}
-                className="capitalize"
-              >
-                {record.type}
-              </Badge>
+              <DomainBadge type={record.type} />
               <Badge variant="outline" className="capitalize">
                 {record.category.replace(/_/g, ' ')}
               </Badge>
@@ -213,25 +233,43 @@ function RecordDetailContent({ recordId, onClose, onDeleted }: RecordDetailConte
 
       <Separator className="my-4" />
 
-      {/* Metrics */}
-      <div className="px-1 mb-2">
-        <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-          Metrics ({displayMetrics.length})
-        </p>
-      </div>
+      <div
+        className={cn(
+          'flex-1 min-h-0 flex flex-col gap-4',
+          hasAttachments && 'md:grid md:grid-cols-2',
+        )}
+      >
+        {/* Original document, side by side with the extracted metrics for verification */}
+        {hasAttachments && (
+          <AttachmentPreview
+            attachments={record.attachments}
+            className="max-h-[40vh] md:max-h-none"
+          />
+        )}
+
+        {/* Metrics */}
+        <div className="flex flex-col flex-1 min-h-0">
+          <div className="px-1 mb-2">
+            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+              Metrics ({displayMetrics.length})
+            </p>
+          </div>
 
-      <ScrollArea className="flex-1 -mx-1">
-        <div className="space-y-0.5 px-1">
-          {displayMetrics.map((metric, index) => (
-            <MetricRow
-              key={metric.id || index}
-              metric={metric}
-              isEditing={isEditing}
-              onChange={(val) => handleMetricChange(index, val)}
-            />
-          ))}
+          <ScrollArea className="flex-1 -mx-1">
+            <div className="space-y-0.5 px-1">
+              {displayMetrics.map((metric, index) => (
+                <MetricRow
+                  key={metric.id || index}
+                  type={record.type}
+                  metric={metric}
+                  isEditing={isEditing}
+                  onChange={(val) => handleMetricChange(index, val)}
+                />
+              ))}
+            </div>
+          </ScrollArea>
         </div>
-      </ScrollArea>
+      </div>
 
       <Separator className="my-4" />
 
@@ -315,6 +353,9 @@ interface RecordDetailProps {
 
 export function RecordDetail({ recordId, onClose, onDeleted }: RecordDetailProps) {
   const isMobile = useIsMobile();
+  // Shares the cached query with RecordDetailContent; widens the panel for the original document
+  const { data: record } = useRecord(recordId);
+  const hasAttachments = !!record && record.attachments.length > 0;
 
   if (!recordId) {
     return null;
@@ -325,7 +366,13 @@ export function RecordDetail({ recordId, onClose, onDeleted }: RecordDetailProps
     <Sheet open={!!recordId} onOpenChange={(open) => !open && onClose()}>
       <SheetContent
         side={isMobile ? 'bottom' : 'right'}
-        className={isMobile ? 'h-[85vh] rounded-t-xl' : 'w-[440px] sm:w-[480px]'}
+        className={
+          isMobile
+            ? 'h-[85vh] rounded-t-xl'
+            : hasAttachments
+              ? 'w-[90vw] sm:max-w-[960px]'
+              : 'w-[440px] sm:w-[480px]'
+        }
       >
         <SheetHeader>
           <SheetTitle className="text-left">Record Details</SheetTitle>
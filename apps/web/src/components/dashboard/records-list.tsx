@@ -1,5 +1,4 @@
 import { MoreVertical, Pencil, Trash2, Eye, ChevronRight } from 'lucide-react';
-import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import {
@@ -9,6 +8,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import type { RecordListItem } from '@/hooks/use-dashboard';
+import { DomainBadge, DomainIndicator } from './domain-badge';
 
 interface RecordsListProps {
   records: RecordListItem[];
@@ -42,11 +42,7 @@ export function RecordsList({ records, onView, onEdit, onDelete }: RecordsListPr
         >
           <CardContent className="flex items-center gap-3">
             {/* Color indicator */}
-            <div
-              className={`w-1 h-10 rounded-full shrink-0 ${
-                record.type === 'health' ? 'bg-primary' : 'bg-secondary'
-              }`}
-            />
+            <DomainIndicator type={record.type} />
 
             {/* Content */}
             <div className="flex-1 min-w-0">
@@ -54,12 +50,7 @@ export function RecordsList({ records, onView, onEdit, onDelete }: RecordsListPr
                 <p className="font-medium text-sm truncate">
                   {record.title || record.category.replace(/_/g, ' ')}
                 </p>
-                <Badge
-                  variant={record.type === 'health' ? 'default' : 'secondary'}
-                  className="text-[10px] shrink-0"
-                >
-                  {record.type}
-                </Badge>
+                <DomainBadge type={record.type} className="text-[10px] shrink-0" />
               </div>
               <div className="flex items-center gap-2 mt-0.5">
                 <span className="text-xs text-muted-foreground">{formatDate(record.date)}</span>
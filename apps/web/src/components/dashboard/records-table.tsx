@@ -1,5 +1,4 @@
 import { MoreHorizontal, Pencil, Trash2, Eye } from 'lucide-react';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
   Table,
@@ -16,6 +15,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import type { RecordListItem } from '@/hooks/use-dashboard';
+import { DomainBadge } from './domain-badge';
 
 interface RecordsTableProps {
   records: RecordListItem[];
@@ -29,14 +29,6 @@ function formatDate(dateStr: string) {
   return d.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
 }
 
-function TypeBadge({ type }: { type: string }) {
-  return (
-    <Badge variant={type === 'health' ? 'default' : 'secondary'} className="capitalize text-[10px]">
-      {type}
-    </Badge>
-  );
-}
-
 function SourceBadge({ source }: { source: string | null }) {
   if (!source) {
     return null;
@@ -97,7 +89,7 @@ export function RecordsTable({ records, onView, onEdit, onDelete }: RecordsTable
               </div>
             </TableCell>
             <TableCell>
-              <TypeBadge type={record.type} />
+              <DomainBadge className="text-[10px]" type={record.type} />
             </TableCell>
             <TableCell className="text-sm whitespace-nowrap">{formatDate(record.date)}</TableCell>
             <TableCell className="text-center text-sm tabular-nums">
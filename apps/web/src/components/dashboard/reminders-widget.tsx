@@ -0,0 +1,80 @@
+import { Link } from '@tanstack/react-router';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useReminders, type ReminderItem, type ReminderStatus } from '@/hooks/use-reminders';
+
+const STATUS_STYLES: Record<ReminderStatus, string> = {
+  ok: 'text-muted-foreground',
+  upcoming: 'text-muted-foreground',
+  due: 'text-amber-600 dark:text-amber-500',
+  overdue: 'text-destructive',
+};
+
+/**
+ * How a due date compares to today (e.g., "in 5 days", "12 days overdue")
+ */
+export function describeDue(item: Pick<ReminderItem, 'daysUntilDue'>) {
+  const days = item.daysUntilDue;
+  if (days === 0) {
+    return 'due today';
+  }
+  if (days > 0) {
+    return days === 1 ? 'due tomorrow' : `due in ${days} days`;
+  }
+  return days === -1 ? '1 day overdue' : `${-days} days overdue`;
+}
+
+/**
+ * Name of a reminder's cadence (e.g., "quarterly" or "every 45 days")
+ */
+export function describeCadence(item: Pick<ReminderItem, 'cadence' | 'intervalDays'>) {
+  return item.cadence ?? `every ${item.intervalDays} days`;
+}
+
+/**
+ * One reminder: category, cadence and due date
+ */
+export function ReminderRow({ item }: { item: ReminderItem }) {
+  return (
+    <div className="flex items-baseline justify-between gap-2 text-sm">
+      <div className="min-w-0">
+        <span className="font-medium">{item.category}</span>
+        <span className="text-xs text-muted-foreground">
+          {' '}
+          · {item.recordType} · {describeCadence(item)}
+        </span>
+      </div>
+      <span className={cn('shrink-0 text-xs', STATUS_STYLES[item.status])}>
+        {describeDue(item)}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Periodic records that are upcoming, due or overdue (hidden when nothing is)
+ */
+export function RemindersWidget() {
+  const { data } = useReminders();
+  const pending = data?.items.filter((item) => item.status !== 'ok') ?? [];
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-sm font-medium">Reminders</CardTitle>
+        <Link to="/settings/reminders" className="text-xs text-muted-foreground hover:text-primary">
+          Manage reminders
+        </Link>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {pending.map((item) => (
+          <ReminderRow key={`${item.recordType}:${item.categoryKey}`} item={item} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { SpendingBreakdown } from '@/hooks/use-analytics';
+
+/** Categories charted individually; the rest are summed as "Other" */
+const MAX_CATEGORIES = 6;
+
+const CATEGORY_COLORS = ['#2563eb', '#ea580c', '#9333ea', '#0891b2', '#db2777', '#ca8a04'];
+const OTHER_COLOR = '#94a3b8';
+const INCOME_COLOR = '#16a34a';
+
+const TOOLTIP_STYLE = {
+  borderRadius: '8px',
+  border: 'none',
+  boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+};
+
+/**
+ * "food_drink" → "Food drink"
+ */
+export function formatCategory(categoryTag: string) {
+  const label = categoryTag.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Amount in the currency (ISO codes get their symbol; other units are appended)
+ */
+export function formatMoney(value: number, currency: string | null) {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: currency ? 'currency' : 'decimal',
+      currency: currency ?? undefined,
+      maximumFractionDigits: 2,
+    }).format(value);
+  } catch {
+    return `${value.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * The largest categories, with their colors
+ */
+function topCategories(data: SpendingBreakdown) {
+  return data.categories.slice(0, MAX_CATEGORIES).map((c, i) => ({
+    categoryTag: c.categoryTag,
+    color: CATEGORY_COLORS[i % CATEGORY_COLORS.length],
+  }));
+}
+
+/**
+ * Income next to expense per period, expense stacked by category
+ */
+export function SpendingBarChart({ data }: { data: SpendingBreakdown }) {
+  const shown = topCategories(data);
+  const hasOther = data.categories.length > MAX_CATEGORIES;
+  const rows = data.periods.map((period) => {
+    const row: Record<string, string | number> = { name: period.period, income: period.income };
+    let other = period.expense;
+    for (const { categoryTag } of shown) {
+      row[categoryTag] = period.categories[categoryTag] ?? 0;
+      other -= period.categories[categoryTag] ?? 0;
+    }
+    if (hasOther) {
+      row.other = Math.max(0, Math.round(other * 100) / 100);
+    }
+    return row;
+  });
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base">Income vs expense</CardTitle>
+      </CardHeader>
+      <CardContent className="h-[320px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="name" fontSize={12} tickLine={false} axisLine={false} />
+            <YAxis fontSize={12} tickLine={false} axisLine={false} />
+            <Tooltip
+              formatter={(value, name) => [
+                formatMoney(Number(value), data.currency),
+                name === 'income' ? 'Income' : formatCategory(String(name)),
+              ]}
+              contentStyle={TOOLTIP_STYLE}
+            />
+            <Legend
+              formatter={(value: string) => (value === 'income' ? 'Income' : formatCategory(value))}
+              wrapperStyle={{ fontSize: 12 }}
+            />
+            <Bar dataKey="income" fill={INCOME_COLOR} radius={[4, 4, 0, 0]} />
+            {shown.map(({ categoryTag, color }) => (
+              <Bar key={categoryTag} dataKey={categoryTag} stackId="expense" fill={color} />
+            ))}
+            {hasOther && <Bar dataKey="other" stackId="expense" fill={OTHER_COLOR} />}
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Share of each category in the expense of the range
+ */
+export function CategoryDonut({ data }: { data: SpendingBreakdown }) {
+  const shown = topCategories(data);
+  const slices = shown.map(({ categoryTag, color }) => ({
+    name: categoryTag,
+    value: data.categories.find((c) => c.categoryTag === categoryTag)?.amount ?? 0,
+    color,
+  }));
+  const rest = data.categories.slice(MAX_CATEGORIES);
+  if (rest.length > 0) {
+    slices.push({
+      name: 'other',
+      value: Math.round(rest.reduce((sum, c) => sum + c.amount, 0) * 100) / 100,
+      color: OTHER_COLOR,
+    });
+  }
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base">By category</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="h-[200px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={slices}
+                dataKey="value"
+                nameKey="name"
+                innerRadius="60%"
+                outerRadius="90%"
+                paddingAngle={2}
+              >
+                {slices.map((slice) => (
+                  <Cell key={slice.name} fill={slice.color} />
+                ))}
+              </Pie>
+              <Tooltip
+                formatter={(value, name) => [
+                  formatMoney(Number(value), data.currency),
+                  formatCategory(String(name)),
+                ]}
+                contentStyle={TOOLTIP_STYLE}
+              />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+        <ul className="space-y-1 text-sm">
+          {slices.map((slice) => (
+            <li key={slice.name} className="flex items-center gap-2">
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: slice.color }} />
+              <span className="flex-1 truncate">{formatCategory(slice.name)}</span>
+              <span className="text-muted-foreground">
+                {data.totals.expense > 0
+                  ? `${((slice.value * 100) / data.totals.expense).toFixed(0)}%`
+                  : '—'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
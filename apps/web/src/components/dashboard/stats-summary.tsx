@@ -1,10 +1,10 @@
 import { Activity, Calendar, FolderOpen, Hash } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
-import type { RecordListItem } from '@/hooks/use-dashboard';
+import { useRecordsSummary } from '@/hooks/use-analytics';
 
 interface StatsSummaryProps {
-  records: RecordListItem[];
-  total: number;
+  /** Only count records of this type */
+  type?: string;
 }
 
 interface StatCardProps {
@@ -29,20 +29,25 @@ function StatCard({ label, value, icon, sub }: StatCardProps) {
   );
 }
 
-export function StatsSummary({ records, total }: StatsSummaryProps) {
-  const categories = new Set(records.map((r) => r.category));
+/**
+ * Totals over the whole history (not just the loaded page); hidden until there are records
+ */
+export function StatsSummary({ type }: StatsSummaryProps) {
+  const { data } = useRecordsSummary(type);
 
-  const latestDate =
-    records.length > 0
-      ? new Date(Math.max(...records.map((r) => new Date(r.date).getTime())))
-      : null;
+  if (!data || data.totalRecords === 0) {
+    return null;
+  }
 
-  const healthCount = records.filter((r) => r.type === 'health').length;
-  const financeCount = records.filter((r) => r.type === 'finance').length;
+  const latestDate = data.latestDate ? new Date(data.latestDate) : null;
 
   return (
     <div className="flex gap-3 overflow-x-auto pb-1 snap-x snap-mandatory md:grid md:grid-cols-4 md:overflow-visible md:pb-0">
-      <StatCard label="Total Records" value={total} icon={<Hash className="h-4 w-4" />} />
+      <StatCard
+        label="Total Records"
+        value={data.totalRecords}
+        icon={<Hash className="h-4 w-4" />}
+      />
       <StatCard
         label="Latest Record"
         value={latestDate ? latestDate.toLocaleDateString() : '—'}
@@ -50,15 +55,18 @@ export function StatsSummary({ records, total }: StatsSummaryProps) {
       />
       <StatCard
         label="Categories"
-        value={categories.size}
+        value={data.categories.length}
         icon={<FolderOpen className="h-4 w-4" />}
-        sub={[...categories].slice(0, 3).join(', ')}
+        sub={data.categories
+          .slice(0, 3)
+          .map((c) => c.category)
+          .join(', ')}
       />
       <StatCard
-        label="By Type"
-        value={`${healthCount}H / ${financeCount}F`}
+        label="Types"
+        value={data.types.length}
         icon={<Activity className="h-4 w-4" />}
-        sub={`of ${total} total`}
+        sub={data.types.map((t) => `${t.count} ${t.type}`).join(', ')}
       />
     </div>
   );
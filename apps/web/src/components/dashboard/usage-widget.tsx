@@ -0,0 +1,100 @@
+import { Link } from '@tanstack/react-router';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { useUsage } from '@/hooks/use-usage';
+
+function formatUsd(value: number) {
+  return `$${value < 1 ? value.toFixed(3) : value.toFixed(2)}`;
+}
+
+function formatTokens(value: number) {
+  return value >= 1_000_000
+    ? `${(value / 1_000_000).toFixed(1)}M`
+    : value >= 1000
+      ? `${(value / 1000).toFixed(1)}k`
+      : String(value);
+}
+
+function formatDate(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * AI spending of the month against the budget, with the daily cost of the last 30 days
+ * Hidden until the user has made an AI call.
+ */
+export function UsageWidget() {
+  const { data } = useUsage(30);
+
+  if (!data || (data.totals.calls === 0 && data.budget.spentUsd === 0)) {
+    return null;
+  }
+
+  const { budget, totals } = data;
+  const percent =
+    budget.monthlyLimitUsd !== null
+      ? Math.min(100, (budget.spentUsd / budget.monthlyLimitUsd) * 100)
+      : null;
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-sm font-medium">AI usage</CardTitle>
+        <Link to="/settings" className="text-xs text-muted-foreground hover:text-primary">
+          {budget.monthlyLimitUsd === null ? 'Set a budget' : 'Budget settings'}
+        </Link>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-[240px_1fr]">
+        <div className="space-y-2">
+          <div>
+            <p className="text-2xl font-bold leading-none">{formatUsd(budget.spentUsd)}</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              this month
+              {budget.monthlyLimitUsd !== null && ` of ${formatUsd(budget.monthlyLimitUsd)}`}
+            </p>
+          </div>
+          {percent !== null && (
+            <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+              <div
+                className={cn(
+                  'h-full rounded-full',
+                  budget.exceeded ? 'bg-destructive' : 'bg-primary',
+                )}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          )}
+          {budget.exceeded && (
+            <p className="text-xs text-destructive">Budget reached — AI calls are paused</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Last 30 days: {totals.calls} calls · {formatTokens(totals.inputTokens)} in ·{' '}
+            {formatTokens(totals.outputTokens)} out
+          </p>
+        </div>
+
+        <div className="h-[120px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data.daily.map((day) => ({ ...day, name: formatDate(day.date) }))}>
+              <XAxis dataKey="name" fontSize={10} tickLine={false} axisLine={false} />
+              <Tooltip
+                formatter={(value) => [formatUsd(Number(value)), 'Cost']}
+                contentStyle={{
+                  borderRadius: '8px',
+                  border: 'none',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                }}
+              />
+              <Bar dataKey="costUsd" fill="#2563eb" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
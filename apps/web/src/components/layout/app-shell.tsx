@@ -1,18 +1,30 @@
 import * as React from 'react';
 import { Link, Outlet, useLocation } from '@tanstack/react-router';
-import { LayoutDashboard, MessageSquare, Settings, Menu, Plus, X } from 'lucide-react';
+import {
+  LayoutDashboard,
+  Wallet,
+  ClipboardCheck,
+  MessageSquare,
+  Settings,
+  Menu,
+  Plus,
+  X,
+  LogOut,
+} from 'lucide-react';
 
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useCanvas } from '@/context/canvas-context';
+import { useCurrentUser, useLogout } from '@/hooks/use-auth';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 
 import { CanvasRenderer } from '@/components/canvas/canvas-renderer';
+import { ChatHistory } from '@/components/layout/chat-history';
+import { NotificationBell } from '@/components/layout/notification-bell';
 
 interface NavItemProps {
   to: string;
@@ -23,7 +35,8 @@ interface NavItemProps {
 
 function NavItem({ to, icon: Icon, label, collapsed }: NavItemProps) {
   const location = useLocation();
-  const isActive = location.pathname === to;
+  const isActive =
+    location.pathname === to || (to !== '/' && location.pathname.startsWith(`${to}/`));
 
   return (
     <Link
@@ -40,7 +53,19 @@ function NavItem({ to, icon: Icon, label, collapsed }: NavItemProps) {
   );
 }
 
+function getInitials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join('');
+}
+
 function SidebarContent({ collapsed }: { collapsed?: boolean }) {
+  const { data: user } = useCurrentUser();
+  const logoutMutation = useLogout();
+
   return (
     <div className="flex h-full flex-col gap-4 py-4">
       <div className={cn('px-4 py-2', collapsed && 'px-2 text-center')}>
@@ -52,6 +77,8 @@ function SidebarContent({ collapsed }: { collapsed?: boolean }) {
       <div className="px-2">
         <div className="space-y-1">
           <NavItem to="/" icon={LayoutDashboard} label="Dashboard" collapsed={collapsed} />
+          <NavItem to="/spending" icon={Wallet} label="Spending" collapsed={collapsed} />
+          <NavItem to="/review" icon={ClipboardCheck} label="Review" collapsed={collapsed} />
           <NavItem to="/chat/new" icon={MessageSquare} label="New Chat" collapsed={collapsed} />
         </div>
       </div>
@@ -66,23 +93,7 @@ function SidebarContent({ collapsed }: { collapsed?: boolean }) {
           >
             History
           </p>
-          {/* Mock history items */}
-          <ScrollArea className="h-[300px]">
-            {!collapsed && (
-              <div className="space-y-1">
-                {[1, 2, 3].map((i) => (
-                  <Link
-                    key={i}
-                    to="/chat/$chatId"
-                    params={{ chatId: `session-${i}` }}
-                    className="block rounded-md px-3 py-2 text-sm text-muted-foreground hover:bg-secondary hover:text-primary truncate"
-                  >
-                    Health Record Analysis {i}
-                  </Link>
-                ))}
-              </div>
-            )}
-          </ScrollArea>
+          {!collapsed && <ChatHistory />}
         </div>
       </div>
       <Separator />
@@ -93,13 +104,25 @@ function SidebarContent({ collapsed }: { collapsed?: boolean }) {
         >
           <Avatar className="h-8 w-8">
             <AvatarImage src="" />
-            <AvatarFallback>JD</AvatarFallback>
+            <AvatarFallback>{user ? getInitials(user.name) : '?'}</AvatarFallback>
           </Avatar>
           {!collapsed && (
-            <div className="flex flex-col">
-              <span className="text-xs font-medium">John Doe</span>
-              <span className="text-[10px] text-muted-foreground">Pro Plan</span>
-            </div>
+            <>
+              <div className="flex min-w-0 flex-1 flex-col">
+                <span className="text-xs font-medium truncate">{user?.name}</span>
+                <span className="text-[10px] text-muted-foreground truncate">{user?.email}</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 text-muted-foreground"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title="Log out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </>
           )}
         </div>
       </div>
@@ -128,6 +151,7 @@ export function AppShell() {
             </SheetContent>
           </Sheet>
           <div className="flex-1 font-semibold truncate">AI-Chart</div>
+          <NotificationBell />
           <Button variant="ghost" size="icon">
             <Plus className="h-5 w-5" />
           </Button>
@@ -182,17 +206,20 @@ export function AppShell() {
           <main className="h-full overflow-hidden flex flex-col">
             <header className="h-14 border-b flex items-center px-6 shrink-0 justify-between">
               <span className="font-medium">Current Session</span>
-              {!isOpen && (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => {
-                    /* Action to open canvas */
-                  }}
-                >
-                  View Insights
-                </Button>
-              )}
+              <div className="flex items-center gap-2">
+                <NotificationBell />
+                {!isOpen && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      /* Action to open canvas */
+                    }}
+                  >
+                    View Insights
+                  </Button>
+                )}
+              </div>
             </header>
             <div className="flex-1 overflow-hidden relative">
               <Outlet />
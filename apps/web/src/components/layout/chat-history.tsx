@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { Link, useLocation, useNavigate } from '@tanstack/react-router';
+import { Loader2, MoreHorizontal, Pencil, Search, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useChats, useRenameChat, useDeleteChat, type ChatListItem } from '@/hooks/use-chats';
+
+export function ChatHistory() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [search, setSearch] = useState('');
+  const { data: chats, isLoading } = useChats(search.trim() || undefined);
+  const renameMutation = useRenameChat();
+  const deleteMutation = useDeleteChat();
+
+  const [renaming, setRenaming] = useState<ChatListItem | null>(null);
+  const [renameTitle, setRenameTitle] = useState('');
+  const [deleting, setDeleting] = useState<ChatListItem | null>(null);
+
+  const startRename = (chat: ChatListItem) => {
+    setRenaming(chat);
+    setRenameTitle(chat.title);
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !renameTitle.trim()) {
+      return;
+    }
+    await renameMutation.mutateAsync({ id: renaming.id, title: renameTitle.trim() });
+    setRenaming(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) {
+      return;
+    }
+    await deleteMutation.mutateAsync(deleting.id);
+    if (location.pathname === `/chat/${deleting.id}`) {
+      navigate({ to: '/chat/$chatId', params: { chatId: 'new' } });
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative px-1">
+        <Search className="absolute left-3 top-2.5 h-3.5 w-3.5 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search chats..."
+          className="h-8 pl-8 text-xs"
+        />
+      </div>
+
+      <ScrollArea className="h-[300px]">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : !chats || chats.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-muted-foreground">
+            {search ? 'No matching chats' : 'No conversations yet'}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {chats.map((chat) => {
+              const isActive = location.pathname === `/chat/${chat.id}`;
+              return (
+                <div
+                  key={chat.id}
+                  className={cn(
+                    'group flex items-center rounded-md hover:bg-secondary',
+                    isActive && 'bg-secondary',
+                  )}
+                >
+                  <Link
+                    to="/chat/$chatId"
+                    params={{ chatId: chat.id }}
+                    className={cn(
+                      'flex-1 min-w-0 px-3 py-2 text-sm truncate hover:text-primary',
+                      isActive ? 'text-primary' : 'text-muted-foreground',
+                    )}
+                  >
+                    {chat.title}
+                  </Link>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                      >
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => startRename(chat)}>
+                        <Pencil className="h-3.5 w-3.5 mr-2" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => setDeleting(chat)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="h-3.5 w-3.5 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+
+      {/* Rename dialog */}
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Chat</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameTitle}
+            onChange={(e) => setRenameTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRename}
+              disabled={!renameTitle.trim() || renameMutation.isPending}
+            >
+              {renameMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Chat</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete "{deleting?.title}"? The conversation cannot be
+              restored. Records saved from it are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Link } from '@tanstack/react-router';
+import { Bell, CheckCheck, Settings } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  useMarkNotificationsRead,
+  useNotifications,
+  type NotificationSeverity,
+} from '@/hooks/use-notifications';
+
+const SEVERITY_DOT: Record<NotificationSeverity, string> = {
+  info: 'bg-sky-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-destructive',
+};
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Bell with the unread count; opens the latest notifications
+ */
+export function NotificationBell({ className }: { className?: string }) {
+  const { data } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+  const unread = data?.unreadCount ?? 0;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative shrink-0', className)}
+          aria-label={unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'}
+        >
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-white">
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={() => markRead.mutate(undefined)}
+              disabled={markRead.isPending}
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-96 overflow-y-auto">
+          {data?.notifications.length === 0 && (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+              No notifications yet
+            </p>
+          )}
+          {data?.notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              onSelect={(e) => {
+                e.preventDefault();
+                if (!notification.readAt) {
+                  markRead.mutate(notification.id);
+                }
+              }}
+              className="items-start gap-2"
+            >
+              <span
+                className={cn(
+                  'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                  notification.readAt ? 'bg-transparent' : SEVERITY_DOT[notification.severity],
+                )}
+              />
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className={cn('text-sm', !notification.readAt && 'font-medium')}>
+                  {notification.title}
+                </p>
+                <p className="text-xs text-muted-foreground">{notification.message}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {formatTime(notification.createdAt)}
+                </p>
+              </div>
+            </DropdownMenuItem>
+          ))}
+        </div>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/settings/alerts" className="gap-2">
+            <Settings className="h-3.5 w-3.5" />
+            Alert rules
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,378 @@
+import { useState } from 'react';
+import { Loader2, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDomains } from '@/hooks/use-domains';
+import {
+  useAlertRules,
+  useCreateAlertRule,
+  useDeleteAlertRule,
+  useUpdateAlertRule,
+  type AlertDirection,
+  type AlertRule,
+  type AlertRuleInput,
+  type AlertRuleKind,
+  type NotificationSeverity,
+} from '@/hooks/use-notifications';
+
+const KIND_LABELS: Record<AlertRuleKind, string> = {
+  status: 'Status abnormal',
+  threshold: 'Value crosses',
+  trend: 'Rising or falling in a row',
+  change: 'Changed versus previous',
+};
+
+/** Directions each kind accepts (the first one is the default) */
+const KIND_DIRECTIONS: Record<AlertRuleKind, AlertDirection[]> = {
+  status: [],
+  threshold: ['above', 'below'],
+  trend: ['rising', 'falling'],
+  change: ['any', 'rising', 'falling'],
+};
+
+const SEVERITIES: NotificationSeverity[] = ['info', 'warning', 'critical'];
+
+/** Select value for "no domain filter" (Select items can't have an empty value) */
+const ANY_TYPE = 'any';
+
+/**
+ * One-line summary of what a rule watches
+ */
+function describeRule(rule: AlertRuleInput) {
+  const target =
+    rule.metricKey ?? (rule.recordType ? `any ${rule.recordType} metric` : 'any metric');
+  switch (rule.kind) {
+    case 'status':
+      return `${target} has an abnormal status`;
+    case 'threshold':
+      return `${target} goes ${rule.direction} ${rule.threshold}${rule.unit ? ` ${rule.unit}` : ''}`;
+    case 'trend':
+      return `${target} is ${rule.direction} ${rule.count} times in a row`;
+    case 'change':
+      return `${target} ${rule.direction === 'any' ? 'changes' : rule.direction === 'rising' ? 'rises' : 'falls'} more than ${rule.threshold}% versus the previous reading`;
+  }
+}
+
+/**
+ * Form to add an alert rule or edit one
+ */
+function AlertRuleEditor({ rule, onDone }: { rule?: AlertRule; onDone: () => void }) {
+  const { data: domains = [] } = useDomains();
+  const createRule = useCreateAlertRule();
+  const updateRule = useUpdateAlertRule();
+  const mutation = rule ? updateRule : createRule;
+
+  const [name, setName] = useState(rule?.name ?? '');
+  const [kind, setKind] = useState<AlertRuleKind>(rule?.kind ?? 'threshold');
+  const [recordType, setRecordType] = useState(rule?.recordType ?? ANY_TYPE);
+  const [metricKey, setMetricKey] = useState(rule?.metricKey ?? '');
+  const [direction, setDirection] = useState<AlertDirection | null>(rule?.direction ?? 'above');
+  const [threshold, setThreshold] = useState(rule?.threshold?.toString() ?? '');
+  const [unit, setUnit] = useState(rule?.unit ?? '');
+  const [count, setCount] = useState(String(rule?.count ?? 3));
+  const [severity, setSeverity] = useState<NotificationSeverity>(rule?.severity ?? 'warning');
+
+  const directions = KIND_DIRECTIONS[kind];
+  const usesThreshold = kind === 'threshold' || kind === 'change';
+
+  const input: AlertRuleInput = {
+    name: name.trim(),
+    kind,
+    recordType: recordType === ANY_TYPE ? null : recordType,
+    metricKey: metricKey.trim() || null,
+    direction: directions.length > 0 ? direction : null,
+    threshold: usesThreshold ? Number(threshold) : null,
+    unit: kind === 'threshold' ? unit.trim() || null : null,
+    count: kind === 'trend' ? Number(count) : null,
+    severity,
+    enabled: rule?.enabled ?? true,
+  };
+  const isValid =
+    input.name !== '' &&
+    (!usesThreshold || (threshold.trim() !== '' && Number.isFinite(input.threshold))) &&
+    (kind !== 'change' || (input.threshold ?? 0) > 0) &&
+    (kind !== 'trend' || (Number.isInteger(input.count) && (input.count ?? 0) >= 2));
+
+  const handleKindChange = (value: string) => {
+    const next = value as AlertRuleKind;
+    setKind(next);
+    setDirection(KIND_DIRECTIONS[next][0] ?? null);
+  };
+
+  const handleSave = () => {
+    const options = { onSuccess: onDone };
+    if (rule) {
+      updateRule.mutate({ id: rule.id, ...input }, options);
+    } else {
+      createRule.mutate(input, options);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="rule-name">Name</Label>
+          <Input
+            id="rule-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="High glucose"
+          />
+        </div>
+        <div className="space-y-2 col-span-2">
+          <Label>Alert when</Label>
+          <Select value={kind} onValueChange={handleKindChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(KIND_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Domain</Label>
+          <Select value={recordType} onValueChange={setRecordType}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_TYPE}>Any</SelectItem>
+              {domains.map((domain) => (
+                <SelectItem key={domain.id} value={domain.id}>
+                  {domain.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rule-metric">Metric</Label>
+          <Input
+            id="rule-metric"
+            value={metricKey}
+            onChange={(e) => setMetricKey(e.target.value)}
+            placeholder="Any metric"
+          />
+        </div>
+        {directions.length > 0 && (
+          <div className="space-y-2">
+            <Label>Direction</Label>
+            <Select
+              value={direction ?? undefined}
+              onValueChange={(value) => setDirection(value as AlertDirection)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {directions.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {usesThreshold && (
+          <div className="space-y-2">
+            <Label htmlFor="rule-threshold">{kind === 'change' ? 'Change (%)' : 'Value'}</Label>
+            <Input
+              id="rule-threshold"
+              type="number"
+              step="any"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+            />
+          </div>
+        )}
+        {kind === 'threshold' && (
+          <div className="space-y-2">
+            <Label htmlFor="rule-unit">Unit</Label>
+            <Input
+              id="rule-unit"
+              value={unit}
+              onChange={(e) => setUnit(e.target.value)}
+              placeholder="Metric's unit"
+            />
+          </div>
+        )}
+        {kind === 'trend' && (
+          <div className="space-y-2">
+            <Label htmlFor="rule-count">Times in a row</Label>
+            <Input
+              id="rule-count"
+              type="number"
+              min="2"
+              max="20"
+              value={count}
+              onChange={(e) => setCount(e.target.value)}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label>Severity</Label>
+          <Select
+            value={severity}
+            onValueChange={(value) => setSeverity(value as NotificationSeverity)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEVERITIES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!isValid || mutation.isPending}
+          className="gap-1"
+        >
+          {mutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4" />
+          )}
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onDone} className="gap-1">
+          <X className="h-4 w-4" />
+          Cancel
+        </Button>
+        {mutation.error && <p className="text-xs text-destructive">{mutation.error.message}</p>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Alert rules checked on every saved record; add, edit, pause and delete them
+ */
+export function AlertRulesManager() {
+  const { data, isLoading, error } = useAlertRules();
+  const updateRule = useUpdateAlertRule();
+  const deleteRule = useDeleteAlertRule();
+  // Rule being edited ("new" while adding one)
+  const [editing, setEditing] = useState<string | null>(null);
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4 flex flex-row items-start justify-between gap-2">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Alert rules</CardTitle>
+          <CardDescription>
+            Checked on every saved record; matches appear under the bell.
+          </CardDescription>
+        </div>
+        {editing !== 'new' && (
+          <Button size="sm" variant="outline" onClick={() => setEditing('new')} className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add rule
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editing === 'new' && <AlertRuleEditor onDone={() => setEditing(null)} />}
+
+        {/* Loading state */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {/* Error state */}
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {/* Without rules of their own, the user gets the defaults */}
+        {data && data.rules.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              No rules yet. Until you add one, these apply:
+            </p>
+            {data.defaults.map((rule) => (
+              <div key={rule.id} className="flex items-center gap-2 text-sm">
+                <Badge variant="outline">{rule.severity}</Badge>
+                <span className="font-medium">{rule.name}</span>
+                <span className="text-muted-foreground truncate">{describeRule(rule)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data?.rules.map((rule) =>
+          editing === rule.id ? (
+            <AlertRuleEditor key={rule.id} rule={rule} onDone={() => setEditing(null)} />
+          ) : (
+            <div key={rule.id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{rule.name}</span>
+                  <Badge variant={rule.severity === 'critical' ? 'destructive' : 'outline'}>
+                    {rule.severity}
+                  </Badge>
+                  {!rule.enabled && <Badge variant="secondary">paused</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateRule.mutate({ id: rule.id, enabled: !rule.enabled })}
+                disabled={updateRule.isPending}
+              >
+                {rule.enabled ? 'Pause' : 'Resume'}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => setEditing(rule.id)}
+                aria-label="Edit rule"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => deleteRule.mutate(rule.id)}
+                disabled={deleteRule.isPending}
+                aria-label="Delete rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ),
+        )}
+        {(updateRule.error ?? deleteRule.error) && (
+          <p className="text-xs text-destructive">
+            {(updateRule.error ?? deleteRule.error)?.message}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
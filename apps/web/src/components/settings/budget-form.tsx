@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useSetBudget, type BudgetStatus } from '@/hooks/use-usage';
+
+interface BudgetFormProps {
+  budget: BudgetStatus;
+}
+
+/**
+ * Monthly AI budget (mount once the usage is loaded)
+ */
+export function BudgetForm({ budget }: BudgetFormProps) {
+  const setBudget = useSetBudget();
+  const [limit, setLimit] = useState(budget.monthlyLimitUsd?.toString() ?? '');
+
+  const parsed = Number(limit);
+  const isValid = limit.trim() === '' || (Number.isFinite(parsed) && parsed > 0);
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base">Monthly budget</CardTitle>
+        <CardDescription>
+          Chat and document extraction are paused once the estimated cost of the month reaches the
+          budget. ${budget.spentUsd.toFixed(2)} spent since {budget.periodStart}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-end gap-2 flex-wrap">
+          <div className="space-y-2">
+            <Label htmlFor="monthly-budget">Limit (USD)</Label>
+            <Input
+              id="monthly-budget"
+              type="number"
+              min="0"
+              step="0.01"
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              placeholder="No limit"
+              className="w-[160px]"
+            />
+          </div>
+          <Button
+            onClick={() => setBudget.mutate(limit.trim() === '' ? null : parsed)}
+            disabled={!isValid || setBudget.isPending}
+            className="gap-1"
+          >
+            {setBudget.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            Save
+          </Button>
+          {setBudget.isSuccess && <p className="text-xs text-muted-foreground">Saved</p>}
+        </div>
+        {setBudget.error && <p className="text-xs text-destructive">{setBudget.error.message}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { CalendarPlus, Check, Copy, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  useCalendarFeed,
+  useCreateCalendarFeed,
+  useDeleteCalendarFeed,
+} from '@/hooks/use-reminders';
+
+/**
+ * Secret iCalendar URL of the reminders, for subscribing from a calendar app
+ */
+export function CalendarFeedForm() {
+  const { data: feed } = useCalendarFeed();
+  const createFeed = useCreateCalendarFeed();
+  const deleteFeed = useDeleteCalendarFeed();
+  const [copied, setCopied] = useState(false);
+
+  // The URL is only known right after creating it
+  const url = createFeed.data?.url;
+
+  const handleCopy = async () => {
+    if (url) {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    }
+  };
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base">Calendar feed</CardTitle>
+        <CardDescription>
+          Subscribe to this URL in your calendar app to see due dates there. Anyone with the URL can
+          read your reminders; create a new one to revoke the old.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {url && (
+          <div className="flex items-center gap-2">
+            <Input value={url} readOnly onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy URL">
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+        {url && (
+          <p className="text-xs text-muted-foreground">Copy it now: it won't be shown again.</p>
+        )}
+        {!url && feed?.enabled && feed.createdAt && (
+          <p className="text-sm text-muted-foreground">
+            Feed active since {new Date(feed.createdAt).toLocaleDateString()}.
+          </p>
+        )}
+        <div className="flex items-center gap-2">
+          <Button
+            onClick={() => {
+              setCopied(false);
+              createFeed.mutate();
+            }}
+            disabled={createFeed.isPending}
+            className="gap-1"
+          >
+            {createFeed.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <CalendarPlus className="h-4 w-4" />
+            )}
+            {feed?.enabled ? 'New URL' : 'Create URL'}
+          </Button>
+          {feed?.enabled && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                createFeed.reset();
+                deleteFeed.mutate();
+              }}
+              disabled={deleteFeed.isPending}
+            >
+              Revoke
+            </Button>
+          )}
+        </div>
+        {(createFeed.error ?? deleteFeed.error) && (
+          <p className="text-xs text-destructive">
+            {(createFeed.error ?? deleteFeed.error)?.message}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
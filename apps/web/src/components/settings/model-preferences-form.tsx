@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useSaveModelPreferences,
+  type ModelPreferences,
+  type ModelTask,
+  type ProviderSettings,
+} from '@/hooks/use-settings';
+
+interface ModelPreferencesFormProps {
+  settings: ProviderSettings;
+  preferences: ModelPreferences;
+}
+
+const TASKS: Array<{ task: ModelTask; label: string; description: string }> = [
+  {
+    task: 'vision',
+    label: 'Vision',
+    description: 'Reads uploaded images and PDFs',
+  },
+  {
+    task: 'reasoning',
+    label: 'Reasoning',
+    description: 'Chat and pasted-text extraction',
+  },
+  {
+    task: 'advanced',
+    label: 'Advanced',
+    description: 'Complex analysis tasks',
+  },
+];
+
+/** Select value of "no preference" (Radix Select items cannot have an empty value) */
+const DEFAULT_PROVIDER = 'default';
+
+/**
+ * Provider/model choice for each model task (mount once the preferences are loaded)
+ */
+export function ModelPreferencesForm({ settings, preferences }: ModelPreferencesFormProps) {
+  const saveMutation = useSaveModelPreferences();
+  const [draft, setDraft] = useState<ModelPreferences>(preferences);
+
+  const setProvider = (task: ModelTask, provider: string) =>
+    setDraft((prev) => ({
+      ...prev,
+      [task]: provider === DEFAULT_PROVIDER ? null : { provider, modelId: null },
+    }));
+
+  const setModelId = (task: ModelTask, modelId: string) =>
+    setDraft((prev) => {
+      const preference = prev[task];
+      return preference ? { ...prev, [task]: { ...preference, modelId: modelId || null } } : prev;
+    });
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base">Models</CardTitle>
+        <CardDescription>
+          Choose the provider and model used for each task. Leave the model empty to use the
+          provider's default; other configured providers are still tried when a call fails.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {TASKS.map(({ task, label, description }) => {
+          const preference = draft[task];
+          const provider = settings.providers.find(
+            (p) => p.id === (preference?.provider ?? settings.defaultProvider),
+          );
+          return (
+            <div key={task} className="grid gap-2 sm:grid-cols-[160px_1fr_1fr] sm:items-end">
+              <div>
+                <Label>{label}</Label>
+                <p className="text-xs text-muted-foreground mt-1">{description}</p>
+              </div>
+              <Select
+                value={preference?.provider ?? DEFAULT_PROVIDER}
+                onValueChange={(value) => setProvider(task, value)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_PROVIDER}>
+                    Default ({settings.defaultProvider})
+                  </SelectItem>
+                  {settings.providers.map((p) => (
+                    <SelectItem key={p.id} value={p.id} disabled={!p.configured}>
+                      {p.id}
+                      {p.configured ? '' : ' (not configured)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={preference?.modelId ?? ''}
+                onChange={(e) => setModelId(task, e.target.value)}
+                placeholder={provider?.defaultModels[task] ?? 'Default model'}
+                disabled={!preference}
+                aria-label={`${label} model`}
+              />
+            </div>
+          );
+        })}
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button
+            onClick={() => saveMutation.mutate(draft)}
+            disabled={saveMutation.isPending}
+            className="gap-1"
+          >
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            Save
+          </Button>
+          {saveMutation.isSuccess && <p className="text-xs text-muted-foreground">Saved</p>}
+        </div>
+        {saveMutation.error && (
+          <p className="text-xs text-destructive">{saveMutation.error.message}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Loader2, Play, RotateCcw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  usePreviewPrompt,
+  useResetPrompts,
+  useSavePrompts,
+  type DomainPrompts,
+  type PromptOverrides,
+} from '@/hooks/use-prompts';
+import { StatusBadge } from '@/components/dashboard/domain-badge';
+
+interface PromptEditorProps {
+  prompts: DomainPrompts;
+}
+
+/**
+ * Editor for one domain's prompt overrides, with a preview on a sample document
+ * (mount with key={domain} so the draft resets when switching domains)
+ */
+export function PromptEditor({ prompts }: PromptEditorProps) {
+  const saveMutation = useSavePrompts();
+  const resetMutation = useResetPrompts();
+  const previewMutation = usePreviewPrompt();
+
+  const [draft, setDraft] = useState<PromptOverrides>({
+    addendum: prompts.overrides?.addendum ?? '',
+    imagePrompt: prompts.overrides?.imagePrompt ?? '',
+    textPrompt: prompts.overrides?.textPrompt ?? '',
+  });
+  const [sampleText, setSampleText] = useState('');
+  const [sampleFile, setSampleFile] = useState<File | null>(null);
+
+  const setField = (field: keyof PromptOverrides, value: string) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const handlePreview = () => {
+    const sample = sampleFile ? { file: sampleFile } : { text: sampleText };
+    previewMutation.mutate({ domain: prompts.domain, sample, ...draft });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Card className="gap-0">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-base">{prompts.label} extraction prompts</CardTitle>
+          <CardDescription>
+            Add notes for the extractor (e.g., "our lab's GLU is fasting glucose") or replace the
+            built-in prompts. Leave a prompt empty to use the built-in one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="addendum">Additional instructions</Label>
+            <Textarea
+              id="addendum"
+              value={draft.addendum ?? ''}
+              onChange={(e) => setField('addendum', e.target.value)}
+              placeholder="Appended to both prompts"
+              className="min-h-24"
+            />
+          </div>
+
+          <Tabs defaultValue="image">
+            <TabsList>
+              <TabsTrigger value="image">Image / PDF prompt</TabsTrigger>
+              <TabsTrigger value="text">Text prompt</TabsTrigger>
+            </TabsList>
+            {(['image', 'text'] as const).map((kind) => {
+              const field = kind === 'image' ? 'imagePrompt' : 'textPrompt';
+              return (
+                <TabsContent key={kind} value={kind} className="space-y-2">
+                  <Textarea
+                    value={draft[field] ?? ''}
+                    onChange={(e) => setField(field, e.target.value)}
+                    placeholder={prompts.defaults[field]}
+                    className="min-h-64 max-h-[480px] font-mono text-xs"
+                  />
+                  {!draft[field] && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setField(field, prompts.defaults[field])}
+                    >
+                      Start from the built-in prompt
+                    </Button>
+                  )}
+                </TabsContent>
+              );
+            })}
+          </Tabs>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            <Button
+              onClick={() => saveMutation.mutate({ domain: prompts.domain, ...draft })}
+              disabled={saveMutation.isPending}
+              className="gap-1"
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4" />
+              )}
+              Save
+            </Button>
+            {prompts.overrides && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  resetMutation.mutate(prompts.domain, {
+                    onSuccess: () => setDraft({ addendum: '', imagePrompt: '', textPrompt: '' }),
+                  })
+                }
+                disabled={resetMutation.isPending}
+                className="gap-1"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Reset to built-in
+              </Button>
+            )}
+            {saveMutation.isSuccess && <p className="text-xs text-muted-foreground">Saved</p>}
+          </div>
+          {(saveMutation.error || resetMutation.error) && (
+            <p className="text-xs text-destructive">
+              {(saveMutation.error ?? resetMutation.error)?.message}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Preview */}
+      <Card className="gap-0">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-base">Preview</CardTitle>
+          <CardDescription>
+            Run the prompts above (including unsaved changes) on a sample. Nothing is saved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+            placeholder="Paste a sample report, message or table…"
+            className="min-h-24"
+            disabled={!!sampleFile}
+          />
+          <div className="flex items-center gap-2 flex-wrap">
+            <Input
+              type="file"
+              accept="image/png,image/jpeg,image/webp,application/pdf"
+              onChange={(e) => setSampleFile(e.target.files?.[0] ?? null)}
+              className="w-full sm:w-[280px]"
+            />
+            <Button
+              onClick={handlePreview}
+              disabled={previewMutation.isPending || (!sampleFile && !sampleText.trim())}
+              className="gap-1"
+            >
+              {previewMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+              Run preview
+            </Button>
+          </div>
+
+          {previewMutation.error && (
+            <p className="text-xs text-destructive">{previewMutation.error.message}</p>
+          )}
+
+          {previewMutation.data && (
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                {previewMutation.data.data.length} record(s)
+                {previewMutation.data.provider &&
+                  ` · extracted by ${previewMutation.data.provider}/${previewMutation.data.model}`}
+              </p>
+              {previewMutation.data.data.map((record, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-1">
+                  <p className="text-sm font-medium">
+                    {record.title || record.category.replace(/_/g, ' ')}{' '}
+                    <span className="text-xs text-muted-foreground">· {record.date}</span>
+                  </p>
+                  {record.items.map((item, itemIndex) => (
+                    <div
+                      key={itemIndex}
+                      className="flex items-center justify-between gap-2 text-xs"
+                    >
+                      <span className="truncate">
+                        {item.name} <span className="text-muted-foreground">({item.key})</span>
+                      </span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        <span className="font-mono tabular-nums">
+                          {item.value} {item.unit}
+                        </span>
+                        <StatusBadge type={record.type} status={item.status} />
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+              <details className="text-xs">
+                <summary className="cursor-pointer text-muted-foreground">Prompt sent</summary>
+                <pre className="mt-2 whitespace-pre-wrap rounded-md bg-muted p-3 font-mono">
+                  {previewMutation.data.prompt}
+                </pre>
+              </details>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
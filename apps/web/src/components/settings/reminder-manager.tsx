@@ -0,0 +1,324 @@
+import { useState } from 'react';
+import { BellOff, Loader2, Pencil, Plus, RotateCcw, Save, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ReminderRow } from '@/components/dashboard/reminders-widget';
+import { useDomains } from '@/hooks/use-domains';
+import {
+  useCreateReminder,
+  useDeleteReminder,
+  useReminders,
+  useUpdateReminder,
+  type ReminderItem,
+} from '@/hooks/use-reminders';
+
+/** Cadences offered when setting an interval (days) */
+const CADENCE_PRESETS = [
+  { label: 'Weekly', days: 7 },
+  { label: 'Monthly', days: 30 },
+  { label: 'Quarterly', days: 91 },
+  { label: 'Every 6 months', days: 182 },
+  { label: 'Yearly', days: 365 },
+];
+
+/**
+ * Interval input with presets
+ */
+function IntervalField({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const preset = CADENCE_PRESETS.find((p) => String(p.days) === value);
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={preset ? value : 'custom'}
+        onValueChange={(v) => v !== 'custom' && onChange(v)}
+      >
+        <SelectTrigger className="w-[150px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CADENCE_PRESETS.map((p) => (
+            <SelectItem key={p.days} value={String(p.days)}>
+              {p.label}
+            </SelectItem>
+          ))}
+          <SelectItem value="custom">Custom</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        id={id}
+        type="number"
+        min="1"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-[90px]"
+        aria-label="Days between records"
+      />
+    </div>
+  );
+}
+
+function isValidInterval(value: string) {
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 1 && days <= 3660;
+}
+
+/**
+ * Form to set the cadence of a category that has no reminder yet
+ */
+function ReminderCreator({ onDone }: { onDone: () => void }) {
+  const { data: domains = [] } = useDomains();
+  const createReminder = useCreateReminder();
+
+  const [recordType, setRecordType] = useState('health');
+  const [category, setCategory] = useState('');
+  const [intervalDays, setIntervalDays] = useState('365');
+
+  const isValid = category.trim() !== '' && isValidInterval(intervalDays);
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid gap-3 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Domain</Label>
+          <Select value={recordType} onValueChange={setRecordType}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {domains.map((domain) => (
+                <SelectItem key={domain.id} value={domain.id}>
+                  {domain.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reminder-category">Category</Label>
+          <Input
+            id="reminder-category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            placeholder="Physical exam"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reminder-interval">Expected every (days)</Label>
+          <IntervalField id="reminder-interval" value={intervalDays} onChange={setIntervalDays} />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          onClick={() =>
+            createReminder.mutate(
+              {
+                recordType,
+                category: category.trim(),
+                intervalDays: Number(intervalDays),
+                enabled: true,
+              },
+              { onSuccess: onDone },
+            )
+          }
+          disabled={!isValid || createReminder.isPending}
+          className="gap-1"
+        >
+          {createReminder.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4" />
+          )}
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onDone} className="gap-1">
+          <X className="h-4 w-4" />
+          Cancel
+        </Button>
+        {createReminder.error && (
+          <p className="text-xs text-destructive">{createReminder.error.message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A tracked category: set its cadence, mute it or go back to the inferred cadence
+ */
+function ReminderItemRow({ item }: { item: ReminderItem }) {
+  const createReminder = useCreateReminder();
+  const updateReminder = useUpdateReminder();
+  const deleteReminder = useDeleteReminder();
+  const [editing, setEditing] = useState(false);
+  const [intervalDays, setIntervalDays] = useState(String(item.intervalDays));
+
+  const error = createReminder.error ?? updateReminder.error ?? deleteReminder.error;
+  const isPending =
+    createReminder.isPending || updateReminder.isPending || deleteReminder.isPending;
+
+  // Inferred cadences become explicit reminders when changed or muted
+  const save = (input: { intervalDays: number; enabled: boolean }) => {
+    const options = { onSuccess: () => setEditing(false) };
+    if (item.id) {
+      updateReminder.mutate({ id: item.id, ...input }, options);
+    } else {
+      createReminder.mutate(
+        { recordType: item.recordType, category: item.category, ...input },
+        options,
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <ReminderRow item={item} />
+        </div>
+        <Badge variant="outline">{item.source === 'explicit' ? 'set' : 'inferred'}</Badge>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setEditing(!editing)}
+          aria-label="Set cadence"
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => save({ intervalDays: item.intervalDays, enabled: false })}
+          disabled={isPending}
+          aria-label="Mute reminder"
+        >
+          <BellOff className="h-4 w-4" />
+        </Button>
+        {item.id && (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => item.id && deleteReminder.mutate(item.id)}
+            disabled={isPending}
+            aria-label="Use inferred cadence"
+            title="Use inferred cadence"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {editing && (
+        <div className="flex items-center gap-2 pl-2">
+          <IntervalField
+            id={`interval-${item.categoryKey}`}
+            value={intervalDays}
+            onChange={setIntervalDays}
+          />
+          <Button
+            size="sm"
+            onClick={() => save({ intervalDays: Number(intervalDays), enabled: true })}
+            disabled={!isValidInterval(intervalDays) || isPending}
+            className="gap-1"
+          >
+            <Save className="h-4 w-4" />
+            Save
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-xs text-destructive">{error.message}</p>}
+    </div>
+  );
+}
+
+/**
+ * Periodic categories with their due dates; set, mute and add cadences
+ */
+export function ReminderManager() {
+  const { data, isLoading, error } = useReminders();
+  const updateReminder = useUpdateReminder();
+  const [adding, setAdding] = useState(false);
+
+  const muted = data?.reminders.filter((reminder) => !reminder.enabled) ?? [];
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4 flex flex-row items-start justify-between gap-2">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Reminders</CardTitle>
+          <CardDescription>
+            Cadences are inferred from categories with 3 or more regularly spaced records. Set one
+            yourself to override it or to track a category without records yet.
+          </CardDescription>
+        </div>
+        {!adding && (
+          <Button size="sm" variant="outline" onClick={() => setAdding(true)} className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add reminder
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {adding && <ReminderCreator onDone={() => setAdding(false)} />}
+
+        {/* Loading state */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {/* Error state */}
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {data && data.items.length === 0 && !adding && (
+          <p className="text-sm text-muted-foreground">No periodic categories yet</p>
+        )}
+
+        {data?.items.map((item) => (
+          <ReminderItemRow key={`${item.recordType}:${item.categoryKey}`} item={item} />
+        ))}
+
+        {muted.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-xs font-medium text-muted-foreground">Muted</p>
+            {muted.map((reminder) => (
+              <div key={reminder.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {reminder.category}
+                  <span className="text-xs text-muted-foreground"> · {reminder.recordType}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateReminder.mutate({ id: reminder.id, enabled: true })}
+                  disabled={updateReminder.isPending}
+                >
+                  Unmute
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
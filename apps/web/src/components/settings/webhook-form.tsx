@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useSaveNotificationSettings, type NotificationSettings } from '@/hooks/use-notifications';
+
+interface WebhookFormProps {
+  settings: NotificationSettings;
+}
+
+/**
+ * Webhook receiving every new notification (mount once the settings are loaded)
+ */
+export function WebhookForm({ settings }: WebhookFormProps) {
+  const saveSettings = useSaveNotificationSettings();
+  const [url, setUrl] = useState(settings.webhookUrl ?? '');
+  // Left empty, the saved secret is kept
+  const [secret, setSecret] = useState('');
+
+  const trimmedUrl = url.trim();
+  const isValid =
+    (trimmedUrl === '' || trimmedUrl.startsWith('https://')) &&
+    (secret === '' || secret.length >= 8);
+
+  const handleSave = () => {
+    saveSettings.mutate(
+      {
+        webhookUrl: trimmedUrl === '' ? null : trimmedUrl,
+        ...(secret !== '' ? { webhookSecret: secret } : {}),
+      },
+      { onSuccess: () => setSecret('') },
+    );
+  };
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base">Webhook</CardTitle>
+        <CardDescription>
+          Every new notification is also posted as JSON to this URL. With a secret, the X-Signature
+          header carries the HMAC-SHA256 of the body.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">URL</Label>
+            <Input
+              id="webhook-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/alerts"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-secret">Secret</Label>
+            <Input
+              id="webhook-secret"
+              type="password"
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              placeholder={settings.hasWebhookSecret ? 'Saved (leave empty to keep)' : 'Optional'}
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            onClick={handleSave}
+            disabled={!isValid || saveSettings.isPending}
+            className="gap-1"
+          >
+            {saveSettings.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            Save
+          </Button>
+          {saveSettings.isSuccess && <p className="text-xs text-muted-foreground">Saved</p>}
+        </div>
+        {saveSettings.error && (
+          <p className="text-xs text-destructive">{saveSettings.error.message}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export type AnalyticsGroupBy = 'day' | 'week' | 'month' | 'year';
+
+export interface AnalyticsStatistics {
+  count: number;
+  sum: number;
+  avg: number;
+  min: number;
+  max: number;
+  median: number;
+  p90: number;
+}
+
+export interface AnalyticsPeriod extends AnalyticsStatistics {
+  /** "2024-03-15" (day), "2024-W11" (week), "2024-03" (month), "2024" (year) */
+  period: string;
+  periodStart: string;
+  movingAvg: number | null;
+  movingSum: number | null;
+  previousYear: { avg: number; sum: number } | null;
+  /** Percent change against the same period one year earlier */
+  yoyChange: { avg: number | null; sum: number | null } | null;
+}
+
+export interface MetricAnalytics {
+  metricKey?: string;
+  categoryTag?: string;
+  groupBy: AnalyticsGroupBy;
+  window: number;
+  unit: string | null;
+  excludedOtherUnits: number;
+  overall: AnalyticsStatistics | null;
+  periods: AnalyticsPeriod[];
+}
+
+export interface RecordsSummary {
+  totalRecords: number;
+  latestDate: string | null;
+  types: Array<{ type: string; count: number }>;
+  categories: Array<{ category: string; count: number }>;
+}
+
+export interface AnalyticsOptions {
+  groupBy: AnalyticsGroupBy;
+  /** Only records of this type */
+  type?: string;
+  /** Only metrics with this status (e.g., "expense") */
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+  /** Periods per moving average */
+  window?: number;
+}
+
+export interface SpendingPeriod {
+  period: string;
+  periodStart: string;
+  income: number;
+  expense: number;
+  net: number;
+  /** Expense per categoryTag */
+  categories: Record<string, number>;
+}
+
+export interface SpendingBreakdown {
+  groupBy: AnalyticsGroupBy;
+  currency: string | null;
+  excludedOtherCurrencies: number;
+  totals: { income: number; expense: number; net: number };
+  periods: SpendingPeriod[];
+  categories: Array<{ categoryTag: string; amount: number; share: number }>;
+  merchants: Array<{ merchant: string; amount: number; count: number }>;
+  monthOverMonth: {
+    month: string;
+    previousMonth: string;
+    expense: number;
+    previousExpense: number;
+    change: number | null;
+    categories: Array<{
+      categoryTag: string;
+      amount: number;
+      previousAmount: number;
+      change: number | null;
+    }>;
+  } | null;
+}
+
+export interface SpendingOptions {
+  groupBy: AnalyticsGroupBy;
+  startDate?: string;
+  endDate?: string;
+  currency?: string;
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch record totals over the whole history (optionally of one type)
+ */
+export function useRecordsSummary(type?: string) {
+  return useQuery({
+    queryKey: ['analytics', 'summary', type],
+    queryFn: async () => {
+      const qs = type ? `?type=${encodeURIComponent(type)}` : '';
+      const res = await apiFetch(`/api/analytics/summary${qs}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch records summary');
+      }
+      const json = (await res.json()) as { success: boolean; data: RecordsSummary };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Query string of the set options
+ */
+function toSearchParams(options: object) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  return params.toString();
+}
+
+/**
+ * Fetch per-period statistics of a metric
+ */
+export function useMetricAnalytics(metricKey: string, options: AnalyticsOptions) {
+  return useQuery({
+    queryKey: ['analytics', 'metric', metricKey, options],
+    queryFn: async () => {
+      const res = await apiFetch(
+        `/api/analytics/metrics/${encodeURIComponent(metricKey)}?${toSearchParams(options)}`,
+      );
+      if (!res.ok) {
+        throw new Error('Failed to fetch metric analytics');
+      }
+      const json = (await res.json()) as { success: boolean; data: MetricAnalytics };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Fetch the finance breakdown: income vs expense per period, categories, merchants
+ */
+export function useSpendingBreakdown(options: SpendingOptions) {
+  return useQuery({
+    queryKey: ['analytics', 'spending', options],
+    queryFn: async () => {
+      const res = await apiFetch(`/api/analytics/spending?${toSearchParams(options)}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch spending breakdown');
+      }
+      const json = (await res.json()) as { success: boolean; data: SpendingBreakdown };
+      return json.data;
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch, getAuthToken, setAuthToken } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface LoginParams {
+  email: string;
+  password: string;
+}
+
+export interface RegisterParams extends LoginParams {
+  name: string;
+}
+
+interface AuthResponse {
+  success: boolean;
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the currently logged-in user (null when there is no valid session)
+ */
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: ['auth', 'me'],
+    queryFn: async () => {
+      if (!getAuthToken()) {
+        return null;
+      }
+      const res = await apiFetch('/api/auth/me');
+      if (res.status === 401) {
+        setAuthToken(null);
+        return null;
+      }
+      if (!res.ok) {
+        throw new Error('Failed to fetch current user');
+      }
+      const json = (await res.json()) as { success: boolean; user: AuthUser };
+      return json.user;
+    },
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+async function authenticate(path: string, body: LoginParams | RegisterParams) {
+  const res = await apiFetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json();
+    throw new Error((err as { message?: string }).message || 'Authentication failed');
+  }
+  return (await res.json()) as AuthResponse;
+}
+
+/**
+ * Log in with email + password
+ */
+export function useLogin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: LoginParams) => authenticate('/api/auth/login', params),
+    onSuccess: (data) => {
+      setAuthToken(data.token);
+      queryClient.clear();
+      queryClient.setQueryData(['auth', 'me'], data.user);
+    },
+  });
+}
+
+/**
+ * Create an account and log in
+ */
+export function useRegister() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: RegisterParams) => authenticate('/api/auth/register', params),
+    onSuccess: (data) => {
+      setAuthToken(data.token);
+      queryClient.clear();
+      queryClient.setQueryData(['auth', 'me'], data.user);
+    },
+  });
+}
+
+/**
+ * Log out and drop all cached user data
+ */
+export function useLogout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiFetch('/api/auth/logout', { method: 'POST' });
+    },
+    onSettled: () => {
+      setAuthToken(null);
+      queryClient.clear();
+      queryClient.setQueryData(['auth', 'me'], null);
+    },
+  });
+}
@@ -0,0 +1,139 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export type BudgetLevel = 'ok' | 'warning' | 'critical';
+
+export interface Budget {
+  id: string;
+  categoryTag: string;
+  monthlyLimit: number;
+  currency: string;
+  /** Percent of the limit at which progress turns amber */
+  warningPercent: number;
+  /** Percent of the limit at which progress turns red */
+  criticalPercent: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BudgetInput = Pick<
+  Budget,
+  'categoryTag' | 'monthlyLimit' | 'currency' | 'warningPercent' | 'criticalPercent'
+>;
+
+export interface BudgetProgress extends Budget {
+  spent: number;
+  remaining: number;
+  percent: number;
+  level: BudgetLevel;
+  /** Spending by the end of the month at the pace so far (current month only) */
+  projected: number | null;
+  projectedLevel: BudgetLevel | null;
+}
+
+export interface BudgetReport {
+  /** YYYY-MM */
+  month: string;
+  /** Share of the month elapsed */
+  elapsed: number;
+  budgets: BudgetProgress[];
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the budgets with their progress in a month (default: the current month)
+ */
+export function useBudgets(month?: string) {
+  return useQuery({
+    queryKey: ['budgets', month],
+    queryFn: async () => {
+      const qs = month ? `?month=${month}` : '';
+      const res = await apiFetch(`/api/budgets${qs}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch budgets');
+      }
+      const json = (await res.json()) as { success: boolean; data: BudgetReport };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Create a budget
+ */
+export function useCreateBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: BudgetInput) => {
+      const res = await apiFetch('/api/budgets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to create budget');
+      }
+      const json = (await res.json()) as { success: boolean; data: Budget };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    },
+  });
+}
+
+/**
+ * Update a budget
+ */
+export function useUpdateBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: Partial<BudgetInput> & { id: string }) => {
+      const res = await apiFetch(`/api/budgets/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to update budget');
+      }
+      const json = (await res.json()) as { success: boolean; data: Budget };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    },
+  });
+}
+
+/**
+ * Delete a budget
+ */
+export function useDeleteBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiFetch(`/api/budgets/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to delete budget');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    },
+  });
+}
@@ -0,0 +1,118 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { UIMessage } from 'ai';
+import { apiFetch } from '@/lib/api';
+import type { CanvasComponentData } from '@/context/canvas-context';
+
+// ========================================
+// Types
+// ========================================
+
+export interface ChatListItem {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatCanvasState {
+  contentType: 'chart' | 'form' | 'pdf';
+  data: CanvasComponentData[];
+}
+
+export interface ChatSession extends ChatListItem {
+  canvasState: ChatCanvasState | null;
+  messages: UIMessage[];
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the current user's chats, optionally filtered by title
+ */
+export function useChats(search?: string) {
+  return useQuery({
+    queryKey: ['chats', search ?? ''],
+    queryFn: async () => {
+      const qs = search ? `?q=${encodeURIComponent(search)}` : '';
+      const res = await apiFetch(`/api/chats${qs}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch chats');
+      }
+      const json = (await res.json()) as { success: boolean; data: ChatListItem[] };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Fetch a stored chat with its messages (null if it has not been persisted yet)
+ */
+export function useChatSession(id: string, enabled = true) {
+  return useQuery({
+    queryKey: ['chat', id],
+    queryFn: async () => {
+      const res = await apiFetch(`/api/chats/${id}`);
+      if (res.status === 404) {
+        return null;
+      }
+      if (!res.ok) {
+        throw new Error('Failed to fetch chat');
+      }
+      const json = (await res.json()) as { success: boolean; data: ChatSession };
+      return json.data;
+    },
+    enabled,
+    // Messages live in useChat once the session is open; don't refetch underneath it
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Rename a chat
+ */
+export function useRenameChat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      const res = await apiFetch(`/api/chats/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to rename chat');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chats'] });
+    },
+  });
+}
+
+/**
+ * Delete a chat
+ */
+export function useDeleteChat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiFetch(`/api/chats/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to delete chat');
+      }
+      return res.json();
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ['chats'] });
+      queryClient.removeQueries({ queryKey: ['chat', id] });
+    },
+  });
+}
@@ -7,7 +7,7 @@ import { apiFetch } from '@/lib/api';
 
 export interface RecordListItem {
   id: string;
-  type: 'health' | 'finance';
+  type: string;
   title: string | null;
   category: string;
   date: string;
@@ -25,18 +25,37 @@ export interface RecordMetric {
   name: string;
   value: number;
   unit: string | null;
+  originalValue: number | null;
+  originalUnit: string | null;
   status: string;
   reference: string | null;
+  refLower: number | null;
+  refUpper: number | null;
+  refInclusive: boolean | null;
+  refExpected: string | null;
+  modelStatus: string | null;
+  statusMismatch: boolean;
   notes: string | null;
   displayOrder: number | null;
   categoryTag: string | null;
   parentKey: string | null;
+  confidence: number | null;
+  sourceText: string | null;
+}
+
+export interface RecordAttachment {
+  id: string;
+  fileName: string | null;
+  mimeType: string;
+  size: number;
+  source: 'chat' | 'upload';
+  createdAt: string;
 }
 
 export interface RecordDetail {
   id: string;
   userId: string;
-  type: 'health' | 'finance';
+  type: string;
   title: string | null;
   category: string;
   date: string;
@@ -46,10 +65,11 @@ export interface RecordDetail {
   createdAt: string;
   updatedAt: string;
   metrics: RecordMetric[];
+  attachments: RecordAttachment[];
 }
 
 export interface RecordFilters {
-  type?: 'health' | 'finance';
+  type?: string;
   category?: string;
   startDate?: string;
   endDate?: string;
@@ -57,6 +77,21 @@ export interface RecordFilters {
   offset?: number;
 }
 
+export interface MetricTrendPoint {
+  date: string;
+  value: number;
+  unit: string | null;
+  status: string;
+  category: string;
+}
+
+export interface MetricTrend {
+  metricKey: string;
+  count: number;
+  statistics: { average: number; min: number; max: number; unit: string | null } | null;
+  trend: MetricTrendPoint[];
+}
+
 export interface UpdateRecordParams {
   id: string;
   title?: string;
@@ -74,6 +109,8 @@ export interface UpdateRecordParams {
     displayOrder?: number;
     categoryTag?: string;
     parentKey?: string;
+    confidence?: number;
+    sourceText?: string;
   }>;
 }
 
@@ -86,6 +123,8 @@ export interface SaveRecordParams {
       name: string;
       value: string | number;
       unit?: string;
+      confidence?: number;
+      sourceText?: string;
     }>;
   };
 }
@@ -160,6 +199,47 @@ export function useRecord(id: string | null) {
   });
 }
 
+/**
+ * Fetch the values of a metric over time (optionally only from records of one type)
+ */
+export function useMetricTrend(metricKey: string, type?: string) {
+  return useQuery({
+    queryKey: ['metric-trend', metricKey, type],
+    queryFn: async () => {
+      const qs = type ? `?type=${encodeURIComponent(type)}` : '';
+      const res = await apiFetch(`/api/metrics/${encodeURIComponent(metricKey)}/trend${qs}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch metric trend');
+      }
+      const json = (await res.json()) as { success: boolean; data: MetricTrend };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Fetch the content of an original document
+ * (fetched as a Blob because <img>/<iframe> requests cannot carry the auth header)
+ * @param path - API path of the file, e.g. /api/attachments/:id or /api/drafts/:id/file
+ */
+export function useAttachmentContent(path: string | null) {
+  return useQuery({
+    queryKey: ['attachment', path],
+    queryFn: async () => {
+      if (!path) {
+        throw new Error('No attachment path');
+      }
+      const res = await apiFetch(path);
+      if (!res.ok) {
+        throw new Error('Failed to fetch attachment');
+      }
+      return res.blob();
+    },
+    enabled: !!path,
+    staleTime: Infinity,
+  });
+}
+
 /**
  * Update a record
  */
@@ -182,6 +262,10 @@ export function useUpdateRecord() {
     onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({ queryKey: ['records'] });
       queryClient.invalidateQueries({ queryKey: ['record', variables.id] });
+      queryClient.invalidateQueries({ queryKey: ['metric-trend'] });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'list'] });
     },
   });
 }
@@ -203,6 +287,11 @@ export function useDeleteRecord() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['records'] });
+      queryClient.invalidateQueries({ queryKey: ['metric-trend'] });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'list'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] });
     },
   });
 }
@@ -230,6 +319,8 @@ export function useSaveRecord() {
               value: typeof m.value === 'string' ? parseFloat(m.value) : m.value,
               unit: m.unit,
               status: 'normal',
+              confidence: m.confidence,
+              sourceText: m.sourceText,
             })),
           },
         }),
@@ -244,6 +335,11 @@ export function useSaveRecord() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['records'] });
+      queryClient.invalidateQueries({ queryKey: ['metric-trend'] });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'list'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] });
     },
   });
 }
@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import type { DomainDefinition } from '@ai-chart/shared';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the registered data domains (labels, categories, statuses, dashboard charts)
+ */
+export function useDomains() {
+  return useQuery({
+    queryKey: ['domains'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/domains');
+      if (!res.ok) {
+        throw new Error('Failed to fetch domains');
+      }
+      const json = (await res.json()) as { success: boolean; data: DomainDefinition[] };
+      return json.data;
+    },
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Look up one domain by ID (undefined while loading or when it is not registered)
+ */
+export function useDomain(id: string | undefined) {
+  const { data: domains } = useDomains();
+  return domains?.find((domain) => domain.id === id);
+}
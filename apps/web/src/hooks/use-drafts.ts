@@ -0,0 +1,244 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { RecordData } from '@ai-chart/shared';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export type DraftStatus = 'pending' | 'approved' | 'rejected';
+
+export type DuplicateAction = 'report' | 'skip' | 'merge' | 'force';
+
+export interface Draft {
+  id: string;
+  type: string;
+  status: DraftStatus;
+  data: RecordData;
+  fileName: string | null;
+  mimeType: string | null;
+  size: number | null;
+  hasFile: boolean;
+  contentHash: string | null;
+  recordId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DuplicateMatch {
+  recordId: string;
+  title: string | null;
+  category: string;
+  date: string;
+  reason: 'identical_file' | 'similar_content';
+  similarity: number;
+}
+
+export interface ApproveDraftParams {
+  id: string;
+  onDuplicate?: DuplicateAction;
+}
+
+export interface ApproveDraftsParams {
+  ids: string[];
+  onDuplicate?: DuplicateAction;
+}
+
+export interface UploadDocumentResult {
+  success: boolean;
+  message: string;
+  /** Provider and model that produced the extraction */
+  provider?: string;
+  model?: string;
+}
+
+export interface UploadDocumentParams {
+  type: string;
+  file: File;
+}
+
+/**
+ * Error thrown when an approval is blocked by a likely duplicate
+ * (duplicateOf is the first match; duplicates lists every blocked draft of a batch)
+ */
+export class DuplicateDraftError extends Error {
+  constructor(
+    message: string,
+    public duplicateOf: DuplicateMatch,
+    public duplicates: Array<{ draftId: string; duplicateOf: DuplicateMatch }> = [],
+  ) {
+    super(message);
+    this.name = 'DuplicateDraftError';
+  }
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the drafts waiting for review
+ */
+export function useDrafts(status: DraftStatus = 'pending') {
+  return useQuery({
+    queryKey: ['drafts', status],
+    queryFn: async () => {
+      const res = await apiFetch(`/api/drafts?status=${status}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch drafts');
+      }
+      const json = (await res.json()) as { success: boolean; data: Draft[] };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Upload a document for extraction; the extracted records arrive as pending drafts
+ */
+export function useUploadDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ type, file }: UploadDocumentParams) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await apiFetch(`/api/${type}/upload`, { method: 'POST', body: formData });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to upload document');
+      }
+      return res.json() as Promise<UploadDocumentResult>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drafts'] });
+      queryClient.invalidateQueries({ queryKey: ['usage'] });
+    },
+  });
+}
+
+/**
+ * Replace the extracted data of a pending draft
+ */
+export function useUpdateDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: RecordData }) => {
+      const res = await apiFetch(`/api/drafts/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ data }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to update draft');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drafts'] });
+    },
+  });
+}
+
+/**
+ * Approve a draft (save it as a record)
+ * Throws DuplicateDraftError when the draft looks like an existing record.
+ */
+export function useApproveDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, onDuplicate = 'report' }: ApproveDraftParams) => {
+      const res = await apiFetch(`/api/drafts/${id}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ onDuplicate }),
+      });
+      if (!res.ok) {
+        const err = (await res.json()) as { message?: string; duplicateOf?: DuplicateMatch };
+        if (res.status === 409 && err.duplicateOf) {
+          throw new DuplicateDraftError(err.message || 'Possible duplicate', err.duplicateOf);
+        }
+        throw new Error(err.message || 'Failed to approve draft');
+      }
+      return res.json() as Promise<{ success: boolean; recordId: string | null; status: string }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drafts'] });
+      queryClient.invalidateQueries({ queryKey: ['records'] });
+      queryClient.invalidateQueries({ queryKey: ['metric-trend'] });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'list'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] });
+    },
+  });
+}
+
+/**
+ * Approve all drafts of one upload together (saved in one batch: all or none)
+ * Throws DuplicateDraftError when any draft looks like an existing record.
+ */
+export function useApproveDrafts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ ids, onDuplicate = 'report' }: ApproveDraftsParams) => {
+      const res = await apiFetch('/api/drafts/approve', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids, onDuplicate }),
+      });
+      if (!res.ok) {
+        const err = (await res.json()) as {
+          message?: string;
+          duplicates?: Array<{ draftId: string; duplicateOf: DuplicateMatch }>;
+        };
+        if (res.status === 409 && err.duplicates?.length) {
+          throw new DuplicateDraftError(
+            err.message || 'Possible duplicate',
+            err.duplicates[0].duplicateOf,
+            err.duplicates,
+          );
+        }
+        throw new Error(err.message || 'Failed to approve drafts');
+      }
+      return res.json() as Promise<{
+        success: boolean;
+        records: Array<{ draftId: string; recordId: string | null; status: string }>;
+      }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drafts'] });
+      queryClient.invalidateQueries({ queryKey: ['records'] });
+      queryClient.invalidateQueries({ queryKey: ['metric-trend'] });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'list'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] });
+    },
+  });
+}
+
+/**
+ * Reject (discard) a draft
+ */
+export function useRejectDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiFetch(`/api/drafts/${id}/reject`, { method: 'POST' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to reject draft');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drafts'] });
+    },
+  });
+}
@@ -0,0 +1,242 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export interface Notification {
+  id: string;
+  ruleId: string | null;
+  recordId: string | null;
+  metricKey: string | null;
+  severity: NotificationSeverity;
+  title: string;
+  message: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export type AlertRuleKind = 'status' | 'threshold' | 'trend' | 'change';
+export type AlertDirection = 'above' | 'below' | 'rising' | 'falling' | 'any';
+
+export interface AlertRuleInput {
+  name: string;
+  kind: AlertRuleKind;
+  /** Only metrics of this domain (null = any) */
+  recordType: string | null;
+  /** Only this metric (null = any) */
+  metricKey: string | null;
+  direction: AlertDirection | null;
+  /** Value crossed (threshold) or percent changed (change) */
+  threshold: number | null;
+  /** Unit of the threshold value (null = the metric's own) */
+  unit: string | null;
+  /** Consecutive rises or falls (trend) */
+  count: number | null;
+  severity: NotificationSeverity;
+  enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertRules {
+  rules: AlertRule[];
+  /** Rules applied while the user has none of their own */
+  defaults: Array<AlertRuleInput & { id: string }>;
+}
+
+export interface NotificationSettings {
+  webhookUrl: string | null;
+  hasWebhookSecret: boolean;
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the latest notifications and the unread count (polled every minute)
+ */
+export function useNotifications() {
+  return useQuery({
+    queryKey: ['notifications', 'list'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/notifications');
+      if (!res.ok) {
+        throw new Error('Failed to fetch notifications');
+      }
+      const json = (await res.json()) as {
+        success: boolean;
+        data: { notifications: Notification[]; unreadCount: number };
+      };
+      return json.data;
+    },
+    refetchInterval: 60_000,
+  });
+}
+
+/**
+ * Mark one notification as read, or all of them when no ID is given
+ */
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id?: string) => {
+      const path = id ? `/api/notifications/${id}/read` : '/api/notifications/read-all';
+      const res = await apiFetch(path, { method: 'POST' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(
+          (err as { message?: string }).message || 'Failed to mark notifications as read',
+        );
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] });
+    },
+  });
+}
+
+/**
+ * Fetch the alert rules
+ */
+export function useAlertRules() {
+  return useQuery({
+    queryKey: ['notifications', 'rules'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/notifications/rules');
+      if (!res.ok) {
+        throw new Error('Failed to fetch alert rules');
+      }
+      const json = (await res.json()) as { success: boolean; data: AlertRules };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Create an alert rule
+ */
+export function useCreateAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AlertRuleInput) => {
+      const res = await apiFetch('/api/notifications/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to create alert rule');
+      }
+      const json = (await res.json()) as { success: boolean; data: AlertRule };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'rules'] });
+    },
+  });
+}
+
+/**
+ * Update an alert rule
+ */
+export function useUpdateAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: Partial<AlertRuleInput> & { id: string }) => {
+      const res = await apiFetch(`/api/notifications/rules/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to update alert rule');
+      }
+      const json = (await res.json()) as { success: boolean; data: AlertRule };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'rules'] });
+    },
+  });
+}
+
+/**
+ * Delete an alert rule
+ */
+export function useDeleteAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiFetch(`/api/notifications/rules/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to delete alert rule');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'rules'] });
+    },
+  });
+}
+
+/**
+ * Fetch the delivery settings
+ */
+export function useNotificationSettings() {
+  return useQuery({
+    queryKey: ['notifications', 'settings'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/notifications/settings');
+      if (!res.ok) {
+        throw new Error('Failed to fetch notification settings');
+      }
+      const json = (await res.json()) as { success: boolean; data: NotificationSettings };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Save the delivery settings (an omitted webhookSecret keeps the saved one)
+ */
+export function useSaveNotificationSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { webhookUrl: string | null; webhookSecret?: string | null }) => {
+      const res = await apiFetch('/api/notifications/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(
+          (err as { message?: string }).message || 'Failed to save notification settings',
+        );
+      }
+      const json = (await res.json()) as { success: boolean; data: NotificationSettings };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'settings'] });
+    },
+  });
+}
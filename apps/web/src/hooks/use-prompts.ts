@@ -0,0 +1,142 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { RecordData } from '@ai-chart/shared';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export interface PromptOverrides {
+  imagePrompt: string | null;
+  textPrompt: string | null;
+  addendum: string | null;
+}
+
+export interface DomainPrompts {
+  domain: string;
+  label: string;
+  /** Built-in prompts of the domain */
+  defaults: { imagePrompt: string; textPrompt: string };
+  /** The user's customizations (null when the built-in prompts are used) */
+  overrides: (PromptOverrides & { updatedAt: string }) | null;
+}
+
+export interface SavePromptsParams extends PromptOverrides {
+  domain: string;
+}
+
+export interface PreviewPromptParams extends PromptOverrides {
+  domain: string;
+  /** Sample to extract: pasted text or a document (image/PDF) */
+  sample: { text: string } | { file: File };
+}
+
+export interface PreviewPromptResult {
+  success: boolean;
+  /** The prompt the model received */
+  prompt: string;
+  data: RecordData[];
+  provider?: string;
+  model?: string;
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the built-in prompts of every domain with the user's overrides
+ */
+export function usePrompts() {
+  return useQuery({
+    queryKey: ['prompts'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/prompts');
+      if (!res.ok) {
+        throw new Error('Failed to fetch prompts');
+      }
+      const json = (await res.json()) as { success: boolean; data: DomainPrompts[] };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Save the user's prompt overrides of a domain
+ */
+export function useSavePrompts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ domain, ...overrides }: SavePromptsParams) => {
+      const res = await apiFetch(`/api/prompts/${domain}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(overrides),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to save prompts');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prompts'] });
+    },
+  });
+}
+
+/**
+ * Reset a domain to the built-in prompts
+ */
+export function useResetPrompts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (domain: string) => {
+      const res = await apiFetch(`/api/prompts/${domain}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to reset prompts');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prompts'] });
+    },
+  });
+}
+
+/**
+ * Run extraction on a sample with draft prompts (nothing is saved)
+ */
+export function usePreviewPrompt() {
+  return useMutation({
+    mutationFn: async ({ domain, sample, ...overrides }: PreviewPromptParams) => {
+      let init: RequestInit;
+      if ('file' in sample) {
+        const formData = new FormData();
+        formData.append('file', sample.file);
+        for (const [field, value] of Object.entries(overrides)) {
+          if (value) {
+            formData.append(field, value);
+          }
+        }
+        init = { method: 'POST', body: formData };
+      } else {
+        init = {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...overrides, text: sample.text }),
+        };
+      }
+
+      const res = await apiFetch(`/api/prompts/${domain}/preview`, init);
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to preview prompt');
+      }
+      return res.json() as Promise<PreviewPromptResult>;
+    },
+  });
+}
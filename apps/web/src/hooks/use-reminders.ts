@@ -0,0 +1,210 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export type ReminderStatus = 'ok' | 'upcoming' | 'due' | 'overdue';
+
+/**
+ * An explicit cadence of a category (disabled = muted)
+ */
+export interface Reminder {
+  id: string;
+  recordType: string;
+  category: string;
+  categoryKey: string;
+  intervalDays: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReminderInput = Pick<Reminder, 'recordType' | 'category' | 'intervalDays' | 'enabled'>;
+
+/**
+ * When the next record of a category is expected
+ */
+export interface ReminderItem {
+  /** Explicit reminder (null when the cadence is inferred) */
+  id: string | null;
+  recordType: string;
+  category: string;
+  categoryKey: string;
+  source: 'explicit' | 'inferred';
+  intervalDays: number;
+  /** Name of the cadence (e.g., "quarterly") when the interval is a named one */
+  cadence: string | null;
+  recordCount: number;
+  lastDate: string | null;
+  dueDate: string;
+  /** Negative once the due date has passed */
+  daysUntilDue: number;
+  status: ReminderStatus;
+}
+
+export interface RemindersData {
+  /** Soonest first */
+  items: ReminderItem[];
+  reminders: Reminder[];
+}
+
+export interface CalendarFeed {
+  enabled: boolean;
+  createdAt: string | null;
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the due dates of the periodic categories and the explicit reminders
+ */
+export function useReminders() {
+  return useQuery({
+    queryKey: ['reminders', 'list'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/reminders');
+      if (!res.ok) {
+        throw new Error('Failed to fetch reminders');
+      }
+      const json = (await res.json()) as { success: boolean; data: RemindersData };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Set the cadence of a category explicitly (or mute it with enabled: false)
+ */
+export function useCreateReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ReminderInput) => {
+      const res = await apiFetch('/api/reminders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to create reminder');
+      }
+      const json = (await res.json()) as { success: boolean; data: Reminder };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'list'] });
+    },
+  });
+}
+
+/**
+ * Update a reminder
+ */
+export function useUpdateReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: Partial<ReminderInput> & { id: string }) => {
+      const res = await apiFetch(`/api/reminders/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to update reminder');
+      }
+      const json = (await res.json()) as { success: boolean; data: Reminder };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'list'] });
+    },
+  });
+}
+
+/**
+ * Delete a reminder (the category's cadence is inferred again)
+ */
+export function useDeleteReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiFetch(`/api/reminders/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to delete reminder');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'list'] });
+    },
+  });
+}
+
+/**
+ * Fetch whether the calendar feed exists
+ */
+export function useCalendarFeed() {
+  return useQuery({
+    queryKey: ['reminders', 'feed'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/reminders/feed');
+      if (!res.ok) {
+        throw new Error('Failed to fetch calendar feed');
+      }
+      const json = (await res.json()) as { success: boolean; data: CalendarFeed };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Create the calendar feed URL, revoking the previous one (the URL is only returned here)
+ */
+export function useCreateCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiFetch('/api/reminders/feed', { method: 'POST' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to create calendar feed');
+      }
+      const json = (await res.json()) as { success: boolean; data: { url: string } };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'feed'] });
+    },
+  });
+}
+
+/**
+ * Revoke the calendar feed URL
+ */
+export function useDeleteCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiFetch('/api/reminders/feed', { method: 'DELETE' });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to revoke calendar feed');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminders', 'feed'] });
+    },
+  });
+}
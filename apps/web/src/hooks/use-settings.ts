@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export type ModelTask = 'vision' | 'reasoning' | 'advanced';
+
+export interface ProviderStatus {
+  id: string;
+  /** Whether the server has an API key for the provider */
+  configured: boolean;
+  /** Model used for each task when no model is chosen */
+  defaultModels: Record<ModelTask, string>;
+}
+
+export interface ProviderSettings {
+  /** Provider used when the user has no preference (DEFAULT_PROVIDER or the first configured) */
+  defaultProvider: string;
+  /** Providers tried in order when a call fails */
+  fallbackProviders: string[];
+  providers: ProviderStatus[];
+}
+
+export interface ModelPreference {
+  provider: string;
+  /** Model ID (null = the provider's default model for the task) */
+  modelId: string | null;
+}
+
+/** null = the configured default provider */
+export type ModelPreferences = Record<ModelTask, ModelPreference | null>;
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch the supported providers and which ones are configured
+ */
+export function useProviders() {
+  return useQuery({
+    queryKey: ['settings', 'providers'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/settings/providers');
+      if (!res.ok) {
+        throw new Error('Failed to fetch providers');
+      }
+      const json = (await res.json()) as { success: boolean; data: ProviderSettings };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Fetch the user's model preferences
+ */
+export function useModelPreferences() {
+  return useQuery({
+    queryKey: ['settings', 'models'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/settings/models');
+      if (!res.ok) {
+        throw new Error('Failed to fetch model preferences');
+      }
+      const json = (await res.json()) as { success: boolean; data: ModelPreferences };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Save the user's model preferences (omitted tasks are left unchanged)
+ */
+export function useSaveModelPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (preferences: Partial<ModelPreferences>) => {
+      const res = await apiFetch('/api/settings/models', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferences),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(
+          (err as { message?: string }).message || 'Failed to save model preferences',
+        );
+      }
+      const json = (await res.json()) as { success: boolean; data: ModelPreferences };
+      return json.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['settings', 'models'], data);
+    },
+  });
+}
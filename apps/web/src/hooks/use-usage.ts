@@ -0,0 +1,91 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+// ========================================
+// Types
+// ========================================
+
+export interface DailyUsage {
+  date: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface ModelUsageSummary {
+  provider: string;
+  modelId: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Calls of models without a known price (not included in costUsd) */
+  unpricedCalls: number;
+}
+
+export interface BudgetStatus {
+  /** null = no budget */
+  monthlyLimitUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+  periodStart: string;
+}
+
+export interface UsageReport {
+  startDate: string;
+  endDate: string;
+  daily: DailyUsage[];
+  byModel: ModelUsageSummary[];
+  totals: { calls: number; inputTokens: number; outputTokens: number; costUsd: number };
+  budget: BudgetStatus;
+}
+
+// ========================================
+// Hooks
+// ========================================
+
+/**
+ * Fetch AI usage of the last `days` days (daily aggregates, per model, budget status)
+ */
+export function useUsage(days = 30) {
+  return useQuery({
+    queryKey: ['usage', days],
+    queryFn: async () => {
+      const res = await apiFetch(`/api/usage?days=${days}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch usage');
+      }
+      const json = (await res.json()) as { success: boolean; data: UsageReport };
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Set the monthly AI budget (null removes it)
+ */
+export function useSetBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (monthlyLimitUsd: number | null) => {
+      const res = await apiFetch('/api/usage/budget', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ monthlyLimitUsd }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error((err as { message?: string }).message || 'Failed to set budget');
+      }
+      const json = (await res.json()) as { success: boolean; data: BudgetStatus };
+      return json.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['usage'] });
+    },
+  });
+}
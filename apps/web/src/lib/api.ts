@@ -6,11 +6,41 @@
 export const API_BASE = import.meta.env.VITE_API_BASE_URL || '';
 
 /**
- * Wrapper around fetch that automatically prepends the API base URL.
+ * localStorage key holding the session token returned by /api/auth/login
+ */
+const AUTH_TOKEN_KEY = 'ai-chart:session-token';
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+}
+
+export function setAuthToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+}
+
+/**
+ * Authorization header for the current session (empty when logged out)
+ */
+export function authHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Wrapper around fetch that automatically prepends the API base URL
+ * and attaches the session token.
  * Usage is identical to native fetch:
  *   apiFetch('/api/records')
  *   apiFetch('/api/records/123', { method: 'DELETE' })
  */
 export function apiFetch(path: string, init?: RequestInit): Promise<Response> {
-  return fetch(`${API_BASE}${path}`, init);
+  const headers = new Headers(init?.headers);
+  for (const [name, value] of Object.entries(authHeaders())) {
+    headers.set(name, value);
+  }
+  return fetch(`${API_BASE}${path}`, { ...init, headers });
 }
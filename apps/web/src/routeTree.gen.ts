@@ -9,14 +9,56 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as SpendingRouteImport } from './routes/spending'
+import { Route as ReviewRouteImport } from './routes/review'
+import { Route as LoginRouteImport } from './routes/login'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as SettingsIndexRouteImport } from './routes/settings.index'
+import { Route as SettingsRemindersRouteImport } from './routes/settings.reminders'
+import { Route as SettingsPromptsRouteImport } from './routes/settings.prompts'
+import { Route as SettingsAlertsRouteImport } from './routes/settings.alerts'
 import { Route as ChatChatIdRouteImport } from './routes/chat.$chatId'
 
+const SpendingRoute = SpendingRouteImport.update({
+  id: '/spending',
+  path: '/spending',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ReviewRoute = ReviewRouteImport.update({
+  id: '/review',
+  path: '/review',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LoginRoute = LoginRouteImport.update({
+  id: '/login',
+  path: '/login',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SettingsIndexRoute = SettingsIndexRouteImport.update({
+  id: '/settings/',
+  path: '/settings/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SettingsRemindersRoute = SettingsRemindersRouteImport.update({
+  id: '/settings/reminders',
+  path: '/settings/reminders',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SettingsPromptsRoute = SettingsPromptsRouteImport.update({
+  id: '/settings/prompts',
+  path: '/settings/prompts',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SettingsAlertsRoute = SettingsAlertsRouteImport.update({
+  id: '/settings/alerts',
+  path: '/settings/alerts',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ChatChatIdRoute = ChatChatIdRouteImport.update({
   id: '/chat/$chatId',
   path: '/chat/$chatId',
@@ -25,32 +67,109 @@ const ChatChatIdRoute = ChatChatIdRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/login': typeof LoginRoute
+  '/review': typeof ReviewRoute
+  '/spending': typeof SpendingRoute
   '/chat/$chatId': typeof ChatChatIdRoute
+  '/settings/alerts': typeof SettingsAlertsRoute
+  '/settings/prompts': typeof SettingsPromptsRoute
+  '/settings/reminders': typeof SettingsRemindersRoute
+  '/settings': typeof SettingsIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/login': typeof LoginRoute
+  '/review': typeof ReviewRoute
+  '/spending': typeof SpendingRoute
   '/chat/$chatId': typeof ChatChatIdRoute
+  '/settings/alerts': typeof SettingsAlertsRoute
+  '/settings/prompts': typeof SettingsPromptsRoute
+  '/settings/reminders': typeof SettingsRemindersRoute
+  '/settings': typeof SettingsIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/login': typeof LoginRoute
+  '/review': typeof ReviewRoute
+  '/spending': typeof SpendingRoute
   '/chat/$chatId': typeof ChatChatIdRoute
+  '/settings/alerts': typeof SettingsAlertsRoute
+  '/settings/prompts': typeof SettingsPromptsRoute
+  '/settings/reminders': typeof SettingsRemindersRoute
+  '/settings/': typeof SettingsIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/chat/$chatId'
+  fullPaths:
+    | '/'
+    | '/login'
+    | '/review'
+    | '/spending'
+    | '/chat/$chatId'
+    | '/settings/alerts'
+    | '/settings/prompts'
+    | '/settings/reminders'
+    | '/settings'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/chat/$chatId'
-  id: '__root__' | '/' | '/chat/$chatId'
+  to:
+    | '/'
+    | '/login'
+    | '/review'
+    | '/spending'
+    | '/chat/$chatId'
+    | '/settings/alerts'
+    | '/settings/prompts'
+    | '/settings/reminders'
+    | '/settings'
+  id:
+    | '__root__'
+    | '/'
+    | '/login'
+    | '/review'
+    | '/spending'
+    | '/chat/$chatId'
+    | '/settings/alerts'
+    | '/settings/prompts'
+    | '/settings/reminders'
+    | '/settings/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  LoginRoute: typeof LoginRoute
+  ReviewRoute: typeof ReviewRoute
+  SpendingRoute: typeof SpendingRoute
   ChatChatIdRoute: typeof ChatChatIdRoute
+  SettingsAlertsRoute: typeof SettingsAlertsRoute
+  SettingsPromptsRoute: typeof SettingsPromptsRoute
+  SettingsRemindersRoute: typeof SettingsRemindersRoute
+  SettingsIndexRoute: typeof SettingsIndexRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/spending': {
+      id: '/spending'
+      path: '/spending'
+      fullPath: '/spending'
+      preLoaderRoute: typeof SpendingRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/review': {
+      id: '/review'
+      path: '/review'
+      fullPath: '/review'
+      preLoaderRoute: typeof ReviewRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/login': {
+      id: '/login'
+      path: '/login'
+      fullPath: '/login'
+      preLoaderRoute: typeof LoginRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -58,6 +177,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/settings/': {
+      id: '/settings/'
+      path: '/settings'
+      fullPath: '/settings'
+      preLoaderRoute: typeof SettingsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/settings/reminders': {
+      id: '/settings/reminders'
+      path: '/settings/reminders'
+      fullPath: '/settings/reminders'
+      preLoaderRoute: typeof SettingsRemindersRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/settings/prompts': {
+      id: '/settings/prompts'
+      path: '/settings/prompts'
+      fullPath: '/settings/prompts'
+      preLoaderRoute: typeof SettingsPromptsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/settings/alerts': {
+      id: '/settings/alerts'
+      path: '/settings/alerts'
+      fullPath: '/settings/alerts'
+      preLoaderRoute: typeof SettingsAlertsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/chat/$chatId': {
       id: '/chat/$chatId'
       path: '/chat/$chatId'
@@ -70,7 +217,14 @@ declare module '@tanstack/react-router' {
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  LoginRoute: LoginRoute,
+  ReviewRoute: ReviewRoute,
+  SpendingRoute: SpendingRoute,
   ChatChatIdRoute: ChatChatIdRoute,
+  SettingsAlertsRoute: SettingsAlertsRoute,
+  SettingsPromptsRoute: SettingsPromptsRoute,
+  SettingsRemindersRoute: SettingsRemindersRoute,
+  SettingsIndexRoute: SettingsIndexRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
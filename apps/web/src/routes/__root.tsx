@@ -1,9 +1,11 @@
-import { createRootRoute } from '@tanstack/react-router';
+import { createRootRoute, Navigate, Outlet, useLocation } from '@tanstack/react-router';
 import { TanStackRouterDevtools } from '@tanstack/router-devtools';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
+import { Loader2 } from 'lucide-react';
 import { AppShell } from '@/components/layout/app-shell';
 import { CanvasProvider } from '@/context/canvas-context';
+import { useCurrentUser } from '@/hooks/use-auth';
 
 const queryClient = new QueryClient();
 
@@ -11,10 +13,36 @@ export const Route = createRootRoute({
   component: () => (
     <QueryClientProvider client={queryClient}>
       <CanvasProvider>
-        <AppShell />
+        <AuthGate />
         <TanStackRouterDevtools />
         <ReactQueryDevtools initialIsOpen={false} />
       </CanvasProvider>
     </QueryClientProvider>
   ),
 });
+
+/**
+ * Renders the app shell for logged-in users and redirects everyone else to /login
+ */
+function AuthGate() {
+  const location = useLocation();
+  const { data: user, isLoading } = useCurrentUser();
+
+  if (location.pathname === '/login') {
+    return user ? <Navigate to="/" /> : <Outlet />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" />;
+  }
+
+  return <AppShell />;
+}
@@ -1,10 +1,14 @@
-import { createFileRoute } from '@tanstack/react-router';
+import { useEffect } from 'react';
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
 import { useChat } from '@ai-sdk/react';
-import { DefaultChatTransport } from 'ai';
+import { useQueryClient } from '@tanstack/react-query';
+import { DefaultChatTransport, type UIMessage } from 'ai';
+import { Loader2 } from 'lucide-react';
 import { useCanvas } from '@/context/canvas-context';
 import { MessageList } from '@/components/chat/message-list';
 import { ChatInput } from '@/components/chat/chat-input';
-import { API_BASE } from '@/lib/api';
+import { useChatSession, type ChatCanvasState } from '@/hooks/use-chats';
+import { API_BASE, authHeaders } from '@/lib/api';
 
 /** Shape of the render_ui tool output (defined in server/ai/tools.ts) */
 interface RenderUIOutput {
@@ -18,14 +22,72 @@ export const Route = createFileRoute('/chat/$chatId')({
   component: ChatPage,
 });
 
+/** Placeholder id used by the "New Chat" link; replaced with a fresh id on arrival */
+const NEW_CHAT_ID = 'new';
+
 function ChatPage() {
   const { chatId } = Route.useParams();
-  const { openCanvas } = useCanvas();
+  const navigate = useNavigate();
+  const isNew = chatId === NEW_CHAT_ID;
+  const { data: session, isLoading } = useChatSession(chatId, !isNew);
+
+  useEffect(() => {
+    if (isNew) {
+      navigate({
+        to: '/chat/$chatId',
+        params: { chatId: crypto.randomUUID() },
+        replace: true,
+      });
+    }
+  }, [isNew, navigate]);
+
+  if (isNew || isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <ChatSessionView
+      key={chatId}
+      chatId={chatId}
+      initialMessages={session?.messages ?? []}
+      canvasState={session?.canvasState ?? null}
+    />
+  );
+}
 
-  const { messages, sendMessage, status } = useChat({
+interface ChatSessionViewProps {
+  chatId: string;
+  initialMessages: UIMessage[];
+  canvasState: ChatCanvasState | null;
+}
+
+function ChatSessionView({ chatId, initialMessages, canvasState }: ChatSessionViewProps) {
+  const queryClient = useQueryClient();
+  const { openCanvas, closeCanvas } = useCanvas();
+
+  // Restore the Canvas of a reopened chat (or clear the previous chat's Canvas)
+  useEffect(() => {
+    if (canvasState) {
+      openCanvas(canvasState.contentType, canvasState.data);
+    } else {
+      closeCanvas();
+    }
+  }, [chatId]);
+
+  const { messages, sendMessage, status, error } = useChat({
     id: chatId,
-    transport: new DefaultChatTransport({ api: `${API_BASE}/api/chat` }),
+    messages: initialMessages,
+    transport: new DefaultChatTransport({ api: `${API_BASE}/api/chat`, headers: authHeaders }),
     onFinish: ({ message }) => {
+      // The server persisted the turn: refresh the history sidebar and cached session
+      queryClient.invalidateQueries({ queryKey: ['chats'] });
+      queryClient.invalidateQueries({ queryKey: ['chat', chatId] });
+      queryClient.invalidateQueries({ queryKey: ['usage'] });
+
       // Check for render_ui tool call results in the message parts
       for (const part of message.parts) {
         if (
@@ -66,8 +128,20 @@ function ChatPage() {
       </div>
 
       <div className="w-full max-w-3xl mx-auto">
+        {error && <p className="px-4 pt-2 text-xs text-destructive">{getErrorMessage(error)}</p>}
         <ChatInput onSend={handleSend} disabled={isLoading} />
       </div>
     </div>
   );
 }
+
+/**
+ * Message of a failed chat request (the transport's error holds the JSON response body)
+ */
+function getErrorMessage(error: Error) {
+  try {
+    return (JSON.parse(error.message) as { message?: string }).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
@@ -5,11 +5,17 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useRecords, type RecordFilters } from '@/hooks/use-dashboard';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useDomains } from '@/hooks/use-domains';
+import { useRecordsSummary } from '@/hooks/use-analytics';
 import { StatsSummary } from '@/components/dashboard/stats-summary';
 import { FiltersBar } from '@/components/dashboard/filters-bar';
 import { RecordsTable } from '@/components/dashboard/records-table';
 import { RecordsList } from '@/components/dashboard/records-list';
 import { RecordDetail } from '@/components/dashboard/record-detail';
+import { DomainCharts } from '@/components/dashboard/domain-charts';
+import { UsageWidget } from '@/components/dashboard/usage-widget';
+import { BudgetsWidget } from '@/components/dashboard/budget-progress';
+import { RemindersWidget } from '@/components/dashboard/reminders-widget';
 
 export const Route = createFileRoute('/')({
   component: DashboardPage,
@@ -35,11 +41,28 @@ function DashboardPage() {
   const currentPage = Math.floor((filters.offset ?? 0) / PAGE_SIZE) + 1;
   const totalPages = Math.ceil(total / PAGE_SIZE);
 
-  // Derive unique categories from the loaded records for filter dropdown
+  const { data: domains = [] } = useDomains();
+  const { data: summary } = useRecordsSummary();
+
+  // Charts of the filtered domain, or of every domain with records
+  const chartDomains = useMemo(
+    () =>
+      domains.filter((domain) =>
+        filters.type
+          ? domain.id === filters.type
+          : summary?.types.some((t) => t.type === domain.id),
+      ),
+    [domains, filters.type, summary],
+  );
+
+  // Categories of the filtered domain plus those of the loaded records, for the filter dropdown
   const categories = useMemo(() => {
     const cats = new Set(records.map((r) => r.category));
+    for (const category of domains.find((d) => d.id === filters.type)?.categories ?? []) {
+      cats.add(category);
+    }
     return [...cats].sort();
-  }, [records]);
+  }, [records, domains, filters.type]);
 
   // Handlers
   const handleView = (id: string) => {
@@ -74,12 +97,24 @@ function DashboardPage() {
       <div>
         <h1 className="text-2xl md:text-3xl font-bold">Dashboard</h1>
         <p className="text-sm text-muted-foreground mt-1">
-          View and manage all your health & finance records
+          View and manage all your records — health, finance and every other tracked domain
         </p>
       </div>
 
       {/* Stats */}
-      {!isLoading && records.length > 0 && <StatsSummary records={records} total={total} />}
+      <StatsSummary type={filters.type} />
+
+      {/* Default charts of the shown domains */}
+      {!isLoading && <DomainCharts domains={chartDomains} />}
+
+      {/* Periodic checkups and bills that are due */}
+      <RemindersWidget />
+
+      {/* Category budgets of the month */}
+      <BudgetsWidget />
+
+      {/* AI spending against the monthly budget */}
+      <UsageWidget />
 
       {/* Filters + Table */}
       <Card className="gap-0">
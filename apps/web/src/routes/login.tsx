@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useLogin, useRegister } from '@/hooks/use-auth';
+
+export const Route = createFileRoute('/login')({
+  component: LoginPage,
+});
+
+function LoginPage() {
+  const navigate = useNavigate();
+  const loginMutation = useLogin();
+  const registerMutation = useRegister();
+
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const mutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'login') {
+      await loginMutation.mutateAsync({ email, password });
+    } else {
+      await registerMutation.mutateAsync({ name, email, password });
+    }
+    navigate({ to: '/' });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-sm">
+        <form onSubmit={(e) => handleSubmit(e).catch(() => undefined)}>
+          <CardHeader>
+            <CardTitle>{mode === 'login' ? 'Sign in to AI-Chart' : 'Create an account'}</CardTitle>
+            <CardDescription>
+              {mode === 'login'
+                ? 'Your records are private to your account.'
+                : 'Each household member gets their own private records.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {mode === 'register' && (
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoComplete="name"
+                  required
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                minLength={mode === 'register' ? 8 : undefined}
+                required
+              />
+            </div>
+            {mutation.error && <p className="text-sm text-destructive">{mutation.error.message}</p>}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-2 pt-6">
+            <Button type="submit" className="w-full" disabled={mutation.isPending}>
+              {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {mode === 'login' ? 'Sign in' : 'Create account'}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
+            >
+              {mode === 'login' ? 'No account yet? Register' : 'Already have an account? Sign in'}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useMemo, useRef, useState } from 'react';
+import { createFileRoute } from '@tanstack/react-router';
+import { Loader2, Upload, Inbox } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDrafts, useUploadDocument } from '@/hooks/use-drafts';
+import { useDomains } from '@/hooks/use-domains';
+import { DraftGroup } from '@/components/dashboard/draft-group';
+
+export const Route = createFileRoute('/review')({
+  component: ReviewPage,
+});
+
+function ReviewPage() {
+  const { data: drafts = [], isLoading, error } = useDrafts();
+  const uploadMutation = useUploadDocument();
+  const { data: domains = [] } = useDomains();
+
+  // Drafts extracted from the same upload are reviewed (and can be approved) together
+  const groups = useMemo(() => {
+    const byUpload = new Map<string, typeof drafts>();
+    for (const draft of drafts) {
+      const key = draft.contentHash ?? draft.id;
+      byUpload.set(key, [...(byUpload.get(key) ?? []), draft]);
+    }
+    return [...byUpload.entries()];
+  }, [drafts]);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadType, setUploadType] = useState('health');
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      uploadMutation.mutate({ type: uploadType, file });
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col gap-4 p-4 md:p-6 max-w-6xl mx-auto w-full">
+      {/* Page header */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Review</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Check extracted data against the original document before it becomes a record
+          </p>
+        </div>
+
+        {/* Upload */}
+        <div className="flex items-center gap-2">
+          <Select value={uploadType} onValueChange={setUploadType}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {domains.map((domain) => (
+                <SelectItem key={domain.id} value={domain.id}>
+                  {domain.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            className="gap-1"
+          >
+            {uploadMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4" />
+            )}
+            Upload document
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/webp,application/pdf"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+      </div>
+
+      {uploadMutation.error && (
+        <p className="text-sm text-destructive">{uploadMutation.error.message}</p>
+      )}
+      {uploadMutation.data && (
+        <p className="text-sm text-muted-foreground">
+          {uploadMutation.data.message}
+          {uploadMutation.data.provider && (
+            <span className="text-xs">
+              {' '}
+              · extracted by {uploadMutation.data.provider}/{uploadMutation.data.model}
+            </span>
+          )}
+        </p>
+      )}
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {/* Error state */}
+      {error && (
+        <div className="flex flex-col items-center justify-center py-12 text-destructive">
+          <p className="text-sm">Failed to load drafts</p>
+          <p className="text-xs mt-1">{error.message}</p>
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && !error && drafts.length === 0 && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <Inbox className="h-8 w-8 mb-2" />
+            <p className="text-sm">Nothing to review</p>
+            <p className="text-xs mt-1">Uploaded documents appear here after extraction</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {groups.map(([key, group]) => (
+        <DraftGroup key={key} drafts={group} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { Loader2 } from 'lucide-react';
+import { useNotificationSettings } from '@/hooks/use-notifications';
+import { AlertRulesManager } from '@/components/settings/alert-rules-manager';
+import { WebhookForm } from '@/components/settings/webhook-form';
+
+export const Route = createFileRoute('/settings/alerts')({
+  component: AlertsSettingsPage,
+});
+
+function AlertsSettingsPage() {
+  const { data: settings, isLoading, error } = useNotificationSettings();
+
+  return (
+    <div className="flex flex-col gap-4 p-4 md:p-6 max-w-4xl mx-auto w-full">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Alerts</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Get notified about abnormal or worsening results
+        </p>
+      </div>
+
+      <AlertRulesManager />
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {/* Error state */}
+      {error && (
+        <div className="flex flex-col items-center justify-center py-12 text-destructive">
+          <p className="text-sm">Failed to load notification settings</p>
+          <p className="text-xs mt-1">{error.message}</p>
+        </div>
+      )}
+
+      {settings && <WebhookForm settings={settings} />}
+    </div>
+  );
+}
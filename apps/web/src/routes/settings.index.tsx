@@ -0,0 +1,116 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { ChevronRight, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useModelPreferences, useProviders } from '@/hooks/use-settings';
+import { useUsage } from '@/hooks/use-usage';
+import { ModelPreferencesForm } from '@/components/settings/model-preferences-form';
+import { BudgetForm } from '@/components/settings/budget-form';
+
+export const Route = createFileRoute('/settings/')({
+  component: SettingsPage,
+});
+
+function SettingsPage() {
+  const providers = useProviders();
+  const preferences = useModelPreferences();
+  const usage = useUsage();
+
+  const isLoading = providers.isLoading || preferences.isLoading;
+  const error = providers.error ?? preferences.error;
+
+  return (
+    <div className="flex flex-col gap-4 p-4 md:p-6 max-w-4xl mx-auto w-full">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Settings</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          AI providers, models, budget, alerts, reminders and extraction prompts
+        </p>
+      </div>
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {/* Error state */}
+      {error && (
+        <div className="flex flex-col items-center justify-center py-12 text-destructive">
+          <p className="text-sm">Failed to load settings</p>
+          <p className="text-xs mt-1">{error.message}</p>
+        </div>
+      )}
+
+      {providers.data && (
+        <Card className="gap-0">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-base">Providers</CardTitle>
+            <CardDescription>
+              Providers are enabled by setting their API key on the server
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {providers.data.providers.map((provider) => (
+              <Badge key={provider.id} variant={provider.configured ? 'default' : 'outline'}>
+                {provider.id}
+                {provider.id === providers.data.defaultProvider && ' · default'}
+                {!provider.configured && ' · not configured'}
+              </Badge>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {providers.data && preferences.data && (
+        <ModelPreferencesForm settings={providers.data} preferences={preferences.data} />
+      )}
+
+      {usage.data && <BudgetForm budget={usage.data.budget} />}
+
+      <Link to="/settings/alerts">
+        <Card className="gap-0 transition-colors hover:bg-muted/50">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="text-base">Alerts</CardTitle>
+              <CardDescription>
+                Rules for abnormal or worsening results, and the webhook they are sent to
+              </CardDescription>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+        </Card>
+      </Link>
+
+      <Link to="/settings/reminders">
+        <Card className="gap-0 transition-colors hover:bg-muted/50">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="text-base">Reminders</CardTitle>
+              <CardDescription>
+                Cadences of recurring checkups and bills, and their calendar feed
+              </CardDescription>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+        </Card>
+      </Link>
+
+      <Link to="/settings/prompts">
+        <Card className="gap-0 transition-colors hover:bg-muted/50">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="text-base">Extraction prompts</CardTitle>
+              <CardDescription>
+                Tailor how documents are read for your labs, banks and other sources
+              </CardDescription>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+        </Card>
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { createFileRoute } from '@tanstack/react-router';
+import { Loader2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { usePrompts } from '@/hooks/use-prompts';
+import { PromptEditor } from '@/components/settings/prompt-editor';
+
+export const Route = createFileRoute('/settings/prompts')({
+  component: PromptsSettingsPage,
+});
+
+function PromptsSettingsPage() {
+  const { data: prompts = [], isLoading, error } = usePrompts();
+  const [domain, setDomain] = useState('health');
+
+  const selected = prompts.find((p) => p.domain === domain) ?? prompts[0];
+
+  return (
+    <div className="flex flex-col gap-4 p-4 md:p-6 max-w-4xl mx-auto w-full">
+      {/* Page header */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Extraction prompts</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Tailor how documents are read for your labs, banks and other sources
+          </p>
+        </div>
+
+        <Select value={selected?.domain} onValueChange={setDomain}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Domain" />
+          </SelectTrigger>
+          <SelectContent>
+            {prompts.map((p) => (
+              <SelectItem key={p.domain} value={p.domain}>
+                {p.label}
+                {p.overrides ? ' (customized)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {/* Error state */}
+      {error && (
+        <div className="flex flex-col items-center justify-center py-12 text-destructive">
+          <p className="text-sm">Failed to load prompts</p>
+          <p className="text-xs mt-1">{error.message}</p>
+        </div>
+      )}
+
+      {selected && <PromptEditor key={selected.domain} prompts={selected} />}
+    </div>
+  );
+}
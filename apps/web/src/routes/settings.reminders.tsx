@@ -0,0 +1,25 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { ReminderManager } from '@/components/settings/reminder-manager';
+import { CalendarFeedForm } from '@/components/settings/calendar-feed-form';
+
+export const Route = createFileRoute('/settings/reminders')({
+  component: RemindersSettingsPage,
+});
+
+function RemindersSettingsPage() {
+  return (
+    <div className="flex flex-col gap-4 p-4 md:p-6 max-w-4xl mx-auto w-full">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Reminders</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Recurring checkups, tests and bills, and when the next one is due
+        </p>
+      </div>
+
+      <ReminderManager />
+
+      <CalendarFeedForm />
+    </div>
+  );
+}
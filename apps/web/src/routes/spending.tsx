@@ -0,0 +1,246 @@
+import { useMemo, useState } from 'react';
+import { createFileRoute } from '@tanstack/react-router';
+import { Loader2, Wallet } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useSpendingBreakdown, type AnalyticsGroupBy } from '@/hooks/use-analytics';
+import {
+  CategoryDonut,
+  SpendingBarChart,
+  formatCategory,
+  formatMoney,
+} from '@/components/dashboard/spending-charts';
+import { BudgetManager } from '@/components/dashboard/budget-manager';
+
+export const Route = createFileRoute('/spending')({
+  component: SpendingPage,
+});
+
+/** Months back from today; 0 = whole history */
+const RANGE_OPTIONS = [
+  { value: '3', label: 'Last 3 months' },
+  { value: '6', label: 'Last 6 months' },
+  { value: '12', label: 'Last 12 months' },
+  { value: '0', label: 'All time' },
+];
+
+/** Category of spending without a categoryTag (see the spending service) */
+const UNCATEGORIZED = 'uncategorized';
+
+const GROUP_BY_OPTIONS: Array<{ value: AnalyticsGroupBy; label: string }> = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+  { value: 'year', label: 'Yearly' },
+];
+
+function formatChange(change: number | null) {
+  if (change === null) {
+    return '—';
+  }
+  return `${change > 0 ? '+' : ''}${change.toFixed(0)}%`;
+}
+
+function SummaryCard({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <Card className="py-4 gap-2">
+      <CardContent>
+        <p className="text-2xl font-bold leading-none">{value}</p>
+        <p className="text-xs text-muted-foreground mt-1">{label}</p>
+        {sub && <p className="text-[10px] text-muted-foreground truncate">{sub}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SpendingPage() {
+  const [range, setRange] = useState('6');
+  const [groupBy, setGroupBy] = useState<AnalyticsGroupBy>('month');
+
+  const startDate = useMemo(() => {
+    const months = Number(range);
+    if (months === 0) {
+      return undefined;
+    }
+    const now = new Date();
+    return new Date(Date.UTC(now.getFullYear(), now.getMonth() - months + 1, 1))
+      .toISOString()
+      .slice(0, 10);
+  }, [range]);
+
+  const { data, isLoading, error } = useSpendingBreakdown({ groupBy, startDate });
+  const mom = data?.monthOverMonth ?? null;
+
+  return (
+    <div className="flex flex-col gap-4 p-4 md:p-6 max-w-6xl mx-auto w-full">
+      {/* Page header */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Spending</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Where your money goes — income and expenses by category and merchant
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={groupBy} onValueChange={(val) => setGroupBy(val as AnalyticsGroupBy)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GROUP_BY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {/* Error state */}
+      {error && (
+        <div className="flex flex-col items-center justify-center py-12 text-destructive">
+          <p className="text-sm">Failed to load spending</p>
+          <p className="text-xs mt-1">{error.message}</p>
+        </div>
+      )}
+
+      {/* Empty state */}
+      {data && data.periods.length === 0 && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <Wallet className="h-8 w-8 mb-2" />
+            <p className="text-sm">No income or expenses in this range</p>
+            <p className="text-xs mt-1">
+              Upload receipts, invoices or bank statements to see them here
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {data && data.periods.length > 0 && (
+        <>
+          {/* Totals */}
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+            <SummaryCard label="Income" value={formatMoney(data.totals.income, data.currency)} />
+            <SummaryCard label="Expense" value={formatMoney(data.totals.expense, data.currency)} />
+            <SummaryCard label="Net" value={formatMoney(data.totals.net, data.currency)} />
+            <SummaryCard
+              label={mom ? `Spending ${mom.month} vs ${mom.previousMonth}` : 'Month over month'}
+              value={mom ? formatChange(mom.change) : '—'}
+              sub={mom ? formatMoney(mom.expense, data.currency) : undefined}
+            />
+          </div>
+          {data.excludedOtherCurrencies > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {data.excludedOtherCurrencies} amount{data.excludedOtherCurrencies !== 1 ? 's' : ''}{' '}
+              in other currencies not included
+            </p>
+          )}
+
+          {/* Charts */}
+          <div className="grid gap-3 md:grid-cols-[2fr_1fr]">
+            <SpendingBarChart data={data} />
+            <CategoryDonut data={data} />
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            {/* Top merchants */}
+            <Card className="gap-0">
+              <CardHeader className="pb-4">
+                <CardTitle className="text-base">Top merchants</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2 text-sm">
+                  {data.merchants.map((merchant) => (
+                    <li key={merchant.merchant} className="flex items-center gap-2">
+                      <span className="flex-1 truncate">{merchant.merchant}</span>
+                      <span className="text-xs text-muted-foreground">{merchant.count}×</span>
+                      <span className="w-24 text-right font-medium">
+                        {formatMoney(merchant.amount, data.currency)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            {/* Month over month by category */}
+            {mom && (
+              <Card className="gap-0">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-base">
+                    {mom.month} vs {mom.previousMonth}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2 text-sm">
+                    {mom.categories.map((category) => (
+                      <li key={category.categoryTag} className="flex items-center gap-2">
+                        <span className="flex-1 truncate">
+                          {formatCategory(category.categoryTag)}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {formatMoney(category.previousAmount, data.currency)} →
+                        </span>
+                        <span className="w-24 text-right font-medium">
+                          {formatMoney(category.amount, data.currency)}
+                        </span>
+                        <span
+                          className={cn(
+                            'w-14 text-right text-xs',
+                            category.change !== null && category.change > 0
+                              ? 'text-destructive'
+                              : 'text-muted-foreground',
+                          )}
+                        >
+                          {formatChange(category.change)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Budgets per category */}
+      {!isLoading && (
+        <BudgetManager
+          categories={(data?.categories ?? [])
+            .map((category) => category.categoryTag)
+            .filter((categoryTag) => categoryTag !== UNCATEGORIZED)}
+          defaultCurrency={data?.currency}
+        />
+      )}
+    </div>
+  );
+}
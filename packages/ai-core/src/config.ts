@@ -4,21 +4,29 @@
  */
 
 /**
- * Supported AI providers
+ * Supported AI providers (in auto-detection order)
  */
-export type ModelProvider =
-  | 'google'
-  | 'openai'
-  | 'anthropic'
-  | 'deepseek'
-  | 'openrouter'
-  | 'cloudflare';
+export const MODEL_PROVIDERS = [
+  'google',
+  'openai',
+  'anthropic',
+  'deepseek',
+  'openrouter',
+  'cloudflare',
+] as const;
+
+/**
+ * Supported AI provider
+ */
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
 
 /**
  * AI Provider Configuration
  */
 export interface AIConfig {
   defaultProvider: ModelProvider;
+  /** Providers tried in order when a model call fails (see runWithFallback) */
+  fallbackProviders: ModelProvider[];
   google: {
     apiKey: string;
   };
@@ -46,6 +54,7 @@ export interface AIConfig {
  */
 export interface AIEnvironment {
   DEFAULT_PROVIDER?: string;
+  FALLBACK_PROVIDERS?: string;
   GOOGLE_GENERATIVE_AI_API_KEY?: string;
   OPENAI_API_KEY?: string;
   ANTHROPIC_API_KEY?: string;
@@ -85,6 +94,7 @@ export function getAIConfig(env: AIEnvironment): AIConfig {
 
   return {
     defaultProvider,
+    fallbackProviders: getFallbackProviders(env, defaultProvider),
     google: {
       apiKey: env.GOOGLE_GENERATIVE_AI_API_KEY || '',
     },
@@ -108,13 +118,47 @@ export function getAIConfig(env: AIEnvironment): AIConfig {
   };
 }
 
+/**
+ * Determine the provider fallback chain
+ * FALLBACK_PROVIDERS (comma-separated, e.g. "google,openai,openrouter") wins when set;
+ * otherwise the default provider is followed by every other provider with an API key,
+ * in auto-detection order. Cloudflare needs a runtime binding, so it is only used when
+ * listed explicitly.
+ */
+function getFallbackProviders(env: AIEnvironment, defaultProvider: ModelProvider): ModelProvider[] {
+  const configured = env.FALLBACK_PROVIDERS?.split(',')
+    .map((provider) => provider.trim())
+    .filter(isValidProvider) as ModelProvider[] | undefined;
+
+  if (configured && configured.length > 0) {
+    return [...new Set(configured)];
+  }
+
+  const detected: ModelProvider[] = [];
+  if (env.GOOGLE_GENERATIVE_AI_API_KEY) {
+    detected.push('google');
+  }
+  if (env.OPENAI_API_KEY) {
+    detected.push('openai');
+  }
+  if (env.ANTHROPIC_API_KEY) {
+    detected.push('anthropic');
+  }
+  if (env.DEEPSEEK_API_KEY) {
+    detected.push('deepseek');
+  }
+  if (env.OPENROUTER_API_KEY) {
+    detected.push('openrouter');
+  }
+
+  return [defaultProvider, ...detected.filter((provider) => provider !== defaultProvider)];
+}
+
 /**
  * Check if a string is a valid provider
  */
-function isValidProvider(provider: string): boolean {
-  return ['google', 'openai', 'anthropic', 'deepseek', 'openrouter', 'cloudflare'].includes(
-    provider,
-  );
+export function isValidProvider(provider: string): provider is ModelProvider {
+  return (MODEL_PROVIDERS as readonly string[]).includes(provider);
 }
 
 /**
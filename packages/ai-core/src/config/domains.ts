@@ -1,21 +1,43 @@
 /**
  * Domain Configuration System
- * Defines extraction prompts and validation rules for different data domains
+ * Extraction prompts per data domain, on top of the shared domain registry
+ * (categories, statuses, dashboard charts). Registering a DomainConfig makes a domain
+ * available everywhere: upload and extraction routes, chat tools, filters and the dashboard.
  */
 
+import {
+  getDomain,
+  listDomains,
+  registerDomainDefinition,
+  type DomainDefinition,
+} from '@ai-chart/shared';
+
 /**
- * Supported data domains
+ * Data domain ID (e.g., "health", "finance"; any registered domain)
  */
-export type DataDomain = 'health' | 'finance';
+export type DataDomain = string;
 
 /**
- * Domain-specific extraction configuration
+ * Domain-specific extraction prompts
  */
-export interface DomainConfig {
-  domain: DataDomain;
+export interface DomainPrompts {
   imagePrompt: string;
   textPrompt: string;
-  categories: string[];
+}
+
+/**
+ * Complete domain configuration: shared definition plus extraction prompts
+ */
+export interface DomainConfig extends DomainDefinition, DomainPrompts {}
+
+/**
+ * Customizations of a domain's prompts (e.g., stored per user)
+ * Empty values keep the built-in prompt; the addendum is appended to both prompts.
+ */
+export interface PromptOverrides {
+  imagePrompt?: string | null;
+  textPrompt?: string | null;
+  addendum?: string | null;
 }
 
 /**
@@ -115,6 +137,7 @@ Provide:
 - type: "finance"
 - category: "transaction" | "statement" | "invoice" | "investment" | "tax" | "other"
 - date: ISO date string (YYYY-MM-DD) from the document
+- title: Merchant or payee for receipts, invoices and single transactions (e.g., "Starbucks"); for statements, the bank and account. Statement transactions use the merchant as their name.
 - summary: Brief description of the financial document
 - items: Array of all extracted financial metrics`;
 
@@ -145,30 +168,248 @@ Output format:
 - type: "finance"
 - category: "transaction" | "statement" | "invoice" | "investment" | "tax" | "other"
 - date: ISO date string
+- title: Merchant or payee for single transactions (e.g., "Starbucks"); for statements, the bank and account. Statement transactions use the merchant as their name.
 - summary: Brief description
 - items: Array of metrics (key, name, value, unit, status)`;
 
 /**
- * Domain configuration registry
+ * Fitness domain extraction prompt for images
+ */
+const FITNESS_IMAGE_PROMPT = `You are a fitness data extraction expert. Extract workout and activity information from the image.
+
+Focus on:
+- Workout summaries from watches and apps (runs, rides, swims, gym sessions)
+- Daily activity summaries (steps, active minutes, calories)
+- Strength training logs (exercises, sets, reps, weights)
+- Body composition scans (weight, body fat, muscle mass)
+
+Extract ALL numerical values with their:
+- key: Short identifier in lowercase with underscores. Use these keys where they apply:
+  "distance", "duration", "calories", "avg_heart_rate", "max_heart_rate", "avg_pace", "steps",
+  "elevation_gain", "weight", "body_fat", "muscle_mass"; for exercises use "<exercise>_weight" / "<exercise>_reps"
+- name: Full human-readable name (e.g., "Distance", "Average Heart Rate", "Bench Press Weight")
+- value: Numerical value (durations in minutes, paces in minutes per km or mile)
+- unit: Unit of measurement (e.g., "km", "min", "kcal", "bpm", "kg", "%")
+- status: "personal_best" or "goal_met"/"goal_missed" when the document says so; "normal"/"high"/"low" against a stated healthy range; otherwise "neutral"
+- reference: Goal or healthy range if shown (e.g., "10000", "18-24") [optional]
+- notes: Any additional context (e.g., "Interval run", "Treadmill") [optional]
+- displayOrder: Sequential number to maintain order
+- categoryTag: Activity type (e.g., "running", "cycling", "swimming", "strength") [optional]
+- parentKey: For exercises of a workout, the workout's key [optional]
+
+Provide:
+- type: "fitness"
+- category: "workout" | "cardio" | "strength" | "activity" | "body_composition" | "other"
+- date: ISO date string (YYYY-MM-DD) of the activity
+- summary: Key value (e.g., distance or duration of the workout)
+- items: Array of all extracted metrics`;
+
+/**
+ * Fitness domain extraction prompt for text
+ */
+const FITNESS_TEXT_PROMPT = `You are a fitness data extraction expert. Extract structured workout and activity data from the provided text.
+
+The text may contain:
+- Workout exports or notes (distance, duration, pace, heart rate)
+- Training logs (exercises, sets, reps, weights)
+- Activity or body composition summaries
+
+Extract ALL numerical fitness metrics with:
+- key: Short identifier in lowercase with underscores ("distance", "duration", "calories", "avg_heart_rate", "steps", "weight", "body_fat", ...)
+- name: Full human-readable name
+- value: Numerical value (durations in minutes)
+- unit: Unit of measurement
+- status: "personal_best" | "goal_met" | "goal_missed" | "normal" | "high" | "low" | "neutral" (default "neutral")
+- reference: Goal or healthy range if provided [optional]
+- notes: Any additional context [optional]
+- displayOrder: Sequential number to maintain order
+- categoryTag: Activity type (e.g., "running", "strength") [optional]
+- parentKey: For exercises of a workout, the workout's key [optional]
+
+Output format:
+- type: "fitness"
+- category: "workout" | "cardio" | "strength" | "activity" | "body_composition" | "other"
+- date: ISO date string
+- summary: Key value
+- items: Array of metrics (key, name, value, unit, status)`;
+
+/**
+ * Utilities domain extraction prompt for images
  */
-export const DOMAIN_CONFIGS: Record<DataDomain, DomainConfig> = {
-  health: {
-    domain: 'health',
-    imagePrompt: HEALTH_IMAGE_PROMPT,
-    textPrompt: HEALTH_TEXT_PROMPT,
-    categories: ['lab', 'vital', 'imaging', 'prescription', 'other'],
-  },
-  finance: {
-    domain: 'finance',
-    imagePrompt: FINANCE_IMAGE_PROMPT,
-    textPrompt: FINANCE_TEXT_PROMPT,
-    categories: ['transaction', 'statement', 'invoice', 'investment', 'tax', 'other'],
-  },
-};
+const UTILITIES_IMAGE_PROMPT = `You are a utility bill and meter reading extraction expert. Extract consumption and billing information from the image.
+
+Focus on:
+- Meter photos (electricity, water, gas, heat meters)
+- Utility bills (usage per period, tariffs, charges, totals)
+- Internet or phone bills (data usage, charges)
+
+Extract ALL numerical values with their:
+- key: Short identifier in lowercase with underscores. Use these keys where they apply:
+  "electricity_reading", "electricity_usage", "water_reading", "water_usage", "gas_reading", "gas_usage",
+  "heating_usage", "data_usage", "unit_price", "standing_charge", "tax", "total"
+- name: Full human-readable name (e.g., "Electricity Usage", "Meter Reading", "Total Due")
+- value: Numerical value
+- unit: Unit of measurement (e.g., "kWh", "m³", "GB", "USD")
+- status: "expense" for charges; "high"/"low" only when the bill compares usage with a previous period; otherwise "neutral"
+- reference: Previous reading or comparison value if shown [optional]
+- notes: Any additional context (e.g., "estimated reading", "billing period 01/03-31/03") [optional]
+- displayOrder: Sequential number to maintain order
+- categoryTag: Utility (e.g., "electricity", "water", "gas") [optional]
+- parentKey: For charges that make up a total, the total's key [optional]
+
+Provide:
+- type: "utilities"
+- category: "electricity" | "water" | "gas" | "heating" | "internet" | "other"
+- date: ISO date string (YYYY-MM-DD) of the reading, or the end of the billing period
+- summary: Key value (usage for the period, or the total due)
+- items: Array of all extracted metrics`;
+
+/**
+ * Utilities domain extraction prompt for text
+ */
+const UTILITIES_TEXT_PROMPT = `You are a utility bill and meter reading extraction expert. Extract structured consumption and billing data from the provided text.
+
+The text may contain:
+- Meter readings typed by the user
+- Bill summaries or e-mails from utility providers
+- CSV exports of usage per period
+
+Extract ALL numerical metrics with:
+- key: Short identifier in lowercase with underscores ("electricity_usage", "water_reading", "gas_usage", "total", ...)
+- name: Full human-readable name
+- value: Numerical value
+- unit: Unit of measurement (e.g., "kWh", "m³", "USD")
+- status: "expense" | "high" | "low" | "neutral" (default "neutral")
+- reference: Previous reading or comparison value if provided [optional]
+- notes: Any additional context [optional]
+- displayOrder: Sequential number to maintain order
+- categoryTag: Utility (e.g., "electricity") [optional]
+- parentKey: For charges that make up a total, the total's key [optional]
+
+Output format:
+- type: "utilities"
+- category: "electricity" | "water" | "gas" | "heating" | "internet" | "other"
+- date: ISO date string
+- summary: Key value
+- items: Array of metrics (key, name, value, unit, status)`;
+
+/**
+ * Vehicle domain extraction prompt for images
+ */
+const VEHICLE_IMAGE_PROMPT = `You are a vehicle maintenance data extraction expert. Extract service, fuel and inspection information from the image.
+
+Focus on:
+- Service and repair invoices (labor, parts, totals)
+- Fuel receipts (volume, price per unit, total)
+- Inspection reports (checked items, tread depth, brake wear)
+- Dashboard photos (odometer, service reminders)
+
+Extract ALL numerical values with their:
+- key: Short identifier in lowercase with underscores. Use these keys where they apply:
+  "odometer", "fuel_volume", "fuel_price", "labor", "parts", "tax", "total", "tire_tread_depth",
+  "brake_pad_thickness", "next_service_km"; for parts use "part_<name>"
+- name: Full human-readable name (e.g., "Odometer", "Fuel Volume", "Oil Filter")
+- value: Numerical value
+- unit: Unit of measurement (e.g., "km", "mi", "L", "gal", "mm", "USD")
+- status: "expense" for amounts paid; "ok"/"due"/"overdue" for inspection items and service reminders; otherwise "neutral"
+- reference: Limit or service interval if shown (e.g., "min 1.6 mm", "every 15000 km") [optional]
+- notes: Any additional context (e.g., "oil change", "front left") [optional]
+- displayOrder: Sequential number to maintain order
+- categoryTag: Service type (e.g., "oil_change", "tires", "brakes", "fuel") [optional]
+- parentKey: For line items, the total's key [optional]
+
+Provide:
+- type: "vehicle"
+- category: "maintenance" | "repair" | "fuel" | "inspection" | "insurance" | "other"
+- date: ISO date string (YYYY-MM-DD) of the service or purchase
+- summary: Key value (e.g., the total paid)
+- items: Array of all extracted metrics`;
+
+/**
+ * Vehicle domain extraction prompt for text
+ */
+const VEHICLE_TEXT_PROMPT = `You are a vehicle maintenance data extraction expert. Extract structured service, fuel and inspection data from the provided text.
+
+The text may contain:
+- Service notes or invoice e-mails
+- Fuel log entries
+- Inspection results
+
+Extract ALL numerical metrics with:
+- key: Short identifier in lowercase with underscores ("odometer", "fuel_volume", "fuel_price", "total", "tire_tread_depth", ...)
+- name: Full human-readable name
+- value: Numerical value
+- unit: Unit of measurement (e.g., "km", "L", "mm", "USD")
+- status: "expense" | "ok" | "due" | "overdue" | "neutral" (default "neutral")
+- reference: Limit or service interval if provided [optional]
+- notes: Any additional context [optional]
+- displayOrder: Sequential number to maintain order
+- categoryTag: Service type (e.g., "oil_change", "fuel") [optional]
+- parentKey: For line items, the total's key [optional]
+
+Output format:
+- type: "vehicle"
+- category: "maintenance" | "repair" | "fuel" | "inspection" | "insurance" | "other"
+- date: ISO date string
+- summary: Key value
+- items: Array of metrics (key, name, value, unit, status)`;
+
+/**
+ * Extraction prompts per domain (the definitions live in the shared domain registry)
+ */
+const DOMAIN_PROMPTS = new Map<DataDomain, DomainPrompts>([
+  ['health', { imagePrompt: HEALTH_IMAGE_PROMPT, textPrompt: HEALTH_TEXT_PROMPT }],
+  ['finance', { imagePrompt: FINANCE_IMAGE_PROMPT, textPrompt: FINANCE_TEXT_PROMPT }],
+  ['fitness', { imagePrompt: FITNESS_IMAGE_PROMPT, textPrompt: FITNESS_TEXT_PROMPT }],
+  ['utilities', { imagePrompt: UTILITIES_IMAGE_PROMPT, textPrompt: UTILITIES_TEXT_PROMPT }],
+  ['vehicle', { imagePrompt: VEHICLE_IMAGE_PROMPT, textPrompt: VEHICLE_TEXT_PROMPT }],
+]);
+
+/**
+ * Register (or replace) a domain with its extraction prompts
+ * @throws Error if the definition is invalid (see registerDomainDefinition)
+ */
+export function registerDomain(config: DomainConfig): void {
+  const { imagePrompt, textPrompt, ...definition } = config;
+  registerDomainDefinition(definition);
+  DOMAIN_PROMPTS.set(config.id, { imagePrompt, textPrompt });
+}
 
 /**
  * Get domain configuration
+ * @param domain - Registered domain ID
+ * @param overrides - Prompt customizations merged over the built-in prompts
+ * @throws Error if the domain is not registered or has no extraction prompts
+ */
+export function getDomainConfig(domain: DataDomain, overrides?: PromptOverrides): DomainConfig {
+  const definition = getDomain(domain);
+  const prompts = DOMAIN_PROMPTS.get(domain);
+  if (!definition || !prompts) {
+    throw new Error(`Unknown domain "${domain}"`);
+  }
+  return { ...definition, ...applyPromptOverrides(prompts, overrides) };
+}
+
+/**
+ * Merge prompt customizations over a domain's prompts
+ */
+function applyPromptOverrides(prompts: DomainPrompts, overrides?: PromptOverrides): DomainPrompts {
+  const addendum = overrides?.addendum?.trim();
+  const withAddendum = (prompt: string) =>
+    addendum ? `${prompt}\n\nAdditional instructions from the user:\n${addendum}` : prompt;
+
+  return {
+    imagePrompt: withAddendum(overrides?.imagePrompt?.trim() || prompts.imagePrompt),
+    textPrompt: withAddendum(overrides?.textPrompt?.trim() || prompts.textPrompt),
+  };
+}
+
+/**
+ * All domains that can be extracted (registered with prompts)
  */
-export function getDomainConfig(domain: DataDomain): DomainConfig {
-  return DOMAIN_CONFIGS[domain];
+export function listDomainConfigs(): DomainConfig[] {
+  return listDomains().flatMap((definition) => {
+    const prompts = DOMAIN_PROMPTS.get(definition.id);
+    return prompts ? [{ ...definition, ...prompts }] : [];
+  });
 }
@@ -0,0 +1,94 @@
+/**
+ * Extraction Evaluation CLI
+ * Runs a provider/model (or the offline mock model) against the fixtures and prints a report
+ *
+ * Usage (from packages/ai-core):
+ *   pnpm eval --mock
+ *   pnpm eval --provider google --model gemini-2.5-pro
+ *   pnpm eval --provider openai --filter finance --json
+ *
+ * API keys and DEFAULT_PROVIDER are read from the environment, with the same names as the
+ * server (e.g., GOOGLE_GENERATIVE_AI_API_KEY).
+ */
+
+import { parseArgs } from 'node:util';
+import { isValidProvider, MODEL_PROVIDERS, type AIEnvironment } from '../config';
+import { DEFAULT_FIXTURES_DIR, loadFixtures } from './fixtures';
+import { createMockModel } from './mock-model';
+import { formatReport, runEvaluation } from './runner';
+
+const USAGE = `Usage: pnpm eval [options]
+
+Options:
+  --provider <name>   Provider to evaluate (default: DEFAULT_PROVIDER or first configured)
+  --model <id>        Model ID (default: the provider's default model for the task)
+  --mock              Use an offline mock model that replays the expected records
+                      (checks the harness only: it always scores 100%)
+  --fixtures <dir>    Fixtures folder (default: ${DEFAULT_FIXTURES_DIR})
+  --filter <text>     Only run fixtures whose name contains <text>
+  --tolerance <n>     Relative value tolerance (default: 0.005)
+  --min-f1 <n>        Exit with status 1 when any total F1 is below <n> (0-1)
+  --json              Print the report as JSON
+  -h, --help          Show this help`;
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      mock: { type: 'boolean', default: false },
+      fixtures: { type: 'string' },
+      filter: { type: 'string' },
+      tolerance: { type: 'string' },
+      'min-f1': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const { provider } = values;
+  if (provider !== undefined && !isValidProvider(provider)) {
+    console.error(`Unknown provider: ${provider} (expected ${MODEL_PROVIDERS.join(', ')})`);
+    console.error(USAGE);
+    return 1;
+  }
+
+  const fixtures = await loadFixtures(values.fixtures, values.filter);
+  if (fixtures.length === 0) {
+    console.error('No fixtures found');
+    return 1;
+  }
+
+  const report = await runEvaluation(
+    process.env as AIEnvironment,
+    fixtures,
+    {
+      provider,
+      modelId: values.model,
+      model: values.mock ? (fixture) => createMockModel(fixture.expected) : undefined,
+    },
+    { valueTolerance: values.tolerance ? Number(values.tolerance) : undefined },
+  );
+
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatReport(report));
+
+  const minF1 = values['min-f1'] ? Number(values['min-f1']) : undefined;
+  if (minF1 !== undefined && Object.values(report.totals).some((score) => score.f1 < minF1)) {
+    console.error(`Total F1 below ${minF1}`);
+    return 1;
+  }
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  },
+);
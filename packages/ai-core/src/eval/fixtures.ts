@@ -0,0 +1,99 @@
+/**
+ * Evaluation Fixtures
+ * Golden documents with the records they are expected to yield (Node.js only)
+ *
+ * Each fixture is a JSON file in the fixtures folder next to the document it describes:
+ *   { name, description?, domain, document: "file.txt", expected: RecordData[] }
+ * The document's extension picks the extractor: .txt/.csv/.md → text, .pdf → PDF,
+ * .png/.jpg/.jpeg/.webp → image.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { isRegisteredDomain, RecordDataSchema, type RecordData } from '@ai-chart/shared';
+import type { DataDomain } from '../config/domains';
+
+/**
+ * Folder with the built-in fixtures
+ */
+export const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL('./fixtures', import.meta.url));
+
+/**
+ * How a fixture document is fed to the extractors
+ */
+export type FixtureKind = 'text' | 'image' | 'pdf';
+
+const FIXTURE_KINDS: Record<string, FixtureKind> = {
+  '.txt': 'text',
+  '.csv': 'text',
+  '.md': 'text',
+  '.pdf': 'pdf',
+  '.png': 'image',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  '.webp': 'image',
+};
+
+const EvalFixtureFileSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  domain: z.string().refine(isRegisteredDomain, 'Unknown domain'),
+  document: z.string().min(1),
+  expected: z.array(RecordDataSchema).min(1),
+});
+
+/**
+ * A loaded fixture
+ */
+export interface EvalFixture {
+  name: string;
+  description?: string;
+  domain: DataDomain;
+  kind: FixtureKind;
+  /** Document content: text for text fixtures, raw bytes otherwise */
+  document: string | ArrayBuffer;
+  expected: RecordData[];
+}
+
+/**
+ * Load the fixtures of a folder
+ * @param dir - Fixtures folder (default: built-in fixtures)
+ * @param filter - Only load fixtures whose name contains this string
+ * @throws Error naming the fixture file when a fixture is invalid
+ */
+export async function loadFixtures(
+  dir: string = DEFAULT_FIXTURES_DIR,
+  filter?: string,
+): Promise<EvalFixture[]> {
+  const files = (await readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+  const fixtures: EvalFixture[] = [];
+
+  for (const file of files) {
+    const parsed = EvalFixtureFileSchema.safeParse(
+      JSON.parse(await readFile(join(dir, file), 'utf8')),
+    );
+    if (!parsed.success) {
+      throw new Error(`Invalid fixture ${file}: ${parsed.error.message}`);
+    }
+
+    const fixture = parsed.data;
+    if (filter && !fixture.name.includes(filter)) {
+      continue;
+    }
+
+    const kind = FIXTURE_KINDS[extname(fixture.document).toLowerCase()];
+    if (!kind) {
+      throw new Error(`Invalid fixture ${file}: unsupported document type "${fixture.document}"`);
+    }
+
+    const path = join(dir, fixture.document);
+    const document =
+      kind === 'text' ? await readFile(path, 'utf8') : new Uint8Array(await readFile(path)).buffer;
+
+    fixtures.push({ ...fixture, kind, document });
+  }
+
+  return fixtures;
+}
@@ -0,0 +1,54 @@
+/**
+ * Mock Model
+ * Offline stand-in for a provider model, so the evaluation runs without API keys
+ */
+
+import { MockLanguageModelV3 } from 'ai/test';
+import type { RecordData } from '@ai-chart/shared';
+
+/**
+ * Create a model that answers every call with the given records
+ * Single-record extractors (text, image) receive the first record, multi-record extractors
+ * (PDF, image panels) receive all of them. Metrics get full confidence and their name as
+ * source text, as the extraction schema requires both.
+ * @param records - Records to answer with (typically a fixture's expected records)
+ * @param modelId - Model ID reported in results
+ */
+export function createMockModel(records: RecordData[], modelId = 'mock'): MockLanguageModelV3 {
+  const withEvidence = records.map((record) => ({
+    ...record,
+    items: record.items.map((item) => ({
+      ...item,
+      confidence: item.confidence ?? 1,
+      sourceText: item.sourceText ?? item.name,
+    })),
+  }));
+
+  return new MockLanguageModelV3({
+    provider: 'mock',
+    modelId,
+    doGenerate: async (options) => {
+      // The output schema tells which shape the extractor asked for
+      const format = options.responseFormat;
+      const wantsRecords =
+        format?.type === 'json' &&
+        typeof format.schema === 'object' &&
+        'records' in (format.schema.properties ?? {});
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(wantsRecords ? { records: withEvidence } : withEvidence[0]),
+          },
+        ],
+        finishReason: { unified: 'stop', raw: 'stop' },
+        usage: {
+          inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+          outputTokens: { total: 0, text: 0, reasoning: 0 },
+        },
+        warnings: [],
+      };
+    },
+  });
+}
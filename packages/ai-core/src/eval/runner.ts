@@ -0,0 +1,194 @@
+/**
+ * Evaluation Runner
+ * Runs the extractors against fixtures and scores the results
+ */
+
+import type { LanguageModel } from 'ai';
+import type { RecordData } from '@ai-chart/shared';
+import type { AIEnvironment, ModelProvider } from '../config';
+import { extractDataFromText } from '../extractors/text';
+import { extractRecordsFromImage } from '../extractors/image';
+import { extractDataFromPdf } from '../extractors/pdf';
+import type { FallbackResult } from '../registry';
+import type { EvalFixture, FixtureKind } from './fixtures';
+import {
+  combineScores,
+  scoreExtraction,
+  SCORED_FIELDS,
+  type ExtractionScore,
+  type FieldScore,
+  type ScoredField,
+  type ScoreOptions,
+} from './scorer';
+
+/**
+ * Model under evaluation
+ * Either a provider/model from the registry (no fallback, so the report reflects exactly this
+ * model), or a model instance created per fixture (e.g., createMockModel).
+ */
+export interface EvalTarget {
+  provider?: ModelProvider;
+  modelId?: string;
+  model?: (fixture: EvalFixture) => LanguageModel;
+}
+
+/**
+ * Result of one fixture
+ */
+export interface FixtureResult {
+  fixture: string;
+  kind: FixtureKind;
+  provider: string;
+  modelId: string;
+  latencyMs: number;
+  /** Set when extraction failed (the fixture then scores zero recall) */
+  error?: string;
+  score: ExtractionScore;
+}
+
+/**
+ * Evaluation report
+ */
+export interface EvalReport {
+  results: FixtureResult[];
+  /** Micro-averaged scores across all fixtures */
+  totals: Record<ScoredField, FieldScore>;
+}
+
+/**
+ * Run every fixture through its extractor and score the output
+ * Fixtures run one after another to stay within provider rate limits.
+ * @param env - Environment with the provider API keys
+ * @param fixtures - Fixtures to run (see loadFixtures)
+ * @param target - Model under evaluation
+ * @param options - Scoring options
+ */
+export async function runEvaluation(
+  env: AIEnvironment,
+  fixtures: EvalFixture[],
+  target: EvalTarget = {},
+  options: ScoreOptions = {},
+): Promise<EvalReport> {
+  const results: FixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const model = target.model?.(fixture);
+    const startedAt = Date.now();
+
+    try {
+      const extraction = await extractFixture(env, fixture, target, model);
+      results.push({
+        fixture: fixture.name,
+        kind: fixture.kind,
+        provider: extraction.provider,
+        modelId: extraction.modelId,
+        latencyMs: Date.now() - startedAt,
+        score: scoreExtraction(fixture.expected, extraction.data, options),
+      });
+    } catch (error) {
+      results.push({
+        fixture: fixture.name,
+        kind: fixture.kind,
+        provider: model ? 'custom' : (target.provider ?? 'default'),
+        modelId: (typeof model === 'object' ? model.modelId : model) ?? target.modelId ?? 'default',
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+        score: scoreExtraction(fixture.expected, [], options),
+      });
+    }
+  }
+
+  return { results, totals: combineScores(results.map((r) => r.score)) };
+}
+
+/**
+ * Format a report as plain text (one row per fixture, totals, then the differences)
+ */
+export function formatReport(report: EvalReport): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const lines: string[] = [];
+
+  lines.push(
+    `${'Fixture'.padEnd(28)}${'Model'.padEnd(32)}${'Time'.padStart(8)}` +
+      SCORED_FIELDS.map((field) => `${field} F1`.padStart(11)).join(''),
+  );
+  for (const result of report.results) {
+    lines.push(
+      `${result.fixture.padEnd(28)}${`${result.provider}/${result.modelId}`.padEnd(32)}` +
+        `${`${result.latencyMs}ms`.padStart(8)}` +
+        SCORED_FIELDS.map((field) => percent(result.score.fields[field].f1).padStart(11)).join(''),
+    );
+  }
+
+  lines.push(
+    '',
+    `${'Totals'.padEnd(10)}${'Precision'.padStart(11)}${'Recall'.padStart(9)}${'F1'.padStart(9)}`,
+  );
+  for (const field of SCORED_FIELDS) {
+    const score = report.totals[field];
+    lines.push(
+      `${field.padEnd(10)}${percent(score.precision).padStart(11)}` +
+        `${percent(score.recall).padStart(9)}${percent(score.f1).padStart(9)}`,
+    );
+  }
+
+  const details = report.results.flatMap((result) => {
+    const { score } = result;
+    const notes = [
+      ...(result.error ? [`error: ${result.error}`] : []),
+      ...(score.records.expected !== score.records.extracted
+        ? [`records: expected ${score.records.expected}, extracted ${score.records.extracted}`]
+        : []),
+      ...(score.missing.length > 0 ? [`missing: ${score.missing.join(', ')}`] : []),
+      ...(score.unexpected.length > 0 ? [`unexpected: ${score.unexpected.join(', ')}`] : []),
+      ...score.mismatches.map(
+        (m) =>
+          `${m.key} ${m.field}: expected ${m.expected ?? '(none)'}, got ${m.actual ?? '(none)'}`,
+      ),
+    ];
+    return notes.length > 0 ? [`${result.fixture}:`, ...notes.map((note) => `  - ${note}`)] : [];
+  });
+  if (details.length > 0) {
+    lines.push('', 'Differences', ...details);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Extract a fixture with the extractor for its document type
+ */
+async function extractFixture(
+  env: AIEnvironment,
+  fixture: EvalFixture,
+  target: EvalTarget,
+  model: LanguageModel | undefined,
+): Promise<FallbackResult<RecordData[]>> {
+  const options = { fallback: false, model };
+  const { document, domain } = fixture;
+
+  switch (fixture.kind) {
+    case 'text': {
+      const result = await extractDataFromText(
+        env,
+        String(document),
+        domain,
+        target.modelId,
+        target.provider,
+        options,
+      );
+      return { ...result, data: [result.data] };
+    }
+    case 'image':
+      return extractRecordsFromImage(
+        env,
+        document,
+        domain,
+        target.modelId,
+        target.provider,
+        options,
+      );
+    case 'pdf':
+      return extractDataFromPdf(env, document, domain, target.modelId, target.provider, options);
+  }
+}
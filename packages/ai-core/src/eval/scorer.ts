@@ -0,0 +1,198 @@
+/**
+ * Extraction Scorer
+ * Compares extracted records with the expected (golden) records of a fixture
+ *
+ * Metrics of all records are pooled and paired by canonical key, so a document split into
+ * panels differently than expected is only penalized through the record count. A field counts
+ * as correct when its metric was paired and the field matches:
+ * - keys: the metric was found at all
+ * - values: numbers agree within a relative tolerance (after unit conversion when possible)
+ * - units: normalized units are equal (or both are missing)
+ * - status: status values are equal
+ * Precision divides by the extracted metrics, recall by the expected metrics.
+ */
+
+import {
+  canonicalizeMetrics,
+  convertMetricValue,
+  normalizeUnit,
+  type MetricItem,
+  type RecordData,
+} from '@ai-chart/shared';
+
+/**
+ * Fields scored for every metric
+ */
+export const SCORED_FIELDS = ['keys', 'values', 'units', 'status'] as const;
+
+export type ScoredField = (typeof SCORED_FIELDS)[number];
+
+/**
+ * Precision/recall of one field
+ */
+export interface FieldScore {
+  /** Paired metrics whose field is correct */
+  correct: number;
+  /** Metrics extracted */
+  extracted: number;
+  /** Metrics expected */
+  expected: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/**
+ * A paired metric whose field differs from the expected one
+ */
+export interface FieldMismatch {
+  key: string;
+  field: Exclude<ScoredField, 'keys'>;
+  expected: string | number | undefined;
+  actual: string | number | undefined;
+}
+
+/**
+ * Score of one extraction against its expected records
+ */
+export interface ExtractionScore {
+  fields: Record<ScoredField, FieldScore>;
+  records: { expected: number; extracted: number };
+  /** Expected metric keys that were not extracted */
+  missing: string[];
+  /** Extracted metric keys that were not expected */
+  unexpected: string[];
+  mismatches: FieldMismatch[];
+}
+
+/**
+ * Options for scoreExtraction
+ */
+export interface ScoreOptions {
+  /** Relative tolerance for values (default: 0.005, i.e. 0.5%) */
+  valueTolerance?: number;
+}
+
+/**
+ * Score extracted records against the expected records
+ * @param expected - Golden records of the fixture
+ * @param actual - Records produced by the extractor (empty when extraction failed)
+ * @param options - Scoring options
+ */
+export function scoreExtraction(
+  expected: RecordData[],
+  actual: RecordData[],
+  options: ScoreOptions = {},
+): ExtractionScore {
+  const tolerance = options.valueTolerance ?? 0.005;
+  const expectedItems = expected.flatMap((record) => canonicalizeMetrics(record.items));
+  const actualItems = actual.flatMap((record) => canonicalizeMetrics(record.items));
+
+  // Pair metrics by key, in document order for keys that occur more than once
+  const unpaired = [...actualItems];
+  const pairs: Array<[MetricItem, MetricItem]> = [];
+  const missing: string[] = [];
+  for (const item of expectedItems) {
+    const index = unpaired.findIndex((candidate) => candidate.key === item.key);
+    if (index === -1) {
+      missing.push(item.key);
+    } else {
+      pairs.push([item, unpaired[index]]);
+      unpaired.splice(index, 1);
+    }
+  }
+
+  const correct: Record<ScoredField, number> = {
+    keys: pairs.length,
+    values: 0,
+    units: 0,
+    status: 0,
+  };
+  const mismatches: FieldMismatch[] = [];
+
+  for (const [wanted, got] of pairs) {
+    if (valuesMatch(wanted, got, tolerance)) {
+      correct.values++;
+    } else {
+      mismatches.push({
+        key: wanted.key,
+        field: 'values',
+        expected: wanted.value,
+        actual: got.value,
+      });
+    }
+
+    if (normalizeUnit(wanted.unit ?? '') === normalizeUnit(got.unit ?? '')) {
+      correct.units++;
+    } else {
+      mismatches.push({ key: wanted.key, field: 'units', expected: wanted.unit, actual: got.unit });
+    }
+
+    if (wanted.status === got.status) {
+      correct.status++;
+    } else {
+      mismatches.push({
+        key: wanted.key,
+        field: 'status',
+        expected: wanted.status,
+        actual: got.status,
+      });
+    }
+  }
+
+  const fields = Object.fromEntries(
+    SCORED_FIELDS.map((field) => [
+      field,
+      toFieldScore(correct[field], actualItems.length, expectedItems.length),
+    ]),
+  ) as Record<ScoredField, FieldScore>;
+
+  return {
+    fields,
+    records: { expected: expected.length, extracted: actual.length },
+    missing,
+    unexpected: unpaired.map((item) => item.key),
+    mismatches,
+  };
+}
+
+/**
+ * Combine the scores of several fixtures (micro-average: counts are summed)
+ */
+export function combineScores(scores: ExtractionScore[]): Record<ScoredField, FieldScore> {
+  return Object.fromEntries(
+    SCORED_FIELDS.map((field) => {
+      const sum = (pick: (score: FieldScore) => number) =>
+        scores.reduce((total, score) => total + pick(score.fields[field]), 0);
+      return [
+        field,
+        toFieldScore(
+          sum((s) => s.correct),
+          sum((s) => s.extracted),
+          sum((s) => s.expected),
+        ),
+      ];
+    }),
+  ) as Record<ScoredField, FieldScore>;
+}
+
+/**
+ * Whether two paired metrics have the same value
+ * The extracted value is converted to the expected unit first when the units differ.
+ */
+function valuesMatch(wanted: MetricItem, got: MetricItem, tolerance: number): boolean {
+  const value =
+    wanted.unit && got.unit && normalizeUnit(wanted.unit) !== normalizeUnit(got.unit)
+      ? (convertMetricValue(wanted.key, got.value, got.unit, wanted.unit)?.value ?? got.value)
+      : got.value;
+
+  return Math.abs(value - wanted.value) <= Math.abs(wanted.value) * tolerance + 1e-9;
+}
+
+function toFieldScore(correct: number, extracted: number, expected: number): FieldScore {
+  // Nothing extracted and nothing expected is a perfect (if trivial) score
+  const precision = extracted === 0 ? (expected === 0 ? 1 : 0) : correct / extracted;
+  const recall = expected === 0 ? 1 : correct / expected;
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { correct, extracted, expected, precision, recall, f1 };
+}
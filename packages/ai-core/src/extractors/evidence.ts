@@ -0,0 +1,81 @@
+/**
+ * Extraction Evidence
+ * Per-metric confidence and source text snippets shared by all extractors
+ */
+
+import { z } from 'zod';
+import {
+  MetricItemSchema,
+  RecordDataSchema,
+  type DomainDefinition,
+  type RecordData,
+} from '@ai-chart/shared';
+
+/**
+ * Longest source snippet kept per metric (characters)
+ */
+const MAX_SOURCE_TEXT_LENGTH = 200;
+
+/**
+ * Extraction output schema: RecordData whose metrics must carry confidence and source text
+ * (both are optional on stored/manual data, but required from the model)
+ */
+export const ExtractedRecordSchema = RecordDataSchema.extend({
+  items: z
+    .array(
+      MetricItemSchema.extend({
+        confidence: MetricItemSchema.shape.confidence.unwrap(),
+        sourceText: MetricItemSchema.shape.sourceText.unwrap(),
+      }),
+    )
+    .describe('List of extracted metric items'),
+});
+
+/**
+ * Extraction output schema for one domain
+ * The record type is fixed to the domain and statuses are limited to the domain's statuses,
+ * so structured output cannot produce records the domain would reject.
+ */
+export function getExtractionSchema(domain: DomainDefinition) {
+  const statuses = domain.statuses.map((status) => status.value) as [string, ...string[]];
+  const itemSchema = ExtractedRecordSchema.shape.items.element;
+
+  return ExtractedRecordSchema.extend({
+    type: z.literal(domain.id).describe(`Type of record (always "${domain.id}")`),
+    items: z
+      .array(
+        itemSchema.extend({
+          status: z.enum(statuses).describe(itemSchema.shape.status.description ?? 'Status'),
+        }),
+      )
+      .describe('List of extracted metric items'),
+  });
+}
+
+/**
+ * Instructions appended to every extraction prompt
+ */
+export const EVIDENCE_INSTRUCTIONS = `For EVERY metric also provide:
+- confidence: A number from 0 to 1 for how sure you are that key, value and unit are read correctly.
+  Use 0.9-1 for clearly legible values, 0.5-0.8 for blurry, handwritten, cut-off or ambiguous values,
+  and below 0.5 for values you had to guess or infer.
+- sourceText: The exact text (one line or table row, as written in the document) the value was read from.`;
+
+/**
+ * Clean up evidence returned by the model
+ * Confidence is clamped to 0-1 (percentages such as 85 are scaled down) and source
+ * snippets are trimmed to a bounded length.
+ */
+export function normalizeEvidence(recordData: RecordData): RecordData {
+  return {
+    ...recordData,
+    items: recordData.items.map((item) => {
+      const confidence =
+        typeof item.confidence === 'number' && Number.isFinite(item.confidence)
+          ? Math.min(1, Math.max(0, item.confidence > 1 ? item.confidence / 100 : item.confidence))
+          : undefined;
+      const sourceText = item.sourceText?.trim().slice(0, MAX_SOURCE_TEXT_LENGTH) || undefined;
+      return { ...item, confidence, sourceText };
+    }),
+  };
+}
@@ -1,23 +1,35 @@
 /**
  * Image Data Extractor
  * Extracts structured data from images using AI (health, finance, etc.)
+ * Either as a single record, or as one record per panel (multi-record mode)
  */
 
 import { generateText, Output } from 'ai';
-import { RecordDataSchema, type RecordData } from '@ai-chart/shared';
-import { getVisionModel } from '../registry';
+import type { RecordData } from '@ai-chart/shared';
+import { runWithFallback, type FallbackResult } from '../registry';
 import type { AIEnvironment, ModelProvider } from '../config';
 import { arrayBufferToBase64 } from '../utils/base64';
 import { getDomainConfig, type DataDomain } from '../config/domains';
+import { trackUsage } from '../usage';
+import type { ExtractionOptions } from './options';
+import { getExtractionSchema, EVIDENCE_INSTRUCTIONS, normalizeEvidence } from './evidence';
+import {
+  getMultiRecordExtractionSchema,
+  SPLIT_RECORDS_INSTRUCTIONS,
+  type MultiRecordExtraction,
+} from './multi-record';
 
 /**
  * Extract data from an image (domain-agnostic)
  * @param env - Environment variables from Cloudflare Workers context
  * @param imageBuffer - Image data as ArrayBuffer or base64 string
- * @param domain - Data domain ('health' | 'finance')
+ * @param domain - Data domain (any registered domain, e.g., 'health', 'finance')
  * @param modelId - Optional model ID to override default
  * @param provider - Optional provider to override default
- * @returns Extracted and validated data
+ * @param options - Retry/fallback settings, an explicit model instance (e.g., for evaluation)
+ *   and prompt customizations
+ * @returns Extracted and validated data, with per-metric confidence and source text, and the
+ *   provider/model that produced it (other configured providers are tried when one fails)
  */
 export async function extractDataFromImage(
   env: AIEnvironment,
@@ -25,47 +37,121 @@ export async function extractDataFromImage(
   domain: DataDomain = 'health',
   modelId?: string,
   provider?: ModelProvider,
-): Promise<RecordData> {
-  const model = getVisionModel(env, modelId, provider);
-  const domainConfig = getDomainConfig(domain);
+  options: ExtractionOptions = {},
+): Promise<FallbackResult<RecordData>> {
+  const { prompts, onUsage, ...fallbackOptions } = options;
+  const domainConfig = getDomainConfig(domain, prompts);
+  const imageUrl = toImageUrl(imageBuffer);
 
-  // Convert ArrayBuffer to base64 URL if needed
-  let imageUrl: string;
-  if (typeof imageBuffer === 'string') {
-    // Assume it's already a base64 string or URL
-    imageUrl = imageBuffer.startsWith('data:')
-      ? imageBuffer
-      : `data:image/jpeg;base64,${imageBuffer}`;
-  } else {
-    // Use Web API compatible base64 encoding (works in Cloudflare Workers)
-    const base64 = arrayBufferToBase64(imageBuffer);
-    imageUrl = `data:image/jpeg;base64,${base64}`;
-  }
+  return runWithFallback(
+    env,
+    'vision',
+    async (model, identity) => {
+      // Generate structured object using AI with domain-specific prompt
+      const result = await trackUsage(onUsage, identity, () =>
+        generateText({
+          model,
+          maxRetries: 0,
+          output: Output.object({ schema: getExtractionSchema(domainConfig) }),
+          messages: [
+            {
+              role: 'system',
+              content: `${domainConfig.imagePrompt}\n\n${EVIDENCE_INSTRUCTIONS}`,
+            },
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: `Please extract all ${domainConfig.label.toLowerCase()} metrics from this document image. Follow the guidelines strictly.`,
+                },
+                {
+                  type: 'image',
+                  image: imageUrl,
+                },
+              ],
+            },
+          ],
+        }),
+      );
+
+      return normalizeEvidence(result.output as RecordData);
+    },
+    { ...fallbackOptions, modelId, provider },
+  );
+}
+
+/**
+ * Extract one record per panel from an image (domain-agnostic)
+ * A lab sheet with blood routine, liver function and lipid panels yields three records,
+ * matching how the chat assistant splits images before saving them.
+ * @param env - Environment variables from Cloudflare Workers context
+ * @param imageBuffer - Image data as ArrayBuffer or base64 string
+ * @param domain - Data domain (any registered domain, e.g., 'health', 'finance')
+ * @param modelId - Optional model ID to override default
+ * @param provider - Optional provider to override default
+ * @param options - Retry/fallback settings, an explicit model instance (e.g., for evaluation)
+ *   and prompt customizations
+ * @returns Extracted and validated records (at least one), with per-metric confidence and source
+ *   text, and the provider/model that produced them (other configured providers are tried when one fails)
+ */
+export async function extractRecordsFromImage(
+  env: AIEnvironment,
+  imageBuffer: ArrayBuffer | string,
+  domain: DataDomain = 'health',
+  modelId?: string,
+  provider?: ModelProvider,
+  options: ExtractionOptions = {},
+): Promise<FallbackResult<RecordData[]>> {
+  const { prompts, onUsage, ...fallbackOptions } = options;
+  const domainConfig = getDomainConfig(domain, prompts);
+  const imageUrl = toImageUrl(imageBuffer);
 
-  // Generate structured object using AI with domain-specific prompt
-  const result = await generateText({
-    model,
-    output: Output.object({ schema: RecordDataSchema }),
-    messages: [
-      {
-        role: 'system',
-        content: domainConfig.imagePrompt,
-      },
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `Please extract all ${domain} metrics from this document image. Follow the guidelines strictly.`,
-          },
-          {
-            type: 'image',
-            image: imageUrl,
-          },
-        ],
-      },
-    ],
-  });
+  return runWithFallback(
+    env,
+    'vision',
+    async (model, identity) => {
+      const result = await trackUsage(onUsage, identity, () =>
+        generateText({
+          model,
+          maxRetries: 0,
+          output: Output.object({ schema: getMultiRecordExtractionSchema(domainConfig) }),
+          messages: [
+            {
+              role: 'system',
+              content: `${domainConfig.imagePrompt}\n\n${EVIDENCE_INSTRUCTIONS}\n\n${SPLIT_RECORDS_INSTRUCTIONS}`,
+            },
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: `Please extract all ${domainConfig.label.toLowerCase()} metrics from this document image, one record per panel. Follow the guidelines strictly.`,
+                },
+                {
+                  type: 'image',
+                  image: imageUrl,
+                },
+              ],
+            },
+          ],
+        }),
+      );
 
-  return result.output as RecordData;
+      return (result.output as MultiRecordExtraction).records.map(normalizeEvidence);
+    },
+    { ...fallbackOptions, modelId, provider },
+  );
+}
+
+/**
+ * Convert image input to a data URL
+ * Strings are taken as a data URL or a bare base64 payload.
+ */
+function toImageUrl(imageBuffer: ArrayBuffer | string): string {
+  if (typeof imageBuffer === 'string') {
+    return imageBuffer.startsWith('data:') ? imageBuffer : `data:image/jpeg;base64,${imageBuffer}`;
+  }
+  // Use Web API compatible base64 encoding (works in Cloudflare Workers)
+  return `data:image/jpeg;base64,${arrayBufferToBase64(imageBuffer)}`;
 }
@@ -0,0 +1,44 @@
+/**
+ * Multi-Record Extraction
+ * Output schema and instructions for documents that hold several records
+ * (e.g., one lab sheet with blood routine, liver function and lipid panels)
+ */
+
+import { z } from 'zod';
+import type { DomainDefinition } from '@ai-chart/shared';
+import { ExtractedRecordSchema, getExtractionSchema } from './evidence';
+
+/**
+ * Multi-record extraction output - one record per panel, report or statement
+ */
+export const MultiRecordExtractionSchema = z.object({
+  records: z
+    .array(ExtractedRecordSchema)
+    .min(1)
+    .describe('One record per distinct report, panel or statement found in the document'),
+});
+
+export type MultiRecordExtraction = z.infer<typeof MultiRecordExtractionSchema>;
+
+/**
+ * Multi-record extraction output for one domain (see getExtractionSchema)
+ */
+export function getMultiRecordExtractionSchema(domain: DomainDefinition) {
+  return MultiRecordExtractionSchema.extend({
+    records: z
+      .array(getExtractionSchema(domain))
+      .min(1)
+      .describe(MultiRecordExtractionSchema.shape.records.description ?? 'Records'),
+  });
+}
+
+/**
+ * Instructions for splitting a document into one record per panel
+ */
+export const SPLIT_RECORDS_INSTRUCTIONS = `The document may contain several distinct test panels, reports, statements or receipts.
+
+- Return each panel as a SEPARATE record (e.g., blood routine, liver function, kidney function, lipid panel and urine test are five records), each with its own category, title, date and items.
+- Use the panel heading (or the group the tests belong to) as the record title, and set categoryTag on its items accordingly.
+- If the document has only one panel, return exactly one record.
+- Do not repeat the same metric in more than one record.
+- Return the records in the order they appear in the document.`;
@@ -0,0 +1,19 @@
+/**
+ * Extraction Options
+ * Settings shared by all extractors
+ */
+
+import type { FallbackOptions } from '../registry';
+import type { PromptOverrides } from '../config/domains';
+import type { UsageRecorder } from '../usage';
+
+/**
+ * Retry/fallback settings (or an explicit model instance), plus prompt customizations
+ * and a usage callback
+ */
+export interface ExtractionOptions extends Omit<FallbackOptions, 'modelId' | 'provider'> {
+  /** Customizations merged over the domain's built-in prompts (e.g., the user's stored ones) */
+  prompts?: PromptOverrides;
+  /** Receives the token usage of every model call, including failed attempts of the fallback chain */
+  onUsage?: UsageRecorder;
+}
@@ -0,0 +1,94 @@
+/**
+ * PDF Data Extractor
+ * Extracts structured data from multi-page PDF documents using AI (health, finance, etc.)
+ */
+
+import { generateText, Output } from 'ai';
+import type { RecordData } from '@ai-chart/shared';
+import { runWithFallback, type FallbackResult } from '../registry';
+import type { AIEnvironment, ModelProvider } from '../config';
+import { base64ToArrayBuffer } from '../utils/base64';
+import { getDomainConfig, type DataDomain } from '../config/domains';
+import { trackUsage } from '../usage';
+import type { ExtractionOptions } from './options';
+import { EVIDENCE_INSTRUCTIONS, normalizeEvidence } from './evidence';
+import {
+  getMultiRecordExtractionSchema,
+  SPLIT_RECORDS_INSTRUCTIONS,
+  type MultiRecordExtraction,
+} from './multi-record';
+
+/**
+ * Instructions appended to the domain prompt for multi-page documents
+ */
+const PDF_INSTRUCTIONS = `The input is a PDF document that may span multiple pages.
+
+- Read EVERY page of the document, not just the first one.
+- Metrics that continue across a page break belong to the same record.`;
+
+/**
+ * Extract data from a PDF document (domain-agnostic)
+ * @param env - Environment variables from Cloudflare Workers context
+ * @param pdfBuffer - PDF data as ArrayBuffer or base64 string
+ * @param domain - Data domain (any registered domain, e.g., 'health', 'finance')
+ * @param modelId - Optional model ID to override default
+ * @param provider - Optional provider to override default
+ * @param options - Retry/fallback settings, an explicit model instance (e.g., for evaluation)
+ *   and prompt customizations
+ * @returns Extracted and validated records (at least one), with per-metric confidence and source
+ *   text, and the provider/model that produced them (other configured providers are tried when one fails)
+ */
+export async function extractDataFromPdf(
+  env: AIEnvironment,
+  pdfBuffer: ArrayBuffer | string,
+  domain: DataDomain = 'health',
+  modelId?: string,
+  provider?: ModelProvider,
+  options: ExtractionOptions = {},
+): Promise<FallbackResult<RecordData[]>> {
+  const { prompts, onUsage, ...fallbackOptions } = options;
+  const domainConfig = getDomainConfig(domain, prompts);
+
+  // Accept raw bytes or a base64 string (with or without data URL prefix)
+  const data =
+    typeof pdfBuffer === 'string'
+      ? new Uint8Array(base64ToArrayBuffer(pdfBuffer.replace(/^data:[^;]+;base64,/, '')))
+      : new Uint8Array(pdfBuffer);
+
+  return runWithFallback(
+    env,
+    'vision',
+    async (model, identity) => {
+      const result = await trackUsage(onUsage, identity, () =>
+        generateText({
+          model,
+          maxRetries: 0,
+          output: Output.object({ schema: getMultiRecordExtractionSchema(domainConfig) }),
+          messages: [
+            {
+              role: 'system',
+              content: `${domainConfig.imagePrompt}\n\n${EVIDENCE_INSTRUCTIONS}\n\n${SPLIT_RECORDS_INSTRUCTIONS}\n\n${PDF_INSTRUCTIONS}`,
+            },
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: `Please extract all ${domainConfig.label.toLowerCase()} metrics from every page of this PDF document. Follow the guidelines strictly.`,
+                },
+                {
+                  type: 'file',
+                  data,
+                  mediaType: 'application/pdf',
+                },
+              ],
+            },
+          ],
+        }),
+      );
+
+      return (result.output as MultiRecordExtraction).records.map(normalizeEvidence);
+    },
+    { ...fallbackOptions, modelId, provider },
+  );
+}
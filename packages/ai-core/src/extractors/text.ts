@@ -0,0 +1,65 @@
+/**
+ * Text Data Extractor
+ * Extracts structured data from free text using AI (pasted lab results, bank SMS, CSV snippets, etc.)
+ */
+
+import { generateText, Output } from 'ai';
+import type { RecordData } from '@ai-chart/shared';
+import { runWithFallback, type FallbackResult } from '../registry';
+import type { AIEnvironment, ModelProvider } from '../config';
+import { getDomainConfig, type DataDomain } from '../config/domains';
+import { trackUsage } from '../usage';
+import type { ExtractionOptions } from './options';
+import { getExtractionSchema, EVIDENCE_INSTRUCTIONS, normalizeEvidence } from './evidence';
+
+/**
+ * Extract data from free text (domain-agnostic)
+ * @param env - Environment variables from Cloudflare Workers context
+ * @param text - Raw text content (plain text, SMS messages, CSV-like rows)
+ * @param domain - Data domain (any registered domain, e.g., 'health', 'finance')
+ * @param modelId - Optional model ID to override default
+ * @param provider - Optional provider to override default
+ * @param options - Retry/fallback settings, an explicit model instance (e.g., for evaluation)
+ *   and prompt customizations
+ * @returns Extracted and validated data, with per-metric confidence and source text, and the
+ *   provider/model that produced it (other configured providers are tried when one fails)
+ */
+export async function extractDataFromText(
+  env: AIEnvironment,
+  text: string,
+  domain: DataDomain = 'health',
+  modelId?: string,
+  provider?: ModelProvider,
+  options: ExtractionOptions = {},
+): Promise<FallbackResult<RecordData>> {
+  const { prompts, onUsage, ...fallbackOptions } = options;
+  const domainConfig = getDomainConfig(domain, prompts);
+
+  // Text needs no vision capability, so the reasoning model is sufficient
+  return runWithFallback(
+    env,
+    'reasoning',
+    async (model, identity) => {
+      const result = await trackUsage(onUsage, identity, () =>
+        generateText({
+          model,
+          maxRetries: 0,
+          output: Output.object({ schema: getExtractionSchema(domainConfig) }),
+          messages: [
+            {
+              role: 'system',
+              content: `${domainConfig.textPrompt}\n\n${EVIDENCE_INSTRUCTIONS}`,
+            },
+            {
+              role: 'user',
+              content: `Please extract all ${domainConfig.label.toLowerCase()} metrics from the following text. The text may be copied from a report, a message or a CSV-like table. Follow the guidelines strictly.\n\n---\n${text}\n---`,
+            },
+          ],
+        }),
+      );
+
+      return normalizeEvidence(result.output as RecordData);
+    },
+    { ...fallbackOptions, modelId, provider },
+  );
+}
@@ -6,18 +6,47 @@
 export const aiCoreVersion = '0.0.1';
 
 // Configuration
-export { getAIConfig, isProviderConfigured } from './config';
+export { getAIConfig, isProviderConfigured, isValidProvider, MODEL_PROVIDERS } from './config';
 export type { AIConfig, AIEnvironment, ModelProvider } from './config';
 
 // Domain Configuration
-export { getDomainConfig, DOMAIN_CONFIGS } from './config/domains';
-export type { DataDomain, DomainConfig } from './config/domains';
+export { getDomainConfig, listDomainConfigs, registerDomain } from './config/domains';
+export type { DataDomain, DomainConfig, DomainPrompts, PromptOverrides } from './config/domains';
 
 // Model Registry
-export { getVisionModel, getReasoningModel, getAdvancedModel, getCustomModel } from './registry';
+export {
+  getVisionModel,
+  getReasoningModel,
+  getAdvancedModel,
+  getCustomModel,
+  getDefaultModels,
+  runWithFallback,
+  ModelFallbackError,
+} from './registry';
+export type {
+  ModelTask,
+  ModelFailureKind,
+  ModelAttempt,
+  FallbackResult,
+  FallbackOptions,
+  ModelIdentity,
+} from './registry';
+
+// Usage Accounting (token counts, latency and estimated cost of model calls)
+export { estimateCost, getModelPrice, registerModelPrice, toModelUsage, trackUsage } from './usage';
+export type { ModelPrice, ModelUsage, UsageRecorder } from './usage';
+
+// Extraction Options (shared by all extractors)
+export type { ExtractionOptions } from './extractors/options';
+
+// Image Data Extraction (domain-agnostic; single record or one record per panel)
+export { extractDataFromImage, extractRecordsFromImage } from './extractors/image';
+
+// PDF Data Extraction (multi-page, multi-record)
+export { extractDataFromPdf } from './extractors/pdf';
 
-// Image Data Extraction (domain-agnostic)
-export { extractDataFromImage } from './extractors/image';
+// Text Data Extraction (pasted reports, SMS messages, CSV snippets)
+export { extractDataFromText } from './extractors/text';
 
 // Chat Engine
 export {
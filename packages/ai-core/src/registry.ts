@@ -9,7 +9,15 @@ import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
 import { createWorkersAI, type WorkersAISettings, type WorkersAI } from 'workers-ai-provider';
 import { getAIConfig, type AIEnvironment, type ModelProvider } from './config';
-import type { LanguageModel } from 'ai';
+import {
+  APICallError,
+  JSONParseError,
+  NoObjectGeneratedError,
+  NoOutputGeneratedError,
+  RetryError,
+  TypeValidationError,
+  type LanguageModel,
+} from 'ai';
 
 /**
  * Provider-specific default model configurations
@@ -50,6 +58,15 @@ const DEFAULT_MODELS: Record<
   },
 };
 
+/**
+ * Get the default model of a provider for each task
+ * @param provider - Model provider
+ * @returns Model IDs used when no model is requested explicitly
+ */
+export function getDefaultModels(provider: ModelProvider): Record<ModelTask, string> {
+  return { ...DEFAULT_MODELS[provider] };
+}
+
 /**
  * Get the appropriate model instance for the provider
  */
@@ -207,3 +224,250 @@ export function getCustomModel(
 ): LanguageModel {
   return getModelInstance(provider, modelId, env, options);
 }
+
+// ========================================
+// Provider Fallback
+// ========================================
+
+/**
+ * Task a model is selected for (picks the provider's default model)
+ */
+export type ModelTask = 'vision' | 'reasoning' | 'advanced';
+
+/**
+ * Why a model call failed
+ * - transient: rate limit, server or network error (retried with backoff)
+ * - invalid_output: the response did not match the output schema (next provider)
+ * - fatal: anything else, e.g. a missing API key or a rejected request (next provider)
+ */
+export type ModelFailureKind = 'transient' | 'invalid_output' | 'fatal';
+
+/**
+ * Provider and model that handle a call
+ */
+export interface ModelIdentity {
+  /** 'custom' for an explicit model instance */
+  provider: ModelProvider | 'custom';
+  modelId: string;
+}
+
+/**
+ * A provider of the fallback chain that failed
+ */
+export interface ModelAttempt {
+  provider: ModelProvider | 'custom';
+  modelId: string;
+  /** Calls made to this provider, including retries */
+  calls: number;
+  kind: ModelFailureKind;
+  error: string;
+}
+
+/**
+ * Result of a model call run through the fallback chain
+ */
+export interface FallbackResult<T> {
+  data: T;
+  /** Provider and model that produced the result ('custom' for an explicit model instance) */
+  provider: ModelProvider | 'custom';
+  modelId: string;
+  /** Providers that failed before it, in order */
+  attempts: ModelAttempt[];
+}
+
+/**
+ * Options for runWithFallback
+ */
+export interface FallbackOptions {
+  /** Model for the first provider (model IDs are provider-specific, later providers use their defaults) */
+  modelId?: string;
+  /** Provider to try first (default: configured default provider) */
+  provider?: ModelProvider;
+  /** Try the other configured providers when the first one fails (default: true) */
+  fallback?: boolean;
+  /** Retries per provider on transient errors (default: 2) */
+  maxRetries?: number;
+  /** First backoff delay in ms, doubled on every retry (default: 500) */
+  baseDelayMs?: number;
+  /** Provider-specific options (e.g., Cloudflare AI binding) */
+  binding?: unknown;
+  /** Model instance to use instead of the provider chain (e.g., a mock model for offline evaluation) */
+  model?: LanguageModel;
+}
+
+/**
+ * Error thrown when every provider of the fallback chain failed
+ */
+export class ModelFallbackError extends Error {
+  constructor(
+    message: string,
+    public attempts: ModelAttempt[],
+  ) {
+    super(message);
+    this.name = 'ModelFallbackError';
+  }
+
+  /**
+   * True when every provider answered but none produced valid output
+   * (the input is likely unreadable, rather than the providers being unavailable)
+   */
+  get invalidOutput(): boolean {
+    return this.attempts.length > 0 && this.attempts.every((a) => a.kind === 'invalid_output');
+  }
+}
+
+/**
+ * Longest backoff delay honoured between retries (ms), including Retry-After hints
+ */
+const MAX_RETRY_DELAY_MS = 10_000;
+
+/**
+ * Run a model call, retrying transient errors and falling back to the next provider
+ * The chain starts with the requested (or default) provider, followed by the configured
+ * fallback providers (FALLBACK_PROVIDERS). Callers should disable the AI SDK's own retries
+ * (maxRetries: 0) so that rate limits move on to the next provider instead of piling up.
+ * @param env - Environment variables from Cloudflare Workers context
+ * @param task - Task the model is selected for
+ * @param run - Model call, given the model and its provider/model ID; throw to reject the result
+ *   (e.g., on schema validation failure)
+ * @param options - Provider/model overrides and retry settings
+ * @returns Result with the provider and model that produced it
+ * @throws ModelFallbackError when every provider failed
+ */
+export async function runWithFallback<T>(
+  env: AIEnvironment,
+  task: ModelTask,
+  run: (model: LanguageModel, identity: ModelIdentity) => Promise<T>,
+  options: FallbackOptions = {},
+): Promise<FallbackResult<T>> {
+  const maxRetries = options.maxRetries ?? 2;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const attempts: ModelAttempt[] = [];
+
+  for (const { provider, modelId, model: instance } of getFallbackChain(env, task, options)) {
+    let calls = 0;
+
+    for (;;) {
+      calls++;
+      try {
+        const model =
+          instance ?? getModelInstance(provider as ModelProvider, modelId, env, options);
+        const data = await run(model, { provider, modelId });
+        return { data, provider, modelId, attempts };
+      } catch (error) {
+        const kind = classifyModelError(error);
+        if (kind === 'transient' && calls <= maxRetries) {
+          await sleep(getRetryDelay(error, calls, baseDelayMs));
+          continue;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Model call failed (${provider}/${modelId}, ${kind}): ${message}`);
+        attempts.push({ provider, modelId, calls, kind, error: message });
+        break;
+      }
+    }
+  }
+
+  throw new ModelFallbackError(
+    `All model providers failed: ${attempts
+      .map((a) => `${a.provider}/${a.modelId} (${a.kind}: ${a.error})`)
+      .join('; ')}`,
+    attempts,
+  );
+}
+
+/**
+ * Providers (with their model for the task) in the order they are tried
+ */
+function getFallbackChain(
+  env: AIEnvironment,
+  task: ModelTask,
+  options: FallbackOptions,
+): Array<{ provider: ModelProvider | 'custom'; modelId: string; model?: LanguageModel }> {
+  if (options.model) {
+    const modelId = typeof options.model === 'string' ? options.model : options.model.modelId;
+    return [{ provider: 'custom', modelId, model: options.model }];
+  }
+
+  const config = getAIConfig(env);
+  const first = options.provider || config.defaultProvider;
+  const providers =
+    options.fallback === false
+      ? [first]
+      : [first, ...config.fallbackProviders.filter((provider) => provider !== first)];
+
+  return providers.map((provider) => ({
+    provider,
+    modelId:
+      provider === first && options.modelId ? options.modelId : DEFAULT_MODELS[provider][task],
+  }));
+}
+
+/**
+ * Classify a failed model call
+ */
+function classifyModelError(error: unknown): ModelFailureKind {
+  if (RetryError.isInstance(error)) {
+    return classifyModelError(error.lastError);
+  }
+
+  if (
+    NoObjectGeneratedError.isInstance(error) ||
+    NoOutputGeneratedError.isInstance(error) ||
+    TypeValidationError.isInstance(error) ||
+    JSONParseError.isInstance(error) ||
+    (error instanceof Error && error.name === 'ZodError')
+  ) {
+    return 'invalid_output';
+  }
+
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode ?? 0;
+    return error.isRetryable || status === 408 || status === 429 || status >= 500
+      ? 'transient'
+      : 'fatal';
+  }
+
+  // fetch() rejects with a TypeError on network failures
+  if (error instanceof TypeError) {
+    return 'transient';
+  }
+
+  return 'fatal';
+}
+
+/**
+ * Backoff delay before the next retry (ms)
+ * Honours Retry-After hints from rate-limited responses, otherwise uses exponential
+ * backoff with jitter.
+ */
+function getRetryDelay(error: unknown, calls: number, baseDelayMs: number): number {
+  const apiError = RetryError.isInstance(error) ? error.lastError : error;
+
+  if (APICallError.isInstance(apiError) && apiError.responseHeaders) {
+    const headers = apiError.responseHeaders;
+    const retryAfterMs = Number(headers['retry-after-ms']);
+    if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+      return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+    }
+
+    const retryAfter = headers['retry-after'];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isFinite(seconds)
+        ? seconds * 1000
+        : new Date(retryAfter).getTime() - Date.now();
+      if (Number.isFinite(delay) && delay >= 0) {
+        return Math.min(delay, MAX_RETRY_DELAY_MS);
+      }
+    }
+  }
+
+  const backoff = baseDelayMs * 2 ** (calls - 1);
+  return Math.min(backoff + Math.random() * (baseDelayMs / 2), MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
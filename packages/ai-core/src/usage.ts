@@ -0,0 +1,164 @@
+/**
+ * Model Usage
+ * Token usage, latency and estimated cost of model calls
+ */
+
+import { NoObjectGeneratedError, type LanguageModelUsage } from 'ai';
+import type { ModelIdentity } from './registry';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices of the default models (and common alternatives), USD per million tokens
+ * OpenRouter IDs ("vendor/model") fall back to the price of the bare model ID, and
+ * OpenRouter ":free" variants cost nothing.
+ */
+const MODEL_PRICES = new Map<string, ModelPrice>([
+  // Google
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+  ['gemini-2.5-flash-lite', { input: 0.1, output: 0.4 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+  ['gemini-2.0-flash', { input: 0.1, output: 0.4 }],
+  // OpenAI
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['o1', { input: 15, output: 60 }],
+  // Anthropic
+  ['claude-3-5-sonnet-20241022', { input: 3, output: 15 }],
+  ['claude-3-5-haiku-20241022', { input: 0.8, output: 4 }],
+  ['claude-sonnet-4-20250514', { input: 3, output: 15 }],
+  // DeepSeek
+  ['deepseek-chat', { input: 0.27, output: 1.1 }],
+  ['deepseek-reasoner', { input: 0.55, output: 2.19 }],
+  // Cloudflare Workers AI
+  ['@cf/meta/llama-3.2-11b-vision-instruct', { input: 0.049, output: 0.68 }],
+  ['@cf/meta/llama-3.3-70b-instruct-fp8-fast', { input: 0.29, output: 2.25 }],
+]);
+
+/**
+ * Usage of one model call
+ */
+export interface ModelUsage {
+  provider: ModelIdentity['provider'];
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Wall-clock duration of the call (ms) */
+  latencyMs: number;
+  /** Estimated cost in USD (null when the model has no known price) */
+  costUsd: number | null;
+  /** False when the call failed after consuming tokens (e.g., output that did not match the schema) */
+  success: boolean;
+}
+
+/**
+ * Callback receiving the usage of every model call (e.g., to store it)
+ */
+export type UsageRecorder = (usage: ModelUsage) => void | Promise<void>;
+
+/**
+ * Register or replace the price of a model
+ * @param modelId - Model ID as passed to the provider
+ * @param price - USD per million input/output tokens
+ */
+export function registerModelPrice(modelId: string, price: ModelPrice): void {
+  MODEL_PRICES.set(modelId, price);
+}
+
+/**
+ * Get the price of a model
+ * @returns The price, or undefined when the model is not in the price table
+ */
+export function getModelPrice(modelId: string): ModelPrice | undefined {
+  if (modelId.endsWith(':free')) {
+    return { input: 0, output: 0 };
+  }
+  return MODEL_PRICES.get(modelId) ?? MODEL_PRICES.get(modelId.split('/').pop() ?? modelId);
+}
+
+/**
+ * Estimate the cost of a call from its token counts
+ * @returns Cost in USD, or null when the model has no known price
+ */
+export function estimateCost(
+  modelId: string,
+  inputTokens: number,
+  outputTokens: number,
+): number | null {
+  const price = getModelPrice(modelId);
+  if (!price) {
+    return null;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Build the usage record of a call
+ * @param model - Provider and model that handled the call
+ * @param usage - Token usage reported by the AI SDK (missing counts are taken as 0)
+ * @param latencyMs - Duration of the call
+ * @param success - Whether the call produced a usable result
+ */
+export function toModelUsage(
+  model: ModelIdentity,
+  usage: LanguageModelUsage | undefined,
+  latencyMs: number,
+  success = true,
+): ModelUsage {
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+  return {
+    provider: model.provider,
+    modelId: model.modelId,
+    inputTokens,
+    outputTokens,
+    latencyMs,
+    costUsd: estimateCost(model.modelId, inputTokens, outputTokens),
+    success,
+  };
+}
+
+/**
+ * Run a generateText call and report its usage
+ * Calls rejected for invalid output still consumed tokens, so their usage is reported too.
+ * Recorder errors are logged and never fail the call.
+ * @param onUsage - Usage callback (the call just runs when undefined)
+ * @param model - Provider and model that handle the call
+ * @param call - The model call
+ */
+export async function trackUsage<T extends { totalUsage: LanguageModelUsage }>(
+  onUsage: UsageRecorder | undefined,
+  model: ModelIdentity,
+  call: () => Promise<T>,
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await call();
+    await report(onUsage, toModelUsage(model, result.totalUsage, Date.now() - startedAt));
+    return result;
+  } catch (error) {
+    if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+      await report(onUsage, toModelUsage(model, error.usage, Date.now() - startedAt, false));
+    }
+    throw error;
+  }
+}
+
+async function report(onUsage: UsageRecorder | undefined, usage: ModelUsage): Promise<void> {
+  if (!onUsage) {
+    return;
+  }
+  try {
+    await onUsage(usage);
+  } catch (error) {
+    console.error('Failed to record model usage:', error);
+  }
+}
@@ -3,22 +3,29 @@
  * These utilities work in environments without Node.js Buffer API
  */
 
+/**
+ * Bytes converted per String.fromCharCode call
+ * (well below the engines' argument count limits)
+ */
+const CHUNK_SIZE = 0x8000;
+
 /**
  * Convert ArrayBuffer to base64 string using Web APIs
  * Compatible with Cloudflare Workers
+ * Bytes are converted in chunks rather than one character at a time, so a multi-megabyte
+ * document does not build its binary string through millions of concatenations.
  * @param buffer - ArrayBuffer to convert
  * @returns Base64 encoded string
  */
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const uint8Array = new Uint8Array(buffer);
-  let binary = '';
-  const len = uint8Array.byteLength;
+  const bytes = new Uint8Array(buffer);
+  const chunks: string[] = [];
 
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(uint8Array[i]);
+  for (let i = 0; i < bytes.byteLength; i += CHUNK_SIZE) {
+    chunks.push(String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE)));
   }
 
-  return btoa(binary);
+  return btoa(chunks.join(''));
 }
 
 /**
@@ -0,0 +1,2 @@
+ALTER TABLE `records` ADD `content_hash` text;--> statement-breakpoint
+CREATE INDEX `idx_records_user_hash` ON `records` (`user_id`,`content_hash`);
\ No newline at end of file
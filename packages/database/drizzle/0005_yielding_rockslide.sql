@@ -0,0 +1,16 @@
+CREATE TABLE `attachments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`record_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`storage_key` text NOT NULL,
+	`file_name` text,
+	`mime_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`content_hash` text NOT NULL,
+	`source` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`record_id`) REFERENCES `records`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_attachments_record_hash` ON `attachments` (`record_id`,`content_hash`);--> statement-breakpoint
+CREATE INDEX `idx_attachments_user_id` ON `attachments` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `metrics` ADD `original_value` real;--> statement-breakpoint
+ALTER TABLE `metrics` ADD `original_unit` text;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE `metrics` ADD `ref_lower` real;--> statement-breakpoint
+ALTER TABLE `metrics` ADD `ref_upper` real;--> statement-breakpoint
+ALTER TABLE `metrics` ADD `ref_inclusive` integer;--> statement-breakpoint
+ALTER TABLE `metrics` ADD `ref_expected` text;--> statement-breakpoint
+ALTER TABLE `metrics` ADD `model_status` text;--> statement-breakpoint
+ALTER TABLE `metrics` ADD `status_mismatch` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `drafts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`type` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`data` text NOT NULL,
+	`storage_key` text,
+	`file_name` text,
+	`mime_type` text,
+	`size` integer,
+	`content_hash` text,
+	`record_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`record_id`) REFERENCES `records`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_drafts_user_status` ON `drafts` (`user_id`,`status`);--> statement-breakpoint
+CREATE INDEX `idx_drafts_content_hash` ON `drafts` (`content_hash`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `metrics` ADD `confidence` real;--> statement-breakpoint
+ALTER TABLE `metrics` ADD `source_text` text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `prompt_overrides` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`domain` text NOT NULL,
+	`image_prompt` text,
+	`text_prompt` text,
+	`addendum` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_prompt_overrides_user_domain` ON `prompt_overrides` (`user_id`,`domain`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `model_preferences` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`task` text NOT NULL,
+	`provider` text NOT NULL,
+	`model_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_model_preferences_user_task` ON `model_preferences` (`user_id`,`task`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `ai_usage` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`operation` text NOT NULL,
+	`provider` text NOT NULL,
+	`model_id` text NOT NULL,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`latency_ms` integer DEFAULT 0 NOT NULL,
+	`cost_usd` real,
+	`success` integer DEFAULT true NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_ai_usage_user_created` ON `ai_usage` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `usage_budgets` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`monthly_limit_usd` real NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
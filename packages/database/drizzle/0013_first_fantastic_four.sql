@@ -0,0 +1,14 @@
+CREATE TABLE `budgets` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`category_tag` text NOT NULL,
+	`monthly_limit` real NOT NULL,
+	`currency` text NOT NULL,
+	`warning_percent` integer DEFAULT 80 NOT NULL,
+	`critical_percent` integer DEFAULT 100 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_budgets_user_category` ON `budgets` (`user_id`,`category_tag`,`currency`);
\ No newline at end of file
@@ -7,7 +7,26 @@
 export { createDb, schema } from './client';
 
 // Export table schemas for direct use
-export { records, metrics } from './schema';
+export {
+  users,
+  sessions,
+  records,
+  metrics,
+  attachments,
+  drafts,
+  chats,
+  chatMessages,
+  promptOverrides,
+  modelPreferences,
+  aiUsage,
+  usageBudgets,
+  budgets,
+  alertRules,
+  notifications,
+  notificationSettings,
+  reminders,
+  calendarFeeds,
+} from './schema';
 
 // Export TypeScript types inferred from schema
 export type { DrizzleD1Database } from 'drizzle-orm/d1';
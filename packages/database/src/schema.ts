@@ -1,4 +1,47 @@
-import { sqliteTable, text, integer, real, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+
+/**
+ * Users Table
+ * Stores household member accounts
+ */
+export const users = sqliteTable(
+  'users',
+  {
+    id: text('id').primaryKey(), // UUID (generated with crypto.randomUUID())
+    email: text('email').notNull(), // Lowercased login identifier
+    name: text('name').notNull(), // Display name (e.g., "Jane Doe")
+    passwordHash: text('password_hash').notNull(), // PBKDF2 hash: "iterations:salt:hash"
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [uniqueIndex('idx_users_email').on(table.email)],
+);
+
+/**
+ * Sessions Table
+ * Stores login sessions; the raw token is only ever held by the client
+ */
+export const sessions = sqliteTable(
+  'sessions',
+  {
+    id: text('id').primaryKey(), // SHA-256 hash of the session token
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index('idx_sessions_user_id').on(table.userId),
+    index('idx_sessions_expires_at').on(table.expiresAt),
+  ],
+);
 
 /**
  * Records Table
@@ -9,13 +52,14 @@ export const records = sqliteTable(
   {
     id: text('id').primaryKey(), // UUID (generated with crypto.randomUUID())
     userId: text('user_id').notNull(),
-    type: text('type', { enum: ['health', 'finance'] }).notNull(),
+    type: text('type').notNull(), // Domain ID (e.g., 'health', 'finance'; see the domain registry)
     title: text('title'), // Human-readable name (e.g., "Annual Blood Test")
     category: text('category').notNull(), // e.g., 'blood_test', 'invoice'
     date: integer('date', { mode: 'timestamp' }).notNull(), // Unix timestamp for easier sorting
     summaryValue: real('summary_value'), // Key value for quick graphing
     source: text('source', { enum: ['chat', 'upload', 'manual'] }), // Data provenance
     rawContent: text('raw_content').notNull(), // JSON string of full AI extraction
+    contentHash: text('content_hash'), // SHA-256 of the uploaded file (duplicate detection)
     createdAt: integer('created_at', { mode: 'timestamp' })
       .notNull()
       .$defaultFn(() => new Date()),
@@ -27,6 +71,7 @@ export const records = sqliteTable(
     index('idx_records_user_id').on(table.userId),
     index('idx_records_type').on(table.type),
     index('idx_records_date').on(table.date),
+    index('idx_records_user_hash').on(table.userId, table.contentHash),
   ],
 );
 
@@ -44,16 +89,24 @@ export const metrics = sqliteTable(
       .references(() => records.id, { onDelete: 'cascade' }), // Foreign key with cascade delete
     key: text('key').notNull(), // Short identifier (e.g., "wbc", "alt")
     name: text('name').notNull(), // Human-readable name (e.g., "White Blood Cell Count")
-    value: real('value').notNull(), // Normalized numeric value
+    value: real('value').notNull(), // Normalized numeric value (in the metric's canonical unit)
     unit: text('unit'), // Unit of measurement (e.g., "mg/dL", "USD")
-    status: text('status', {
-      enum: ['normal', 'high', 'low', 'positive', 'negative', 'income', 'expense', 'neutral'],
-    }).notNull(),
+    originalValue: real('original_value'), // Value as reported, before unit conversion
+    originalUnit: text('original_unit'), // Unit as reported, before unit conversion
+    status: text('status').notNull(), // One of the record domain's statuses (e.g., 'high', 'expense')
     reference: text('reference'), // Reference range (e.g., "3.5-9.5", "Negative")
+    refLower: real('ref_lower'), // Parsed lower bound of the reference range
+    refUpper: real('ref_upper'), // Parsed upper bound of the reference range
+    refInclusive: integer('ref_inclusive', { mode: 'boolean' }), // Bounds inclusive ("3.5-9.5") or not ("< 200")
+    refExpected: text('ref_expected'), // Expected qualitative result (e.g., "negative")
+    modelStatus: text('model_status'), // Status as given by the model, before server-side computation
+    statusMismatch: integer('status_mismatch', { mode: 'boolean' }).notNull().default(false), // Model status disagreed with the reference range
     notes: text('notes'), // Additional context or notes about the metric
     displayOrder: integer('display_order'), // Order for UI display (0, 1, 2, ...)
     categoryTag: text('category_tag'), // Category/group (e.g., "liver_function", "food_drink")
     parentKey: text('parent_key'), // Parent metric key for hierarchical data
+    confidence: real('confidence'), // Extraction confidence (0-1), null for manual data
+    sourceText: text('source_text'), // Text snippet the value was read from
   },
   (table) => [
     index('idx_metrics_record_id').on(table.recordId),
@@ -62,3 +115,367 @@ export const metrics = sqliteTable(
     index('idx_metrics_parent_key').on(table.parentKey),
   ],
 );
+
+/**
+ * Attachments Table
+ * Links records to the original documents (images, PDFs) they were extracted from
+ * The file itself lives in blob storage under storageKey; several records extracted from
+ * the same file share one blob.
+ */
+export const attachments = sqliteTable(
+  'attachments',
+  {
+    id: text('id').primaryKey(), // UUID (generated with crypto.randomUUID())
+    recordId: text('record_id')
+      .notNull()
+      .references(() => records.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(),
+    storageKey: text('storage_key').notNull(), // Blob key (e.g., "<userId>/<sha256>")
+    fileName: text('file_name'), // Original file name, if known
+    mimeType: text('mime_type').notNull(), // e.g., "image/jpeg", "application/pdf"
+    size: integer('size').notNull(), // Bytes
+    contentHash: text('content_hash').notNull(), // SHA-256 of the file
+    source: text('source', { enum: ['chat', 'upload'] }).notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    uniqueIndex('idx_attachments_record_hash').on(table.recordId, table.contentHash),
+    index('idx_attachments_user_id').on(table.userId),
+  ],
+);
+
+/**
+ * Drafts Table
+ * Extraction results awaiting human review before they become records
+ * Each extracted record is one draft; drafts from the same file share its stored blob.
+ */
+export const drafts = sqliteTable(
+  'drafts',
+  {
+    id: text('id').primaryKey(), // UUID (generated with crypto.randomUUID())
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: text('type').notNull(), // Domain ID of the extracted records
+    status: text('status', { enum: ['pending', 'approved', 'rejected'] })
+      .notNull()
+      .default('pending'),
+    data: text('data').notNull(), // JSON string of the (editable) extracted RecordData
+    storageKey: text('storage_key'), // Blob key of the original file, if stored
+    fileName: text('file_name'),
+    mimeType: text('mime_type'),
+    size: integer('size'),
+    contentHash: text('content_hash'), // SHA-256 of the original file
+    recordId: text('record_id').references(() => records.id, { onDelete: 'set null' }), // Record created on approval
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index('idx_drafts_user_status').on(table.userId, table.status),
+    index('idx_drafts_content_hash').on(table.contentHash),
+  ],
+);
+
+/**
+ * Chats Table
+ * Stores chat sessions (conversation metadata and last Canvas state)
+ */
+export const chats = sqliteTable(
+  'chats',
+  {
+    id: text('id').primaryKey(), // Client-generated chat id (used in /chat/$chatId)
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    title: text('title').notNull(), // Display title (defaults to the first user message)
+    canvasState: text('canvas_state'), // JSON string of the last rendered Canvas content
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index('idx_chats_user_id').on(table.userId),
+    index('idx_chats_updated_at').on(table.updatedAt),
+  ],
+);
+
+/**
+ * Chat Messages Table
+ * Stores UIMessages of a chat in conversation order
+ */
+export const chatMessages = sqliteTable(
+  'chat_messages',
+  {
+    id: text('id').primaryKey(), // UIMessage id
+    chatId: text('chat_id')
+      .notNull()
+      .references(() => chats.id, { onDelete: 'cascade' }),
+    role: text('role', { enum: ['system', 'user', 'assistant'] }).notNull(),
+    content: text('content').notNull(), // JSON string of the full UIMessage (parts, metadata)
+    position: integer('position').notNull(), // Order within the chat (0, 1, 2, ...)
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [index('idx_chat_messages_chat_id').on(table.chatId, table.position)],
+);
+
+/**
+ * Prompt Overrides Table
+ * Stores per-user customizations of a domain's extraction prompts
+ */
+export const promptOverrides = sqliteTable(
+  'prompt_overrides',
+  {
+    id: text('id').primaryKey(), // UUID
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    domain: text('domain').notNull(), // Registered domain ID (e.g., "health")
+    imagePrompt: text('image_prompt'), // Replaces the built-in image/PDF prompt (null = built-in)
+    textPrompt: text('text_prompt'), // Replaces the built-in text prompt (null = built-in)
+    addendum: text('addendum'), // Appended to both prompts (e.g., "our lab's GLU is fasting glucose")
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [uniqueIndex('idx_prompt_overrides_user_domain').on(table.userId, table.domain)],
+);
+
+/**
+ * Model Preferences Table
+ * Stores per-user provider/model choices for each model task
+ * (vision: document extraction, reasoning: chat and text extraction, advanced: complex tasks)
+ */
+export const modelPreferences = sqliteTable(
+  'model_preferences',
+  {
+    id: text('id').primaryKey(), // UUID
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    task: text('task', { enum: ['vision', 'reasoning', 'advanced'] }).notNull(),
+    provider: text('provider').notNull(), // e.g., "google", "openai"
+    modelId: text('model_id'), // Provider-specific model ID (null = the provider's default)
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [uniqueIndex('idx_model_preferences_user_task').on(table.userId, table.task)],
+);
+
+/**
+ * AI Usage Table
+ * One row per model call: provider, model, token counts, latency and estimated cost
+ */
+export const aiUsage = sqliteTable(
+  'ai_usage',
+  {
+    id: text('id').primaryKey(), // UUID
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    operation: text('operation').notNull(), // What triggered the call: "chat", "upload", "extract-text", ...
+    provider: text('provider').notNull(), // e.g., "google" ("custom" for an explicit model instance)
+    modelId: text('model_id').notNull(),
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    latencyMs: integer('latency_ms').notNull().default(0),
+    costUsd: real('cost_usd'), // Estimated from the price table (null = unknown model price)
+    success: integer('success', { mode: 'boolean' }).notNull().default(true),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [index('idx_ai_usage_user_created').on(table.userId, table.createdAt)],
+);
+
+/**
+ * Usage Budgets Table
+ * Per-user monthly spending limit for AI calls
+ */
+export const usageBudgets = sqliteTable('usage_budgets', {
+  userId: text('user_id')
+    .primaryKey()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  monthlyLimitUsd: real('monthly_limit_usd').notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+/**
+ * Budgets Table
+ * Monthly spending limit of a finance category (e.g., 800 USD on "food_drink"), with the
+ * percentages of the limit at which progress turns to a warning and to critical
+ */
+export const budgets = sqliteTable(
+  'budgets',
+  {
+    id: text('id').primaryKey(), // UUID
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    categoryTag: text('category_tag').notNull(), // Finance metric categoryTag (e.g., "food_drink")
+    monthlyLimit: real('monthly_limit').notNull(),
+    currency: text('currency').notNull(), // Unit of the counted amounts (e.g., "USD")
+    warningPercent: integer('warning_percent').notNull().default(80),
+    criticalPercent: integer('critical_percent').notNull().default(100),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    uniqueIndex('idx_budgets_user_category').on(table.userId, table.categoryTag, table.currency),
+  ],
+);
+
+/**
+ * Alert Rules Table
+ * Conditions checked on newly saved metrics; a match creates a notification
+ * - status: the metric's status is abnormal (amber or red tone in its domain)
+ * - threshold: the value crosses `threshold` (direction above/below)
+ * - trend: the value rose (or fell) `count` times in a row
+ * - change: the value changed more than `threshold` percent versus the previous reading
+ */
+export const alertRules = sqliteTable(
+  'alert_rules',
+  {
+    id: text('id').primaryKey(), // UUID
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    kind: text('kind', { enum: ['status', 'threshold', 'trend', 'change'] }).notNull(),
+    recordType: text('record_type'), // Only metrics of this domain (null = any)
+    metricKey: text('metric_key'), // Only this canonical metric key (null = any)
+    direction: text('direction', { enum: ['above', 'below', 'rising', 'falling', 'any'] }),
+    threshold: real('threshold'), // Value (threshold) or percent (change)
+    unit: text('unit'), // Unit of a threshold value (null = the metric's own unit)
+    count: integer('count'), // Consecutive changes (trend)
+    severity: text('severity', { enum: ['info', 'warning', 'critical'] })
+      .notNull()
+      .default('warning'),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [index('idx_alert_rules_user_id').on(table.userId)],
+);
+
+/**
+ * Notifications Table
+ * In-app notifications raised by alert rules
+ */
+export const notifications = sqliteTable(
+  'notifications',
+  {
+    id: text('id').primaryKey(), // UUID
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    ruleId: text('rule_id').references(() => alertRules.id, { onDelete: 'set null' }), // null = built-in rule or rule deleted
+    recordId: text('record_id').references(() => records.id, { onDelete: 'cascade' }),
+    metricKey: text('metric_key'),
+    severity: text('severity', { enum: ['info', 'warning', 'critical'] }).notNull(),
+    title: text('title').notNull(),
+    message: text('message').notNull(),
+    dedupeKey: text('dedupe_key').notNull(), // Rule + record + metric: one notification per match
+    readAt: integer('read_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index('idx_notifications_user_created').on(table.userId, table.createdAt),
+    uniqueIndex('idx_notifications_user_dedupe').on(table.userId, table.dedupeKey),
+  ],
+);
+
+/**
+ * Notification Settings Table
+ * Per-user delivery of notifications outside the app (webhook)
+ */
+export const notificationSettings = sqliteTable('notification_settings', {
+  userId: text('user_id')
+    .primaryKey()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  webhookUrl: text('webhook_url'), // HTTPS endpoint receiving each notification as JSON
+  webhookSecret: text('webhook_secret'), // Signs the payload (X-Signature: HMAC-SHA256 hex)
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+/**
+ * Reminders Table
+ * Explicit cadence of a record category (e.g., health "HbA1c" every 91 days). Categories
+ * without a row get a cadence inferred from their history; a disabled row mutes one.
+ */
+export const reminders = sqliteTable(
+  'reminders',
+  {
+    id: text('id').primaryKey(), // UUID
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    recordType: text('record_type').notNull(), // Domain of the records (e.g., "health")
+    category: text('category').notNull(), // Record category as displayed (e.g., "Blood Test")
+    categoryKey: text('category_key').notNull(), // Normalized category ("bloodtest") for matching
+    intervalDays: integer('interval_days').notNull(), // Expected days between two records
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    uniqueIndex('idx_reminders_user_category').on(
+      table.userId,
+      table.recordType,
+      table.categoryKey,
+    ),
+  ],
+);
+
+/**
+ * Calendar Feeds Table
+ * Secret URLs serving a user's reminders as iCalendar, for calendar apps that can't log in
+ */
+export const calendarFeeds = sqliteTable(
+  'calendar_feeds',
+  {
+    id: text('id').primaryKey(), // SHA-256 hash of the feed token
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [uniqueIndex('idx_calendar_feeds_user_id').on(table.userId)],
+);
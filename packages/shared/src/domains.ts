@@ -0,0 +1,225 @@
+/**
+ * Domain Registry
+ * The kinds of records the app tracks (health, finance, fitness, ...) and their rules.
+ * Everything domain-specific (upload routes, chat tools, filters, dashboard charts) is
+ * derived from the registered definitions; extraction prompts are registered on top of
+ * these in ai-core (see registerDomain there).
+ */
+
+/**
+ * How a status is presented: good (green), bad (red), warning (amber) or neutral
+ */
+export type StatusTone = 'good' | 'bad' | 'warning' | 'neutral';
+
+/**
+ * A metric status allowed in a domain
+ */
+export interface DomainStatus {
+  value: string;
+  tone: StatusTone;
+  description: string;
+}
+
+/**
+ * A chart shown on the dashboard for a domain (a metric over time)
+ */
+export interface DomainChart {
+  title: string;
+  /** Canonical metric key to plot */
+  metricKey: string;
+  type: 'line' | 'bar';
+}
+
+/**
+ * Definition of a data domain
+ */
+export interface DomainDefinition {
+  /** Identifier used as record type and in API paths (lowercase, e.g., "fitness") */
+  id: string;
+  label: string;
+  /** What kind of documents and data belong to the domain */
+  description: string;
+  /** Record categories (e.g., "lab", "invoice") */
+  categories: string[];
+  /** Allowed metric statuses */
+  statuses: DomainStatus[];
+  /** Charts shown on the dashboard */
+  charts: DomainChart[];
+  /** Accent color (hex) for badges and charts */
+  color: string;
+}
+
+// ========================================
+// Built-in Domains
+// ========================================
+
+const HEALTH_DOMAIN: DomainDefinition = {
+  id: 'health',
+  label: 'Health',
+  description: 'Lab reports, vital signs and medical measurements',
+  categories: ['lab', 'vital', 'imaging', 'prescription', 'other'],
+  statuses: [
+    { value: 'normal', tone: 'good', description: 'Within the reference range' },
+    { value: 'high', tone: 'bad', description: 'Above the reference range' },
+    { value: 'low', tone: 'warning', description: 'Below the reference range' },
+    { value: 'positive', tone: 'bad', description: 'Qualitative test detected' },
+    { value: 'negative', tone: 'good', description: 'Qualitative test not detected' },
+  ],
+  charts: [
+    { title: 'Weight', metricKey: 'weight', type: 'line' },
+    { title: 'Fasting Glucose', metricKey: 'glucose_fasting', type: 'line' },
+    { title: 'Total Cholesterol', metricKey: 'total_cholesterol', type: 'line' },
+  ],
+  color: '#2563eb',
+};
+
+const FINANCE_DOMAIN: DomainDefinition = {
+  id: 'finance',
+  label: 'Finance',
+  description: 'Receipts, invoices, bank statements and transaction messages',
+  categories: ['transaction', 'statement', 'invoice', 'investment', 'tax', 'other'],
+  statuses: [
+    { value: 'income', tone: 'good', description: 'Money received' },
+    { value: 'expense', tone: 'neutral', description: 'Money spent' },
+    { value: 'neutral', tone: 'neutral', description: 'Balances, totals and other amounts' },
+  ],
+  charts: [
+    { title: 'Total Spent', metricKey: 'total', type: 'bar' },
+    { title: 'Account Balance', metricKey: 'account_balance', type: 'line' },
+  ],
+  color: '#16a34a',
+};
+
+const FITNESS_DOMAIN: DomainDefinition = {
+  id: 'fitness',
+  label: 'Fitness',
+  description: 'Workouts, activity summaries and body composition scans',
+  categories: ['workout', 'cardio', 'strength', 'activity', 'body_composition', 'other'],
+  statuses: [
+    { value: 'neutral', tone: 'neutral', description: 'A plain measurement' },
+    { value: 'personal_best', tone: 'good', description: 'Best result so far' },
+    { value: 'goal_met', tone: 'good', description: 'A stated goal or target was reached' },
+    { value: 'goal_missed', tone: 'warning', description: 'A stated goal or target was missed' },
+    { value: 'normal', tone: 'good', description: 'Within the stated healthy range' },
+    { value: 'high', tone: 'bad', description: 'Above the stated healthy range' },
+    { value: 'low', tone: 'warning', description: 'Below the stated healthy range' },
+  ],
+  charts: [
+    { title: 'Distance', metricKey: 'distance', type: 'bar' },
+    { title: 'Workout Duration', metricKey: 'duration', type: 'bar' },
+    { title: 'Body Fat', metricKey: 'body_fat', type: 'line' },
+  ],
+  color: '#ea580c',
+};
+
+const UTILITIES_DOMAIN: DomainDefinition = {
+  id: 'utilities',
+  label: 'Utilities',
+  description: 'Meter readings and electricity, water, gas or internet bills',
+  categories: ['electricity', 'water', 'gas', 'heating', 'internet', 'other'],
+  statuses: [
+    { value: 'neutral', tone: 'neutral', description: 'A plain reading or usage figure' },
+    { value: 'expense', tone: 'neutral', description: 'An amount charged' },
+    {
+      value: 'high',
+      tone: 'bad',
+      description: 'Usage marked as above the usual or previous period',
+    },
+    {
+      value: 'low',
+      tone: 'good',
+      description: 'Usage marked as below the usual or previous period',
+    },
+  ],
+  charts: [
+    { title: 'Electricity Usage', metricKey: 'electricity_usage', type: 'bar' },
+    { title: 'Water Usage', metricKey: 'water_usage', type: 'bar' },
+    { title: 'Gas Usage', metricKey: 'gas_usage', type: 'bar' },
+  ],
+  color: '#0891b2',
+};
+
+const VEHICLE_DOMAIN: DomainDefinition = {
+  id: 'vehicle',
+  label: 'Vehicle',
+  description: 'Service invoices, fuel receipts, inspections and odometer readings',
+  categories: ['maintenance', 'repair', 'fuel', 'inspection', 'insurance', 'other'],
+  statuses: [
+    { value: 'neutral', tone: 'neutral', description: 'A plain reading (e.g., odometer)' },
+    { value: 'expense', tone: 'neutral', description: 'An amount paid' },
+    { value: 'ok', tone: 'good', description: 'Checked and fine' },
+    { value: 'due', tone: 'warning', description: 'Service or replacement due soon' },
+    { value: 'overdue', tone: 'bad', description: 'Service or replacement overdue' },
+  ],
+  charts: [
+    { title: 'Odometer', metricKey: 'odometer', type: 'line' },
+    { title: 'Fuel Volume', metricKey: 'fuel_volume', type: 'bar' },
+    { title: 'Service Cost', metricKey: 'total', type: 'bar' },
+  ],
+  color: '#7c3aed',
+};
+
+// ========================================
+// Registry
+// ========================================
+
+const DOMAINS = new Map<string, DomainDefinition>();
+
+/**
+ * Register (or replace) a domain
+ * @throws Error if the definition is unusable (bad ID, no categories or statuses)
+ */
+export function registerDomainDefinition(definition: DomainDefinition): void {
+  if (!/^[a-z][a-z0-9_]*$/.test(definition.id)) {
+    throw new Error(`Invalid domain id "${definition.id}" (use lowercase letters, digits, _)`);
+  }
+  if (definition.categories.length === 0 || definition.statuses.length === 0) {
+    throw new Error(`Domain "${definition.id}" needs at least one category and one status`);
+  }
+  DOMAINS.set(definition.id, definition);
+}
+
+/**
+ * Get a registered domain
+ */
+export function getDomain(id: string): DomainDefinition | undefined {
+  return DOMAINS.get(id);
+}
+
+/**
+ * All registered domains, in registration order
+ */
+export function listDomains(): DomainDefinition[] {
+  return [...DOMAINS.values()];
+}
+
+/**
+ * IDs of all registered domains (non-empty, as z.enum requires)
+ */
+export function listDomainIds(): [string, ...string[]] {
+  return listDomains().map((domain) => domain.id) as [string, ...string[]];
+}
+
+/**
+ * Whether a domain with this ID is registered
+ */
+export function isRegisteredDomain(id: unknown): id is string {
+  return typeof id === 'string' && DOMAINS.has(id);
+}
+
+/**
+ * Whether a status is allowed for records of a domain
+ */
+export function isDomainStatus(domainId: string, status: string): boolean {
+  return DOMAINS.get(domainId)?.statuses.some((s) => s.value === status) ?? false;
+}
+
+for (const domain of [
+  HEALTH_DOMAIN,
+  FINANCE_DOMAIN,
+  FITNESS_DOMAIN,
+  UTILITIES_DOMAIN,
+  VEHICLE_DOMAIN,
+]) {
+  registerDomainDefinition(domain);
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { getDomain, isDomainStatus, listDomainIds } from './domains';
 
 export const sharedVersion = '0.0.1';
 
@@ -16,17 +17,11 @@ export const MetricItemSchema = z.object({
   value: z.number().describe('The numeric value of the metric'),
   unit: z.string().optional().describe('Unit of measurement (e.g., "U/L", "mmol/L", "USD")'),
   status: z
-    .enum([
-      'normal',
-      'high',
-      'low',
-      'positive',
-      'negative', // Health status values
-      'income',
-      'expense',
-      'neutral', // Finance status values
-    ])
-    .describe('Status indicator'),
+    .string()
+    .min(1)
+    .describe(
+      'Status indicator, one of the statuses of the record type (e.g., "normal"/"high"/"low" for health, "income"/"expense"/"neutral" for finance)',
+    ),
   reference: z.string().optional().describe('Reference range (e.g., "3.5-9.5", "Negative")'),
   notes: z.string().optional().describe('Additional context or notes about the metric'),
   displayOrder: z.number().optional().describe('Order for UI display (0, 1, 2, ...)'),
@@ -38,14 +33,38 @@ export const MetricItemSchema = z.object({
     .string()
     .optional()
     .describe('Parent metric key for hierarchical data (e.g., line items under "subtotal")'),
+  confidence: z
+    .number()
+    .optional()
+    .describe('How sure the extraction is about this value, from 0 (guess) to 1 (clearly legible)'),
+  sourceText: z
+    .string()
+    .optional()
+    .describe('The exact text the value was read from (e.g., "ALT 45 U/L (7-40)")'),
 });
 
+/**
+ * Extracted metrics with a confidence below this value should be verified manually
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Whether a metric's extraction confidence calls for manual verification
+ * (unknown confidence, e.g. for manually entered data, is not flagged)
+ */
+export function isLowConfidence(confidence: number | null | undefined): boolean {
+  return confidence !== null && confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
 /**
  * RecordDataSchema
  * The AI output structure - represents the complete extraction result
  */
 export const RecordDataSchema = z.object({
-  type: z.enum(['health', 'finance']).describe('Type of record'),
+  type: z
+    .string()
+    .min(1)
+    .describe('Type (domain) of record (e.g., "health", "finance", "fitness")'),
   title: z.string().optional().describe('Human-readable title (e.g., "Annual Blood Test")'),
   category: z.string().describe('Category (e.g., "blood_test", "invoice")'),
   date: z.string().describe('ISO date string (YYYY-MM-DD)'),
@@ -53,9 +72,91 @@ export const RecordDataSchema = z.object({
   items: z.array(MetricItemSchema).describe('List of extracted metric items'),
 });
 
+/**
+ * RecordDataSchema plus the rules of the record's domain: the type must be a registered
+ * domain and every metric status must be allowed in it. Use this before writing records;
+ * RecordDataSchema itself stays a plain object schema so it can be extended.
+ */
+export const DomainRecordDataSchema = RecordDataSchema.superRefine((record, ctx) => {
+  const domain = getDomain(record.type);
+  if (!domain) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['type'],
+      message: `Unknown record type "${record.type}" (expected one of: ${listDomainIds().join(', ')})`,
+    });
+    return;
+  }
+
+  record.items.forEach((item, index) => {
+    if (!isDomainStatus(domain.id, item.status)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['items', index, 'status'],
+        message: `Invalid ${domain.id} status "${item.status}" (expected one of: ${domain.statuses.map((s) => s.value).join(', ')})`,
+      });
+    }
+  });
+});
+
 // ========================================
 // TypeScript Type Exports
 // ========================================
 
 export type MetricItem = z.infer<typeof MetricItemSchema>;
 export type RecordData = z.infer<typeof RecordDataSchema>;
+
+// ========================================
+// Domains
+// ========================================
+
+export {
+  registerDomainDefinition,
+  getDomain,
+  listDomains,
+  listDomainIds,
+  isRegisteredDomain,
+  isDomainStatus,
+  type DomainDefinition,
+  type DomainStatus,
+  type DomainChart,
+  type StatusTone,
+} from './domains';
+
+// ========================================
+// Metric Dictionary
+// ========================================
+
+export {
+  METRIC_DICTIONARY,
+  normalizeMetricToken,
+  findMetricDefinition,
+  toMetricKey,
+  canonicalizeMetric,
+  canonicalizeMetrics,
+  type MetricDefinition,
+} from './metric-dictionary';
+
+// ========================================
+// Unit Conversion
+// ========================================
+
+export {
+  UNIT_CONVERSIONS,
+  normalizeUnit,
+  getCanonicalUnit,
+  convertMetricValue,
+  convertReferenceRange,
+} from './unit-conversion';
+
+// ========================================
+// Reference Ranges
+// ========================================
+
+export {
+  parseReferenceRange,
+  computeRangeStatus,
+  computeQualitativeStatus,
+  RANGE_STATUSES,
+  type ReferenceRange,
+} from './reference-range';
@@ -0,0 +1,798 @@
+// ========================================
+// Canonical Metric Dictionary
+// ========================================
+
+/**
+ * MetricDefinition
+ * Canonical identity of an analyte: the key every record should use for it,
+ * its display name, preferred unit and the synonyms models/reports use for it
+ * (abbreviations, spelling variants, other languages).
+ */
+export interface MetricDefinition {
+  key: string;
+  name: string;
+  unit?: string;
+  synonyms: string[];
+}
+
+export const METRIC_DICTIONARY: MetricDefinition[] = [
+  // Blood routine
+  {
+    key: 'wbc',
+    name: 'White Blood Cell Count',
+    unit: '10^9/L',
+    synonyms: [
+      'white blood cell',
+      'white blood cells',
+      'white blood cell count',
+      'wbc count',
+      'leukocytes',
+      'leukocyte count',
+      'leucocytes',
+      '白细胞',
+      '白细胞计数',
+      '白血球',
+      '白血球数',
+      'leucocitos',
+      'leukozyten',
+      'globules blancs',
+    ],
+  },
+  {
+    key: 'rbc',
+    name: 'Red Blood Cell Count',
+    unit: '10^12/L',
+    synonyms: [
+      'red blood cell',
+      'red blood cells',
+      'red blood cell count',
+      'rbc count',
+      'erythrocytes',
+      'erythrocyte count',
+      '红细胞',
+      '红细胞计数',
+      '赤血球',
+      '赤血球数',
+      'eritrocitos',
+      'erythrozyten',
+      'globules rouges',
+    ],
+  },
+  {
+    key: 'hgb',
+    name: 'Hemoglobin',
+    unit: 'g/L',
+    synonyms: [
+      'hb',
+      'hemoglobin',
+      'haemoglobin',
+      '血红蛋白',
+      '血色素',
+      'ヘモグロビン',
+      'hemoglobina',
+      'hämoglobin',
+      'hémoglobine',
+    ],
+  },
+  {
+    key: 'hct',
+    name: 'Hematocrit',
+    unit: '%',
+    synonyms: [
+      'hematocrit',
+      'haematocrit',
+      'pcv',
+      'packed cell volume',
+      '红细胞压积',
+      '红细胞比容',
+      'ヘマトクリット',
+      'hematocrito',
+      'hämatokrit',
+    ],
+  },
+  {
+    key: 'mcv',
+    name: 'Mean Corpuscular Volume',
+    unit: 'fL',
+    synonyms: ['mean corpuscular volume', 'mean cell volume', '平均红细胞体积'],
+  },
+  {
+    key: 'mch',
+    name: 'Mean Corpuscular Hemoglobin',
+    unit: 'pg',
+    synonyms: [
+      'mean corpuscular hemoglobin',
+      'mean cell hemoglobin',
+      '平均红细胞血红蛋白含量',
+      '平均红细胞血红蛋白量',
+    ],
+  },
+  {
+    key: 'mchc',
+    name: 'Mean Corpuscular Hemoglobin Concentration',
+    unit: 'g/L',
+    synonyms: [
+      'mean corpuscular hemoglobin concentration',
+      'mean cell hemoglobin concentration',
+      '平均红细胞血红蛋白浓度',
+    ],
+  },
+  {
+    key: 'rdw',
+    name: 'Red Cell Distribution Width',
+    unit: '%',
+    synonyms: [
+      'rdw cv',
+      'rdw-cv',
+      'red cell distribution width',
+      'red blood cell distribution width',
+      '红细胞分布宽度',
+    ],
+  },
+  {
+    key: 'plt',
+    name: 'Platelet Count',
+    unit: '10^9/L',
+    synonyms: [
+      'platelet',
+      'platelets',
+      'platelet count',
+      'thrombocytes',
+      'thrombocyte count',
+      '血小板',
+      '血小板计数',
+      '血小板数',
+      'plaquetas',
+      'thrombozyten',
+    ],
+  },
+  {
+    key: 'mpv',
+    name: 'Mean Platelet Volume',
+    unit: 'fL',
+    synonyms: ['mean platelet volume', '平均血小板体积'],
+  },
+  {
+    key: 'neut_pct',
+    name: 'Neutrophils %',
+    unit: '%',
+    synonyms: [
+      'neut%',
+      'ne%',
+      'neutrophil%',
+      'neutrophils %',
+      'neutrophil percentage',
+      '中性粒细胞百分比',
+      '中性粒细胞%',
+      '中性粒细胞比率',
+    ],
+  },
+  {
+    key: 'neut_abs',
+    name: 'Neutrophils (Absolute)',
+    unit: '10^9/L',
+    synonyms: [
+      'neut#',
+      'ne#',
+      'anc',
+      'neutrophil count',
+      'absolute neutrophil count',
+      'neutrophils absolute',
+      '中性粒细胞计数',
+      '中性粒细胞绝对值',
+      '中性粒细胞数',
+    ],
+  },
+  {
+    key: 'lymph_pct',
+    name: 'Lymphocytes %',
+    unit: '%',
+    synonyms: [
+      'lym%',
+      'lymph%',
+      'ly%',
+      'lymphocyte%',
+      'lymphocytes %',
+      'lymphocyte percentage',
+      '淋巴细胞百分比',
+      '淋巴细胞%',
+      '淋巴细胞比率',
+    ],
+  },
+  {
+    key: 'lymph_abs',
+    name: 'Lymphocytes (Absolute)',
+    unit: '10^9/L',
+    synonyms: [
+      'lym#',
+      'lymph#',
+      'ly#',
+      'lymphocyte count',
+      'absolute lymphocyte count',
+      'lymphocytes absolute',
+      '淋巴细胞计数',
+      '淋巴细胞绝对值',
+      '淋巴细胞数',
+    ],
+  },
+  {
+    key: 'mono_pct',
+    name: 'Monocytes %',
+    unit: '%',
+    synonyms: [
+      'mon%',
+      'mono%',
+      'mo%',
+      'monocyte%',
+      'monocytes %',
+      'monocyte percentage',
+      '单核细胞百分比',
+      '单核细胞%',
+      '单核细胞比率',
+    ],
+  },
+  {
+    key: 'mono_abs',
+    name: 'Monocytes (Absolute)',
+    unit: '10^9/L',
+    synonyms: [
+      'mon#',
+      'mono#',
+      'mo#',
+      'monocyte count',
+      'monocytes absolute',
+      '单核细胞计数',
+      '单核细胞绝对值',
+      '单核细胞数',
+    ],
+  },
+  {
+    key: 'eos_pct',
+    name: 'Eosinophils %',
+    unit: '%',
+    synonyms: [
+      'eos%',
+      'eo%',
+      'eosinophil%',
+      'eosinophils %',
+      'eosinophil percentage',
+      '嗜酸性粒细胞百分比',
+      '嗜酸性粒细胞%',
+      '嗜酸性粒细胞比率',
+    ],
+  },
+  {
+    key: 'eos_abs',
+    name: 'Eosinophils (Absolute)',
+    unit: '10^9/L',
+    synonyms: [
+      'eos#',
+      'eo#',
+      'eosinophil count',
+      'eosinophils absolute',
+      '嗜酸性粒细胞计数',
+      '嗜酸性粒细胞绝对值',
+      '嗜酸性粒细胞数',
+    ],
+  },
+  {
+    key: 'baso_pct',
+    name: 'Basophils %',
+    unit: '%',
+    synonyms: [
+      'bas%',
+      'baso%',
+      'ba%',
+      'basophil%',
+      'basophils %',
+      'basophil percentage',
+      '嗜碱性粒细胞百分比',
+      '嗜碱性粒细胞%',
+      '嗜碱性粒细胞比率',
+    ],
+  },
+  {
+    key: 'baso_abs',
+    name: 'Basophils (Absolute)',
+    unit: '10^9/L',
+    synonyms: [
+      'bas#',
+      'baso#',
+      'ba#',
+      'basophil count',
+      'basophils absolute',
+      '嗜碱性粒细胞计数',
+      '嗜碱性粒细胞绝对值',
+      '嗜碱性粒细胞数',
+    ],
+  },
+
+  // Liver function
+  {
+    key: 'alt',
+    name: 'Alanine Aminotransferase',
+    unit: 'U/L',
+    synonyms: [
+      'sgpt',
+      'gpt',
+      'alat',
+      'alanine aminotransferase',
+      'alanine transaminase',
+      '丙氨酸氨基转移酶',
+      '谷丙转氨酶',
+      '丙氨酸转氨酶',
+    ],
+  },
+  {
+    key: 'ast',
+    name: 'Aspartate Aminotransferase',
+    unit: 'U/L',
+    synonyms: [
+      'sgot',
+      'got',
+      'asat',
+      'aspartate aminotransferase',
+      'aspartate transaminase',
+      '天门冬氨酸氨基转移酶',
+      '天冬氨酸氨基转移酶',
+      '谷草转氨酶',
+    ],
+  },
+  {
+    key: 'ggt',
+    name: 'Gamma-Glutamyl Transferase',
+    unit: 'U/L',
+    synonyms: [
+      'gamma gt',
+      'γ-gt',
+      'γgt',
+      'gamma-glutamyl transferase',
+      'gamma glutamyl transpeptidase',
+      'γ-谷氨酰转移酶',
+      'γ-谷氨酰转肽酶',
+      '谷氨酰转肽酶',
+      '谷氨酰转移酶',
+    ],
+  },
+  {
+    key: 'alp',
+    name: 'Alkaline Phosphatase',
+    unit: 'U/L',
+    synonyms: ['akp', 'alkaline phosphatase', '碱性磷酸酶'],
+  },
+  {
+    key: 'total_bilirubin',
+    name: 'Total Bilirubin',
+    unit: 'µmol/L',
+    synonyms: ['tbil', 't-bil', 'bilirubin', 'bilirubin total', 'total bilirubin', '总胆红素'],
+  },
+  {
+    key: 'direct_bilirubin',
+    name: 'Direct Bilirubin',
+    unit: 'µmol/L',
+    synonyms: [
+      'dbil',
+      'd-bil',
+      'bilirubin direct',
+      'conjugated bilirubin',
+      '直接胆红素',
+      '结合胆红素',
+    ],
+  },
+  {
+    key: 'indirect_bilirubin',
+    name: 'Indirect Bilirubin',
+    unit: 'µmol/L',
+    synonyms: [
+      'ibil',
+      'i-bil',
+      'bilirubin indirect',
+      'unconjugated bilirubin',
+      '间接胆红素',
+      '非结合胆红素',
+    ],
+  },
+  {
+    key: 'total_protein',
+    name: 'Total Protein',
+    unit: 'g/L',
+    synonyms: ['tp', 'protein total', 'total protein', '总蛋白', '血清总蛋白'],
+  },
+  {
+    key: 'albumin',
+    name: 'Albumin',
+    unit: 'g/L',
+    synonyms: ['alb', 'serum albumin', '白蛋白', '血清白蛋白', 'アルブミン'],
+  },
+  {
+    key: 'globulin',
+    name: 'Globulin',
+    unit: 'g/L',
+    synonyms: ['glb', 'glob', '球蛋白'],
+  },
+
+  // Kidney function
+  {
+    key: 'creatinine',
+    name: 'Creatinine',
+    unit: 'µmol/L',
+    synonyms: [
+      'cr',
+      'crea',
+      'scr',
+      'serum creatinine',
+      '肌酐',
+      '血肌酐',
+      'クレアチニン',
+      'creatinina',
+      'kreatinin',
+      'créatinine',
+    ],
+  },
+  {
+    key: 'bun',
+    name: 'Blood Urea Nitrogen',
+    unit: 'mmol/L',
+    synonyms: ['blood urea nitrogen', 'urea nitrogen', '尿素氮', '血尿素氮'],
+  },
+  {
+    key: 'urea',
+    name: 'Urea',
+    unit: 'mmol/L',
+    synonyms: ['serum urea', '尿素', '血清尿素'],
+  },
+  {
+    key: 'uric_acid',
+    name: 'Uric Acid',
+    unit: 'µmol/L',
+    synonyms: ['ua', 'urate', 'serum uric acid', '尿酸', '血尿酸', '尿酸值'],
+  },
+  {
+    key: 'egfr',
+    name: 'Estimated Glomerular Filtration Rate',
+    unit: 'mL/min/1.73m²',
+    synonyms: [
+      'gfr',
+      'estimated gfr',
+      'glomerular filtration rate',
+      '肾小球滤过率',
+      '估算肾小球滤过率',
+    ],
+  },
+  {
+    key: 'cystatin_c',
+    name: 'Cystatin C',
+    unit: 'mg/L',
+    synonyms: ['cys-c', 'cysc', '胱抑素c', '血清胱抑素c'],
+  },
+
+  // Lipid panel
+  {
+    key: 'total_cholesterol',
+    name: 'Total Cholesterol',
+    unit: 'mmol/L',
+    synonyms: [
+      'tc',
+      'chol',
+      'cholesterol',
+      'cholesterol total',
+      '总胆固醇',
+      '胆固醇',
+      '総コレステロール',
+      'colesterol total',
+    ],
+  },
+  {
+    key: 'ldl_c',
+    name: 'LDL Cholesterol',
+    unit: 'mmol/L',
+    synonyms: [
+      'ldl',
+      'ldl-c',
+      'ldl cholesterol',
+      'low density lipoprotein',
+      'low-density lipoprotein cholesterol',
+      '低密度脂蛋白',
+      '低密度脂蛋白胆固醇',
+      'ldlコレステロール',
+    ],
+  },
+  {
+    key: 'hdl_c',
+    name: 'HDL Cholesterol',
+    unit: 'mmol/L',
+    synonyms: [
+      'hdl',
+      'hdl-c',
+      'hdl cholesterol',
+      'high density lipoprotein',
+      'high-density lipoprotein cholesterol',
+      '高密度脂蛋白',
+      '高密度脂蛋白胆固醇',
+      'hdlコレステロール',
+    ],
+  },
+  {
+    key: 'triglycerides',
+    name: 'Triglycerides',
+    unit: 'mmol/L',
+    synonyms: ['tg', 'trig', 'triglyceride', '甘油三酯', '三酰甘油', '中性脂肪', 'triglicéridos'],
+  },
+
+  // Blood sugar
+  {
+    key: 'glucose',
+    name: 'Blood Glucose',
+    unit: 'mmol/L',
+    synonyms: ['glu', 'blood glucose', 'blood sugar', '血糖', '葡萄糖', '血糖值', 'glucosa'],
+  },
+  {
+    key: 'glucose_fasting',
+    name: 'Fasting Glucose',
+    unit: 'mmol/L',
+    synonyms: [
+      'fbg',
+      'fpg',
+      'fbs',
+      'fasting glucose',
+      'fasting blood glucose',
+      'fasting plasma glucose',
+      'fasting blood sugar',
+      '空腹血糖',
+      '空腹葡萄糖',
+      '空腹時血糖',
+    ],
+  },
+  {
+    key: 'hba1c',
+    name: 'Hemoglobin A1c',
+    unit: '%',
+    synonyms: [
+      'a1c',
+      'hb a1c',
+      'glycated hemoglobin',
+      'glycosylated hemoglobin',
+      'ghb',
+      '糖化血红蛋白',
+      '糖化血色素',
+    ],
+  },
+
+  // Thyroid
+  {
+    key: 'tsh',
+    name: 'Thyroid Stimulating Hormone',
+    unit: 'mIU/L',
+    synonyms: ['thyrotropin', 'thyroid stimulating hormone', '促甲状腺激素', '促甲状腺素'],
+  },
+  {
+    key: 'ft3',
+    name: 'Free T3',
+    unit: 'pmol/L',
+    synonyms: ['free t3', 'free triiodothyronine', '游离三碘甲状腺原氨酸', '游离t3'],
+  },
+  {
+    key: 'ft4',
+    name: 'Free T4',
+    unit: 'pmol/L',
+    synonyms: ['free t4', 'free thyroxine', '游离甲状腺素', '游离t4'],
+  },
+  {
+    key: 't3',
+    name: 'Total T3',
+    unit: 'nmol/L',
+    synonyms: ['tt3', 'total t3', 'triiodothyronine', '三碘甲状腺原氨酸', '总t3'],
+  },
+  {
+    key: 't4',
+    name: 'Total T4',
+    unit: 'nmol/L',
+    synonyms: ['tt4', 'total t4', 'thyroxine', '甲状腺素', '总t4'],
+  },
+
+  // Urine test
+  {
+    key: 'urine_protein',
+    name: 'Urine Protein',
+    synonyms: ['pro', 'urine protein', 'protein urine', '尿蛋白', '尿蛋白质'],
+  },
+  {
+    key: 'urine_glucose',
+    name: 'Urine Glucose',
+    synonyms: ['urine glucose', 'glucose urine', '尿糖', '尿葡萄糖'],
+  },
+
+  // Inflammation & others
+  {
+    key: 'crp',
+    name: 'C-Reactive Protein',
+    unit: 'mg/L',
+    synonyms: ['c-reactive protein', 'c reactive protein', 'c反应蛋白', 'c-反应蛋白'],
+  },
+  {
+    key: 'ferritin',
+    name: 'Ferritin',
+    unit: 'ng/mL',
+    synonyms: ['serum ferritin', '铁蛋白', '血清铁蛋白'],
+  },
+  {
+    key: 'vitamin_d',
+    name: 'Vitamin D (25-OH)',
+    unit: 'ng/mL',
+    synonyms: [
+      '25-oh vitamin d',
+      '25(oh)d',
+      '25-hydroxyvitamin d',
+      'vit d',
+      '维生素d',
+      '25-羟基维生素d',
+    ],
+  },
+  {
+    key: 'psa',
+    name: 'Prostate-Specific Antigen',
+    unit: 'ng/mL',
+    synonyms: ['prostate specific antigen', 'total psa', '前列腺特异性抗原'],
+  },
+
+  // Vital signs & body measurements
+  {
+    key: 'blood_pressure_systolic',
+    name: 'Systolic Blood Pressure',
+    unit: 'mmHg',
+    synonyms: [
+      'sbp',
+      'systolic',
+      'systolic bp',
+      'systolic pressure',
+      '收缩压',
+      '高压',
+      '収縮期血圧',
+    ],
+  },
+  {
+    key: 'blood_pressure_diastolic',
+    name: 'Diastolic Blood Pressure',
+    unit: 'mmHg',
+    synonyms: [
+      'dbp',
+      'diastolic',
+      'diastolic bp',
+      'diastolic pressure',
+      '舒张压',
+      '低压',
+      '拡張期血圧',
+    ],
+  },
+  {
+    key: 'heart_rate',
+    name: 'Heart Rate',
+    unit: 'bpm',
+    synonyms: ['hr', 'pulse', 'pulse rate', '心率', '脉搏', '脈拍'],
+  },
+  {
+    key: 'weight',
+    name: 'Body Weight',
+    unit: 'kg',
+    synonyms: ['body weight', '体重'],
+  },
+  {
+    key: 'height',
+    name: 'Height',
+    unit: 'cm',
+    synonyms: ['body height', '身高', '身長'],
+  },
+  {
+    key: 'bmi',
+    name: 'Body Mass Index',
+    unit: 'kg/m²',
+    synonyms: ['body mass index', '体重指数', '体质指数'],
+  },
+];
+
+/**
+ * Normalize a key, name or synonym for dictionary lookup
+ * Case, width, whitespace and separators are ignored; "%" and "#" are kept because they
+ * distinguish percentages from absolute counts (e.g., "NEUT%" vs "NEUT#").
+ */
+export function normalizeMetricToken(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s_\-.,:/()[\]]+/g, '');
+}
+
+/**
+ * Lookup table: normalized key/name/synonym → definition
+ */
+const METRIC_INDEX = new Map<string, MetricDefinition>();
+for (const definition of METRIC_DICTIONARY) {
+  for (const token of [definition.key, definition.name, ...definition.synonyms]) {
+    const normalized = normalizeMetricToken(token);
+    if (!METRIC_INDEX.has(normalized)) {
+      METRIC_INDEX.set(normalized, definition);
+    }
+  }
+}
+
+/**
+ * Find the canonical definition for a metric
+ * Candidates (typically key, then name) are tried in order. Names like "谷丙转氨酶(ALT)"
+ * are also tried without, and by, their parenthesized part.
+ */
+export function findMetricDefinition(
+  ...candidates: Array<string | undefined>
+): MetricDefinition | undefined {
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+
+    const variants = [candidate];
+    const parenthesized = /^(.*?)\s*[(（]([^)）]+)[)）]\s*$/.exec(candidate);
+    if (parenthesized) {
+      variants.push(parenthesized[1], parenthesized[2]);
+    }
+
+    for (const variant of variants) {
+      const definition = METRIC_INDEX.get(normalizeMetricToken(variant));
+      if (definition) {
+        return definition;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Format a free-form key as lowercase snake_case (used for metrics outside the dictionary)
+ */
+export function toMetricKey(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}%#]+/gu, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Canonical key of a metric: its dictionary key, or the key reformatted as snake_case
+ */
+function canonicalMetricKey(key: string, name?: string): string {
+  return findMetricDefinition(key, name)?.key ?? (toMetricKey(key) || key);
+}
+
+/**
+ * Map a metric to its canonical key and name
+ * Metrics outside the dictionary keep their name; their key is only reformatted.
+ * @param keyMap - Original → canonical keys of the record's metrics, used for parentKey so a
+ *   parent matched by its name still has its children attached; other parentKeys are mapped
+ *   from the key alone
+ */
+export function canonicalizeMetric<T extends { key: string; name: string; parentKey?: string }>(
+  item: T,
+  keyMap?: ReadonlyMap<string, string>,
+): T {
+  const definition = findMetricDefinition(item.key, item.name);
+  const parentKey = item.parentKey
+    ? (keyMap?.get(item.parentKey) ?? canonicalMetricKey(item.parentKey))
+    : item.parentKey;
+
+  return {
+    ...item,
+    key: definition?.key ?? (toMetricKey(item.key) || item.key),
+    name: definition?.name ?? item.name,
+    parentKey,
+  };
+}
+
+/**
+ * Map the metrics of one record to their canonical keys and names, keeping parentKey
+ * references pointing at their (renamed) parents
+ */
+export function canonicalizeMetrics<T extends { key: string; name: string; parentKey?: string }>(
+  items: T[],
+): T[] {
+  const keyMap = new Map(items.map((item) => [item.key, canonicalMetricKey(item.key, item.name)]));
+  return items.map((item) => canonicalizeMetric(item, keyMap));
+}
@@ -0,0 +1,131 @@
+// ========================================
+// Reference Range Parsing
+// ========================================
+
+/**
+ * ReferenceRange
+ * Structured form of a free-text reference such as "3.5-9.5", "< 200" or "Negative"
+ */
+export interface ReferenceRange {
+  lower: number | null;
+  upper: number | null;
+  /** Whether values equal to a bound are within range ("3.5-9.5", "≤ 5.2") or not ("< 200") */
+  inclusive: boolean;
+  /** Expected qualitative result (e.g., "negative") for non-numeric references */
+  expected: string | null;
+}
+
+const NUMBER = String.raw`[-+]?\d+(?:\.\d+)?`;
+const BETWEEN = new RegExp(String.raw`^(${NUMBER})\s*(?:-|–|—|~|to|至)\s*(${NUMBER})`, 'i');
+const COMPARISON = new RegExp(String.raw`^(<=|>=|<|>|≤|≥)\s*(${NUMBER})`);
+
+/**
+ * Qualitative spellings mapped to a canonical expected value
+ */
+const QUALITATIVE: Record<string, string> = {
+  negative: 'negative',
+  neg: 'negative',
+  '-': 'negative',
+  '(-)': 'negative',
+  阴性: 'negative',
+  'non-reactive': 'negative',
+  nonreactive: 'negative',
+  'not detected': 'negative',
+  未检出: 'negative',
+  positive: 'positive',
+  pos: 'positive',
+  '+': 'positive',
+  '(+)': 'positive',
+  阳性: 'positive',
+  reactive: 'positive',
+  detected: 'positive',
+  检出: 'positive',
+};
+
+/**
+ * Parse a reference string into bounds or an expected qualitative value
+ * @returns null if the reference has no recognizable form (e.g., sex-specific ranges)
+ */
+export function parseReferenceRange(reference: string): ReferenceRange | null {
+  const text = reference
+    .normalize('NFKC')
+    .trim()
+    .replace(/^[([]\s*|\s*[)\]]$/g, '');
+  if (!text) {
+    return null;
+  }
+
+  const between = BETWEEN.exec(text);
+  if (between) {
+    const [a, b] = [parseFloat(between[1]), parseFloat(between[2])];
+    return { lower: Math.min(a, b), upper: Math.max(a, b), inclusive: true, expected: null };
+  }
+
+  const comparison = COMPARISON.exec(text);
+  if (comparison) {
+    const [, operator, number] = comparison;
+    const bound = parseFloat(number);
+    const inclusive =
+      operator === '<=' || operator === '>=' || operator === '≤' || operator === '≥';
+    const isUpper = operator.startsWith('<') || operator === '≤';
+    return {
+      lower: isUpper ? null : bound,
+      upper: isUpper ? bound : null,
+      inclusive,
+      expected: null,
+    };
+  }
+
+  const qualitative = text.toLowerCase();
+  if (/\d/.test(qualitative)) {
+    return null;
+  }
+  return {
+    lower: null,
+    upper: null,
+    inclusive: true,
+    expected: QUALITATIVE[qualitative] ?? qualitative,
+  };
+}
+
+/**
+ * Statuses that describe a value against a numeric reference range
+ * A numeric reference recomputes these; any other status (e.g., "positive", "income", "due")
+ * is kept.
+ */
+export const RANGE_STATUSES = ['normal', 'high', 'low'];
+
+/**
+ * Compute normal/high/low for a numeric value against a parsed range
+ * @returns null when the range has no numeric bounds
+ */
+export function computeRangeStatus(
+  value: number,
+  range: ReferenceRange,
+): 'normal' | 'high' | 'low' | null {
+  if (range.lower === null && range.upper === null) {
+    return null;
+  }
+  if (range.lower !== null && (range.inclusive ? value < range.lower : value <= range.lower)) {
+    return 'low';
+  }
+  if (range.upper !== null && (range.inclusive ? value > range.upper : value >= range.upper)) {
+    return 'high';
+  }
+  return 'normal';
+}
+
+/**
+ * Qualitative result implied by a "normal" status against a qualitative reference
+ * ("normal" with reference "Negative" is a negative result)
+ * @returns null unless the status is "normal" and the reference expects positive or negative
+ */
+export function computeQualitativeStatus(
+  status: string,
+  range: ReferenceRange,
+): 'positive' | 'negative' | null {
+  if (status !== 'normal') {
+    return null;
+  }
+  return range.expected === 'positive' || range.expected === 'negative' ? range.expected : null;
+}
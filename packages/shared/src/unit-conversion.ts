@@ -0,0 +1,195 @@
+// ========================================
+// Unit Conversion
+// ========================================
+
+import { findMetricDefinition } from './metric-dictionary';
+
+/**
+ * UnitAlternative
+ * A unit an analyte may be reported in, and how to convert it to the analyte's
+ * canonical (preferred) unit: canonical = value * factor + offset
+ */
+interface UnitAlternative {
+  units: string[];
+  factor: number;
+  offset?: number;
+}
+
+// Shared groups for analytes reported in the same units
+const CELLS_10_9_PER_L: UnitAlternative[] = [
+  {
+    units: ['10^9/L', 'x10^9/L', 'G/L', '10^3/µL', 'x10^3/µL', 'K/µL', '10^3/mm3', '/nL'],
+    factor: 1,
+  },
+  { units: ['/µL', 'cells/µL', '/mm3'], factor: 0.001 },
+];
+const GRAMS_PER_L: UnitAlternative[] = [{ units: ['g/dL'], factor: 10 }];
+const GLUCOSE: UnitAlternative[] = [{ units: ['mg/dL'], factor: 1 / 18.016 }];
+const CHOLESTEROL: UnitAlternative[] = [{ units: ['mg/dL'], factor: 1 / 38.67 }];
+const BILIRUBIN: UnitAlternative[] = [{ units: ['mg/dL'], factor: 17.1 }];
+
+/**
+ * Conversions to the canonical unit (the dictionary's preferred unit), per canonical key
+ */
+export const UNIT_CONVERSIONS: Record<string, UnitAlternative[]> = {
+  wbc: CELLS_10_9_PER_L,
+  plt: CELLS_10_9_PER_L,
+  neut_abs: CELLS_10_9_PER_L,
+  lymph_abs: CELLS_10_9_PER_L,
+  mono_abs: CELLS_10_9_PER_L,
+  eos_abs: CELLS_10_9_PER_L,
+  baso_abs: CELLS_10_9_PER_L,
+  rbc: [
+    {
+      units: ['10^12/L', 'x10^12/L', 'T/L', '10^6/µL', 'x10^6/µL', 'M/µL', '10^6/mm3', '/pL'],
+      factor: 1,
+    },
+  ],
+  hgb: [
+    { units: ['g/dL'], factor: 10 },
+    { units: ['mmol/L'], factor: 16.114 },
+  ],
+  mchc: GRAMS_PER_L,
+  hct: [{ units: ['L/L'], factor: 100 }],
+  total_protein: GRAMS_PER_L,
+  albumin: GRAMS_PER_L,
+  globulin: GRAMS_PER_L,
+  glucose: GLUCOSE,
+  glucose_fasting: GLUCOSE,
+  hba1c: [{ units: ['mmol/mol'], factor: 0.09148, offset: 2.152 }],
+  total_cholesterol: CHOLESTEROL,
+  ldl_c: CHOLESTEROL,
+  hdl_c: CHOLESTEROL,
+  triglycerides: [{ units: ['mg/dL'], factor: 1 / 88.57 }],
+  creatinine: [
+    { units: ['mg/dL'], factor: 88.42 },
+    { units: ['mg/L'], factor: 8.842 },
+    { units: ['mmol/L'], factor: 1000 },
+  ],
+  uric_acid: [
+    { units: ['mg/dL'], factor: 59.48 },
+    { units: ['mmol/L'], factor: 1000 },
+  ],
+  bun: [{ units: ['mg/dL'], factor: 0.357 }],
+  urea: [{ units: ['mg/dL'], factor: 0.1665 }],
+  total_bilirubin: BILIRUBIN,
+  direct_bilirubin: BILIRUBIN,
+  indirect_bilirubin: BILIRUBIN,
+  tsh: [{ units: ['µIU/mL', 'mU/L', 'uIU/mL'], factor: 1 }],
+  ft3: [{ units: ['pg/mL'], factor: 1.536 }],
+  ft4: [{ units: ['ng/dL'], factor: 12.87 }],
+  t3: [
+    { units: ['ng/dL'], factor: 0.01536 },
+    { units: ['ng/mL'], factor: 1.536 },
+  ],
+  t4: [{ units: ['µg/dL'], factor: 12.87 }],
+  crp: [{ units: ['mg/dL'], factor: 10 }],
+  ferritin: [{ units: ['µg/L'], factor: 1 }],
+  vitamin_d: [{ units: ['nmol/L'], factor: 1 / 2.496 }],
+  blood_pressure_systolic: [{ units: ['kPa'], factor: 7.50062 }],
+  blood_pressure_diastolic: [{ units: ['kPa'], factor: 7.50062 }],
+  weight: [
+    { units: ['lb', 'lbs', 'pound', 'pounds'], factor: 0.45359237 },
+    { units: ['g'], factor: 0.001 },
+    { units: ['斤'], factor: 0.5 },
+  ],
+  height: [
+    { units: ['m'], factor: 100 },
+    { units: ['mm'], factor: 0.1 },
+    { units: ['in', 'inch', 'inches'], factor: 2.54 },
+  ],
+};
+
+/**
+ * Significant digits kept for converted values
+ */
+const PRECISION = 4;
+
+/**
+ * Normalize a unit string for comparison ("μmol/l" ≈ "µmol/L", "×10⁹/L" ≈ "10^9/L")
+ */
+export function normalizeUnit(unit: string): string {
+  return unit
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[μµ]/g, 'u')
+    .replace(/[\s^*]+/g, '')
+    .replace(/^[x×]/, '');
+}
+
+/**
+ * Canonical unit of a metric (from the metric dictionary), if it has one
+ */
+export function getCanonicalUnit(key: string): string | undefined {
+  return findMetricDefinition(key)?.unit;
+}
+
+/**
+ * Find how a unit converts to the canonical unit of a metric
+ * @returns factor/offset to the canonical unit, or null if the unit is unknown for this metric
+ */
+function findConversion(key: string, unit: string): { factor: number; offset: number } | null {
+  const definition = findMetricDefinition(key);
+  if (!definition?.unit) {
+    return null;
+  }
+
+  const normalized = normalizeUnit(unit);
+  if (normalized === normalizeUnit(definition.unit)) {
+    return { factor: 1, offset: 0 };
+  }
+
+  const alternative = UNIT_CONVERSIONS[definition.key]?.find((alt) =>
+    alt.units.some((u) => normalizeUnit(u) === normalized),
+  );
+  return alternative ? { factor: alternative.factor, offset: alternative.offset ?? 0 } : null;
+}
+
+/**
+ * Convert a metric value between units
+ * @param toUnit - Target unit; defaults to the metric's canonical unit
+ * @returns The converted value and target unit, or null if either unit is unknown for this metric
+ */
+export function convertMetricValue(
+  key: string,
+  value: number,
+  fromUnit: string | null | undefined,
+  toUnit?: string,
+): { value: number; unit: string } | null {
+  const targetUnit = toUnit ?? getCanonicalUnit(key);
+  if (!fromUnit || !targetUnit) {
+    return null;
+  }
+  if (normalizeUnit(fromUnit) === normalizeUnit(targetUnit)) {
+    return { value, unit: targetUnit };
+  }
+
+  const from = findConversion(key, fromUnit);
+  const to = findConversion(key, targetUnit);
+  if (!from || !to) {
+    return null;
+  }
+
+  const canonical = value * from.factor + from.offset;
+  const converted = (canonical - to.offset) / to.factor;
+  return { value: Number(converted.toPrecision(PRECISION)), unit: targetUnit };
+}
+
+/**
+ * Convert the numbers of a plain numeric reference range ("70-100", "<5.2", "≥ 40")
+ * References with any other text are returned unchanged, since they may name their own units.
+ */
+export function convertReferenceRange(
+  key: string,
+  reference: string,
+  fromUnit: string | null | undefined,
+  toUnit?: string,
+): string {
+  if (!/^[\d.\s<>≤≥=~\-–]+$/.test(reference)) {
+    return reference;
+  }
+  return reference.replace(/\d+(?:\.\d+)?/g, (number) => {
+    const converted = convertMetricValue(key, parseFloat(number), fromUnit, toUnit);
+    return converted ? String(converted.value) : number;
+  });
+}